@@ -0,0 +1,217 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Audit trail
+//
+// Reads every <book>.YYYYMMDDHHMMSS.log file (ours and GnuCash's own) back
+// into per-transaction history entries. Each START/END block records one
+// commit: 'N' rows are a created transaction, 'D' rows a deleted one, and
+// 'B'/'C' rows the state before and after an edit — one row per split, with
+// the transaction's fields repeated on each row:
+//   mod  trans_guid  split_guid  time_now  date_entered  date_posted
+//   acc_guid  acc_name  num  description  notes  memo  action
+//   reconciled  amount  value  date_reconciled
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
+function escapeRegExp(str) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** "20260219210745" → "2026-02-19T21:07:45Z" */
+function stampToIso(stamp) {
+  return `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(8, 10)}:${stamp.slice(10, 12)}:${stamp.slice(12, 14)}Z`;
+}
+
+/** "-1234/100" → -12.34 */
+function parseFraction(str) {
+  const [num, den] = String(str || '0').split('/').map(Number);
+  return den ? num / den : num || 0;
+}
+
+/** "2026-02-19 10:59:00 +0000" → "2026-02-19"; GnuCash writes 1970-01-01 for "never" */
+function logDate(str) {
+  const date = String(str || '').slice(0, 10);
+  return date && !date.startsWith('1970-01-01') ? date : null;
+}
+
+/** A transaction as one block's rows describe it */
+function rowsToTransaction(rows) {
+  const [first] = rows;
+  return {
+    id: first[1],
+    num: first[8] ?? '',
+    description: first[9] ?? '',
+    notes: first[10] ?? '',
+    datePosted: logDate(first[5]) ?? '',
+    dateEntered: logDate(first[4]),
+    splits: rows.map((cols) => ({
+      id: cols[2],
+      accountId: cols[6],
+      accountName: cols[7] ?? '',
+      memo: cols[11] ?? '',
+      action: cols[12] ?? '',
+      reconciledState: cols[13] || 'n',
+      quantity: parseFraction(cols[14]),
+      value: parseFraction(cols[15]),
+      reconcileDate: logDate(cols[16]),
+    })),
+  };
+}
+
+const TXN_FIELDS = [
+  ['description', 'description'],
+  ['date', 'datePosted'],
+  ['num', 'num'],
+  ['notes', 'notes'],
+];
+
+/** Splits keyed by id; rows logged without a split id are matched by position */
+function splitsByKey(txn) {
+  return new Map(txn.splits.map((s, i) => [s.id || `#${i}`, s]));
+}
+
+/** Field-by-field differences between the before and after state of an edit */
+function describeChanges(before, after) {
+  const changes = [];
+  for (const [field, key] of TXN_FIELDS) {
+    if (before[key] !== after[key]) changes.push({ field, before: before[key], after: after[key] });
+  }
+  const beforeSplits = splitsByKey(before);
+  const afterSplits = splitsByKey(after);
+  for (const [key, s] of beforeSplits) {
+    if (!afterSplits.has(key)) changes.push({ field: 'split', splitId: s.id, before: s.accountName, after: null, value: s.value });
+  }
+  for (const [key, s] of afterSplits) {
+    const b = beforeSplits.get(key);
+    if (!b) {
+      changes.push({ field: 'split', splitId: s.id, before: null, after: s.accountName, value: s.value });
+      continue;
+    }
+    const on = { splitId: s.id, account: s.accountName };
+    if (b.accountId !== s.accountId) {
+      changes.push({
+        field: 'account', ...on, before: b.accountName, after: s.accountName,
+        beforeId: b.accountId, afterId: s.accountId, value: b.value,
+      });
+    }
+    if (b.value !== s.value) changes.push({ field: 'amount', ...on, before: b.value, after: s.value });
+    if (b.memo !== s.memo) changes.push({ field: 'memo', ...on, before: b.memo, after: s.memo });
+    if (b.reconciledState !== s.reconciledState) {
+      changes.push({ field: 'reconciled', ...on, before: b.reconciledState, after: s.reconciledState });
+    }
+  }
+  return changes;
+}
+
+function blockEntries(rows, { stamp, changedAt, logFile, block }) {
+  const byTxn = new Map();
+  for (const cols of rows) {
+    if (!byTxn.has(cols[1])) byTxn.set(cols[1], { before: [], after: [] });
+    byTxn.get(cols[1])[cols[0] === 'B' || cols[0] === 'D' ? 'before' : 'after'].push(cols);
+  }
+  return [...byTxn].map(([transactionId, { before: b, after: a }]) => {
+    const before = b.length ? rowsToTransaction(b) : null;
+    const after = a.length ? rowsToTransaction(a) : null;
+    const shown = after ?? before;
+    return {
+      id: `${stamp}.${block}.${transactionId}`,
+      changedAt,
+      logFile,
+      transactionId,
+      action: !before ? 'create' : !after ? 'delete' : 'update',
+      description: shown.description,
+      datePosted: shown.datePosted,
+      accountIds: [...new Set([...(before?.splits ?? []), ...(after?.splits ?? [])].map((s) => s.accountId))],
+      changes: before && after ? describeChanges(before, after) : [],
+      before,
+      after,
+    };
+  });
+}
+
+/**
+ * Every transaction change recorded in the book's log files, newest first.
+ * Edits that rewrote a transaction without changing it (no field differs)
+ * are left out.
+ */
+export function readAuditLog(file) {
+  const dir = path.dirname(file);
+  const pattern = new RegExp(`^${escapeRegExp(path.basename(file))}\\.(\\d{14})\\.log$`);
+  const entries = [];
+
+  const logFiles = readdirSync(dir).filter((f) => pattern.test(f)).sort();
+  for (const logFile of logFiles) {
+    const stamp = logFile.match(pattern)[1];
+    const changedAt = stampToIso(stamp);
+    let rows = null;
+    let block = 0;
+    for (const line of readFileSync(path.join(dir, logFile), 'utf-8').split('\n')) {
+      if (line.startsWith('===== START')) {
+        rows = [];
+      } else if (line.startsWith('===== END')) {
+        if (rows?.length) entries.push(...blockEntries(rows, { stamp, changedAt, logFile, block: block++ }));
+        rows = null;
+      } else if (rows) {
+        const cols = line.replace(/\r$/, '').split('\t');
+        if (cols.length >= 16 && ['N', 'D', 'B', 'C'].includes(cols[0]) && cols[1]) rows.push(cols);
+      }
+    }
+  }
+
+  return entries
+    .filter((e) => e.action !== 'update' || e.changes.length)
+    .reverse();
+}
+
+/**
+ * The transaction operation that puts `entry.transactionId` back the way it
+ * was before the logged change, against the current store:
+ *   created → delete it, deleted → recreate it, edited → restore the old
+ *   fields and splits (recreating it if it has since been deleted).
+ * Returns `{ op }` in saveTransactions' format, or `{ error }`.
+ */
+export function revertOperation(entry, data) {
+  const current = data.transactions.find((t) => t.id === entry.transactionId) ?? null;
+
+  if (entry.action === 'create') {
+    if (!current) return { error: 'The transaction has already been deleted' };
+    return { op: { action: 'delete', before: current, after: null } };
+  }
+  if (entry.action === 'delete' && current) return { error: 'The transaction exists again' };
+
+  const accountsById = new Map(data.accounts.map((a) => [a.id, a]));
+  const missing = entry.before.splits.find((s) => !accountsById.has(s.accountId));
+  if (missing) return { error: `Account "${missing.accountName}" no longer exists` };
+
+  const currentSplits = new Map(current?.splits.map((s) => [s.id, s]) ?? []);
+  const splits = entry.before.splits.map(({ accountName: _, ...s }) => ({
+    onlineId: null,
+    ...currentSplits.get(s.id),
+    ...s,
+  }));
+  const { num, description, notes, datePosted } = entry.before;
+
+  if (current) {
+    return { op: { action: 'update', before: current, after: { ...current, num, description, notes, datePosted, splits } } };
+  }
+  // The log doesn't record the currency: use the first currency account's, as GnuCash defaults to
+  const currencyAccount = splits.map((s) => accountsById.get(s.accountId)).find((a) => a.commoditySpace === 'CURRENCY');
+  return {
+    op: {
+      action: 'create',
+      before: null,
+      after: {
+        id: entry.transactionId,
+        currency: currencyAccount?.commodity ?? data.defaultCurrency,
+        num,
+        description,
+        notes,
+        datePosted,
+        dateEntered: entry.before.dateEntered,
+        scheduledId: null,
+        splits,
+      },
+    },
+  };
+}
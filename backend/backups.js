@@ -0,0 +1,196 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Backups
+//
+// Every save first copies the book to `<file>.YYYYMMDDHHMMSS.gnucash` (UTC),
+// the same naming GnuCash uses, so its own backups show up here too. A
+// retention policy keeps the newest backup per hour, day and month for a
+// while and deletes the rest; it is off until the user turns it on.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { copyFileSync, existsSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import path from 'path';
+import { getBackupPolicyFile } from './config.js';
+
+/** Keep hourly backups for a day, daily ones for a month and monthly ones forever */
+export const DEFAULT_POLICY = { enabled: false, hourly: 24, daily: 30, monthly: null };
+
+const TIERS = [
+  // [policy key, unit, timestamp prefix that identifies the bucket]
+  ['hourly', 'hours', 10],
+  ['daily', 'days', 8],
+  ['monthly', 'months', 6],
+];
+
+function escapeRegExp(str) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function backupPattern(file) {
+  return new RegExp(`^${escapeRegExp(path.basename(file))}\\.(\\d{14})\\.gnucash$`);
+}
+
+/** "20260219210745" → "2026-02-19T21:07:45Z" */
+function stampToIso(stamp) {
+  return `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(8, 10)}:${stamp.slice(10, 12)}:${stamp.slice(12, 14)}Z`;
+}
+
+/** Copy the book to a timestamped backup, then apply the retention policy. Returns the backup's name. */
+export function backupBook(file) {
+  const stamp = new Date().toISOString().replace(/[-T:]/g, '').slice(0, 14);
+  const name = `${path.basename(file)}.${stamp}.gnucash`;
+  copyFileSync(file, path.join(path.dirname(file), name));
+  try {
+    pruneBackups(file);
+  } catch (err) {
+    // A backup we couldn't delete must not fail the save
+    console.error('Backup pruning failed:', err.message);
+  }
+  return name;
+}
+
+/** Backups of `file`, newest first: [{ name, stamp, time, size }] */
+export function listBackups(file) {
+  const dir = path.dirname(file);
+  const pattern = backupPattern(file);
+  return readdirSync(dir)
+    .map((name) => ({ name, match: name.match(pattern) }))
+    .filter(({ match }) => match)
+    .map(({ name, match }) => ({
+      name,
+      stamp: match[1],
+      time: stampToIso(match[1]),
+      size: statSync(path.join(dir, name)).size,
+    }))
+    .sort((a, b) => b.stamp.localeCompare(a.stamp));
+}
+
+/** Full path of a backup of `file`, or null if `name` isn't one (guards against paths) */
+export function backupPath(file, name) {
+  if (!backupPattern(file).test(String(name))) return null;
+  const full = path.join(path.dirname(file), name);
+  return existsSync(full) ? full : null;
+}
+
+// ─── Retention policy ────────────────────────────────────────────────────────
+
+export function readPolicy() {
+  const file = getBackupPolicyFile();
+  if (!existsSync(file)) return { ...DEFAULT_POLICY };
+  return { ...DEFAULT_POLICY, ...JSON.parse(readFileSync(file, 'utf-8')) };
+}
+
+export function writePolicy(policy) {
+  writeFileSync(getBackupPolicyFile(), JSON.stringify(policy, null, 2), 'utf-8');
+}
+
+/**
+ * Validate a policy from the client: { enabled, hourly, daily, monthly },
+ * each tier a whole number of hours / days / months, or null for "forever".
+ * Returns `{ policy }` or `{ error }`.
+ */
+export function normalizePolicy(body) {
+  const policy = { enabled: !!body?.enabled };
+  for (const [key, unit] of TIERS) {
+    const value = body?.[key] ?? null;
+    if (value !== null && !(Number.isInteger(value) && value >= 0)) {
+      return { error: `${key} must be a whole number of ${unit}, or null to keep forever` };
+    }
+    policy[key] = value;
+  }
+  return { policy };
+}
+
+/** The oldest time each tier still covers, or -Infinity when it keeps forever */
+function tierCutoff(key, count, now) {
+  if (count === null) return -Infinity;
+  const d = new Date(now);
+  if (key === 'hourly') d.setUTCHours(d.getUTCHours() - count);
+  else if (key === 'daily') d.setUTCDate(d.getUTCDate() - count);
+  else d.setUTCMonth(d.getUTCMonth() - count);
+  return d.getTime();
+}
+
+/**
+ * Names of the backups the policy keeps: within each tier's window, the
+ * newest backup of every hour / day / month. The newest backup is always kept.
+ * `backups` must be newest first, as listBackups returns them.
+ */
+export function planRetention(backups, policy, now = Date.now()) {
+  const keep = new Set(backups.slice(0, 1).map((b) => b.name));
+  for (const [key, , prefix] of TIERS) {
+    const cutoff = tierCutoff(key, policy[key], now);
+    const seen = new Set();
+    for (const b of backups) {
+      if (Date.parse(b.time) < cutoff) break;
+      const bucket = b.stamp.slice(0, prefix);
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      keep.add(b.name);
+    }
+  }
+  return keep;
+}
+
+/** Delete the backups the policy doesn't keep. Returns their names (none while the policy is off). */
+export function pruneBackups(file, policy = readPolicy()) {
+  if (!policy.enabled) return [];
+  const backups = listBackups(file);
+  const keep = planRetention(backups, policy);
+  const doomed = backups.filter((b) => !keep.has(b.name));
+  for (const b of doomed) rmSync(path.join(path.dirname(file), b.name));
+  return doomed.map((b) => b.name);
+}
+
+// ─── Comparing a backup with the book ────────────────────────────────────────
+
+const MAX_LISTED = 50;
+
+function txnSummary(txn) {
+  const amount = Math.max(0, ...txn.splits.map((s) => Math.abs(s.value)));
+  return { id: txn.id, datePosted: txn.datePosted, description: txn.description, amount, currency: txn.currency };
+}
+
+function diffRecords(before, after) {
+  const beforeById = new Map(before.map((r) => [r.id, r]));
+  const afterById = new Map(after.map((r) => [r.id, r]));
+  return {
+    added: after.filter((r) => !beforeById.has(r.id)),
+    removed: before.filter((r) => !afterById.has(r.id)),
+    changed: after.filter((r) => beforeById.has(r.id)
+      && JSON.stringify(beforeById.get(r.id)) !== JSON.stringify(r)),
+  };
+}
+
+/**
+ * What changed in the book since `snapshot` was taken — i.e. what restoring
+ * it would undo. Both arguments are parsed books. Transactions are listed
+ * (up to MAX_LISTED of each kind, newest first); other records are counted.
+ */
+export function diffBooks(snapshot, current) {
+  const txns = diffRecords(snapshot.transactions, current.transactions);
+  const list = (records) => records
+    .map(txnSummary)
+    .sort((a, b) => b.datePosted.localeCompare(a.datePosted))
+    .slice(0, MAX_LISTED);
+  const count = (key) => {
+    const d = diffRecords(snapshot[key], current[key]);
+    return { added: d.added.length, removed: d.removed.length, changed: d.changed.length };
+  };
+
+  return {
+    transactions: {
+      added: txns.added.length,
+      removed: txns.removed.length,
+      changed: txns.changed.length,
+      // Removed transactions are shown as they were in the backup
+      items: {
+        added: list(txns.added),
+        removed: list(txns.removed),
+        changed: list(txns.changed),
+      },
+    },
+    accounts: count('accounts'),
+    prices: count('prices'),
+    scheduled: count('scheduled'),
+  };
+}
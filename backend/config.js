@@ -78,8 +78,16 @@ export function getProjectionsFile() {
   return path.resolve(__dirname, '../projections.json');
 }
 
+/** Where budgets were kept before they moved into the book; read once to migrate them */
 export function getBudgetFile() {
   const gf = getGnuCashFile();
   if (gf) return gf + '.budget.json';
   return path.resolve(__dirname, '../budget.json');
 }
+
+/** Backup retention policy, kept next to the book like the projections */
+export function getBackupPolicyFile() {
+  const gf = getGnuCashFile();
+  if (gf) return gf + '.backups.json';
+  return path.resolve(__dirname, '../backups.json');
+}
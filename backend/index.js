@@ -1,14 +1,29 @@
 import express from 'express';
 import cors from 'cors';
-import { readFileSync, writeFileSync, existsSync, readdirSync, statSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, readdirSync, statSync, openSync, readSync, closeSync, renameSync } from 'fs';
 import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import multer from 'multer';
-import { parseGnuCash } from './parser.js';
-import { saveTransaction, saveAccount, renameAccount, deleteAccount, invalidateCache } from './serializer.js';
+import { parseGnuCash, parseGnuCashSnapshot } from './parser.js';
+import {
+  saveTransaction, saveTransactions, saveAccount, updateAccount, deleteAccount, mergeAccount, savePrices, saveScheduled, runScheduled,
+  saveBudget, restoreBook, invalidateCache, currencyFraction, readCounts, bookFormat,
+} from './serializer.js';
+import { PERIOD_TYPES, WEEKEND_ADJUSTMENTS, dueDates } from './scheduler.js';
+import { parseTransactionQuery, queryTransactions } from './query.js';
 import { getGnuCashFile, setGnuCashFile, isConfigured, getProjectionsFile, getBudgetFile } from './config.js';
 import { createNewGnuCashFile } from './setup.js';
+import { lockBook, releaseLock, setLockMode, lockStatus, isReadOnly } from './lock.js';
+import { watchBook, onBookChanged } from './watcher.js';
+import { recordEdit, clearHistory, historyStatus, undoEdit, redoEdit } from './journal.js';
+import {
+  listBackups, backupPath, readPolicy, writePolicy, normalizePolicy, planRetention, pruneBackups, diffBooks,
+} from './backups.js';
+import { readAuditLog, revertOperation } from './auditlog.js';
+import { scanBook, planRepair, balanceTransaction } from './integrity.js';
+import { transactionErrors, transactionImbalance, accountErrors } from '../frontend/src/types/validation.js';
+import { budgetAmount, budgetPeriodIndex } from '../frontend/src/types/budget.js';
 import { parseImportFile, parseCsvWithMapping } from './importer.js';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -19,16 +34,29 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+// Large enough for a batch of a few thousand imported transactions
+app.use(express.json({ limit: '10mb' }));
 
 // In-memory store
 let store = null;
+let loading = null;
 
-async function getStore() {
-  if (!store) {
-    store = await parseGnuCash();
-  }
-  return store;
+/** The parsed book; requests that arrive while it loads share the one load */
+function getStore() {
+  if (store) return Promise.resolve(store);
+  loading ??= loadStore().finally(() => { loading = null; });
+  return loading;
+}
+
+async function loadStore() {
+  await lockBook(getGnuCashFile());
+  watchBook(getGnuCashFile());
+  let data = await parseGnuCash();
+  const migrated = await migrateBudgetFile(data)
+    .catch((err) => console.warn('Could not move the budget into the book:', err.message));
+  if (migrated) data = await parseGnuCash();
+  store = data;
+  return data;
 }
 
 function invalidateStore() {
@@ -36,6 +64,86 @@ function invalidateStore() {
   invalidateCache();
 }
 
+/**
+ * Rethrow a failed save's error after dropping the store, which may already
+ * hold records (a new Imbalance account) the book never got
+ */
+function forgetStore(err) {
+  store = null;
+  throw err;
+}
+
+// ─── Change notifications (Server-Sent Events) ───────────────────────────────
+
+const eventClients = new Set();
+
+function broadcast(event, data = {}) {
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const res of eventClients) res.write(message);
+}
+
+/**
+ * Announce a saved change to one kind of record. Events are named after the
+ * kind ('transactions', 'accounts', 'prices', 'scheduled', 'budgets') and carry
+ * `{ created, updated, deleted }`: whole records for transactions, so open
+ * tabs can patch them into their cache, ids for everything else.
+ */
+function notifyChange(kind, { created = [], updated = [], deleted = [] }) {
+  if (created.length || updated.length || deleted.length) broadcast(kind, { created, updated, deleted });
+}
+
+/** Add an edit to the undo history (see journal.js for the step format) and tell open tabs */
+function journal(label, steps) {
+  recordEdit(label, steps);
+  broadcast('history', historyStatus());
+}
+
+/** Announce the records touched by replayed journal steps */
+function notifySteps(steps) {
+  const ids = (list) => list.map((r) => r.id);
+  for (const step of steps) {
+    if (step.accounts) notifySteps(step.accounts.map((c) => ({ kind: 'account', ...c })));
+    const changes = step.ops ?? [step];
+    const created = changes.filter((c) => c.action === 'create').map((c) => c.after);
+    const updated = changes.filter((c) => c.action === 'update').map((c) => c.after);
+    const deleted = changes.filter((c) => c.action === 'delete').map((c) => c.before.id);
+    const kind = {
+      account: 'accounts', transactions: 'transactions', prices: 'prices', scheduled: 'scheduled', budget: 'budgets',
+    }[step.kind];
+    notifyChange(kind, kind === 'transactions'
+      ? { created, updated, deleted }
+      : { created: ids(created), updated: ids(updated), deleted });
+  }
+}
+
+// GET /api/events — stream of change notifications for open browser tabs.
+// Besides the record events above: 'projections' { keys }, and
+// 'book-changed' when the file was saved by another program.
+app.get('/api/events', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+  eventClients.add(res);
+  // Comment lines keep idle connections from being dropped by proxies
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25_000);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    eventClients.delete(res);
+  });
+});
+
+// Someone else (usually GnuCash) saved the book: drop what we hold and tell the browsers
+onBookChanged((file) => {
+  console.log(`${file} changed on disk — reloading`);
+  invalidateStore();
+  clearHistory();
+  broadcast('book-changed');
+  broadcast('history', historyStatus());
+});
+
 function buildAccountMap(accounts) {
   return new Map(accounts.map((a) => [a.id, a]));
 }
@@ -54,26 +162,78 @@ app.post('/api/setup/link', async (req, res) => {
     const { filePath } = req.body;
     if (!filePath) return res.status(400).json({ error: 'filePath is required' });
     if (!existsSync(filePath)) return res.status(400).json({ error: `File not found: ${filePath}` });
+    if (!sniffBookFormat(filePath)) {
+      return res.status(400).json({ error: 'Not a GnuCash book: expected XML (compressed or not) or SQLite' });
+    }
     setGnuCashFile(filePath);
-    store = null;
+    invalidateStore();
+    clearHistory();
     res.json({ ok: true, filePath });
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
 // POST /api/setup/new — create a fresh GnuCash file with starter accounts
 app.post('/api/setup/new', async (req, res) => {
   try {
-    const { filePath } = req.body;
+    const { filePath, currency } = req.body;
     if (!filePath) return res.status(400).json({ error: 'filePath is required' });
     if (existsSync(filePath)) return res.status(400).json({ error: 'File already exists at that path. Choose a different location.' });
-    await createNewGnuCashFile(filePath);
+    if (currency && !/^[A-Z]{3}$/.test(currency)) return res.status(400).json({ error: 'currency must be a 3-letter ISO code' });
+    await createNewGnuCashFile(filePath, currency || 'USD');
     setGnuCashFile(filePath);
-    store = null;
+    invalidateStore();
+    clearHistory();
     res.json({ ok: true, filePath });
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Book lock ────────────────────────────────────────────────────────────────
+
+// Book-changing routes are refused while the book is open read-only
+app.use(['/api/transactions', '/api/accounts', '/api/prices', '/api/scheduled', '/api/history', '/api/backups', '/api/audit-log', '/api/integrity', '/api/budgets'], async (req, res, next) => {
+  if (req.method === 'GET' || !isConfigured()) return next();
+  try {
+    await lockBook(getGnuCashFile());
+  } catch (err) {
+    return res.status(err.status ?? 500).json({ error: err.message });
+  }
+  if (isReadOnly()) {
+    return res.status(423).json({ error: 'The book is open read-only. Close it in GnuCash or take over the lock to make changes.' });
+  }
+  next();
+});
+
+// GET /api/lock — whether this session may write the book, and who holds it if not
+app.get('/api/lock', async (_req, res) => {
+  try {
+    if (isConfigured()) await lockBook(getGnuCashFile());
+    res.json(lockStatus());
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/lock — { mode: 'write' | 'read-only', force? }
+// 'write' takes the lock (force overrides one held by GnuCash); 'read-only'
+// gives ours up so the book can be opened elsewhere.
+app.post('/api/lock', async (req, res) => {
+  try {
+    const { mode, force } = req.body;
+    if (mode !== 'write' && mode !== 'read-only') {
+      return res.status(400).json({ error: "mode must be 'write' or 'read-only'" });
+    }
+    if (!isConfigured()) return res.status(400).json({ error: 'No GnuCash file is configured' });
+    await lockBook(getGnuCashFile());
+    await setLockMode(mode, !!force);
+    // Whoever held the lock may have changed the file
+    if (mode === 'write' && !isReadOnly()) invalidateStore();
+    res.json(lockStatus());
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -91,6 +251,20 @@ function isDir(fullPath) {
   try { return statSync(fullPath).isDirectory(); } catch { return false; }
 }
 
+// Helper: a file's book format from its first bytes (see bookFormat), or null
+function sniffBookFormat(fullPath) {
+  let fd;
+  try {
+    fd = openSync(fullPath, 'r');
+    const header = Buffer.alloc(64);
+    return bookFormat(header.subarray(0, readSync(fd, header, 0, header.length, 0)));
+  } catch {
+    return null;
+  } finally {
+    if (fd !== undefined) closeSync(fd);
+  }
+}
+
 // GET /api/fs/list?path=/some/dir — lists files and subdirectories
 app.get('/api/fs/list', (req, res) => {
   try {
@@ -116,7 +290,8 @@ app.get('/api/fs/list', (req, res) => {
       const isGnuCash  = name.endsWith('.gnucash');
 
       if (!entryIsDir && !isGnuCash) continue; // only show dirs + .gnucash files
-      entries.push({ name, isDir: entryIsDir, isGnuCash });
+      const format = isGnuCash && !entryIsDir ? sniffBookFormat(fullPath) : null;
+      entries.push({ name, isDir: entryIsDir, isGnuCash, format });
     }
 
     entries.sort((a, b) => {
@@ -131,7 +306,7 @@ app.get('/api/fs/list', (req, res) => {
 
     res.json({ path: resolved, parent, entries });
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -144,7 +319,7 @@ app.get('/api/data', async (req, res) => {
     res.json(data);
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -154,34 +329,51 @@ app.get('/api/accounts', async (req, res) => {
     const { accounts } = await getStore();
     res.json(accounts);
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
 // POST /api/accounts - create a new account
 app.post('/api/accounts', async (req, res) => {
   try {
-    const { name, type, parentId, description, placeholder } = req.body;
+    const { name, type, parentId, code, description, notes, placeholder, commodity, commoditySpace } = req.body;
     if (!name || !type) return res.status(400).json({ error: 'name and type are required' });
 
+    const data = await getStore();
+    const space = commoditySpace || 'CURRENCY';
+    const commodityId = commodity || data.defaultCurrency;
+    const known = data.commodities.find((c) => c.space === space && c.id === commodityId);
+    if (space !== 'CURRENCY' && !known) {
+      return res.status(400).json({ error: `Unknown commodity ${space}:${commodityId}` });
+    }
+
     const account = {
       id:          uuidv4().replace(/-/g, ''),
       name,
       type,
-      parentId:    parentId || null,
+      commodity:      commodityId,
+      commoditySpace: space,
+      commodityScu:   known?.fraction ?? currencyFraction(commodityId),
+      parentId:    parentId || data.accounts.find((a) => a.type === 'ROOT')?.id || null,
+      code:        code || '',
       description: description || '',
+      notes:       notes || '',
       placeholder: !!placeholder,
       hidden:      false,
     };
+    const errors = accountErrors(account, data.accounts);
+    if (errors.length) return res.status(400).json({ error: errors.join('; ') });
 
     await saveAccount(account);
 
     // Update in-memory store
     store = null; // invalidate so next getStore() re-parses
+    notifyChange('accounts', { created: [account.id] });
+    journal(`Add account "${account.name}"`, [{ kind: 'account', action: 'create', before: null, after: account }]);
     res.status(201).json(account);
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -189,8 +381,16 @@ app.post('/api/accounts', async (req, res) => {
 app.delete('/api/accounts/:id', async (req, res) => {
   try {
     const data = await getStore();
+    const scheduled = data.scheduled.find((sx) =>
+      sx.templates.some((t) => t.splits.some((s) => s.accountId === req.params.id)));
+    if (scheduled) {
+      return res.status(400).json({ error: `Account is used by the scheduled transaction "${scheduled.name}"` });
+    }
+    const before = data.accounts.find((a) => a.id === req.params.id);
     await deleteAccount(req.params.id, data.transactions);
     store = null;
+    notifyChange('accounts', { deleted: [req.params.id] });
+    if (before) journal(`Delete account "${before.name}"`, [{ kind: 'account', action: 'delete', before, after: null }]);
     res.json({ deleted: req.params.id });
   } catch (err) {
     console.error(err);
@@ -198,70 +398,151 @@ app.delete('/api/accounts/:id', async (req, res) => {
   }
 });
 
-// PUT /api/accounts/:id - rename an account
+// Account properties a PUT may change; the commodity stays as it was
+const ACCOUNT_EDIT_FIELDS = ['name', 'type', 'parentId', 'code', 'description', 'notes', 'placeholder', 'hidden'];
+
+// PUT /api/accounts/:id - change any of ACCOUNT_EDIT_FIELDS; the rest keep their values.
+// parentId null moves the account to the top level.
 app.put('/api/accounts/:id', async (req, res) => {
   try {
-    const { name } = req.body;
-    if (!name?.trim()) return res.status(400).json({ error: 'name is required' });
-    await renameAccount(req.params.id, name.trim());
+    const data = await getStore();
+    const before = data.accounts.find((a) => a.id === req.params.id);
+    if (!before) return res.status(404).json({ error: 'Not found' });
+    if (before.type === 'ROOT') return res.status(400).json({ error: "The root account can't be edited" });
+
+    const after = { ...before };
+    for (const key of ACCOUNT_EDIT_FIELDS) {
+      if (req.body[key] !== undefined) after[key] = req.body[key];
+    }
+    if (typeof after.name === 'string') after.name = after.name.trim();
+    if (after.parentId === null) after.parentId = data.accounts.find((a) => a.type === 'ROOT')?.id ?? null;
+    const errors = accountErrors(after, data.accounts);
+    if (errors.length) return res.status(400).json({ error: errors.join('; ') });
+
+    await updateAccount(before, after);
     store = null;
-    res.json({ id: req.params.id, name: name.trim() });
+    notifyChange('accounts', { updated: [req.params.id] });
+    const renameOnly = ACCOUNT_EDIT_FIELDS.every((key) => key === 'name' || after[key] === before[key]);
+    journal(renameOnly
+      ? `Rename account "${before.name}" to "${after.name}"`
+      : `Edit account "${after.name}"`,
+    [{ kind: 'account', action: 'update', before, after }]);
+    res.json(after);
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
-// GET /api/transactions - all transactions (optionally filter by accountId)
+// GET /api/transactions - filtered, sorted, paginated transactions.
+// See parseTransactionQuery for the parameters; pass `nextCursor` back as
+// `cursor` for the following page.
 app.get('/api/transactions', async (req, res) => {
   try {
-    const { transactions } = await getStore();
-    const { accountId } = req.query;
-    if (accountId) {
-      const filtered = transactions.filter((t) =>
-        t.splits.some((s) => s.accountId === accountId)
-      );
-      res.json(filtered);
-    } else {
-      res.json(transactions);
-    }
+    const data = await getStore();
+    const { query, error } = parseTransactionQuery(req.query, data.accounts);
+    if (error) return res.status(400).json({ error });
+    res.json(queryTransactions(data, query));
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
-// POST /api/transactions - create
+// ─── Transaction validation ──────────────────────────────────────────────────
+
+/**
+ * Normalise a transaction from a request body (merged over `existing` for
+ * edits) and check it with the shared rules in frontend/src/types/validation.js.
+ * Missing split ids are generated. With `autoBalance`, an unbalanced
+ * transaction is accepted and `imbalance` is the amount still to post.
+ * Returns `{ txn, imbalance }` or `{ error }` (the message is sent back as a 400).
+ */
+function normalizeTransaction(body, data, existing = null, { autoBalance = false } = {}) {
+  if (!body || typeof body !== 'object') return { error: 'The transaction must be an object' };
+  const merged = { ...existing, ...body };
+  const txn = {
+    ...merged,
+    id:          merged.id || newGuid(),
+    currency:    merged.currency || data.defaultCurrency,
+    num:         merged.num ?? '',
+    notes:       merged.notes ?? '',
+    dateEntered: existing?.dateEntered || new Date().toISOString().slice(0, 10),
+    splits: Array.isArray(merged.splits)
+      ? merged.splits.map((s) => (s && typeof s === 'object'
+        ? {
+          reconciledState: 'n',
+          reconcileDate:   null,
+          memo:            '',
+          action:          '',
+          onlineId:        null,
+          ...s,
+          id: s.id || newGuid(),
+        }
+        : s))
+      : merged.splits,
+  };
+  const errors = transactionErrors(txn, data.accounts, { allowImbalance: autoBalance });
+  if (errors.length) return { error: errors.join('; ') };
+  return { txn, imbalance: transactionImbalance(txn) };
+}
+
+/** A transactions journal step that also creates the Imbalance accounts it needed, if any */
+function withImbalanceAccounts(step, accounts) {
+  return accounts.length
+    ? { ...step, accounts: accounts.map((after) => ({ action: 'create', before: null, after })) }
+    : step;
+}
+
+// POST /api/transactions - create. `?autoBalance=true` posts any imbalance
+// to Imbalance-<currency> instead of rejecting the transaction.
 app.post('/api/transactions', async (req, res) => {
   try {
     const data = await getStore();
-    const txn = {
-      ...req.body,
-      id: req.body.id || uuidv4().replace(/-/g, ''),
-      dateEntered: new Date().toISOString().slice(0, 10),
-    };
+    const autoBalance = req.query.autoBalance === 'true';
+    const { txn, imbalance, error } = normalizeTransaction(req.body, data, null, { autoBalance });
+    if (error) return res.status(400).json({ error });
+    if (data.transactions.some((t) => t.id === txn.id)) {
+      return res.status(400).json({ error: `Transaction ${txn.id} already exists` });
+    }
+    const account = imbalance ? balanceTransaction(txn, imbalance, data) : null;
+    const step = withImbalanceAccounts({ kind: 'transactions', ops: [{ action: 'create', before: null, after: txn }] }, account ? [account] : []);
+    await saveTransactions(step.ops, buildAccountMap(data.accounts), { accounts: step.accounts })
+      .catch(forgetStore);
     data.transactions.push(txn);
-    await saveTransaction(txn, 'create', null, buildAccountMap(data.accounts));
+    if (account) notifyChange('accounts', { created: [account.id] });
+    notifyChange('transactions', { created: [txn] });
+    journal(`Add transaction "${txn.description}"`, [step]);
     res.json(txn);
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
-// PUT /api/transactions/:id - update
+// PUT /api/transactions/:id - update. Accepts `?autoBalance=true` like POST.
 app.put('/api/transactions/:id', async (req, res) => {
   try {
     const data = await getStore();
     const idx = data.transactions.findIndex((t) => t.id === req.params.id);
     if (idx === -1) return res.status(404).json({ error: 'Not found' });
     const txnBefore = data.transactions[idx];
-    const txnAfter = { ...txnBefore, ...req.body, id: req.params.id };
+    const autoBalance = req.query.autoBalance === 'true';
+    const { txn: txnAfter, imbalance, error } = normalizeTransaction(
+      { ...req.body, id: req.params.id }, data, txnBefore, { autoBalance }
+    );
+    if (error) return res.status(400).json({ error });
+    const account = imbalance ? balanceTransaction(txnAfter, imbalance, data) : null;
+    const step = withImbalanceAccounts({ kind: 'transactions', ops: [{ action: 'update', before: txnBefore, after: txnAfter }] }, account ? [account] : []);
+    await saveTransactions(step.ops, buildAccountMap(data.accounts), { accounts: step.accounts })
+      .catch(forgetStore);
     data.transactions[idx] = txnAfter;
-    await saveTransaction(txnAfter, 'update', txnBefore, buildAccountMap(data.accounts));
+    if (account) notifyChange('accounts', { created: [account.id] });
+    notifyChange('transactions', { updated: [txnAfter] });
+    journal(`Edit transaction "${txnAfter.description}"`, [step]);
     res.json(txnAfter);
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -273,10 +554,960 @@ app.delete('/api/transactions/:id', async (req, res) => {
     if (idx === -1) return res.status(404).json({ error: 'Not found' });
     const [txn] = data.transactions.splice(idx, 1);
     await saveTransaction(txn, 'delete', txn, buildAccountMap(data.accounts));
+    notifyChange('transactions', { deleted: [txn.id] });
+    journal(`Delete transaction "${txn.description}"`, [{ kind: 'transactions', ops: [{ action: 'delete', before: txn, after: null }] }]);
     res.json({ ok: true });
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/transactions/batch - apply creates, updates and deletes as one
+// change: a single backup, a single write and one .log file.
+// Body: { create: [txn], update: [{ id, ...fields }], delete: [id], label? }
+// Either every operation is applied or none is. `label` names the change in
+// the undo history (e.g. "Import 12 transactions"). Every created or updated
+// transaction is validated; `?autoBalance=true` works as for POST.
+app.post('/api/transactions/batch', async (req, res) => {
+  try {
+    const { create = [], update = [], delete: remove = [] } = req.body ?? {};
+    if (![create, update, remove].every(Array.isArray)) {
+      return res.status(400).json({ error: 'create, update and delete must be arrays' });
+    }
+
+    const data = await getStore();
+    const autoBalance = req.query.autoBalance === 'true';
+    const byId = new Map(data.transactions.map((t) => [t.id, t]));
+    const touched = new Set();
+    const ops = [];
+    const unbalanced = [];
+
+    for (const [i, body] of create.entries()) {
+      const { txn, imbalance, error } = normalizeTransaction(body, data, null, { autoBalance });
+      if (error) return res.status(400).json({ error: `create[${i}]: ${error}` });
+      if (byId.has(txn.id) || touched.has(txn.id)) {
+        return res.status(400).json({ error: `Transaction ${txn.id} already exists` });
+      }
+      touched.add(txn.id);
+      if (imbalance) unbalanced.push([txn, imbalance]);
+      ops.push({ action: 'create', before: null, after: txn });
+    }
+    for (const [i, body] of update.entries()) {
+      const before = byId.get(body?.id);
+      if (!before) return res.status(404).json({ error: `Transaction ${body?.id} not found` });
+      if (touched.has(before.id)) {
+        return res.status(400).json({ error: `Transaction ${before.id} appears more than once` });
+      }
+      const { txn, imbalance, error } = normalizeTransaction(body, data, before, { autoBalance });
+      if (error) return res.status(400).json({ error: `update[${i}] (${before.description}): ${error}` });
+      touched.add(before.id);
+      if (imbalance) unbalanced.push([txn, imbalance]);
+      ops.push({ action: 'update', before, after: txn });
+    }
+    for (const id of remove) {
+      const before = byId.get(id);
+      if (!before) return res.status(404).json({ error: `Transaction ${id} not found` });
+      if (touched.has(id)) return res.status(400).json({ error: `Transaction ${id} appears more than once` });
+      touched.add(id);
+      ops.push({ action: 'delete', before, after: null });
+    }
+
+    // Transactions in the same currency share one Imbalance account
+    const accounts = unbalanced.map(([txn, imbalance]) => balanceTransaction(txn, imbalance, data)).filter(Boolean);
+    const step = withImbalanceAccounts({ kind: 'transactions', ops }, accounts);
+    if (ops.length) {
+      await saveTransactions(ops, buildAccountMap(data.accounts), { accounts: step.accounts }).catch(forgetStore);
+    }
+
+    // Only mirror the batch into memory once it is safely on disk
+    const updated = new Map(ops.filter((o) => o.action === 'update').map((o) => [o.after.id, o.after]));
+    const deleted = new Set(remove);
+    data.transactions = data.transactions
+      .filter((t) => !deleted.has(t.id))
+      .map((t) => updated.get(t.id) ?? t);
+    data.transactions.push(...ops.filter((o) => o.action === 'create').map((o) => o.after));
+
+    const result = {
+      created: ops.filter((o) => o.action === 'create').map((o) => o.after),
+      updated: [...updated.values()],
+      deleted: remove,
+    };
+    notifyChange('accounts', { created: accounts.map((a) => a.id) });
+    notifyChange('transactions', result);
+    journal(req.body.label || `Save ${ops.length} transaction change${ops.length !== 1 ? 's' : ''}`, [step]);
+    res.json(result);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Accounts ─────────────────────────────────────────────────────────────────
+
+// POST /api/accounts/:id/reparent - { parentId } moves the account, with its
+// sub-accounts and transactions, under another account; null means top level.
+app.post('/api/accounts/:id/reparent', async (req, res) => {
+  try {
+    const { parentId } = req.body;
+    if (parentId !== null && typeof parentId !== 'string') {
+      return res.status(400).json({ error: 'parentId must be an account id or null' });
+    }
+    const data = await getStore();
+    const before = data.accounts.find((a) => a.id === req.params.id);
+    if (!before) return res.status(404).json({ error: 'Not found' });
+    if (before.type === 'ROOT') return res.status(400).json({ error: "The root account can't be moved" });
+
+    const root = data.accounts.find((a) => a.type === 'ROOT');
+    const after = { ...before, parentId: parentId ?? root?.id ?? null };
+    const errors = accountErrors(after, data.accounts);
+    if (errors.length) return res.status(400).json({ error: errors.join('; ') });
+    if (after.parentId === before.parentId) return res.json(after);
+
+    await updateAccount(before, after);
+    store = null;
+    notifyChange('accounts', { updated: [before.id] });
+    const parent = data.accounts.find((a) => a.id === after.parentId);
+    journal(parent && parent.type !== 'ROOT'
+      ? `Move account "${before.name}" under "${parent.name}"`
+      : `Move account "${before.name}" to the top level`,
+    [{ kind: 'account', action: 'update', before, after }]);
+    res.json(after);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+/**
+ * What merging account `sourceId` into `targetId` changes, or { error, status }:
+ *   { source, target, ops: [transaction update], moved: [{ before, after }], splits }
+ * Every split in the source is repointed to the target, and its sub-accounts
+ * become the target's.
+ */
+function planMerge(data, sourceId, targetId) {
+  const source = data.accounts.find((a) => a.id === sourceId);
+  if (!source) return { error: 'Not found', status: 404 };
+  const target = data.accounts.find((a) => a.id === targetId);
+  if (!target) return { error: `Unknown account ${targetId ?? '(none)'}` };
+  if (source.type === 'ROOT') return { error: "The root account can't be merged" };
+  if (target.type === 'ROOT') return { error: "Accounts can't be merged into the root account" };
+  if (target.id === source.id) return { error: "An account can't be merged into itself" };
+  for (let a = target; a; a = data.accounts.find((p) => p.id === a.parentId)) {
+    if (a.id === source.id) return { error: `"${target.name}" is a sub-account of "${source.name}"` };
+  }
+  if (target.commodity !== source.commodity || target.commoditySpace !== source.commoditySpace) {
+    return { error: `"${source.name}" is in ${source.commodity} but "${target.name}" is in ${target.commodity}` };
+  }
+  const scheduled = data.scheduled.find((sx) =>
+    sx.templates.some((t) => t.splits.some((s) => s.accountId === source.id)));
+  if (scheduled) return { error: `Account is used by the scheduled transaction "${scheduled.name}"` };
+
+  const ops = data.transactions
+    .filter((t) => t.splits.some((s) => s.accountId === source.id))
+    .map((before) => ({
+      action: 'update',
+      before,
+      after: { ...before, splits: before.splits.map((s) => (s.accountId === source.id ? { ...s, accountId: target.id } : s)) },
+    }));
+  const splits = ops.reduce((n, { before }) => n + before.splits.filter((s) => s.accountId === source.id).length, 0);
+  if (splits && target.placeholder) return { error: `"${target.name}" is a placeholder account and can't hold transactions` };
+
+  const moved = data.accounts
+    .filter((a) => a.parentId === source.id)
+    .map((before) => ({ before, after: { ...before, parentId: target.id } }));
+  for (const { after } of moved) {
+    const errors = accountErrors(after, data.accounts);
+    if (errors.length) return { error: errors.join('; ') };
+  }
+  return { source, target, ops, moved, splits };
+}
+
+// GET /api/accounts/:id/merge?into=<id> - preview a merge: how many splits,
+// transactions and sub-accounts would move
+app.get('/api/accounts/:id/merge', async (req, res) => {
+  try {
+    const plan = planMerge(await getStore(), req.params.id, req.query.into);
+    if (plan.error) return res.status(plan.status ?? 400).json({ error: plan.error });
+    res.json({
+      splits:       plan.splits,
+      transactions: plan.ops.length,
+      children:     plan.moved.map(({ before }) => ({ id: before.id, name: before.name })),
+    });
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/accounts/:id/merge - { into } moves every split and sub-account of
+// this account to `into`, then deletes it, all in one write
+app.post('/api/accounts/:id/merge', async (req, res) => {
+  try {
+    const data = await getStore();
+    const plan = planMerge(data, req.params.id, req.body.into);
+    if (plan.error) return res.status(plan.status ?? 400).json({ error: plan.error });
+    const { source, target, ops, moved, splits } = plan;
+
+    await mergeAccount(source.id, ops, moved, buildAccountMap(data.accounts));
+    store = null;
+    notifyChange('transactions', { updated: ops.map(({ after }) => after.id) });
+    notifyChange('accounts', { updated: moved.map(({ after }) => after.id), deleted: [source.id] });
+    journal(`Merge account "${source.name}" into "${target.name}"`, [
+      { kind: 'transactions', ops },
+      ...moved.map(({ before, after }) => ({ kind: 'account', action: 'update', before, after })),
+      { kind: 'account', action: 'delete', before: source, after: null },
+    ]);
+    res.json({ merged: source.id, into: target.id, splits, transactions: ops.length, children: moved.length });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Reconciliation ───────────────────────────────────────────────────────────
+
+// POST /api/accounts/:id/reconcile - set the reconcile state of this account's
+// splits in one write. Body: { statementDate, states: { [splitId]: 'n'|'c'|'y' } }
+// Splits marked 'y' get the statement date as their reconcile date.
+app.post('/api/accounts/:id/reconcile', async (req, res) => {
+  try {
+    const { statementDate, states } = req.body ?? {};
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(statementDate || '')) {
+      return res.status(400).json({ error: 'statementDate must be YYYY-MM-DD' });
+    }
+    if (!states || typeof states !== 'object') return res.status(400).json({ error: 'states is required' });
+    if (Object.values(states).some((st) => !['n', 'c', 'y'].includes(st))) {
+      return res.status(400).json({ error: "states must be 'n', 'c' or 'y'" });
+    }
+
+    const data = await getStore();
+    const accountId = req.params.id;
+    if (!data.accounts.some((a) => a.id === accountId)) return res.status(404).json({ error: 'Not found' });
+
+    const remaining = new Set(Object.keys(states));
+    const changes = [];
+    data.transactions.forEach((before, idx) => {
+      let changed = false;
+      const splits = before.splits.map((s) => {
+        if (s.accountId !== accountId || !(s.id in states)) return s;
+        remaining.delete(s.id);
+        const state = states[s.id];
+        const reconcileDate = state === 'y' ? statementDate : s.reconcileDate;
+        if (state === s.reconciledState && reconcileDate === s.reconcileDate) return s;
+        changed = true;
+        return { ...s, reconciledState: state, reconcileDate };
+      });
+      if (changed) changes.push({ idx, before, after: { ...before, splits } });
+    });
+    if (remaining.size) {
+      return res.status(400).json({ error: `Split ${[...remaining][0]} is not in this account` });
+    }
+
+    if (changes.length) {
+      await saveTransactions(changes.map((c) => ({ ...c, action: 'update' })), buildAccountMap(data.accounts));
+    }
+    for (const { idx, after } of changes) data.transactions[idx] = after;
+    notifyChange('transactions', { updated: changes.map((c) => c.after) });
+    const account = data.accounts.find((a) => a.id === accountId);
+    journal(`Reconcile ${account.name}`, [{
+      kind: 'transactions',
+      ops: changes.map(({ before, after }) => ({ action: 'update', before, after })),
+    }]);
+    res.json({ updated: changes.length });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Price database ───────────────────────────────────────────────────────────
+
+/**
+ * Normalise a price from a request body against the book's commodity table.
+ * Returns `{ price }` or `{ error }` (the message is sent back as a 400).
+ */
+function normalizePrice(body, data, existing = null) {
+  const merged = { ...existing, ...body };
+  const commodityId = merged.commodity != null ? String(merged.commodity).trim() : '';
+  if (!commodityId) return { error: 'commodity is required' };
+
+  // Accept a bare ticker and resolve its namespace from the book
+  const known = data.commodities.find((c) =>
+    c.id === commodityId && (!merged.commoditySpace || c.space === merged.commoditySpace));
+  const space = known?.space ?? merged.commoditySpace ?? 'CURRENCY';
+  if (space === 'CURRENCY' ? !/^[A-Z]{3}$/.test(commodityId) : !known) {
+    return { error: `Unknown commodity ${commodityId}` };
+  }
+
+  const currency = merged.currency || data.defaultCurrency;
+  if (!/^[A-Z]{3}$/.test(currency)) return { error: `Invalid currency ${currency}` };
+  if (space === 'CURRENCY' && commodityId === currency) {
+    return { error: 'A price needs two different commodities' };
+  }
+
+  const value = Number(merged.value);
+  if (!isFinite(value) || value <= 0) return { error: 'value must be a positive number' };
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(merged.date || '')) return { error: 'date must be YYYY-MM-DD' };
+
+  return {
+    price: {
+      id:             merged.id || uuidv4().replace(/-/g, ''),
+      commodity:      commodityId,
+      commoditySpace: space,
+      currency,
+      date:           merged.date,
+      source:         merged.source || 'user:price-editor',
+      type:           merged.type || 'last',
+      value,
+    },
+  };
+}
+
+// GET /api/prices - all prices (optionally filter by commodity)
+app.get('/api/prices', async (req, res) => {
+  try {
+    const { prices } = await getStore();
+    const { commodity } = req.query;
+    res.json(commodity ? prices.filter((p) => p.commodity === commodity) : prices);
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/prices - add a single quote
+app.post('/api/prices', async (req, res) => {
+  try {
+    const data = await getStore();
+    const { price, error } = normalizePrice({ ...req.body, id: undefined }, data);
+    if (error) return res.status(400).json({ error });
+    await savePrices([{ action: 'create', price }]);
+    data.prices.push(price);
+    notifyChange('prices', { created: [price.id] });
+    journal(`Add ${price.commodity} price`, [{ kind: 'prices', ops: [{ action: 'create', before: null, after: price }] }]);
+    res.status(201).json(price);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/prices/bulk - add many quotes (CSV bulk load) in one write.
+// Rows are all-or-nothing: any invalid row rejects the whole batch.
+app.post('/api/prices/bulk', async (req, res) => {
+  try {
+    const data = await getStore();
+    const rows = Array.isArray(req.body?.prices) ? req.body.prices : null;
+    if (!rows?.length) return res.status(400).json({ error: 'prices must be a non-empty array' });
+
+    const prices = [];
+    for (const [i, row] of rows.entries()) {
+      const { price, error } = normalizePrice({ ...row, id: undefined }, data);
+      if (error) return res.status(400).json({ error: `Row ${i + 1}: ${error}` });
+      prices.push(price);
+    }
+
+    await savePrices(prices.map((price) => ({ action: 'create', price })));
+    data.prices.push(...prices);
+    notifyChange('prices', { created: prices.map((p) => p.id) });
+    journal(`Add ${prices.length} prices`, [{
+      kind: 'prices',
+      ops: prices.map((price) => ({ action: 'create', before: null, after: price })),
+    }]);
+    res.status(201).json({ created: prices.length });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// PUT /api/prices/:id - edit a quote
+app.put('/api/prices/:id', async (req, res) => {
+  try {
+    const data = await getStore();
+    const idx = data.prices.findIndex((p) => p.id === req.params.id);
+    if (idx === -1) return res.status(404).json({ error: 'Not found' });
+    const { price, error } = normalizePrice({ ...req.body, id: req.params.id }, data, data.prices[idx]);
+    if (error) return res.status(400).json({ error });
+    await savePrices([{ action: 'update', price }]);
+    const before = data.prices[idx];
+    data.prices[idx] = price;
+    notifyChange('prices', { updated: [price.id] });
+    journal(`Edit ${price.commodity} price`, [{ kind: 'prices', ops: [{ action: 'update', before, after: price }] }]);
+    res.json(price);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// DELETE /api/prices/:id
+app.delete('/api/prices/:id', async (req, res) => {
+  try {
+    const data = await getStore();
+    const idx = data.prices.findIndex((p) => p.id === req.params.id);
+    if (idx === -1) return res.status(404).json({ error: 'Not found' });
+    await savePrices([{ action: 'delete', price: data.prices[idx] }]);
+    const [before] = data.prices.splice(idx, 1);
+    notifyChange('prices', { deleted: [req.params.id] });
+    journal(`Delete ${before.commodity} price`, [{ kind: 'prices', ops: [{ action: 'delete', before, after: null }] }]);
+    res.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Scheduled transactions ───────────────────────────────────────────────────
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const newGuid = () => uuidv4().replace(/-/g, '');
+
+/**
+ * Normalise a scheduled transaction from a request body. The body carries the
+ * schedule fields plus a single `template` ({ description, currency, splits })
+ * that replaces the schedule's first template transaction.
+ * Returns `{ sx }` or `{ error }` (the message is sent back as a 400).
+ */
+function normalizeScheduled(body, data, existing = null) {
+  const merged = { ...existing, ...body };
+  const name = String(merged.name ?? '').trim();
+  if (!name) return { error: 'name is required' };
+
+  const recurrences = Array.isArray(merged.recurrences) ? merged.recurrences : [];
+  if (!recurrences.length) return { error: 'at least one recurrence is required' };
+  for (const r of recurrences) {
+    if (!PERIOD_TYPES.includes(r.periodType)) return { error: `Unknown period type ${r.periodType}` };
+    if (!WEEKEND_ADJUSTMENTS.includes(r.weekendAdjust || 'none')) return { error: `Unknown weekend adjustment ${r.weekendAdjust}` };
+    if (!DATE_RE.test(r.start || '')) return { error: 'recurrence start must be YYYY-MM-DD' };
+    if (!Number.isInteger(Number(r.mult)) || Number(r.mult) < 1) return { error: 'recurrence multiplier must be a positive integer' };
+  }
+
+  const startDate = merged.startDate || recurrences[0].start;
+  if (!DATE_RE.test(startDate)) return { error: 'startDate must be YYYY-MM-DD' };
+  const endDate = merged.endDate || null;
+  if (endDate && !DATE_RE.test(endDate)) return { error: 'endDate must be YYYY-MM-DD' };
+  const numOccur = Math.max(0, parseInt(merged.numOccur) || 0);
+  if (endDate && numOccur) return { error: 'Use either an end date or a number of occurrences, not both' };
+
+  // Keep the remaining count in step with occurrences already created
+  const created = existing?.numOccur ? existing.numOccur - existing.remOccur : 0;
+  const remOccur = numOccur ? Math.max(0, numOccur - created) : 0;
+
+  const prevTemplate = existing?.templates[0];
+  const input = body.template ?? prevTemplate;
+  if (!input) return { error: 'template is required' };
+  const currency = input.currency || data.defaultCurrency;
+  const accountMap = buildAccountMap(data.accounts);
+  const splits = Array.isArray(input.splits) ? input.splits : [];
+  if (splits.length < 2) return { error: 'A scheduled transaction needs at least two splits' };
+  for (const s of splits) {
+    const account = accountMap.get(s.accountId);
+    if (!account) return { error: `Unknown account ${s.accountId}` };
+    if (account.commodity !== currency) {
+      return { error: `${account.name} is not in ${currency}; every split must use the schedule's currency` };
+    }
+    if (!isFinite(Number(s.amount))) return { error: 'split amounts must be numbers' };
+  }
+  const total = splits.reduce((sum, s) => sum + Number(s.amount), 0);
+  if (Math.abs(total) > 1e-6) return { error: 'Splits must balance (debits must equal credits)' };
+
+  const template = {
+    id:          prevTemplate?.id ?? newGuid(),
+    description: String(input.description ?? name),
+    currency,
+    num:         input.num ?? prevTemplate?.num ?? '',
+    notes:       input.notes ?? prevTemplate?.notes ?? '',
+    splits: splits.map((s) => ({
+      id:            s.id || newGuid(),
+      accountId:     s.accountId,
+      amount:        Number(s.amount),
+      memo:          s.memo || '',
+      // undefined → the serializer writes the amount itself as the formula
+      debitFormula:  s.debitFormula ?? undefined,
+      creditFormula: s.creditFormula ?? undefined,
+    })),
+  };
+
+  return {
+    sx: {
+      id:                existing?.id ?? newGuid(),
+      name,
+      enabled:           merged.enabled !== false,
+      autoCreate:        !!merged.autoCreate,
+      autoCreateNotify:  !!merged.autoCreateNotify,
+      advanceCreateDays: Math.max(0, parseInt(merged.advanceCreateDays) || 0),
+      advanceRemindDays: Math.max(0, parseInt(merged.advanceRemindDays) || 0),
+      instanceCount:     existing?.instanceCount ?? 0,
+      startDate,
+      lastDate:          existing?.lastDate ?? null,
+      endDate:           numOccur ? null : endDate,
+      numOccur,
+      remOccur,
+      templateAccountId: existing?.templateAccountId ?? newGuid(),
+      recurrences: recurrences.map((r) => ({
+        mult:          Number(r.mult),
+        periodType:    r.periodType,
+        start:         r.start,
+        weekendAdjust: r.weekendAdjust || 'none',
+      })),
+      templates: [template, ...(existing?.templates.slice(1) ?? [])],
+    },
+  };
+}
+
+/** Every due occurrence of every schedule, as transactions ready to be created. */
+function buildDueInstances(data, today) {
+  const accountMap = buildAccountMap(data.accounts);
+  const instances = [];
+  for (const sx of data.scheduled) {
+    for (const date of dueDates(sx, today)) {
+      for (const tpl of sx.templates) {
+        const foreign = tpl.splits.find((s) => accountMap.get(s.accountId)?.commodity !== tpl.currency);
+        instances.push({
+          scheduledId: sx.id,
+          name:        sx.name,
+          date,
+          // Cross-currency templates need an exchange rate we can't ask for here
+          error: foreign
+            ? `${accountMap.get(foreign.accountId)?.name ?? 'An account'} is not in ${tpl.currency}; enter this one in GnuCash`
+            : null,
+          transaction: {
+            id:          newGuid(),
+            num:         tpl.num,
+            description: tpl.description,
+            datePosted:  date,
+            dateEntered: today,
+            notes:       tpl.notes,
+            currency:    tpl.currency,
+            scheduledId: sx.id,
+            splits: tpl.splits.map((s) => ({
+              id:              newGuid(),
+              accountId:       s.accountId,
+              value:           s.amount,
+              quantity:        s.amount,
+              reconciledState: 'n',
+              reconcileDate:   null,
+              memo:            s.memo,
+              action:          '',
+              onlineId:        null,
+            })),
+          },
+        });
+      }
+    }
+  }
+  return instances.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// GET /api/scheduled - all scheduled transactions
+app.get('/api/scheduled', async (_req, res) => {
+  try {
+    const { scheduled } = await getStore();
+    res.json(scheduled);
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/scheduled - create a scheduled transaction
+app.post('/api/scheduled', async (req, res) => {
+  try {
+    const data = await getStore();
+    const { sx, error } = normalizeScheduled(req.body, data);
+    if (error) return res.status(400).json({ error });
+    await saveScheduled(sx, 'create');
+    store = null;
+    notifyChange('scheduled', { created: [sx.id] });
+    journal(`Add schedule "${sx.name}"`, [{ kind: 'scheduled', action: 'create', before: null, after: sx }]);
+    res.status(201).json(sx);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// PUT /api/scheduled/:id - edit a scheduled transaction
+app.put('/api/scheduled/:id', async (req, res) => {
+  try {
+    const data = await getStore();
+    const existing = data.scheduled.find((sx) => sx.id === req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Not found' });
+    const { sx, error } = normalizeScheduled(req.body, data, existing);
+    if (error) return res.status(400).json({ error });
+    await saveScheduled(sx, 'update');
+    store = null;
+    notifyChange('scheduled', { updated: [sx.id] });
+    journal(`Edit schedule "${sx.name}"`, [{ kind: 'scheduled', action: 'update', before: existing, after: sx }]);
+    res.json(sx);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// DELETE /api/scheduled/:id - remove the schedule and its template transactions
+app.delete('/api/scheduled/:id', async (req, res) => {
+  try {
+    const data = await getStore();
+    const existing = data.scheduled.find((sx) => sx.id === req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Not found' });
+    await saveScheduled(existing, 'delete');
+    store = null;
+    notifyChange('scheduled', { deleted: [existing.id] });
+    journal(`Delete schedule "${existing.name}"`, [{ kind: 'scheduled', action: 'delete', before: existing, after: null }]);
+    res.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// GET /api/scheduled/since-last-run - preview the transactions that are due
+app.get('/api/scheduled/since-last-run', async (_req, res) => {
+  try {
+    const data = await getStore();
+    const today = new Date().toISOString().slice(0, 10);
+    res.json(buildDueInstances(data, today));
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/scheduled/since-last-run - create the due transactions.
+// Body: { skip?: [{ scheduledId, date }] } — skipped occurrences still count
+// as run (like "Ignore" in GnuCash's Since Last Run dialog).
+app.post('/api/scheduled/since-last-run', async (req, res) => {
+  try {
+    const data = await getStore();
+    const today = new Date().toISOString().slice(0, 10);
+    const skip = new Set((req.body?.skip ?? []).map((s) => `${s.scheduledId}|${s.date}`));
+    const instances = buildDueInstances(data, today);
+
+    const blocked = instances.find((i) => i.error && !skip.has(`${i.scheduledId}|${i.date}`));
+    if (blocked) return res.status(400).json({ error: `${blocked.name} (${blocked.date}): ${blocked.error}` });
+
+    const created = instances
+      .filter((i) => !skip.has(`${i.scheduledId}|${i.date}`))
+      .map((i) => i.transaction);
+
+    // Advance every schedule past the occurrences handled in this run
+    const updated = data.scheduled.flatMap((sx) => {
+      const dates = [...new Set(instances.filter((i) => i.scheduledId === sx.id).map((i) => i.date))];
+      if (!dates.length) return [];
+      return [{
+        ...sx,
+        lastDate:      dates[dates.length - 1],
+        instanceCount: sx.instanceCount + dates.length,
+        remOccur:      sx.numOccur ? Math.max(0, sx.remOccur - dates.length) : 0,
+      }];
+    });
+
+    if (updated.length) await runScheduled(created, updated, buildAccountMap(data.accounts));
+    store = null;
+    notifyChange('transactions', { created });
+    notifyChange('scheduled', { updated: updated.map((sx) => sx.id) });
+    journal(`Run ${created.length} scheduled transaction${created.length !== 1 ? 's' : ''}`, [
+      { kind: 'transactions', ops: created.map((txn) => ({ action: 'create', before: null, after: txn })) },
+      ...updated.map((sx) => ({
+        kind: 'scheduled', action: 'update', before: data.scheduled.find((s) => s.id === sx.id), after: sx,
+      })),
+    ]);
+    res.json({ created: created.length, transactions: created });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Budgets ──────────────────────────────────────────────────────────────────
+
+const BUDGET_PERIOD_TYPES = ['day', 'week', 'month', 'end of month', 'year'];
+const MAX_BUDGET_PERIODS = 120;
+
+/**
+ * Normalise a budget from a request body, merged over `existing` for edits.
+ * `amounts` maps account ids to one amount (or null) per period; lists are
+ * padded or cut to the number of periods, and accounts without any amount
+ * are dropped. Returns `{ budget }` or `{ error }` (sent back as a 400).
+ */
+function normalizeBudget(body, data, existing = null) {
+  const merged = { ...existing, ...body };
+  const name = typeof merged.name === 'string' ? merged.name.trim() : '';
+  if (!name) return { error: 'A budget needs a name' };
+  if (merged.description != null && typeof merged.description !== 'string') {
+    return { error: 'description must be a string' };
+  }
+  const numPeriods = merged.numPeriods;
+  if (!Number.isInteger(numPeriods) || numPeriods < 1 || numPeriods > MAX_BUDGET_PERIODS) {
+    return { error: `numPeriods must be a whole number from 1 to ${MAX_BUDGET_PERIODS}` };
+  }
+
+  const r = merged.recurrence ?? {};
+  if (!BUDGET_PERIOD_TYPES.includes(r.periodType)) {
+    return { error: `recurrence.periodType must be one of: ${BUDGET_PERIOD_TYPES.join(', ')}` };
+  }
+  if (!Number.isInteger(r.mult ?? 1) || (r.mult ?? 1) < 1) return { error: 'recurrence.mult must be a whole number of at least 1' };
+  if (!DATE_RE.test(r.start ?? '')) return { error: 'recurrence.start must be a YYYY-MM-DD date' };
+  if (merged.rollover != null && typeof merged.rollover !== 'boolean') return { error: 'rollover must be true or false' };
+
+  const amounts = {};
+  const accountMap = buildAccountMap(data.accounts);
+  for (const [accountId, periods] of Object.entries(merged.amounts ?? {})) {
+    const account = accountMap.get(accountId);
+    if (!account || account.type === 'ROOT') return { error: `Account ${accountId} not found` };
+    if (!Array.isArray(periods)) return { error: `Amounts for ${account.name} must be a list, one per period` };
+    const list = Array.from({ length: numPeriods }, (_, i) => periods[i] ?? null);
+    if (list.some((v) => v !== null && !Number.isFinite(v))) return { error: `Amounts for ${account.name} must be numbers` };
+    if (list.some((v) => v !== null)) amounts[accountId] = list;
+  }
+
+  return {
+    budget: {
+      id: existing?.id ?? newGuid(),
+      name,
+      description: merged.description ?? '',
+      numPeriods,
+      recurrence: { mult: r.mult ?? 1, periodType: r.periodType, start: r.start, weekendAdjust: 'none' },
+      amounts,
+      rollover: merged.rollover ?? false,
+    },
+  };
+}
+
+/**
+ * Budgets used to be kept beside the book in <book>.budget.json, as one
+ * monthly amount per account. When a writable book still has one, turn it
+ * into a GnuCash budget of twelve months from this January and rename the
+ * file to .budget.json.migrated, so it is imported once. Runs as `data` is
+ * loaded (see getStore), so concurrent requests can't import it twice.
+ * Returns whether the book was written. Not journaled: undoing it would
+ * leave the amounts nowhere.
+ */
+async function migrateBudgetFile(data) {
+  const file = getBudgetFile();
+  if (!existsSync(file) || isReadOnly()) return false;
+
+  const monthly = JSON.parse(readFileSync(file, 'utf-8')).monthly ?? {};
+  const accountIds = new Set(data.accounts.map((a) => a.id));
+  // Amounts of accounts deleted since they were set are left behind
+  const amounts = Object.fromEntries(Object.entries(monthly)
+    .filter(([id, amount]) => accountIds.has(id) && Number.isFinite(amount))
+    .map(([id, amount]) => [id, Array(12).fill(amount)]));
+  const { budget, error } = normalizeBudget({
+    name: 'Budget',
+    numPeriods: 12,
+    recurrence: { mult: 1, periodType: 'month', start: `${new Date().getFullYear()}-01-01` },
+    amounts,
+  }, data);
+  if (error) throw new Error(error);
+
+  if (Object.keys(budget.amounts).length) {
+    await saveBudget(budget, 'create', buildAccountMap(data.accounts));
+    notifyChange('budgets', { created: [budget.id] });
+  }
+  renameSync(file, `${file}.migrated`);
+  console.log(`Moved the budget in ${path.basename(file)} into the book`);
+  return Object.keys(budget.amounts).length > 0;
+}
+
+// GET /api/budgets - the book's budgets
+app.get('/api/budgets', async (_req, res) => {
+  try {
+    const { budgets } = await getStore();
+    res.json(budgets);
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/budgets - create a budget
+app.post('/api/budgets', async (req, res) => {
+  try {
+    const data = await getStore();
+    const { budget, error } = normalizeBudget(req.body, data);
+    if (error) return res.status(400).json({ error });
+    await saveBudget(budget, 'create', buildAccountMap(data.accounts));
+    store = null;
+    notifyChange('budgets', { created: [budget.id] });
+    journal(`Add budget "${budget.name}"`, [{ kind: 'budget', action: 'create', before: null, after: budget }]);
+    res.status(201).json(budget);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// PUT /api/budgets/:id - edit a budget; fields left out are kept
+app.put('/api/budgets/:id', async (req, res) => {
+  try {
+    const data = await getStore();
+    const existing = data.budgets.find((b) => b.id === req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Not found' });
+    const { budget, error } = normalizeBudget(req.body, data, existing);
+    if (error) return res.status(400).json({ error });
+    await saveBudget(budget, 'update', buildAccountMap(data.accounts));
+    store = null;
+    notifyChange('budgets', { updated: [budget.id] });
+    journal(`Edit budget "${budget.name}"`, [{ kind: 'budget', action: 'update', before: existing, after: budget }]);
+    res.json(budget);
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// DELETE /api/budgets/:id - remove a budget and its amounts
+app.delete('/api/budgets/:id', async (req, res) => {
+  try {
+    const data = await getStore();
+    const existing = data.budgets.find((b) => b.id === req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Not found' });
+    await saveBudget(existing, 'delete', buildAccountMap(data.accounts));
+    store = null;
+    notifyChange('budgets', { deleted: [existing.id] });
+    journal(`Delete budget "${existing.name}"`, [{ kind: 'budget', action: 'delete', before: existing, after: null }]);
+    res.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Undo / redo ──────────────────────────────────────────────────────────────
+
+// GET /api/history - the edits that undo and redo would apply next
+app.get('/api/history', (_req, res) => {
+  res.json(historyStatus());
+});
+
+// POST /api/history/undo, /api/history/redo - replay the latest edit's inverse,
+// or re-apply the latest undone edit. Responds with the new history state.
+for (const [direction, replay] of [['undo', undoEdit], ['redo', redoEdit]]) {
+  app.post(`/api/history/${direction}`, async (_req, res) => {
+    try {
+      const data = await getStore();
+      const result = await replay(data).finally(() => { store = null; });
+      if (!result) return res.status(400).json({ error: `Nothing to ${direction}` });
+      notifySteps(result.steps);
+      broadcast('history', historyStatus());
+      res.json({ applied: result.entry.label, ...historyStatus() });
+    } catch (err) {
+      console.error(err);
+      res.status(err.status ?? 500).json({ error: err.message });
+    }
+  });
+}
+
+// ─── Check & Repair ───────────────────────────────────────────────────────────
+
+// GET /api/integrity - scan the book for damage; see integrity.js for the problem kinds.
+app.get('/api/integrity', async (_req, res) => {
+  try {
+    const data = await getStore();
+    res.json({ problems: scanBook(data, await readCounts()) });
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/integrity/repair - apply the suggested fixes. Body: { ids? } —
+// the problem ids to fix, or every problem when omitted. Problems that have
+// gone away since the scan are skipped. Responds with how many were fixed and
+// the problems that remain.
+app.post('/api/integrity/repair', async (req, res) => {
+  try {
+    const { ids } = req.body ?? {};
+    if (ids !== undefined && !(Array.isArray(ids) && ids.every((id) => typeof id === 'string'))) {
+      return res.status(400).json({ error: 'ids must be an array of problem ids' });
+    }
+
+    const data = await getStore();
+    const wanted = ids && new Set(ids);
+    const problems = scanBook(data, await readCounts()).filter((p) => !wanted || wanted.has(p.id));
+    const { created, moved, ops, counts } = planRepair(problems, data);
+
+    // Every fix in one write, so one backup and one undo step; the counts are
+    // rewritten last, so they include the records the fixes add
+    const accounts = [
+      ...created.map((after) => ({ action: 'create', before: null, after })),
+      ...moved.map(({ before, after }) => ({ action: 'update', before, after })),
+    ];
+    await saveTransactions(ops, buildAccountMap(data.accounts), { accounts, recount: counts })
+      .finally(() => { store = null; });
+
+    notifyChange('accounts', { created: created.map((a) => a.id), updated: moved.map((m) => m.after.id) });
+    notifyChange('transactions', { updated: ops.map((o) => o.after) });
+    journal(`Repair ${problems.length} book problem${problems.length !== 1 ? 's' : ''}`, [{ kind: 'transactions', ops, accounts }]);
+
+    res.json({ fixed: problems.length, problems: scanBook(await getStore(), await readCounts()) });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// ─── Backups ──────────────────────────────────────────────────────────────────
+
+// GET /api/backups - the book's backups, newest first, and the retention policy.
+// `kept` says whether the policy keeps a backup (even while it is switched off).
+app.get('/api/backups', (_req, res) => {
+  try {
+    const file = getGnuCashFile();
+    const policy = readPolicy();
+    const backups = listBackups(file);
+    const keep = planRetention(backups, policy);
+    res.json({
+      policy,
+      backups: backups.map(({ name, time, size }) => ({ name, time, size, kept: keep.has(name) })),
+    });
+  } catch (err) {
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// PUT /api/backups/policy - save the retention policy and, if it is on, apply it now.
+// Body: { enabled, hourly, daily, monthly } (null = forever). Responds with the deleted names.
+app.put('/api/backups/policy', (req, res) => {
+  try {
+    const { policy, error } = normalizePolicy(req.body);
+    if (error) return res.status(400).json({ error });
+    writePolicy(policy);
+    res.json({ policy, deleted: pruneBackups(getGnuCashFile(), policy) });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// GET /api/backups/:name/diff - what changed in the book since this backup
+app.get('/api/backups/:name/diff', async (req, res) => {
+  try {
+    const file = backupPath(getGnuCashFile(), req.params.name);
+    if (!file) return res.status(404).json({ error: 'Not found' });
+    const [snapshot, current] = await Promise.all([parseGnuCashSnapshot(file), getStore()]);
+    res.json(diffBooks(snapshot, current));
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
+  }
+});
+
+// POST /api/backups/:name/restore - make this backup the book again. The book
+// as it was is backed up first, so a restore can be rolled back the same way.
+app.post('/api/backups/:name/restore', async (req, res) => {
+  try {
+    const file = backupPath(getGnuCashFile(), req.params.name);
+    if (!file) return res.status(404).json({ error: 'Not found' });
+    await restoreBook(file);
+    invalidateStore();
+    // Recorded edits refer to records the restored book may not have
+    clearHistory();
+    broadcast('book-changed');
+    broadcast('history', historyStatus());
+    res.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -294,128 +1525,112 @@ app.get('/api/projections', (_req, res) => {
     const data = JSON.parse(readFileSync(PROJECTIONS_FILE, 'utf-8'));
     res.json(data);
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
 // POST /api/projections - save recurring item settings
 app.post('/api/projections', (req, res) => {
   try {
-    writeFileSync(getProjectionsFile(), JSON.stringify(req.body, null, 2), 'utf-8');
+    const file = getProjectionsFile();
+    const before = existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')).items ?? [] : [];
+    writeFileSync(file, JSON.stringify(req.body, null, 2), 'utf-8');
+    const after = req.body?.items ?? [];
+    const same = new Set(before.map((i) => JSON.stringify(i)));
+    const keys = new Set([
+      ...after.filter((i) => !same.has(JSON.stringify(i))).map((i) => i.key),
+      ...before.filter((i) => !after.some((a) => a.key === i.key)).map((i) => i.key),
+    ]);
+    if (keys.size) broadcast('projections', { keys: [...keys] });
     res.json({ ok: true });
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
-// GET /api/budget - load monthly budget amounts
-app.get('/api/budget', (_req, res) => {
+// GET /api/change-log — split account reassignments from the .log files (see
+// auditlog.js), newest first. Used by Recategorize's history panel.
+app.get('/api/change-log', (_req, res) => {
   try {
-    const file = getBudgetFile();
-    if (!existsSync(file)) return res.json({ monthly: {} });
-    res.json(JSON.parse(readFileSync(file, 'utf-8')));
+    const changes = [];
+    for (const entry of readAuditLog(getGnuCashFile())) {
+      for (const change of entry.changes) {
+        if (change.field !== 'account') continue;
+        changes.push({
+          changedAt:       entry.changedAt,
+          transGuid:       entry.transactionId,
+          splitGuid:       change.splitId,
+          datePosted:      entry.before.datePosted,
+          description:     entry.before.description,
+          amount:          change.value,
+          fromAccountId:   change.beforeId,
+          fromAccountName: change.before,
+          toAccountId:     change.afterId,
+          toAccountName:   change.after,
+        });
+      }
+    }
+    res.json(changes);
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
-// POST /api/budget - save monthly budget amounts
-app.post('/api/budget', (req, res) => {
+// GET /api/audit-log - every logged transaction change, newest first.
+// Query: transactionId, accountId, action (create|update|delete), q (text in
+// descriptions, memos and account names), limit (default 500).
+app.get('/api/audit-log', (req, res) => {
   try {
-    writeFileSync(getBudgetFile(), JSON.stringify(req.body, null, 2), 'utf-8');
-    res.json({ ok: true });
+    const { transactionId, accountId, action } = req.query;
+    const q = String(req.query.q ?? '').trim().toLowerCase();
+    const limit = Number(req.query.limit ?? 500);
+    if (!Number.isInteger(limit) || limit < 1) return res.status(400).json({ error: 'limit must be a positive integer' });
+    if (action && !['create', 'update', 'delete'].includes(action)) {
+      return res.status(400).json({ error: "action must be 'create', 'update' or 'delete'" });
+    }
+
+    const entries = readAuditLog(getGnuCashFile()).filter((e) => {
+      if (transactionId && e.transactionId !== transactionId) return false;
+      if (accountId && !e.accountIds.includes(accountId)) return false;
+      if (action && e.action !== action) return false;
+      if (q) {
+        const texts = [e.before, e.after].filter(Boolean).flatMap((t) => [
+          t.description, t.num, t.notes, ...t.splits.flatMap((s) => [s.memo, s.accountName]),
+        ]);
+        if (!texts.some((text) => String(text).toLowerCase().includes(q))) return false;
+      }
+      return true;
+    });
+    res.json({ total: entries.length, entries: entries.slice(0, limit) });
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    console.error(err);
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
-// GET /api/change-log — parse all GnuCash .log files and return account-change entries
-//
-// Each GnuCash .log file is tab-separated with columns:
-//   mod  trans_guid  split_guid  time_now  date_entered  date_posted
-//   acc_guid  acc_name  num  description  notes  memo  action
-//   reconciled  amount  value  date_reconciled
-//
-// We look for START/END blocks where a B row and C row exist for the same split_guid
-// and the acc_guid differs — that indicates an account reassignment.
-app.get('/api/change-log', (_req, res) => {
+// POST /api/audit-log/:id/revert - put the transaction back the way it was
+// before the logged change. The revert is a normal (undoable) save.
+app.post('/api/audit-log/:id/revert', async (req, res) => {
   try {
-    const gf = getGnuCashFile();
-    const GNUCASH_DIR      = path.dirname(gf);
-    const GNUCASH_BASENAME = path.basename(gf);
-    const logFiles = readdirSync(GNUCASH_DIR)
-      .filter((f) => f.startsWith(GNUCASH_BASENAME + '.') && f.endsWith('.log'))
-      .sort(); // chronological by timestamp in filename
-
-    const changes = [];
-
-    for (const filename of logFiles) {
-      // Extract timestamp from filename: basename.YYYYMMDDHHmmss.log
-      const tsMatch = filename.match(/\.(\d{14})\.log$/);
-      const fileTimestamp = tsMatch ? tsMatch[1] : null;
-      // "20260219210745" → ISO string
-      const changedAt = fileTimestamp
-        ? `${fileTimestamp.slice(0,4)}-${fileTimestamp.slice(4,6)}-${fileTimestamp.slice(6,8)}T${fileTimestamp.slice(8,10)}:${fileTimestamp.slice(10,12)}:${fileTimestamp.slice(12,14)}Z`
-        : null;
-
-      const content = readFileSync(path.join(path.dirname(getGnuCashFile()), filename), 'utf-8');
-      const lines = content.split('\n');
-
-      let inBlock = false;
-      // splitGuid → { B: row, C: row }
-      let block = {};
-
-      for (const line of lines) {
-        if (line.startsWith('===== START')) {
-          inBlock = true;
-          block = {};
-          continue;
-        }
-        if (line.startsWith('===== END')) {
-          inBlock = false;
-          // Process the block — find splits where B acc_guid !== C acc_guid
-          for (const [splitGuid, { B, C }] of Object.entries(block)) {
-            if (!B || !C) continue;
-            if (B[6] !== C[6]) { // acc_guid changed
-              changes.push({
-                changedAt,
-                transGuid:       B[1],
-                splitGuid,
-                datePosted:      B[5] ? B[5].slice(0, 10) : '',
-                description:     B[9] || '',
-                amount:          parseFloat((B[14] || '0').split('/')[0]) /
-                                 parseFloat((B[14] || '1/100').split('/')[1] || 100),
-                fromAccountId:   B[6],
-                fromAccountName: B[7],
-                toAccountId:     C[6],
-                toAccountName:   C[7],
-              });
-            }
-          }
-          block = {};
-          continue;
-        }
-        if (!inBlock) continue;
-
-        const cols = line.split('\t');
-        if (cols.length < 10) continue;
-        const mod      = cols[0]; // B, C, N, D
-        const splitGuid = cols[2];
-        if (!splitGuid) continue;
-
-        if (mod === 'B' || mod === 'C') {
-          if (!block[splitGuid]) block[splitGuid] = {};
-          block[splitGuid][mod] = cols;
-        }
-      }
-    }
+    const entry = readAuditLog(getGnuCashFile()).find((e) => e.id === req.params.id);
+    if (!entry) return res.status(404).json({ error: 'Not found' });
+    const data = await getStore();
+    const { op, error } = revertOperation(entry, data);
+    if (error) return res.status(409).json({ error });
 
-    // Sort newest first
-    changes.sort((a, b) => (b.changedAt ?? '').localeCompare(a.changedAt ?? ''));
-    res.json(changes);
+    await saveTransactions([op], buildAccountMap(data.accounts));
+    store = null;
+    notifyChange('transactions', {
+      created: op.action === 'create' ? [op.after] : [],
+      updated: op.action === 'update' ? [op.after] : [],
+      deleted: op.action === 'delete' ? [op.before.id] : [],
+    });
+    journal(`Revert change to "${entry.description}"`, [{ kind: 'transactions', ops: [op] }]);
+    res.json({ action: op.action, transaction: op.after ?? op.before });
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -559,7 +1774,7 @@ app.post('/api/import/preview', upload.single('file'), async (req, res) => {
     });
   } catch (err) {
     console.error('Import preview error:', err);
-    res.status(500).json({ error: err.message });
+    res.status(err.status ?? 500).json({ error: err.message });
   }
 });
 
@@ -568,7 +1783,7 @@ app.post('/api/import/preview', upload.single('file'), async (req, res) => {
 const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
 
 /** Build a compact financial snapshot to inject into the system prompt */
-function buildFinancialContext(accounts, transactions, budgetData = {}) {
+function buildFinancialContext(accounts, transactions, budgets = [], currency = 'USD') {
   const accountMap = new Map(accounts.map((a) => [a.id, a]));
 
   function getPath(account) {
@@ -644,7 +1859,7 @@ function buildFinancialContext(accounts, transactions, budgetData = {}) {
     }
   }
 
-  const fmt = (n) => `$${Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const fmt = (n) => Math.abs(n).toLocaleString('en-US', { style: 'currency', currency });
 
   // Top 15 expense categories by all-time total
   const topExpenses = Array.from(expenseTotals.entries())
@@ -681,15 +1896,20 @@ function buildFinancialContext(accounts, transactions, budgetData = {}) {
     ctx += `- ${e.path}: ${fmt(e.total)} total (current month: ${fmt(thisMonth)})\n`;
   }
 
-  if (budgetData && Object.keys(budgetData).length > 0) {
-    ctx += `\n### Monthly Budgets vs Current Month Actuals\n`;
-    for (const [accountId, budget] of Object.entries(budgetData)) {
-      if (typeof budget !== 'number' || budget < 0) continue;
+  // The first budget that covers this month
+  const monthFrom = `${currentMonthKey}-01`;
+  const monthTo = `${currentMonthKey}-${String(new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate()).padStart(2, '0')}`;
+  const budget = budgets.find((b) => budgetPeriodIndex(b, monthFrom) !== -1);
+  if (budget) {
+    ctx += `\n### Budget "${budget.name}" vs Current Month Actuals\n`;
+    for (const accountId of Object.keys(budget.amounts)) {
+      const amount = budgetAmount(budget, [accountId], monthFrom, monthTo);
+      if (amount == null || amount < 0) continue;
       const a = accountMap.get(accountId);
       if (!a) continue;
       const actual = (catMonthly.get(accountId) || {})[currentMonthKey] || 0;
-      const pctUsed = budget > 0 ? Math.round((actual / budget) * 100) : null;
-      ctx += `- ${getPath(a)}: Budget ${fmt(budget)}/mo, Spent so far this month ${fmt(actual)}${pctUsed !== null ? ` (${pctUsed}%)` : ''}\n`;
+      const pctUsed = amount > 0 ? Math.round((actual / amount) * 100) : null;
+      ctx += `- ${getPath(a)}: Budget ${fmt(amount)} this month, Spent so far this month ${fmt(actual)}${pctUsed !== null ? ` (${pctUsed}%)` : ''}\n`;
     }
   }
 
@@ -718,13 +1938,8 @@ app.post('/api/chat', async (req, res) => {
     // Build financial context
     let financialContext = '';
     try {
-      const { accounts, transactions } = await getStore();
-      let budgetData = {};
-      const budgetFile = getBudgetFile();
-      if (existsSync(budgetFile)) {
-        budgetData = JSON.parse(readFileSync(budgetFile, 'utf8'));
-      }
-      financialContext = buildFinancialContext(accounts, transactions, budgetData);
+      const { accounts, transactions, budgets, defaultCurrency } = await getStore();
+      financialContext = buildFinancialContext(accounts, transactions, budgets, defaultCurrency);
     } catch (e) {
       console.warn('Could not build financial context:', e.message);
     }
@@ -789,12 +2004,20 @@ Your style:
     res.end();
   } catch (err) {
     console.error('Chat error:', err);
-    if (!res.headersSent) res.status(500).json({ error: err.message });
+    if (!res.headersSent) res.status(err.status ?? 500).json({ error: err.message });
     else res.end();
   }
 });
 
-const PORT = 3001;
+// Leave no lock behind when the server stops
+process.on('exit', releaseLock);
+let stopping = null;
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  // A second signal mustn't exit before an SQLite book's lock row is gone
+  process.on(signal, () => { stopping ??= releaseLock().finally(() => process.exit(0)); });
+}
+
+const PORT = Number(process.env.PORT) || 3001;
 app.listen(PORT, () => {
   console.log(`GnuCash API server running on http://localhost:${PORT}`);
 });
@@ -0,0 +1,195 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Book integrity ("Check & Repair")
+//
+// Finds the damage a book picks up from hand edits, crashes or other tools:
+// record counts that don't match, splits posted to accounts that no longer
+// exist, accounts whose parent is missing, and transactions that don't
+// balance. Every problem comes with the fix GnuCash's own Check & Repair
+// would make; planRepair turns the chosen ones into account and transaction
+// changes saved in a single write, so they are backed up, logged and undoable
+// like any edit.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { v4 as uuidv4 } from 'uuid';
+import { currencyFraction } from './serializer.js';
+import { currencyDecimals, transactionImbalance } from '../frontend/src/types/validation.js';
+
+const COUNT_LABELS = {
+  commodity:    'commodities',
+  account:      'accounts',
+  transaction:  'transactions',
+  price:        'prices',
+  schedxaction: 'scheduled transactions',
+  budget:       'budgets',
+};
+
+/**
+ * The top-level account GnuCash parks unassigned amounts in (Imbalance-USD,
+ * Orphan-USD), creating it like GnuCash does — a BANK account under the root
+ * — if the book has none. A created account is added to `data.accounts` and
+ * returned as `created` so the caller can save and journal it.
+ */
+export function specialAccount(data, prefix, currency) {
+  const name = `${prefix}-${currency}`;
+  const existing = data.accounts.find((a) => a.name === name && !a.placeholder && a.commodity === currency);
+  if (existing) return { account: existing, created: null };
+  const root = data.accounts.find((a) => a.type === 'ROOT');
+  const account = {
+    id:             uuidv4().replace(/-/g, ''),
+    name,
+    type:           'BANK',
+    commodity:      currency,
+    commoditySpace: 'CURRENCY',
+    commodityScu:   currencyFraction(currency),
+    parentId:       root?.id ?? null,
+    code:           '',
+    description:    '',
+    notes:          '',
+    placeholder:    false,
+    hidden:         false,
+  };
+  data.accounts.push(account);
+  return { account, created: account };
+}
+
+/**
+ * Post `imbalance` to Imbalance-<currency> so `txn` balances, the way GnuCash
+ * does when it saves an unbalanced transaction. Returns the Imbalance account
+ * if it had to be created.
+ */
+export function balanceTransaction(txn, imbalance, data) {
+  const { account, created } = specialAccount(data, 'Imbalance', txn.currency);
+  txn.splits.push({
+    id:              uuidv4().replace(/-/g, ''),
+    accountId:       account.id,
+    value:           -imbalance,
+    quantity:        -imbalance,
+    reconciledState: 'n',
+    reconcileDate:   null,
+    memo:            '',
+    action:          '',
+    onlineId:        null,
+  });
+  return created;
+}
+
+// ─── Scan ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Every problem in the book, each `{ id, kind, message, fix, ...ids }`:
+ *   count          — a <gnc:count-data> value is wrong or missing
+ *   orphan-split   — a transaction has splits in accounts that don't exist
+ *   orphan-account — an account's parent doesn't exist
+ *   unbalanced     — a transaction's splits don't sum to zero
+ * `counts` is readCounts()' list. Ids are stable between scans, so a client
+ * can ask for the fixes of the problems it was shown.
+ */
+export function scanBook(data, counts) {
+  const problems = [];
+  const accountsById = new Map(data.accounts.map((a) => [a.id, a]));
+  const root = data.accounts.find((a) => a.type === 'ROOT');
+
+  for (const { type, recorded, actual } of counts) {
+    if (recorded === actual || (recorded === null && actual === 0)) continue;
+    const label = COUNT_LABELS[type] ?? type;
+    problems.push({
+      id: `count:${type}`,
+      kind: 'count',
+      message: recorded === null
+        ? `The book doesn't record how many ${label} it has (${actual})`
+        : `The book records ${recorded} ${label} but has ${actual}`,
+      fix: 'Recompute the record counts',
+    });
+  }
+
+  for (const account of data.accounts) {
+    if (account.type === 'ROOT' || !root) continue;
+    if (account.parentId && accountsById.has(account.parentId)) continue;
+    problems.push({
+      id: `orphan-account:${account.id}`,
+      kind: 'orphan-account',
+      accountId: account.id,
+      message: account.parentId
+        ? `Account "${account.name}" belongs to a parent account that doesn't exist`
+        : `Account "${account.name}" has no parent account`,
+      fix: 'Move it to the top level',
+    });
+  }
+
+  for (const txn of data.transactions) {
+    const orphans = txn.splits.filter((s) => !accountsById.has(s.accountId));
+    if (orphans.length) {
+      problems.push({
+        id: `orphan-split:${txn.id}`,
+        kind: 'orphan-split',
+        transactionId: txn.id,
+        datePosted: txn.datePosted,
+        message: `"${txn.description}" has ${orphans.length} split${orphans.length !== 1 ? 's' : ''} in an account that doesn't exist`,
+        fix: `Move ${orphans.length !== 1 ? 'them' : 'it'} to Orphan-${txn.currency}`,
+      });
+    }
+    const imbalance = transactionImbalance(txn);
+    if (imbalance !== 0) {
+      problems.push({
+        id: `unbalanced:${txn.id}`,
+        kind: 'unbalanced',
+        transactionId: txn.id,
+        datePosted: txn.datePosted,
+        message: `"${txn.description}" is off by ${imbalance.toFixed(currencyDecimals(txn.currency))} ${txn.currency}`,
+        fix: `Balance it against Imbalance-${txn.currency}`,
+      });
+    }
+  }
+
+  return problems;
+}
+
+// ─── Repair ───────────────────────────────────────────────────────────────────
+
+/**
+ * The saves that fix `problems` (a subset of scanBook's list):
+ *   { created: [account], moved: [{ before, after }], ops: [transaction op], counts }
+ * `created` accounts are already in `data.accounts`; `counts` says whether
+ * the record counts need rewriting once everything else is saved. A
+ * transaction with several problems gets a single update.
+ */
+export function planRepair(problems, data) {
+  const created = [];
+  const moved = [];
+  const fixed = new Map();
+
+  const root = data.accounts.find((a) => a.type === 'ROOT');
+  const txnsById = new Map(data.transactions.map((t) => [t.id, t]));
+  const working = (id) => {
+    if (!fixed.has(id)) {
+      const txn = txnsById.get(id);
+      fixed.set(id, { ...txn, splits: txn.splits.map((s) => ({ ...s })) });
+    }
+    return fixed.get(id);
+  };
+
+  for (const problem of problems.filter((p) => p.kind === 'orphan-account')) {
+    const before = data.accounts.find((a) => a.id === problem.accountId);
+    moved.push({ before, after: { ...before, parentId: root.id } });
+  }
+
+  // Orphan splits first: a transaction can only be balanced once all its splits have real accounts
+  for (const problem of problems.filter((p) => p.kind === 'orphan-split')) {
+    const txn = working(problem.transactionId);
+    const { account, created: added } = specialAccount(data, 'Orphan', txn.currency);
+    if (added) created.push(added);
+    const known = new Set(data.accounts.map((a) => a.id));
+    txn.splits = txn.splits.map((s) => (known.has(s.accountId) ? s : { ...s, accountId: account.id, quantity: s.value }));
+  }
+
+  for (const problem of problems.filter((p) => p.kind === 'unbalanced')) {
+    const txn = working(problem.transactionId);
+    const imbalance = transactionImbalance(txn);
+    if (!imbalance) continue;
+    const added = balanceTransaction(txn, imbalance, data);
+    if (added) created.push(added);
+  }
+
+  const ops = [...fixed.values()].map((after) => ({ action: 'update', before: txnsById.get(after.id), after }));
+  return { created, moved, ops, counts: problems.some((p) => p.kind === 'count') };
+}
@@ -0,0 +1,149 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Undo / redo journal
+//
+// Every edit made through the API is recorded as a list of steps, each with
+// the record as it was before and after. Undoing replays the inverse steps
+// through the same serializer functions (so an undo is itself a normal save,
+// with its own backup and .log); redoing replays the originals.
+//
+// The journal lives in memory for the current book only. It is cleared when
+// the book is changed by another program, since the recorded "before" states
+// may no longer match the file.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  saveTransactions, saveAccount, updateAccount, deleteAccount, savePrices, saveScheduled, saveBudget,
+} from './serializer.js';
+
+const MAX_ENTRIES = 100;
+
+let undoStack = [];
+let redoStack = [];
+let nextId = 1;
+
+/**
+ * Steps, one per record kind:
+ *   { kind: 'transactions', ops: [{ action, before, after }], accounts? }   one write
+ *   { kind: 'prices',       ops: [{ action, before, after }] }   one write
+ *   { kind: 'account',   action, before, after }
+ *   { kind: 'scheduled', action, before, after }
+ *   { kind: 'budget',    action, before, after }
+ * `action` is 'create' (before is null), 'update' or 'delete' (after is null).
+ * A transactions step's `accounts` are account changes, in the same shape as
+ * `ops`, saved in the same write (see saveTransactions).
+ */
+export function recordEdit(label, steps) {
+  steps = steps.filter((s) => (s.ops ? s.ops.length || s.accounts?.length : true));
+  if (!steps.length) return;
+  undoStack.push({ id: nextId++, label, at: new Date().toISOString(), steps });
+  if (undoStack.length > MAX_ENTRIES) undoStack.shift();
+  redoStack = [];
+}
+
+export function clearHistory() {
+  undoStack = [];
+  redoStack = [];
+}
+
+function describe(entry) {
+  return entry ? { id: entry.id, label: entry.label, at: entry.at } : null;
+}
+
+/** The edit Ctrl+Z would undo and the one Ctrl+Shift+Z would redo */
+export function historyStatus() {
+  return { undo: describe(undoStack.at(-1)), redo: describe(redoStack.at(-1)) };
+}
+
+const INVERSE_ACTION = { create: 'delete', delete: 'create', update: 'update' };
+
+function invertChange({ action, before, after }) {
+  return { action: INVERSE_ACTION[action], before: after, after: before };
+}
+
+function invertStep(step) {
+  if (!step.ops) return { kind: step.kind, ...invertChange(step) };
+  const inverted = { ...step, ops: step.ops.map(invertChange).reverse() };
+  if (step.accounts) inverted.accounts = step.accounts.map(invertChange).reverse();
+  return inverted;
+}
+
+/** Invert a whole entry: its steps undone in reverse order */
+function invertSteps(steps) {
+  return steps.map(invertStep).reverse();
+}
+
+async function applyStep(step, data) {
+  switch (step.kind) {
+    case 'transactions': {
+      // Accounts the step creates are in the map too, deleted ones still are
+      const accounts = [...data.accounts, ...(step.accounts ?? []).filter((c) => c.after).map((c) => c.after)];
+      return saveTransactions(step.ops, new Map(accounts.map((a) => [a.id, a])), { accounts: step.accounts });
+    }
+    case 'prices':
+      return savePrices(step.ops.map((o) => ({ action: o.action, price: o.after ?? o.before })));
+    case 'account':
+      if (step.action === 'create') return saveAccount(step.after);
+      if (step.action === 'delete') return deleteAccount(step.before.id, data.transactions);
+      return updateAccount(step.before, step.after);
+    case 'scheduled':
+      return saveScheduled(step.after ?? step.before, step.action);
+    case 'budget':
+      return saveBudget(step.after ?? step.before, step.action, new Map(data.accounts.map((a) => [a.id, a])));
+    default:
+      throw new Error(`Unknown journal step ${step.kind}`);
+  }
+}
+
+/** The book's accounts and transactions as they stand after `step` */
+function stepState(step, { accounts, transactions }) {
+  if (step.kind === 'transactions') {
+    const ops = new Map(step.ops.map((o) => [(o.after ?? o.before).id, o]));
+    const changed = new Map((step.accounts ?? []).map((c) => [(c.after ?? c.before).id, c.after]));
+    return {
+      accounts: [...accounts.filter((a) => !changed.has(a.id)), ...[...changed.values()].filter(Boolean)],
+      transactions: [
+        ...transactions.filter((t) => !ops.has(t.id)),
+        ...step.ops.filter((o) => o.after).map((o) => o.after),
+      ],
+    };
+  }
+  if (step.kind === 'account') {
+    const id = (step.after ?? step.before).id;
+    return {
+      accounts: [...accounts.filter((a) => a.id !== id), ...(step.after ? [step.after] : [])],
+      transactions,
+    };
+  }
+  return { accounts, transactions };
+}
+
+/** Apply steps in order; each sees the accounts and transactions left by the ones before it */
+async function applySteps(steps, data) {
+  let state = { accounts: data.accounts, transactions: data.transactions };
+  for (const step of steps) {
+    await applyStep(step, state);
+    state = stepState(step, state);
+  }
+}
+
+// If a step fails the entry stays where it was. Steps already applied are on
+// disk, so callers reload the store whether or not the replay succeeds.
+
+/** Undo the latest edit. Returns `{ entry, steps }` (the steps applied), or null if there is nothing to undo. */
+export async function undoEdit(data) {
+  const entry = undoStack.at(-1);
+  if (!entry) return null;
+  const steps = invertSteps(entry.steps);
+  await applySteps(steps, data);
+  redoStack.push(undoStack.pop());
+  return { entry, steps };
+}
+
+/** Redo the latest undone edit. Returns `{ entry, steps }`, or null if there is nothing to redo. */
+export async function redoEdit(data) {
+  const entry = redoStack.at(-1);
+  if (!entry) return null;
+  await applySteps(entry.steps, data);
+  undoStack.push(redoStack.pop());
+  return { entry, steps: entry.steps };
+}
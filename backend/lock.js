@@ -0,0 +1,222 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// GnuCash book lock
+//
+// GnuCash desktop marks an open XML book with a "<book>.LCK" file next to it,
+// and an open SQLite book with a row (hostname and pid) in the database's
+// gnclock table, and warns when it finds one. We honour that lock — if the
+// book is already open elsewhere we serve it read-only until the user takes
+// the lock over — and take it ourselves while we have the book open, so
+// GnuCash warns in turn.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  closeSync, existsSync, openSync, readFileSync, readSync, renameSync, rmSync, statSync, unlinkSync, writeFileSync,
+} from 'fs';
+import os from 'os';
+import { isSqliteBook, openSqliteBook, readLock, writeLock } from './sqlite.js';
+import { isUnchanged, noteBookContents } from './watcher.js';
+
+const OWNER = 'ModernFinance';
+
+let current = { file: null, sqlite: false, held: false, readOnly: false, released: false, foreign: null };
+// Taking and giving up an SQLite book's lock rewrites the file, so lock
+// changes run one at a time
+let pending = Promise.resolve();
+
+function queued(change) {
+  const result = pending.then(change);
+  pending = result.catch(() => {});
+  return result;
+}
+
+export function lockPath(file) {
+  return `${file}.LCK`;
+}
+
+function ownLockContent() {
+  return `${OWNER} ${os.hostname()} ${process.pid}\n`;
+}
+
+function processAlive(pid) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return err.code === 'EPERM';
+  }
+}
+
+function isSqliteFile(file) {
+  const head = Buffer.alloc(16);
+  try {
+    const fd = openSync(file, 'r');
+    try { readSync(fd, head, 0, head.length, 0); } finally { closeSync(fd); }
+  } catch {
+    return false;
+  }
+  return isSqliteBook(head);
+}
+
+/**
+ * Describe the lock on an SQLite book, or null when there is none. GnuCash
+ * and we both write a hostname and pid, so a lock from a process on this
+ * machine that has since died is stale whoever wrote it.
+ */
+async function inspectTableLock(file) {
+  const db = await openSqliteBook(readFileSync(file));
+  try {
+    const [lock] = readLock(db);
+    if (!lock) return null;
+    const sameHost = lock.hostname === os.hostname();
+    return {
+      owner: `GnuCash on ${lock.hostname}`,
+      since: null,
+      ours: sameHost && lock.pid === process.pid,
+      stale: sameHost && !processAlive(lock.pid),
+    };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Take (or give up) the lock on an SQLite book by rewriting the file with our
+ * gnclock row added (or removed). Unless someone else changed the book since
+ * we read it, the watcher is told the new version is ours.
+ */
+async function writeTableLock(file, take) {
+  const db = await openSqliteBook(readFileSync(file));
+  try {
+    const ours = { hostname: os.hostname(), pid: process.pid };
+    if (!take && !readLock(db).some((l) => l.hostname === ours.hostname && l.pid === ours.pid)) return;
+    writeLock(db, take ? ours : null);
+    const contents = Buffer.from(db.export());
+    const unchanged = await isUnchanged(file);
+    const tmp = `${file}.${process.pid}.tmp`;
+    try {
+      writeFileSync(tmp, contents);
+      if (unchanged) noteBookContents(file, contents, statSync(tmp).mtimeMs);
+      renameSync(tmp, file);
+    } catch (err) {
+      rmSync(tmp, { force: true });
+      throw err;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Describe an existing lock, or null when there is none. Locks we wrote
+ * ourselves from a process that has since died are reported as stale.
+ */
+async function inspectLock(file) {
+  if (current.sqlite) return inspectTableLock(file);
+  const lck = lockPath(file);
+  if (!existsSync(lck)) return null;
+  let content = '';
+  try { content = readFileSync(lck, 'utf-8').trim(); } catch { /* unreadable — treat as foreign */ }
+  const since = statSync(lck).mtime.toISOString();
+
+  const [owner, host, pid] = content.split(/\s+/);
+  if (owner !== OWNER) return { owner: 'GnuCash', since, ours: false, stale: false };
+  const sameHost = host === os.hostname();
+  return {
+    owner: `${OWNER} on ${host}`,
+    since,
+    ours: sameHost && Number(pid) === process.pid,
+    stale: sameHost && !processAlive(Number(pid)),
+  };
+}
+
+/** Take the lock unless someone else holds it (or `force` says to override them). */
+async function acquire(force) {
+  let existing = null;
+  try {
+    existing = await inspectLock(current.file);
+  } catch (err) {
+    // An unreadable book will fail to load with a better message than ours
+    console.warn(`Could not check the lock on ${current.file}: ${err.message}`);
+  }
+  if (existing && !existing.ours && !existing.stale && !force) {
+    Object.assign(current, { held: false, readOnly: true, released: false, foreign: existing });
+    return;
+  }
+  try {
+    if (current.sqlite) await writeTableLock(current.file, true);
+    else writeFileSync(lockPath(current.file), ownLockContent(), 'utf-8');
+    Object.assign(current, { held: true, readOnly: false, released: false, foreign: null });
+  } catch (err) {
+    // A read-only folder can't hold a lock; saving will report its own error
+    console.warn(`Could not lock ${current.file}: ${err.message}`);
+    Object.assign(current, { held: false, readOnly: false, released: false, foreign: null });
+  }
+}
+
+/**
+ * Make sure the lock state belongs to `file`: releases the previous book's
+ * lock when the configured file changes, then locks the new one.
+ */
+export function lockBook(file) {
+  return queued(async () => {
+    if (!file || current.file === file) return;
+    await releaseLock();
+    current = { file, sqlite: isSqliteFile(file), held: false, readOnly: false, released: false, foreign: null };
+    await acquire(false);
+  });
+}
+
+/**
+ * Remove our lock, if we took it. Safe to call more than once. An XML book's
+ * lock file is removed before this returns, so it can run in an exit handler.
+ */
+export async function releaseLock() {
+  if (!current.held) return;
+  current.held = false;
+  try {
+    if (current.sqlite) {
+      await writeTableLock(current.file, false);
+      return;
+    }
+    const lck = lockPath(current.file);
+    if (existsSync(lck) && readFileSync(lck, 'utf-8') === ownLockContent()) unlinkSync(lck);
+  } catch { /* already gone */ }
+}
+
+/**
+ * Switch the session between editing and read-only.
+ *   'read-only' → give up our lock (e.g. to open the book in GnuCash)
+ *   'write'     → take the lock; `force` overrides a lock held elsewhere
+ */
+export function setLockMode(mode, force = false) {
+  return queued(async () => {
+    if (!current.file) return;
+    if (mode === 'read-only') {
+      await releaseLock();
+      Object.assign(current, { readOnly: true, released: true, foreign: null });
+    } else {
+      await acquire(force);
+    }
+  });
+}
+
+export function lockStatus() {
+  return {
+    readOnly: current.readOnly,
+    released: current.released,
+    lockedBy: current.foreign?.owner ?? null,
+    since: current.foreign?.since ?? null,
+  };
+}
+
+export function isReadOnly() {
+  return current.readOnly;
+}
+
+/** Throw if the book may not be written in this session. */
+export function assertWritable() {
+  if (!current.readOnly) return;
+  throw new Error(current.foreign
+    ? `The book is open read-only: it is locked by ${current.foreign.owner}`
+    : 'The book is open read-only');
+}
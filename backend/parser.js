@@ -1,15 +1,27 @@
-import { createReadStream, readFileSync } from 'fs';
-import { createGunzip } from 'zlib';
+import { readFileSync } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { gunzip } from 'zlib';
+import { promisify } from 'util';
 import { XMLParser } from 'fast-xml-parser';
-import { pipeline } from 'stream/promises';
-import { Writable } from 'stream';
 
 import { getGnuCashFile } from './config.js';
+import { bookFormat, budgetSigns, currencyFraction, BUDGET_NATURAL_SIGNS } from './serializer.js';
+import { openSqliteBook, readSqliteBook } from './sqlite.js';
+import { nextDate } from './scheduler.js';
+import { noteBookContents } from './watcher.js';
 
 /** Convenience export so other modules can import GNUCASH_FILE for path work.
  *  Use getGnuCashFile() directly when you need the live value after setup. */
 export const GNUCASH_FILE = null; // kept for import compatibility — see getGnuCashFile()
 
+/** Elements holding text the user typed, which may look like a number */
+const TEXT_TAGS = new Set([
+  'act:name', 'act:code', 'act:description',
+  'trn:num', 'trn:description', 'split:memo', 'split:action',
+  'sx:name', 'bgt:name', 'bgt:description', 'cmdty:name',
+  'slot:key', 'slot:value',
+]);
+
 function parseFraction(str) {
   if (!str) return 0;
   const s = String(str);
@@ -43,23 +55,65 @@ function getSlotValue(slots) {
   return slotMap;
 }
 
+/** Key → raw value map of the slots inside a `type="frame"` slot (e.g. sched-xaction). */
+function getFrameSlots(slots, key) {
+  const frame = ensureArray(slots?.slot).find((s) => s['slot:key'] === key)?.['slot:value'];
+  return getSlotValue(frame);
+}
+
+/** `<sx:start><gdate>2024-01-31</gdate></sx:start>` → "2024-01-31" */
+function parseGdate(node) {
+  return node?.gdate != null ? String(node.gdate).slice(0, 10) : null;
+}
+
+/** A GnuCash guid element, whether or not the parser kept its type attribute. */
+function guid(node) {
+  if (node == null) return null;
+  return String(node['#text'] ?? node);
+}
+
+/** `<cmdty:space>…</cmdty:space><cmdty:id>…</cmdty:id>` → { space, id } */
+function parseCommodityRef(node) {
+  return {
+    space: node?.['cmdty:space'] != null ? String(node['cmdty:space']) : 'CURRENCY',
+    id: node?.['cmdty:id'] != null ? String(node['cmdty:id']) : 'USD',
+  };
+}
+
+/** Pick the currency most accounts are denominated in — the book's home currency. */
+function detectDefaultCurrency(accounts) {
+  const counts = new Map();
+  for (const a of accounts) {
+    if (a.type === 'ROOT' || a.commoditySpace !== 'CURRENCY') continue;
+    counts.set(a.commodity, (counts.get(a.commodity) || 0) + 1);
+  }
+  let best = 'USD';
+  let bestCount = 0;
+  for (const [id, n] of counts) {
+    if (n > bestCount) { best = id; bestCount = n; }
+  }
+  return best;
+}
+
 export async function parseGnuCash() {
   const file = getGnuCashFile();
   if (!file) throw new Error('No GnuCash file configured');
-  const chunks = [];
-
-  await pipeline(
-    createReadStream(file),
-    createGunzip(),
-    new Writable({
-      write(chunk, _enc, cb) {
-        chunks.push(chunk);
-        cb();
-      },
-    })
-  );
+  const { mtimeMs } = await stat(file);
+  const raw = await readFile(file);
+  noteBookContents(file, raw, mtimeMs);
+  return parseBook(raw);
+}
+
+/** Parse another copy of a book (e.g. a backup) without treating it as the open one */
+export async function parseGnuCashSnapshot(file) {
+  return parseBook(await readFile(file));
+}
 
-  const xml = Buffer.concat(chunks).toString('utf-8');
+async function parseBook(raw) {
+  const format = bookFormat(raw);
+  if (format === 'sqlite') return parseSqliteBook(raw);
+  if (!format) throw new Error('Not a GnuCash book: expected XML (compressed or not) or SQLite');
+  const xml = format === 'xml-gzip' ? (await promisify(gunzip)(raw)).toString('utf-8') : raw.toString('utf-8');
 
   const parser = new XMLParser({
     ignoreAttributes: false,
@@ -68,13 +122,19 @@ export async function parseGnuCash() {
     parseAttributeValue: true,
     parseTagValue: true,
     trimValues: true,
+    // Free text stays as written: "007" is not the number 7
+    tagValueProcessor: (name, value) => (TEXT_TAGS.has(name) ? null : value),
     isArray: (name) => {
       return [
+        'gnc:commodity',
         'gnc:account',
         'gnc:transaction',
         'trn:split',
         'slot',
-        'price:price',
+        'price',
+        'gnc:schedxaction',
+        'gnc:recurrence',
+        'gnc:budget',
       ].includes(name);
     },
   });
@@ -82,18 +142,34 @@ export async function parseGnuCash() {
   const doc = parser.parse(xml);
   const book = doc['gnc-v2']['gnc:book'];
 
+  // --- Commodities ---
+  const rawCommodities = book['gnc:commodity'] || [];
+  const commodities = rawCommodities.map((c) => ({
+    ...parseCommodityRef(c),
+    name: c['cmdty:name'] != null ? String(c['cmdty:name']) : '',
+    xcode: c['cmdty:xcode'] != null ? String(c['cmdty:xcode']) : '',
+    fraction: Number(c['cmdty:fraction'])
+      || (c['cmdty:space'] === 'CURRENCY' ? currencyFraction(String(c['cmdty:id'])) : 100),
+  }));
+
   // --- Accounts ---
   const rawAccounts = book['gnc:account'] || [];
   const accounts = rawAccounts.map((a) => {
     const slots = getSlotValue(a['act:slots']);
+    const commodity = parseCommodityRef(a['act:commodity']);
     return {
       id: a['act:id']['#text'] ?? a['act:id'],
-      name: a['act:name'],
+      name: a['act:name'] != null ? String(a['act:name']) : '',
       type: a['act:type'],
+      commodity: commodity.id,
+      commoditySpace: commodity.space,
+      commodityScu: Number(a['act:commodity-scu']) || 100,
       parentId: a['act:parent']
         ? (a['act:parent']['#text'] ?? a['act:parent'])
         : null,
-      description: a['act:description'] || '',
+      code: a['act:code'] != null ? String(a['act:code']) : '',
+      description: a['act:description'] != null ? String(a['act:description']) : '',
+      notes: slots['notes'] != null ? String(slots['notes']) : '',
       placeholder: slots['placeholder'] === 'true' || slots['placeholder'] === true,
       hidden: slots['hidden'] === 'true' || slots['hidden'] === true,
     };
@@ -108,7 +184,7 @@ export async function parseGnuCash() {
       parseDate(t['trn:date-entered']?.['ts:date']) || '';
 
     const slots = getSlotValue(t['trn:slots']);
-    const notes = slots['notes'] || '';
+    const notes = slots['notes'] != null ? String(slots['notes']) : '';
 
     const rawSplits = ensureArray(t['trn:splits']?.['trn:split']);
     const splits = rawSplits.map((s) => {
@@ -120,23 +196,157 @@ export async function parseGnuCash() {
         quantity: parseFraction(s['split:quantity']),
         reconciledState: s['split:reconciled-state'] || 'n',
         reconcileDate: parseDate(s['split:reconcile-date']?.['ts:date']),
-        memo: s['split:memo'] || '',
-        action: s['split:action'] || '',
+        memo: s['split:memo'] != null ? String(s['split:memo']) : '',
+        action: s['split:action'] != null ? String(s['split:action']) : '',
         onlineId: splitSlots['online_id'] != null ? String(splitSlots['online_id']).trim() : null,
       };
     });
 
     return {
       id: t['trn:id']['#text'] ?? t['trn:id'],
-      description: t['trn:description'] || '',
+      num: t['trn:num'] != null ? String(t['trn:num']) : '',
+      description: t['trn:description'] != null ? String(t['trn:description']) : '',
       datePosted,
       dateEntered,
       notes,
-      currency: t['trn:currency']?.['cmdty:id'] || 'USD',
+      currency: t['trn:currency']?.['cmdty:id'] != null ? String(t['trn:currency']['cmdty:id']) : 'USD',
+      scheduledId: slots['from-sched-xaction'] != null ? String(slots['from-sched-xaction']) : null,
+      splits,
+    };
+  });
+
+  // --- Prices ---
+  const rawPrices = ensureArray(book['gnc:pricedb']?.price);
+  const prices = rawPrices.map((p) => {
+    const commodity = parseCommodityRef(p['price:commodity']);
+    return {
+      id: p['price:id']['#text'] ?? p['price:id'],
+      commodity: commodity.id,
+      commoditySpace: commodity.space,
+      currency: parseCommodityRef(p['price:currency']).id,
+      date: parseDate(p['price:time']?.['ts:date']) || '',
+      source: p['price:source'] != null ? String(p['price:source']) : '',
+      type: p['price:type'] != null ? String(p['price:type']) : '',
+      value: parseFraction(p['price:value']),
+    };
+  });
+
+  // --- Scheduled transactions ---
+  // Each schedule owns a template account (named after the schedule's guid)
+  // under the template root; its template transactions carry the real
+  // account and amount of every split in a `sched-xaction` frame slot.
+  const templateSection = book['gnc:template-transactions'] || {};
+  const templateTxns = ensureArray(templateSection['gnc:transaction']).map((t) => {
+    const splits = ensureArray(t['trn:splits']?.['trn:split']).map((s) => {
+      const sx = getFrameSlots(s['split:slots'], 'sched-xaction');
+      const formula = (v) => (v != null && typeof v !== 'object' ? String(v) : '');
+      return {
+        id: guid(s['split:id']),
+        templateAccountId: guid(s['split:account']),
+        accountId: guid(sx['account']),
+        amount: parseFraction(sx['debit-numeric']) - parseFraction(sx['credit-numeric']),
+        debitFormula: formula(sx['debit-formula']),
+        creditFormula: formula(sx['credit-formula']),
+        memo: s['split:memo'] != null ? String(s['split:memo']) : '',
+      };
+    });
+    return {
+      id: guid(t['trn:id']),
+      description: t['trn:description'] != null ? String(t['trn:description']) : '',
+      currency: t['trn:currency']?.['cmdty:id'] != null ? String(t['trn:currency']['cmdty:id']) : 'USD',
+      num: t['trn:num'] != null ? String(t['trn:num']) : '',
+      notes: String(getSlotValue(t['trn:slots'])['notes'] ?? ''),
       splits,
     };
   });
 
-  return { accounts, transactions };
+  const scheduled = ensureArray(book['gnc:schedxaction']).map((x) => {
+    const templateAccountId = guid(x['sx:templ-acct']);
+    const sx = {
+      id: guid(x['sx:id']),
+      name: x['sx:name'] != null ? String(x['sx:name']) : '',
+      enabled: x['sx:enabled'] !== 'n',
+      autoCreate: x['sx:autoCreate'] === 'y',
+      autoCreateNotify: x['sx:autoCreateNotify'] === 'y',
+      advanceCreateDays: Number(x['sx:advanceCreateDays']) || 0,
+      advanceRemindDays: Number(x['sx:advanceRemindDays']) || 0,
+      instanceCount: Number(x['sx:instanceCount']) || 0,
+      startDate: parseGdate(x['sx:start']) || '',
+      lastDate: parseGdate(x['sx:last']),
+      endDate: parseGdate(x['sx:end']),
+      numOccur: Number(x['sx:num-occur']) || 0,
+      remOccur: Number(x['sx:rem-occur']) || 0,
+      templateAccountId,
+      recurrences: ensureArray(x['sx:schedule']?.['gnc:recurrence']).map((r) => ({
+        mult: Number(r['recurrence:mult']) || 1,
+        periodType: String(r['recurrence:period_type'] ?? 'month'),
+        start: parseGdate(r['recurrence:start']) || '',
+        weekendAdjust: r['recurrence:weekend_adj'] != null ? String(r['recurrence:weekend_adj']) : 'none',
+      })),
+      templates: templateTxns.filter((t) => t.splits.some((s) => s.templateAccountId === templateAccountId)),
+    };
+    return { ...sx, nextDate: nextDate(sx) };
+  });
+
+  // --- Budgets ---
+  // Amounts live in the budget's slots: a frame per account guid holding a
+  // numeric slot per period number. A "rollover" string slot marks budgets
+  // whose unspent amounts carry into the next month (GnuCash ignores it);
+  // other slots (period notes) are skipped.
+  const naturalSigns = BUDGET_NATURAL_SIGNS in getFrameSlots(book['book:slots'], 'features');
+  const budgets = ensureArray(book['gnc:budget']).map((b) => {
+    const numPeriods = Number(b['bgt:num-periods']) || 0;
+    const r = b['bgt:recurrence'] ?? {};
+    const amounts = {};
+    for (const slot of ensureArray(b['bgt:slots']?.slot)) {
+      const accountId = String(slot['slot:key']);
+      if (slot['slot:value']?.['@_type'] !== 'frame' || !/^[0-9a-f]{32}$/.test(accountId)) continue;
+      const periods = Array(numPeriods).fill(null);
+      for (const [key, value] of Object.entries(getSlotValue(slot['slot:value']))) {
+        const period = Number(key);
+        if (Number.isInteger(period) && period >= 0 && period < numPeriods) periods[period] = parseFraction(value);
+      }
+      amounts[accountId] = periods;
+    }
+    return {
+      id: guid(b['bgt:id']),
+      name: b['bgt:name'] != null ? String(b['bgt:name']) : '',
+      description: b['bgt:description'] != null ? String(b['bgt:description']) : '',
+      numPeriods,
+      recurrence: {
+        mult: Number(r['recurrence:mult']) || 1,
+        periodType: String(r['recurrence:period_type'] ?? 'month'),
+        start: parseGdate(r['recurrence:start']) || '',
+        weekendAdjust: r['recurrence:weekend_adj'] != null ? String(r['recurrence:weekend_adj']) : 'none',
+      },
+      amounts,
+      rollover: String(getSlotValue(b['bgt:slots']).rollover) === 'true',
+    };
+  });
+
+  return {
+    accounts,
+    transactions,
+    commodities,
+    prices,
+    scheduled,
+    budgets: budgetSigns(budgets, accounts, naturalSigns),
+    defaultCurrency: detectDefaultCurrency(accounts),
+  };
 }
 
+/** The same objects from an SQLite book (see sqlite.js) */
+async function parseSqliteBook(raw) {
+  const db = await openSqliteBook(raw);
+  try {
+    const { features, ...book } = readSqliteBook(db);
+    return {
+      ...book,
+      scheduled: book.scheduled.map((sx) => ({ ...sx, nextDate: nextDate(sx) })),
+      budgets: budgetSigns(book.budgets, book.accounts, features.includes(BUDGET_NATURAL_SIGNS)),
+      defaultCurrency: detectDefaultCurrency(book.accounts),
+    };
+  } finally {
+    db.close();
+  }
+}
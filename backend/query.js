@@ -0,0 +1,206 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Transaction queries
+//
+// Filtering, sorting and cursor pagination for GET /api/transactions, so the
+// browser can page through a large book instead of loading all of it.
+// Cursors are the sort key of the last row returned; rows added or removed
+// between requests don't make pages skip or repeat.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SORT_FIELDS = ['date', 'description', 'amount'];
+export const DEFAULT_LIMIT = 100;
+export const MAX_LIMIT = 1000;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate the query string of GET /api/transactions:
+ *   accountId, descendants=true, from, to (YYYY-MM-DD, inclusive), q,
+ *   minAmount, maxAmount, reconciled (comma list of n|c|y),
+ *   sort (date|description|amount), order (asc|desc), limit, cursor
+ * Returns `{ query }` or `{ error }` (the message is sent back as a 400).
+ */
+export function parseTransactionQuery(params, accounts) {
+  const query = {
+    accountIds: null,
+    accountId: null,
+    from: null,
+    to: null,
+    text: String(params.q ?? '').trim().toLowerCase(),
+    minAmount: null,
+    maxAmount: null,
+    reconciled: null,
+    sort: params.sort || 'date',
+    order: params.order || 'asc',
+    limit: DEFAULT_LIMIT,
+    cursor: null,
+  };
+
+  if (params.accountId) {
+    if (!accounts.some((a) => a.id === params.accountId)) return { error: `Unknown account ${params.accountId}` };
+    query.accountId = params.accountId;
+    query.accountIds = new Set([params.accountId]);
+    if (params.descendants === 'true') {
+      for (const id of descendantIds(params.accountId, accounts)) query.accountIds.add(id);
+    }
+  }
+  for (const key of ['from', 'to']) {
+    if (!params[key]) continue;
+    if (!DATE_RE.test(params[key])) return { error: `${key} must be YYYY-MM-DD` };
+    query[key] = params[key];
+  }
+  for (const key of ['minAmount', 'maxAmount']) {
+    if (params[key] === undefined || params[key] === '') continue;
+    const n = Number(params[key]);
+    if (!isFinite(n)) return { error: `${key} must be a number` };
+    query[key] = n;
+  }
+  if (params.reconciled) {
+    const states = String(params.reconciled).split(',');
+    if (states.some((s) => !['n', 'c', 'y'].includes(s))) return { error: "reconciled must list 'n', 'c' or 'y'" };
+    query.reconciled = new Set(states);
+  }
+  if (!SORT_FIELDS.includes(query.sort)) return { error: `sort must be one of ${SORT_FIELDS.join(', ')}` };
+  if (!['asc', 'desc'].includes(query.order)) return { error: "order must be 'asc' or 'desc'" };
+  if (params.limit !== undefined) {
+    const n = Number(params.limit);
+    if (!Number.isInteger(n) || n < 1) return { error: 'limit must be a positive integer' };
+    query.limit = Math.min(n, MAX_LIMIT);
+  }
+  if (params.cursor) {
+    try {
+      query.cursor = JSON.parse(Buffer.from(String(params.cursor), 'base64url').toString('utf-8'));
+      if (!Array.isArray(query.cursor)) throw new Error();
+    } catch {
+      return { error: 'Invalid cursor' };
+    }
+  }
+  return { query };
+}
+
+function descendantIds(id, accounts) {
+  const out = [];
+  const stack = [id];
+  while (stack.length) {
+    const parent = stack.pop();
+    for (const a of accounts) {
+      if (a.parentId === parent) { out.push(a.id); stack.push(a.id); }
+    }
+  }
+  return out;
+}
+
+/** Oldest first, in the order GnuCash's register uses: date posted, then date entered */
+function chronological(a, b) {
+  return a.datePosted.localeCompare(b.datePosted)
+    || (a.dateEntered ?? '').localeCompare(b.dateEntered ?? '')
+    || a.id.localeCompare(b.id);
+}
+
+/** Lower-cased text of a field, whatever type it was stored as */
+function lower(value) {
+  return String(value ?? '').toLowerCase();
+}
+
+function compareKeys(a, b) {
+  for (let i = 0; i < a.length; i++) {
+    const cmp = typeof a[i] === 'number' ? a[i] - b[i] : String(a[i]).localeCompare(String(b[i]));
+    if (cmp) return cmp;
+  }
+  return 0;
+}
+
+/**
+ * The amount a row stands for: the net quantity of the queried account's
+ * splits, or — without an account — the largest split value.
+ */
+function rowAmount(txn, accountIds) {
+  if (accountIds) {
+    return txn.splits.reduce((sum, s) => sum + (accountIds.has(s.accountId) ? s.quantity : 0), 0);
+  }
+  return Math.max(0, ...txn.splits.map((s) => Math.abs(s.value)));
+}
+
+function matches(txn, q) {
+  const splits = q.accountIds ? txn.splits.filter((s) => q.accountIds.has(s.accountId)) : txn.splits;
+  if (!splits.length) return false;
+  if (q.from && txn.datePosted < q.from) return false;
+  if (q.to && txn.datePosted > q.to) return false;
+  if (q.reconciled && !splits.some((s) => q.reconciled.has(s.reconciledState))) return false;
+
+  if (q.minAmount !== null || q.maxAmount !== null) {
+    const amount = Math.abs(rowAmount(txn, q.accountIds));
+    if (q.minAmount !== null && amount < q.minAmount) return false;
+    if (q.maxAmount !== null && amount > q.maxAmount) return false;
+  }
+
+  if (q.text) {
+    const hit = lower(txn.description).includes(q.text)
+      || lower(txn.notes).includes(q.text)
+      || lower(txn.num).includes(q.text)
+      || txn.splits.some((s) => lower(s.memo).includes(q.text)
+        || Math.abs(s.value).toFixed(2).includes(q.text));
+    if (!hit) return false;
+  }
+  return true;
+}
+
+/**
+ * Run a parsed query against the store. Returns
+ *   { items: [{ transaction, balance }], total, nextCursor, account }
+ * For account queries `balance` is the account's running balance (in its own
+ * commodity) after each transaction, counted over the whole register whatever
+ * the filters, and `account` summarises the register: its current balance and
+ * the last statement reconciliation. Otherwise both are null.
+ */
+export function queryTransactions(data, q) {
+  let balances = null;
+  let account = null;
+  if (q.accountIds) {
+    balances = new Map();
+    let running = 0;
+    let reconciled = null;
+    const inAccount = data.transactions.filter((t) => t.splits.some((s) => q.accountIds.has(s.accountId)));
+    for (const txn of inAccount.sort(chronological)) {
+      for (const s of txn.splits) {
+        if (!q.accountIds.has(s.accountId)) continue;
+        running += s.quantity;
+        if (s.reconciledState !== 'y') continue;
+        const date = s.reconcileDate ?? txn.datePosted;
+        reconciled = {
+          lastDate: !reconciled || date > reconciled.lastDate ? date : reconciled.lastDate,
+          balance: (reconciled?.balance ?? 0) + s.quantity,
+        };
+      }
+      balances.set(txn.id, running);
+    }
+    account = { balance: running, reconciled };
+  }
+
+  const sortKey = (txn) => {
+    const tail = [txn.datePosted, txn.dateEntered ?? '', txn.id];
+    if (q.sort === 'description') return [lower(txn.description), ...tail];
+    if (q.sort === 'amount') return [rowAmount(txn, q.accountIds), ...tail];
+    return tail;
+  };
+  const dir = q.order === 'desc' ? -1 : 1;
+
+  const rows = data.transactions
+    .filter((t) => matches(t, q))
+    .map((t) => ({ txn: t, key: sortKey(t) }))
+    .sort((a, b) => dir * compareKeys(a.key, b.key));
+
+  const start = q.cursor
+    ? rows.findIndex((r) => dir * compareKeys(r.key, q.cursor) > 0)
+    : 0;
+  const page = start === -1 ? [] : rows.slice(start, start + q.limit);
+  const last = page.at(-1);
+  const more = start !== -1 && start + q.limit < rows.length;
+
+  return {
+    items: page.map((r) => ({ transaction: r.txn, balance: balances?.get(r.txn.id) ?? null })),
+    total: rows.length,
+    nextCursor: more ? Buffer.from(JSON.stringify(last.key)).toString('base64url') : null,
+    account,
+  };
+}
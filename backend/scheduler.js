@@ -0,0 +1,135 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Scheduled transaction occurrences
+//
+// Mirrors GnuCash's Recurrence rules: every recurrence is anchored on its
+// start date and repeats every `mult` periods. Dates are "YYYY-MM-DD" strings
+// and all arithmetic is done in UTC so local time zones can't shift a day.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PERIOD_TYPES = [
+  'once', 'day', 'week', 'month', 'end of month', 'nth weekday', 'last weekday', 'year',
+];
+
+export const WEEKEND_ADJUSTMENTS = ['none', 'back', 'forward'];
+
+function toDate(str) {
+  const [y, m, d] = str.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toStr(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(str, days) {
+  const d = toDate(str);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toStr(d);
+}
+
+function daysInMonth(year, month) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Move a Saturday/Sunday to the previous Friday ('back') or next Monday ('forward'). */
+function adjustWeekend(date, adj) {
+  const dow = date.getUTCDay();
+  if (adj === 'back' && (dow === 0 || dow === 6)) date.setUTCDate(date.getUTCDate() - (dow === 0 ? 2 : 1));
+  if (adj === 'forward' && (dow === 0 || dow === 6)) date.setUTCDate(date.getUTCDate() + (dow === 0 ? 1 : 2));
+  return date;
+}
+
+/** The `n`-th occurrence of a recurrence (n = 0 is the anchor itself). */
+function nthOccurrence(rec, n) {
+  const start = toDate(rec.start);
+  const mult = Math.max(1, rec.mult || 1);
+
+  switch (rec.periodType) {
+    case 'once':
+      return n === 0 ? start : null;
+    case 'day':
+      start.setUTCDate(start.getUTCDate() + n * mult);
+      return start;
+    case 'week':
+      start.setUTCDate(start.getUTCDate() + n * mult * 7);
+      return start;
+  }
+
+  // Month-based periods — a year is twelve months
+  const months = n * mult * (rec.periodType === 'year' ? 12 : 1);
+  const y = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + months) / 12);
+  const m = (start.getUTCMonth() + months) % 12;
+  const last = daysInMonth(y, m);
+  let day;
+
+  switch (rec.periodType) {
+    case 'end of month':
+      day = last;
+      break;
+    case 'nth weekday': {
+      // Same weekday, same week-of-month as the anchor (e.g. 2nd Tuesday)
+      const weekday = start.getUTCDay();
+      const nth = Math.floor((start.getUTCDate() - 1) / 7);
+      const first = (weekday - new Date(Date.UTC(y, m, 1)).getUTCDay() + 7) % 7 + 1;
+      day = Math.min(first + nth * 7, last);
+      break;
+    }
+    case 'last weekday': {
+      const weekday = start.getUTCDay();
+      day = last - ((new Date(Date.UTC(y, m, last)).getUTCDay() - weekday + 7) % 7);
+      break;
+    }
+    default:
+      // 'month' / 'year' — clamp the 31st to shorter months
+      day = Math.min(start.getUTCDate(), last);
+  }
+  return adjustWeekend(new Date(Date.UTC(y, m, day)), rec.weekendAdjust);
+}
+
+/** All occurrences of one recurrence falling in [from, to]. */
+export function occurrencesBetween(rec, from, to) {
+  const out = [];
+  for (let n = 0; ; n++) {
+    const d = nthOccurrence(rec, n);
+    if (!d) break;
+    const s = toStr(d);
+    if (s > to) break;
+    if (s >= from) out.push(s);
+    if (n > 100000) break; // runaway guard for daily rules anchored far in the past
+  }
+  return out;
+}
+
+/** The first date that hasn't been covered by a previous run. */
+function firstPending(sx) {
+  return sx.lastDate && sx.lastDate >= sx.startDate ? addDays(sx.lastDate, 1) : sx.startDate;
+}
+
+/**
+ * Dates on which a scheduled transaction is due but not yet created:
+ * after its last run (or from its start), up to today plus its
+ * "create in advance" days, bounded by its end date or remaining occurrences.
+ */
+export function dueDates(sx, today = toStr(new Date())) {
+  if (!sx.enabled || !sx.recurrences.length) return [];
+
+  const from = firstPending(sx);
+  let to = addDays(today, sx.advanceCreateDays || 0);
+  if (sx.endDate && sx.endDate < to) to = sx.endDate;
+  if (from > to) return [];
+
+  const dates = [...new Set(sx.recurrences.flatMap((r) => occurrencesBetween(r, from, to)))].sort();
+  return sx.numOccur ? dates.slice(0, Math.max(0, sx.remOccur ?? 0)) : dates;
+}
+
+/** The next date the schedule will fire (looking up to five years ahead), or null. */
+export function nextDate(sx) {
+  if (!sx.recurrences.length) return null;
+  const from = firstPending(sx);
+  const horizon = addDays(from, 366 * 5);
+  const dates = sx.recurrences.flatMap((r) => occurrencesBetween(r, from, horizon).slice(0, 1)).sort();
+  const next = dates[0] ?? null;
+  if (!next || (sx.endDate && next > sx.endDate)) return null;
+  if (sx.numOccur && (sx.remOccur ?? 0) <= 0) return null;
+  return next;
+}
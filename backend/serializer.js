@@ -1,41 +1,248 @@
-import { createReadStream, createWriteStream, copyFileSync, writeFileSync } from 'fs';
-import { createGunzip, createGzip } from 'zlib';
-import { pipeline } from 'stream/promises';
-import { Writable, Readable } from 'stream';
+import { appendFileSync, existsSync } from 'fs';
+import { open, readFile, rename, rm, stat } from 'fs/promises';
+import path from 'path';
+import { gunzip, gzip } from 'zlib';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
 import { getGnuCashFile } from './config.js';
+import { XmlDocument } from './xmldoc.js';
+import { assertWritable } from './lock.js';
+import { assertBookUnchanged, noteBookContents } from './watcher.js';
+import { backupBook } from './backups.js';
+import * as sqlite from './sqlite.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
 
 // Helper so every function uses the live path (supports setup wizard)
 function GNUCASH_FILE() { return getGnuCashFile(); }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// XML cache
+// Book document
+//
+// The book is parsed into an element tree once and every save mutates that
+// tree by record id (see xmldoc.js), instead of pattern-matching the text.
+// SQLite books are loaded into an in-memory database instead (see sqlite.js)
+// and edited with SQL; either way the file is replaced as a whole.
 // ─────────────────────────────────────────────────────────────────────────────
 
-let cachedRawXml = null;
+let cachedDoc = null;
+// How the cached book was stored, so it is written back the same way
+let cachedFormat = null;
+
+/**
+ * 'xml-gzip' (GnuCash's default), 'xml' (saved uncompressed) or 'sqlite';
+ * null if the bytes aren't any of them.
+ */
+export function bookFormat(bytes) {
+  if (sqlite.isSqliteBook(bytes)) return 'sqlite';
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'xml-gzip';
+  if (/^(\uFEFF)?\s*</.test(bytes.subarray(0, 64).toString('utf-8'))) return 'xml';
+  return null;
+}
+
+/** A book's bytes as `{ format, doc }`: an XmlDocument, or for SQLite a sql.js Database */
+async function decodeBook(raw) {
+  const format = bookFormat(raw);
+  if (format === 'sqlite') return { format, doc: await sqlite.openSqliteBook(raw) };
+  if (!format) throw new Error('Not a GnuCash book: expected XML (compressed or not) or SQLite');
+  const xml = format === 'xml-gzip' ? (await gunzipAsync(raw)).toString('utf-8') : raw.toString('utf-8');
+  const doc = new XmlDocument(xml);
+  if (!doc.root.child('gnc:book')) throw new Error('No <gnc:book> found in the file');
+  return { format, doc };
+}
+
+async function readBookFile() {
+  const { mtimeMs } = await stat(GNUCASH_FILE());
+  const raw = await readFile(GNUCASH_FILE());
+  noteBookContents(GNUCASH_FILE(), raw, mtimeMs);
+  return raw;
+}
+
+/** The cached book, refusing to hand out one the file on disk has moved past. */
+async function loadBook() {
+  await assertBookUnchanged(GNUCASH_FILE());
+  if (!cachedDoc) ({ format: cachedFormat, doc: cachedDoc } = await decodeBook(await readBookFile()));
+  return cachedDoc;
+}
+
+/** Whether the open book is an SQLite database */
+async function isSqlite() {
+  await loadBook();
+  return cachedFormat === 'sqlite';
+}
 
 export async function getRawXml() {
-  if (cachedRawXml) return cachedRawXml;
-  const chunks = [];
-  await pipeline(
-    createReadStream(GNUCASH_FILE()),
-    createGunzip(),
-    new Writable({ write(chunk, _enc, cb) { chunks.push(chunk); cb(); } })
-  );
-  cachedRawXml = Buffer.concat(chunks).toString('utf-8');
-  return cachedRawXml;
+  if (await isSqlite()) throw new Error('The book is an SQLite database, not XML');
+  return (await loadBook()).toString();
+}
+
+function dropCache() {
+  if (cachedFormat === 'sqlite') cachedDoc?.close();
+  cachedDoc = null;
 }
 
 export function invalidateCache() {
-  cachedRawXml = null;
+  dropCache();
+}
+
+/**
+ * Replace the book file without ever leaving a partial one behind: the new
+ * contents go to a temp file in the same folder, are flushed to disk, and
+ * then renamed over the original in one step. A crash at any point leaves
+ * either the old book or the new one.
+ */
+async function writeBookFile(contents) {
+  const file = GNUCASH_FILE();
+  const tmp = `${file}.${process.pid}.tmp`;
+  try {
+    const fh = await open(tmp, 'w', (await stat(file)).mode);
+    try {
+      await fh.writeFile(contents);
+      await fh.sync();
+    } finally {
+      await fh.close();
+    }
+    // Record the new version before it appears, so the watcher doesn't take it for someone else's
+    noteBookContents(file, contents, (await stat(tmp)).mtimeMs);
+    await rename(tmp, file);
+  } catch (err) {
+    await rm(tmp, { force: true });
+    throw err;
+  }
+
+  // Make the rename itself durable; not every platform can fsync a directory
+  try {
+    const dir = await open(path.dirname(file), 'r');
+    await dir.sync().finally(() => dir.close());
+  } catch { /* best effort */ }
+}
+
+/**
+ * Apply `edit(book, doc)` to the cached document and save the result:
+ *   0. Refuse (StaleBookError) if the file changed on disk since it was read
+ *   1. Re-check that the edited book is well-formed XML
+ *   2. Copy the current .gnucash file to a timestamped backup (see backups.js)
+ *   3. Re-gzip (unless the book was saved uncompressed) and atomically
+ *      replace the main .gnucash file
+ * If the edit throws — a record that isn't in the book, a patch that had no
+ * effect — the cached tree is dropped so the half-applied change is never
+ * written. Returns false, without writing anything, if the book is unchanged.
+ */
+async function editBook(edit) {
+  assertWritable();
+  const doc = await loadBook();
+  const original = doc.toString();
+  let xml;
+  try {
+    const book = doc.root.child('gnc:book');
+    if (!book) throw new Error('No <gnc:book> found in the file');
+    edit(book, doc);
+    xml = doc.toString();
+    if (xml !== original) cachedDoc = new XmlDocument(xml);
+  } catch (err) {
+    dropCache();
+    throw err;
+  }
+  if (xml === original) return false;
+
+  backupBook(GNUCASH_FILE());
+
+  try {
+    await writeBookFile(cachedFormat === 'xml' ? Buffer.from(xml, 'utf-8') : await gzipAsync(xml, { level: 9 }));
+  } catch (err) {
+    dropCache();
+    throw err;
+  }
+  return true;
+}
+
+/**
+ * editBook for SQLite books: run `edit(db)` in one SQL transaction on the
+ * cached database, then back up and replace the file with the result. A
+ * failing edit drops the database, rolling the whole change back.
+ */
+async function editSqliteBook(edit) {
+  assertWritable();
+  const db = await loadBook();
+  const totalChanges = () => db.exec('SELECT total_changes()')[0].values[0][0];
+  const before = totalChanges();
+  try {
+    db.run('BEGIN');
+    edit(db);
+    db.run('COMMIT');
+  } catch (err) {
+    dropCache();
+    throw err;
+  }
+  if (totalChanges() === before) return false;
+
+  backupBook(GNUCASH_FILE());
+
+  try {
+    await writeBookFile(Buffer.from(db.export()));
+  } catch (err) {
+    dropCache();
+    throw err;
+  }
+  return true;
+}
+
+/**
+ * Replace the book with an earlier copy of it (a backup). The current book is
+ * backed up first, so the restore can itself be rolled back from the list.
+ */
+export async function restoreBook(snapshotFile) {
+  assertWritable();
+  await assertBookUnchanged(GNUCASH_FILE());
+  let raw = await readFile(snapshotFile);
+  const { format, doc } = await decodeBook(raw);
+  if (format === 'sqlite') {
+    // The gnclock row is whoever has the book open now, not when it was backed up
+    const live = await sqlite.openSqliteBook(await readFile(GNUCASH_FILE()));
+    const [lock] = sqlite.readLock(live);
+    live.close();
+    sqlite.writeLock(doc, lock ?? null);
+    raw = Buffer.from(doc.export());
+    doc.close();
+  }
+  backupBook(GNUCASH_FILE());
+  dropCache();
+  await writeBookFile(raw);
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // XML helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
-function fraction(amount) {
-  const cents = Math.round(amount * 100);
-  return `${cents}/100`;
+function fraction(amount, denom = 100) {
+  const units = Math.round(amount * denom);
+  return `${units}/${denom}`;
+}
+
+/**
+ * Smallest commodity unit for an ISO currency (100 for USD/EUR, 1 for JPY,
+ * 1000 for KWD…). Falls back to 100 for codes Intl doesn't know.
+ */
+export function currencyFraction(code) {
+  try {
+    const digits = new Intl.NumberFormat('en-US', { style: 'currency', currency: code })
+      .resolvedOptions().maximumFractionDigits;
+    return 10 ** digits;
+  } catch {
+    return 100;
+  }
+}
+
+/**
+ * Denominators for a split: value is in the transaction currency, quantity in
+ * the commodity of the split's account (shares for a STOCK account, EUR for a
+ * EUR bank account, …).
+ */
+function splitDenoms(split, currency, accountMap) {
+  const valueDenom = currencyFraction(currency || 'USD');
+  const quantityDenom = accountMap?.get(split.accountId)?.commodityScu ?? valueDenom;
+  return { valueDenom, quantityDenom };
 }
 
 function gnucashDatetime(dateStr) {
@@ -52,40 +259,48 @@ function escapeXml(str) {
     .replace(/"/g, '&quot;');
 }
 
-function serializeTransaction(txn) {
+function serializeSplit(s, { valueDenom = 100, quantityDenom = 100 } = {}) {
+  const reconcileDate = s.reconcileDate
+    ? `\n  <split:reconcile-date>\n    <ts:date>${gnucashDatetime(s.reconcileDate)}</ts:date>\n  </split:reconcile-date>`
+    : '';
+  const memo     = s.memo   ? `\n  <split:memo>${escapeXml(s.memo)}</split:memo>`     : '';
+  const action   = s.action ? `\n  <split:action>${escapeXml(s.action)}</split:action>` : '';
+  const onlineSlot = s.onlineId
+    ? `\n  <split:slots>\n    <slot>\n      <slot:key>online_id</slot:key>\n      <slot:value type="string">${escapeXml(s.onlineId)}</slot:value>\n    </slot>\n  </split:slots>`
+    : '';
+  return `  <trn:split>
+  <split:id type="guid">${s.id}</split:id>${memo}${action}
+  <split:reconciled-state>${s.reconciledState || 'n'}</split:reconciled-state>${reconcileDate}
+  <split:value>${fraction(s.value, valueDenom)}</split:value>
+  <split:quantity>${fraction(s.quantity, quantityDenom)}</split:quantity>
+  <split:account type="guid">${s.accountId}</split:account>${onlineSlot}
+</trn:split>`;
+}
+
+function serializeTransaction(txn, accountMap) {
   const now = new Date().toISOString().replace('T', ' ').slice(0, 19) + ' +0000';
   const dateEntered = txn.dateEntered ? gnucashDatetime(txn.dateEntered) : now;
 
-  const splitsXml = txn.splits.map((s) => {
-    const reconcileDate = s.reconcileDate
-      ? `\n  <split:reconcile-date>\n    <ts:date>${gnucashDatetime(s.reconcileDate)}</ts:date>\n  </split:reconcile-date>`
-      : '';
-    const memo     = s.memo   ? `\n  <split:memo>${escapeXml(s.memo)}</split:memo>`     : '';
-    const action   = s.action ? `\n  <split:action>${escapeXml(s.action)}</split:action>` : '';
-    const onlineSlot = s.onlineId
-      ? `\n  <split:slots>\n    <slot>\n      <slot:key>online_id</slot:key>\n      <slot:value type="string">${escapeXml(s.onlineId)}</slot:value>\n    </slot>\n  </split:slots>`
-      : '';
-    return `  <trn:split>
-  <split:id type="guid">${s.id}</split:id>${action}${reconcileDate}
-  <split:reconciled-state>${s.reconciledState || 'n'}</split:reconciled-state>
-  <split:value>${fraction(s.value)}</split:value>
-  <split:quantity>${fraction(s.quantity)}</split:quantity>
-  <split:account type="guid">${s.accountId}</split:account>${memo}${onlineSlot}
-</trn:split>`;
-  }).join('\n');
+  const splitsXml = txn.splits
+    .map((s) => serializeSplit(s, splitDenoms(s, txn.currency, accountMap)))
+    .join('\n');
+  const numXml = txn.num ? `\n  <trn:num>${escapeXml(txn.num)}</trn:num>` : '';
 
   const notesSlot = txn.notes
     ? `  <slot>\n    <slot:key>notes</slot:key>\n    <slot:value type="string">${escapeXml(txn.notes)}</slot:value>\n  </slot>`
     : '';
   const datePostedSlot = `  <slot>\n    <slot:key>date-posted</slot:key>\n    <slot:value type="gdate">\n      <gdate>${txn.datePosted}</gdate>\n    </slot:value>\n  </slot>`;
-  const slotsSection = `<trn:slots>\n${datePostedSlot}${notesSlot ? '\n' + notesSlot : ''}\n</trn:slots>`;
+  const scheduledSlot = txn.scheduledId
+    ? `  <slot>\n    <slot:key>from-sched-xaction</slot:key>\n    <slot:value type="guid">${txn.scheduledId}</slot:value>\n  </slot>`
+    : '';
+  const slotsSection = `<trn:slots>\n${[datePostedSlot, scheduledSlot, notesSlot].filter(Boolean).join('\n')}\n</trn:slots>`;
 
   return `<gnc:transaction version="2.0.0">
   <trn:id type="guid">${txn.id}</trn:id>
   <trn:currency>
     <cmdty:space>CURRENCY</cmdty:space>
     <cmdty:id>${txn.currency || 'USD'}</cmdty:id>
-  </trn:currency>
+  </trn:currency>${numXml}
   <trn:date-posted>
     <ts:date>${gnucashDatetime(txn.datePosted)}</ts:date>
   </trn:date-posted>
@@ -100,11 +315,314 @@ ${splitsXml}
 </gnc:transaction>`;
 }
 
-function updateCount(xml, type, delta) {
-  return xml.replace(
-    new RegExp(`(<gnc:count-data cd:type="${type}">)(\\d+)(<\\/gnc:count-data>)`),
-    (_, open, num, close) => `${open}${parseInt(num) + delta}${close}`
-  );
+/** Tags that precede `tag` in the canonical order, nearest first. */
+function predecessors(order, tag) {
+  return order.slice(0, order.indexOf(tag)).reverse();
+}
+
+/** Canonical order of the book's top-level records, as GnuCash writes them. */
+const BOOK_ORDER = [
+  'book:id', 'book:slots', 'gnc:count-data', 'gnc:commodity', 'gnc:pricedb', 'gnc:account',
+  'gnc:transaction', 'gnc:template-transactions', 'gnc:schedxaction', 'gnc:budget',
+];
+
+/**
+ * Insert a top-level record where GnuCash would write it: after the last
+ * record of the same kind, else after the nearest kind that precedes it.
+ */
+function insertRecord(book, xml) {
+  const name = xml.match(/^\s*<([^\s/>]+)/)[1];
+  for (const tag of [name, ...predecessors(BOOK_ORDER, name)]) {
+    const last = book.elements(tag).at(-1);
+    if (last) return book.insertAfter(last, xml);
+  }
+  const order = BOOK_ORDER.indexOf(name);
+  const next = book.elements().find((e) => BOOK_ORDER.indexOf(e.name) > order);
+  return next ? book.insertBefore(next, xml) : book.append(xml);
+}
+
+/** A record by id — throws rather than letting an edit silently miss it. */
+function requireRecord(parent, tag, id, label) {
+  const el = parent.findChild(tag, id);
+  if (!el) throw new Error(`${label} ${id} not found in the book`);
+  return el;
+}
+
+/** requireRecord for a row of an SQLite book */
+function requireRow(db, table, id, label) {
+  if (!sqlite.hasRecord(db, table, id)) throw new Error(`${label} ${id} not found in the book`);
+}
+
+/** Set a <gnc:count-data> entry, adding it after the other counts when missing. */
+function setCount(book, type, count) {
+  const el = book.elements('gnc:count-data').find((c) => c.attr('cd:type') === type);
+  if (el) el.setText(count);
+  else if (count) insertRecord(book, `<gnc:count-data cd:type="${type}">${count}</gnc:count-data>`);
+}
+
+/**
+ * Make sure a currency used by a new account is declared in the book's
+ * commodity table (GnuCash writes one <gnc:commodity> per currency in use).
+ */
+function ensureCurrencyCommodity(book, code) {
+  const declared = book.elements('gnc:commodity').some((c) =>
+    c.child('cmdty:space')?.text === 'CURRENCY' && c.child('cmdty:id')?.text === code);
+  if (declared) return;
+  insertRecord(book, `<gnc:commodity version="2.0.0">
+  <cmdty:space>CURRENCY</cmdty:space>
+  <cmdty:id>${code}</cmdty:id>
+  <cmdty:get_quotes/>
+  <cmdty:quote_source>currency</cmdty:quote_source>
+  <cmdty:quote_tz/>
+</gnc:commodity>`);
+  const count = book.elements('gnc:count-data').find((c) => c.attr('cd:type') === 'commodity');
+  setCount(book, 'commodity', parseInt(count?.text ?? '0') + 1);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// In-place record patching
+//
+// Edits must only touch the elements whose values actually changed, so that
+// everything we don't model (trn:num, split:lot, void info, custom slots, the
+// original number formatting…) is carried through byte-for-byte and the book
+// stays safe to open in GnuCash desktop. Children are looked up by name, so
+// attribute versions and element order written by other tools don't matter.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Replace, insert or remove a child element.
+ *   xml === null  → remove the element (and its line) if present
+ *   otherwise     → replace it, or insert it after the first tag in `after`
+ *                   that exists (falls back to the end of the element)
+ */
+function setElement(el, tag, xml, { after = [] } = {}) {
+  const existing = el.child(tag);
+  if (xml === null) {
+    if (existing) el.removeChild(existing);
+    return;
+  }
+  if (existing) {
+    el.replaceChild(existing, xml);
+    return;
+  }
+  const prev = after.map((t) => el.elements(t).at(-1)).find(Boolean);
+  if (prev) el.insertAfter(prev, xml);
+  else el.append(xml);
+}
+
+/** Replace the text content of a child element, leaving its attributes alone. */
+function setText(el, tag, text, opts) {
+  const existing = el.child(tag);
+  if (existing) existing.setText(text);
+  else setElement(el, tag, `<${tag}>${text}</${tag}>`, opts);
+}
+
+/** A child element that must be there for the edit to land. */
+function requireChild(el, ...path) {
+  let node = el;
+  for (const tag of path) {
+    node = node.child(tag);
+    if (!node) throw new Error(`<${el.name}> ${el.id ?? ''} has no <${path.join('> / <')}>`);
+  }
+  return node;
+}
+
+/** The top-level `<slot>` with the given key inside a slots container. */
+function findSlot(container, key) {
+  return container?.elements('slot').find((s) => s.child('slot:key')?.text === key) ?? null;
+}
+
+/**
+ * Set (or remove, when value is null) a string slot inside a slots container.
+ * Only top-level string slots are targeted; every other slot is left untouched.
+ */
+function setStringSlot(el, containerTag, key, value, opts) {
+  const container = el.child(containerTag);
+  const slot = findSlot(container, key);
+
+  if (slot && slot.child('slot:value')?.attr('type') === 'string') {
+    if (value !== null) {
+      slot.child('slot:value').setText(escapeXml(value));
+      return;
+    }
+    container.removeChild(slot);
+    // Drop a container we emptied ourselves
+    if (!container.elements('slot').length) el.removeChild(container);
+    return;
+  }
+  if (value === null) return;
+
+  const slotXml = `<slot>\n  <slot:key>${key}</slot:key>\n  <slot:value type="string">${escapeXml(value)}</slot:value>\n</slot>`;
+  if (container) container.append(slotXml);
+  else setElement(el, containerTag, `<${containerTag}>\n${slotXml.replace(/^/gm, '  ')}\n</${containerTag}>`, opts);
+}
+
+/**
+ * Throw unless patching actually changed the record. A patch that should
+ * have changed something but didn't means the record's layout wasn't
+ * understood, and writing the book back unchanged would lose the edit.
+ */
+function assertPatched(el, beforeXml, label) {
+  if (el.toString() === beforeXml) {
+    throw new Error(`Could not apply the change to ${label} — the book was not modified`);
+  }
+}
+
+// Fields each patch function writes, normalised the way the patches compare them
+const TXN_FIELDS = { currency: (v) => v || 'USD', num: (v) => v || '', datePosted: (v) => v, description: (v) => v || '', notes: (v) => v || '' };
+const SPLIT_FIELDS = {
+  id: (v) => v, memo: (v) => v || '', action: (v) => v || '', reconciledState: (v) => v || 'n',
+  reconcileDate: (v) => v || null, value: (v) => v, quantity: (v) => v, accountId: (v) => v, onlineId: (v) => v || null,
+};
+const ACCOUNT_FIELDS = {
+  name: (v) => v, type: (v) => v, code: (v) => v || '', description: (v) => v || '', notes: (v) => v || '',
+  placeholder: (v) => !!v, hidden: (v) => !!v, parentId: (v) => v || null,
+};
+
+function modeled(obj, fields) {
+  return JSON.stringify(Object.entries(fields).map(([k, norm]) => norm(obj?.[k])));
+}
+
+function transactionDiffers(before, after) {
+  const splits = (t) => (t.splits ?? []).map((s) => modeled(s, SPLIT_FIELDS)).join();
+  return modeled(before, TXN_FIELDS) !== modeled(after, TXN_FIELDS) || splits(before) !== splits(after);
+}
+
+function accountDiffers(before, after) {
+  return modeled(before, ACCOUNT_FIELDS) !== modeled(after, ACCOUNT_FIELDS);
+}
+
+const SPLIT_ORDER = [
+  'split:id', 'split:memo', 'split:action', 'split:reconciled-state',
+  'split:reconcile-date', 'split:value', 'split:quantity', 'split:account',
+  'split:lot', 'split:slots',
+];
+
+function patchSplit(el, before, after, { valueDenom, quantityDenom }) {
+  const opt = (tag) => ({ after: predecessors(SPLIT_ORDER, tag) });
+
+  if (after.memo !== before.memo) {
+    setElement(el, 'split:memo',
+      after.memo ? `<split:memo>${escapeXml(after.memo)}</split:memo>` : null, opt('split:memo'));
+  }
+  if (after.action !== before.action) {
+    setElement(el, 'split:action',
+      after.action ? `<split:action>${escapeXml(after.action)}</split:action>` : null, opt('split:action'));
+  }
+  if ((after.reconciledState || 'n') !== (before.reconciledState || 'n')) {
+    setText(el, 'split:reconciled-state', after.reconciledState || 'n', opt('split:reconciled-state'));
+  }
+  if ((after.reconcileDate || null) !== (before.reconcileDate || null)) {
+    setElement(el, 'split:reconcile-date',
+      after.reconcileDate
+        ? `<split:reconcile-date>\n  <ts:date>${gnucashDatetime(after.reconcileDate)}</ts:date>\n</split:reconcile-date>`
+        : null,
+      opt('split:reconcile-date'));
+  }
+  if (after.value !== before.value) {
+    setText(el, 'split:value', fraction(after.value, valueDenom), opt('split:value'));
+  }
+  if (after.quantity !== before.quantity || after.accountId !== before.accountId) {
+    setText(el, 'split:quantity', fraction(after.quantity, quantityDenom), opt('split:quantity'));
+  }
+  if (after.accountId !== before.accountId) {
+    setText(el, 'split:account', after.accountId, opt('split:account'));
+  }
+  if ((after.onlineId || null) !== (before.onlineId || null)) {
+    setStringSlot(el, 'split:slots', 'online_id', after.onlineId || null, opt('split:slots'));
+  }
+}
+
+const TXN_ORDER = [
+  'trn:id', 'trn:currency', 'trn:num', 'trn:date-posted', 'trn:date-entered',
+  'trn:description', 'trn:slots', 'trn:splits',
+];
+
+/**
+ * Apply the difference between `before` and `after` to an existing
+ * <gnc:transaction> element. Splits are matched by id: existing ones are
+ * patched in place, new ones are serialized and added, removed ones dropped.
+ */
+function patchTransaction(el, before, after, accountMap) {
+  const opt = (tag) => ({ after: predecessors(TXN_ORDER, tag) });
+
+  if ((after.currency || 'USD') !== (before.currency || 'USD')) {
+    requireChild(el, 'trn:currency', 'cmdty:id').setText(escapeXml(after.currency || 'USD'));
+  }
+  if ((after.num || '') !== (before.num || '')) {
+    setElement(el, 'trn:num', after.num ? `<trn:num>${escapeXml(after.num)}</trn:num>` : null, opt('trn:num'));
+  }
+  if (after.datePosted !== before.datePosted) {
+    requireChild(el, 'trn:date-posted', 'ts:date').setText(gnucashDatetime(after.datePosted));
+    // GnuCash mirrors the posted date into a gdate slot
+    findSlot(el.child('trn:slots'), 'date-posted')?.child('slot:value')?.child('gdate')?.setText(after.datePosted);
+  }
+  if ((after.description || '') !== (before.description || '')) {
+    setText(el, 'trn:description', escapeXml(after.description || ''), opt('trn:description'));
+  }
+  if ((after.notes || '') !== (before.notes || '')) {
+    setStringSlot(el, 'trn:slots', 'notes', after.notes || null, opt('trn:slots'));
+  }
+
+  // ── Splits ────────────────────────────────────────────────────────────────
+  const beforeSplits = new Map((before.splits ?? []).map((s) => [s.id, s]));
+  const sameSplits = after.splits.length === beforeSplits.size &&
+    after.splits.every((s) => JSON.stringify(s) === JSON.stringify(beforeSplits.get(s.id)));
+  if (sameSplits) return;
+
+  const container = requireChild(el, 'trn:splits');
+  const existing = new Map(container.elements('trn:split').map((s) => [s.id, s]));
+  const nodes = after.splits.map((s) => {
+    const old = existing.get(s.id);
+    const prev = beforeSplits.get(s.id);
+    const denoms = splitDenoms(s, after.currency, accountMap);
+    if (old && prev) patchSplit(old, prev, s, denoms);
+    return old ?? serializeSplit(s, denoms).trimStart();
+  });
+  // Re-lay the container only when splits were added, removed or reordered
+  const current = container.elements('trn:split');
+  if (nodes.length !== current.length || nodes.some((n, i) => n !== current[i])) {
+    container.setElements(nodes);
+  }
+}
+
+const ACT_ORDER = [
+  'act:name', 'act:id', 'act:type', 'act:commodity', 'act:commodity-scu',
+  'act:non-standard-scu', 'act:code', 'act:description', 'act:slots', 'act:parent',
+];
+
+/** Apply the difference between two account objects to a <gnc:account> element. */
+function patchAccount(el, before, after) {
+  const opt = (tag) => ({ after: predecessors(ACT_ORDER, tag) });
+
+  if (after.name !== before.name) {
+    setText(el, 'act:name', escapeXml(after.name), opt('act:name'));
+  }
+  if (after.type !== before.type) {
+    setText(el, 'act:type', after.type, opt('act:type'));
+  }
+  if ((after.code || '') !== (before.code || '')) {
+    setElement(el, 'act:code',
+      after.code ? `<act:code>${escapeXml(after.code)}</act:code>` : null, opt('act:code'));
+  }
+  if ((after.description || '') !== (before.description || '')) {
+    setElement(el, 'act:description',
+      after.description ? `<act:description>${escapeXml(after.description)}</act:description>` : null,
+      opt('act:description'));
+  }
+  if ((after.notes || '') !== (before.notes || '')) {
+    setStringSlot(el, 'act:slots', 'notes', after.notes || null, opt('act:slots'));
+  }
+  if (!!after.placeholder !== !!before.placeholder) {
+    setStringSlot(el, 'act:slots', 'placeholder', after.placeholder ? 'true' : null, opt('act:slots'));
+  }
+  if (!!after.hidden !== !!before.hidden) {
+    setStringSlot(el, 'act:slots', 'hidden', after.hidden ? 'true' : null, opt('act:slots'));
+  }
+  if ((after.parentId || null) !== (before.parentId || null)) {
+    setElement(el, 'act:parent',
+      after.parentId ? `<act:parent type="guid">${after.parentId}</act:parent>` : null, opt('act:parent'));
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -129,11 +647,12 @@ function nowTimestamp() {
   return new Date().toISOString().replace('T', ' ').slice(0, 19);
 }
 
-function logSplitRow(mod, txn, split, accountName) {
+function logSplitRow(mod, txn, split, account) {
   const now          = nowTimestamp();
   const dateEntered  = txn.dateEntered  || txn.datePosted || '';
   const datePosted   = txn.datePosted   || '';
   const reconcileDate = split.reconcileDate || '1970-01-01';
+  const valueDenom   = currencyFraction(txn.currency || 'USD');
   const fields = [
     mod,
     txn.id,
@@ -142,61 +661,54 @@ function logSplitRow(mod, txn, split, accountName) {
     dateEntered,
     datePosted,
     split.accountId,
-    accountName ?? '',
-    '',                          // num
+    account?.name ?? '',
+    txn.num ?? '',
     txn.description ?? '',
     txn.notes ?? '',
     split.memo ?? '',
     split.action ?? '',
     split.reconciledState || 'n',
-    fraction(split.value),
-    fraction(split.value),
+    fraction(split.quantity ?? split.value, account?.commodityScu ?? valueDenom),
+    fraction(split.value, valueDenom),
     reconcileDate,
   ];
   return fields.join('\t');
 }
 
 /**
- * Write a GnuCash-compatible log entry for a transaction update.
- * beforeTxn = the transaction object before modification
- * afterTxn  = the transaction object after modification
- * accountMap = Map<id, { name }>
+ * Log lines for one transaction change, wrapped in START/END markers.
+ * 'delete' logs the before state, 'create' the after state and 'update'
+ * both (B rows then C rows).
+ */
+function logBlock(beforeTxn, afterTxn, accountMap, action) {
+  const row = (mod, txn) => (split) => logSplitRow(mod, txn, split, accountMap.get(split.accountId));
+  const lines = ['===== START'];
+  if (action === 'delete') {
+    lines.push(...beforeTxn.splits.map(row('D', beforeTxn)));
+  } else if (action === 'create') {
+    lines.push(...afterTxn.splits.map(row('N', afterTxn)));
+  } else {
+    lines.push(...beforeTxn.splits.map(row('B', beforeTxn)));
+    lines.push(...afterTxn.splits.map(row('C', afterTxn)));
+  }
+  lines.push('===== END');
+  return lines;
+}
+
+/**
+ * Write the given blocks to a timestamped .log file. Saves within the same
+ * second share a file name, so a later one appends instead of replacing the
+ * earlier blocks (the audit trail reads them back).
  */
-function writeGnuCashLog(beforeTxn, afterTxn, accountMap, action) {
+function writeLogFile(blocks) {
   const timestamp = new Date()
     .toISOString()
     .replace(/[-T:]/g, '')
     .slice(0, 14); // "YYYYMMDDHHmmss"
 
   const logPath = `${GNUCASH_FILE()}.${timestamp}.log`;
-
-  const lines = [LOG_HEADER];
-
-  if (action === 'delete') {
-    lines.push('===== START');
-    for (const split of beforeTxn.splits) {
-      lines.push(logSplitRow('D', beforeTxn, split, accountMap.get(split.accountId)?.name));
-    }
-    lines.push('===== END');
-  } else if (action === 'create') {
-    lines.push('===== START');
-    for (const split of afterTxn.splits) {
-      lines.push(logSplitRow('N', afterTxn, split, accountMap.get(split.accountId)?.name));
-    }
-    lines.push('===== END');
-  } else {
-    // update — write B (before) then C (after) for every split
-    lines.push('===== START');
-    for (const split of beforeTxn.splits) {
-      lines.push(logSplitRow('B', beforeTxn, split, accountMap.get(split.accountId)?.name));
-    }
-    for (const split of afterTxn.splits) {
-      lines.push(logSplitRow('C', afterTxn, split, accountMap.get(split.accountId)?.name));
-    }
-    lines.push('===== END');
-  }
-
-  writeFileSync(logPath, lines.join('\n') + '\n', 'utf-8');
+  const lines = existsSync(logPath) ? blocks.flat() : [LOG_HEADER, ...blocks.flat()];
+  appendFileSync(logPath, lines.join('\n') + '\n', 'utf-8');
   return logPath;
 }
 
@@ -209,10 +721,16 @@ function serializeAccount(account) {
     ? `\n  <act:description>${escapeXml(account.description)}</act:description>`
     : '';
 
+  const codeXml = account.code
+    ? `\n  <act:code>${escapeXml(account.code)}</act:code>`
+    : '';
+
+  const stringSlot = (key, value) =>
+    `    <slot>\n      <slot:key>${key}</slot:key>\n      <slot:value type="string">${escapeXml(value)}</slot:value>\n    </slot>`;
   const slots = [];
-  if (account.placeholder) {
-    slots.push(`    <slot>\n      <slot:key>placeholder</slot:key>\n      <slot:value type="string">true</slot:value>\n    </slot>`);
-  }
+  if (account.hidden)      slots.push(stringSlot('hidden', 'true'));
+  if (account.notes)       slots.push(stringSlot('notes', account.notes));
+  if (account.placeholder) slots.push(stringSlot('placeholder', 'true'));
   const slotsXml = slots.length
     ? `\n  <act:slots>\n${slots.join('\n')}\n  </act:slots>`
     : '';
@@ -226,10 +744,10 @@ function serializeAccount(account) {
   <act:id type="guid">${account.id}</act:id>
   <act:type>${account.type}</act:type>
   <act:commodity>
-    <cmdty:space>CURRENCY</cmdty:space>
-    <cmdty:id>USD</cmdty:id>
+    <cmdty:space>${escapeXml(account.commoditySpace || 'CURRENCY')}</cmdty:space>
+    <cmdty:id>${escapeXml(account.commodity || 'USD')}</cmdty:id>
   </act:commodity>
-  <act:commodity-scu>100</act:commodity-scu>${descriptionXml}${slotsXml}${parentXml}
+  <act:commodity-scu>${account.commodityScu || currencyFraction(account.commodity || 'USD')}</act:commodity-scu>${codeXml}${descriptionXml}${slotsXml}${parentXml}
 </gnc:account>`;
 }
 
@@ -242,137 +760,742 @@ export async function deleteAccount(id, transactions) {
   const inUse = transactions.some((t) => t.splits.some((s) => s.accountId === id));
   if (inUse) throw new Error('Cannot delete an account that has transactions. Remove or reassign those transactions first.');
 
-  let xml = await getRawXml();
+  if (await isSqlite()) {
+    await editSqliteBook((db) => {
+      requireRow(db, 'accounts', id, 'Account');
+      sqlite.deleteAccount(db, id);
+    });
+    return;
+  }
+  await editBook((book) => {
+    book.removeChild(requireRecord(book, 'gnc:account', id, 'Account'));
+    setCount(book, 'account', book.elements('gnc:account').length);
+  });
+}
+
+/**
+ * Update an existing account in the GnuCash file.
+ * Only the fields that differ between `before` and `after` are rewritten;
+ * everything else in the <gnc:account> element is preserved as-is.
+ */
+function updateXmlAccount(book, before, after) {
+  const el = requireRecord(book, 'gnc:account', before.id, 'Account');
+  const beforeXml = el.toString();
+  patchAccount(el, before, after);
+  if (accountDiffers(before, after)) assertPatched(el, beforeXml, `account ${before.id}`);
+}
+
+function updateSqliteAccount(db, before, after) {
+  requireRow(db, 'accounts', before.id, 'Account');
+  sqlite.writeAccount(db, { ...before, ...after }, { isNew: false });
+}
+
+export async function updateAccount(before, after) {
+  if (await isSqlite()) {
+    await editSqliteBook((db) => updateSqliteAccount(db, before, after));
+    return;
+  }
+  await editBook((book) => updateXmlAccount(book, before, after));
+}
+
+/**
+ * Apply one create / update / delete to the book's accounts, as part of a
+ * larger edit. Unlike deleteAccount, a delete doesn't check for splits: the
+ * same edit may have just removed them.
+ */
+function applyXmlAccountOp(book, { action, before, after }) {
+  if (action === 'create') insertXmlAccount(book, after);
+  else if (action === 'delete') book.removeChild(requireRecord(book, 'gnc:account', before.id, 'Account'));
+  else updateXmlAccount(book, before, after);
+}
+
+/** applyXmlAccountOp for an SQLite book */
+function applySqliteAccountOp(db, { action, before, after }) {
+  if (action === 'create') {
+    insertSqliteAccount(db, after);
+  } else if (action === 'delete') {
+    requireRow(db, 'accounts', before.id, 'Account');
+    sqlite.deleteAccount(db, before.id);
+  } else {
+    updateSqliteAccount(db, before, after);
+  }
+}
+
+/**
+ * Merge account `id` into another in a single write: `ops` are the
+ * transaction updates that repoint its splits, `moved` the { before, after }
+ * of each sub-account given its new parent. The emptied account is deleted.
+ */
+export async function mergeAccount(id, ops, moved, accountMap) {
+  const written = (await isSqlite())
+    ? await editSqliteBook((db) => {
+      for (const op of ops) applySqliteTransactionOp(db, op, accountMap);
+      for (const { before, after } of moved) updateSqliteAccount(db, before, after);
+      requireRow(db, 'accounts', id, 'Account');
+      sqlite.deleteAccount(db, id);
+    })
+    : await editBook((book) => {
+      for (const op of ops) applyTransactionOp(book, op, accountMap);
+      for (const { before, after } of moved) updateXmlAccount(book, before, after);
+      book.removeChild(requireRecord(book, 'gnc:account', id, 'Account'));
+      setCount(book, 'account', book.elements('gnc:account').length);
+    });
+  if (!written) return;
 
-  const timestamp = new Date().toISOString().replace(/[-T:]/g, '').slice(0, 14);
-  copyFileSync(GNUCASH_FILE(), `${GNUCASH_FILE()}.${timestamp}.gnucash`);
+  writeLogFile(ops.map(({ action, before, after }) =>
+    logBlock(before ?? after, after ?? before, accountMap, action)));
+}
+
+/**
+ * Insert a new account into the GnuCash file, after the book's other
+ * accounts (and before its transactions).
+ */
+function insertXmlAccount(book, account) {
+  if ((account.commoditySpace || 'CURRENCY') === 'CURRENCY') {
+    ensureCurrencyCommodity(book, account.commodity || 'USD');
+  }
+  insertRecord(book, serializeAccount(account));
+}
 
-  const before = xml;
-  xml = xml.replace(/<gnc:account version="2\.0\.0">[\s\S]*?<\/gnc:account>/g, (block) => {
-    if (!block.includes(`<act:id type="guid">${id}</act:id>`)) return block;
-    return ''; // remove the block
+function insertSqliteAccount(db, account) {
+  if ((account.commoditySpace || 'CURRENCY') === 'CURRENCY') {
+    sqlite.ensureCurrency(db, account.commodity || 'USD', currencyFraction(account.commodity || 'USD'));
+  }
+  sqlite.writeAccount(db, account, { isNew: true });
+}
+
+export async function saveAccount(account) {
+  if (await isSqlite()) {
+    await editSqliteBook((db) => insertSqliteAccount(db, account));
+    return;
+  }
+  await editBook((book) => {
+    insertXmlAccount(book, account);
+    setCount(book, 'account', book.elements('gnc:account').length);
   });
+}
 
-  if (xml === before) throw new Error(`Account ${id} not found in XML`);
+// ─────────────────────────────────────────────────────────────────────────────
+// Price database
+// ─────────────────────────────────────────────────────────────────────────────
 
-  xml = updateCount(xml, 'account', -1);
+/**
+ * Prices are stored as exact rationals; pick the smallest power-of-ten
+ * denominator that represents the quote without rounding (capped at 10^8).
+ */
+function priceDenom(value) {
+  let denom = 1;
+  while (denom < 1e8 && Math.abs(Math.round(value * denom) - value * denom) > 1e-9) denom *= 10;
+  return denom;
+}
 
-  await pipeline(
-    Readable.from([xml]),
-    createGzip({ level: 9 }),
-    createWriteStream(GNUCASH_FILE())
-  );
-  cachedRawXml = xml;
+function priceFraction(value) {
+  return fraction(value, priceDenom(value));
+}
+
+function serializePrice(price) {
+  return `<price>
+  <price:id type="guid">${price.id}</price:id>
+  <price:commodity>
+    <cmdty:space>${escapeXml(price.commoditySpace || 'CURRENCY')}</cmdty:space>
+    <cmdty:id>${escapeXml(price.commodity)}</cmdty:id>
+  </price:commodity>
+  <price:currency>
+    <cmdty:space>CURRENCY</cmdty:space>
+    <cmdty:id>${escapeXml(price.currency)}</cmdty:id>
+  </price:currency>
+  <price:time>
+    <ts:date>${gnucashDatetime(price.date)}</ts:date>
+  </price:time>
+  <price:source>${escapeXml(price.source || 'user:price-editor')}</price:source>
+  <price:type>${escapeXml(price.type || 'unknown')}</price:type>
+  <price:value>${priceFraction(price.value)}</price:value>
+</price>`;
 }
 
 /**
- * Rename an existing account in the GnuCash file.
+ * Apply a batch of price edits in a single write.
+ * Each edit is `{ action: 'create' | 'update' | 'delete', price }`.
+ * The <gnc:pricedb> element is created (after the commodities, like GnuCash
+ * does) the first time a price is added to a book without one.
  */
-export async function renameAccount(id, newName) {
-  let xml = await getRawXml();
-
-  const timestamp = new Date().toISOString().replace(/[-T:]/g, '').slice(0, 14);
-  copyFileSync(GNUCASH_FILE(), `${GNUCASH_FILE()}.${timestamp}.gnucash`);
-
-  let found = false;
-  xml = xml.replace(/<gnc:account version="2\.0\.0">[\s\S]*?<\/gnc:account>/g, (block) => {
-    // Match the specific account by its GUID in the act:id tag
-    if (!block.includes(`<act:id type="guid">${id}</act:id>`)) return block;
-    found = true;
-    return block.replace(/<act:name>[^<]*<\/act:name>/, `<act:name>${escapeXml(newName)}</act:name>`);
+export async function savePrices(edits) {
+  if (await isSqlite()) {
+    await editSqliteBook((db) => {
+      for (const { action, price } of edits) {
+        if (action !== 'create') requireRow(db, 'prices', price.id, 'Price');
+        sqlite.writePrice(db, action, price, priceDenom(price.value));
+      }
+    });
+    return;
+  }
+  await editBook((book) => {
+    const db = book.child('gnc:pricedb') ?? insertRecord(book, '<gnc:pricedb version="1">\n</gnc:pricedb>');
+
+    for (const { action, price } of edits) {
+      if (action === 'create') {
+        db.append(serializePrice(price));
+        continue;
+      }
+      const el = requireRecord(db, 'price', price.id, 'Price');
+      if (action === 'delete') db.removeChild(el);
+      else db.replaceChild(el, serializePrice(price));
+    }
+
+    setCount(book, 'price', db.elements('price').length);
   });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scheduled transactions
+//
+// A schedule is stored in three places, all of which GnuCash desktop expects:
+//   • a <gnc:schedxaction> block holding the recurrence and run state
+//   • a template account (named after the schedule's guid) under the
+//     "Template Root" account inside <gnc:template-transactions>
+//   • one or more template transactions whose splits post to that template
+//     account and name the real account + amount in a `sched-xaction` frame
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SX_ORDER = [
+  'sx:id', 'sx:name', 'sx:enabled', 'sx:autoCreate', 'sx:autoCreateNotify',
+  'sx:advanceCreateDays', 'sx:advanceRemindDays', 'sx:instanceCount', 'sx:start',
+  'sx:last', 'sx:num-occur', 'sx:rem-occur', 'sx:end', 'sx:templ-acct', 'sx:schedule',
+];
+
+/** Namespaces a book created by the setup wizard may not declare yet. */
+const SX_NAMESPACES = {
+  sx: 'http://www.gnucash.org/XML/sx',
+  recurrence: 'http://www.gnucash.org/XML/recurrence',
+};
+
+function ensureNamespaces(root, namespaces) {
+  const tag = root.openTag;
+  const missing = Object.entries(namespaces).filter(([ns]) => !tag.includes(`xmlns:${ns}=`));
+  if (!missing.length) return;
+  const indent = tag.match(/\n([ \t]+)xmlns:/)?.[1] ?? '     ';
+  const decls = missing.map(([ns, uri]) => `\n${indent}xmlns:${ns}="${uri}"`).join('');
+  root.openTag = tag.replace(/>$/, `${decls}>`);
+}
 
-  if (!found) throw new Error(`Account ${id} not found in XML`);
+function gdate(tag, date) {
+  return `<${tag}>\n  <gdate>${date}</gdate>\n</${tag}>`;
+}
+
+const yn = (b) => (b ? 'y' : 'n');
+
+function serializeRecurrence(r) {
+  const adj = r.weekendAdjust && r.weekendAdjust !== 'none'
+    ? `\n  <recurrence:weekend_adj>${r.weekendAdjust}</recurrence:weekend_adj>`
+    : '';
+  return `<gnc:recurrence version="1.0.0">
+  <recurrence:mult>${r.mult || 1}</recurrence:mult>
+  <recurrence:period_type>${escapeXml(r.periodType)}</recurrence:period_type>
+  <recurrence:start>
+    <gdate>${r.start}</gdate>
+  </recurrence:start>${adj}
+</gnc:recurrence>`;
+}
 
-  await pipeline(
-    Readable.from([xml]),
-    createGzip({ level: 9 }),
-    createWriteStream(GNUCASH_FILE())
-  );
-  cachedRawXml = xml;
+function serializeSchedule(sx) {
+  const recurrences = sx.recurrences.map((r) => serializeRecurrence(r).replace(/^/gm, '  '));
+  return `<sx:schedule>\n${recurrences.join('\n')}\n</sx:schedule>`;
+}
+
+function serializeSchedxaction(sx) {
+  return `<gnc:schedxaction version="2.0.0">
+  <sx:id type="guid">${sx.id}</sx:id>
+  <sx:name>${escapeXml(sx.name)}</sx:name>
+  <sx:enabled>${yn(sx.enabled)}</sx:enabled>
+  <sx:autoCreate>${yn(sx.autoCreate)}</sx:autoCreate>
+  <sx:autoCreateNotify>${yn(sx.autoCreateNotify)}</sx:autoCreateNotify>
+  <sx:advanceCreateDays>${sx.advanceCreateDays || 0}</sx:advanceCreateDays>
+  <sx:advanceRemindDays>${sx.advanceRemindDays || 0}</sx:advanceRemindDays>
+  <sx:instanceCount>${sx.instanceCount || 0}</sx:instanceCount>
+  ${gdate('sx:start', sx.startDate).replace(/\n/g, '\n  ')}${
+    sx.lastDate ? '\n  ' + gdate('sx:last', sx.lastDate).replace(/\n/g, '\n  ') : ''}${
+    sx.numOccur
+      ? `\n  <sx:num-occur>${sx.numOccur}</sx:num-occur>\n  <sx:rem-occur>${sx.remOccur ?? sx.numOccur}</sx:rem-occur>`
+      : sx.endDate ? '\n  ' + gdate('sx:end', sx.endDate).replace(/\n/g, '\n  ') : ''}
+  <sx:templ-acct type="guid">${sx.templateAccountId}</sx:templ-acct>
+  ${serializeSchedule(sx).replace(/\n/g, '\n  ')}
+</gnc:schedxaction>`;
 }
 
 /**
- * Insert a new account into the GnuCash file.
- * Accounts are placed just before the first <gnc:transaction> (or before </gnc:book>).
+ * Apply a schedule's fields to an existing <gnc:schedxaction> element. Only
+ * its direct children are touched, so deferred instances (which carry their
+ * own <sx:last>) and slots are left as they are.
  */
-export async function saveAccount(account) {
-  let xml = await getRawXml();
+function patchSchedxaction(el, sx) {
+  const opt = (tag) => ({ after: predecessors(SX_ORDER, tag) });
+
+  setText(el, 'sx:name', escapeXml(sx.name), opt('sx:name'));
+  setText(el, 'sx:enabled', yn(sx.enabled), opt('sx:enabled'));
+  setText(el, 'sx:autoCreate', yn(sx.autoCreate), opt('sx:autoCreate'));
+  setText(el, 'sx:autoCreateNotify', yn(sx.autoCreateNotify), opt('sx:autoCreateNotify'));
+  setText(el, 'sx:advanceCreateDays', sx.advanceCreateDays || 0, opt('sx:advanceCreateDays'));
+  setText(el, 'sx:advanceRemindDays', sx.advanceRemindDays || 0, opt('sx:advanceRemindDays'));
+  setText(el, 'sx:instanceCount', sx.instanceCount || 0, opt('sx:instanceCount'));
+  setElement(el, 'sx:start', gdate('sx:start', sx.startDate), opt('sx:start'));
+  setElement(el, 'sx:last', sx.lastDate ? gdate('sx:last', sx.lastDate) : null, opt('sx:last'));
+  setElement(el, 'sx:num-occur',
+    sx.numOccur ? `<sx:num-occur>${sx.numOccur}</sx:num-occur>` : null, opt('sx:num-occur'));
+  setElement(el, 'sx:rem-occur',
+    sx.numOccur ? `<sx:rem-occur>${sx.remOccur ?? sx.numOccur}</sx:rem-occur>` : null, opt('sx:rem-occur'));
+  setElement(el, 'sx:end',
+    !sx.numOccur && sx.endDate ? gdate('sx:end', sx.endDate) : null, opt('sx:end'));
+  setElement(el, 'sx:schedule', serializeSchedule(sx), opt('sx:schedule'));
+}
+
+function serializeTemplateRoot(id) {
+  return `<gnc:account version="2.0.0">
+  <act:name>Template Root</act:name>
+  <act:id type="guid">${id}</act:id>
+  <act:type>ROOT</act:type>
+  <act:commodity-scu>0</act:commodity-scu>
+</gnc:account>`;
+}
 
-  // ── 1. Backup ──────────────────────────────────────────────────────────────
-  const timestamp = new Date().toISOString().replace(/[-T:]/g, '').slice(0, 14);
-  copyFileSync(GNUCASH_FILE(), `${GNUCASH_FILE()}.${timestamp}.gnucash`);
+function serializeTemplateAccount(sx, rootId) {
+  return `<gnc:account version="2.0.0">
+  <act:name>${sx.id}</act:name>
+  <act:id type="guid">${sx.templateAccountId}</act:id>
+  <act:type>BANK</act:type>
+  <act:commodity>
+    <cmdty:space>template</cmdty:space>
+    <cmdty:id>template</cmdty:id>
+  </act:commodity>
+  <act:commodity-scu>1</act:commodity-scu>
+  <act:parent type="guid">${rootId}</act:parent>
+</gnc:account>`;
+}
 
-  // ── 2. Patch XML ──────────────────────────────────────────────────────────
-  const accountXml = serializeAccount(account);
+function serializeTemplateSplit(s, templateAccountId, denom) {
+  const slot = (key, type, value) =>
+    `        <slot>\n          <slot:key>${key}</slot:key>\n          <slot:value type="${type}">${value}</slot:value>\n        </slot>`;
+  const debit = s.amount > 0 ? s.amount : 0;
+  const credit = s.amount < 0 ? -s.amount : 0;
+  // Keep a formula GnuCash wrote (e.g. "rent * 1.02") unless the amount was re-entered
+  const debitFormula  = s.debitFormula  ?? (debit  ? String(debit)  : '');
+  const creditFormula = s.creditFormula ?? (credit ? String(credit) : '');
+  const memo = s.memo ? `\n  <split:memo>${escapeXml(s.memo)}</split:memo>` : '';
+  return `  <trn:split>
+  <split:id type="guid">${s.id}</split:id>${memo}
+  <split:reconciled-state>n</split:reconciled-state>
+  <split:value>0/1</split:value>
+  <split:quantity>0/1</split:quantity>
+  <split:account type="guid">${templateAccountId}</split:account>
+  <split:slots>
+    <slot>
+      <slot:key>sched-xaction</slot:key>
+      <slot:value type="frame">
+${slot('account', 'guid', s.accountId)}
+${slot('credit-formula', 'string', escapeXml(creditFormula))}
+${slot('credit-numeric', 'numeric', fraction(credit, denom))}
+${slot('debit-formula', 'string', escapeXml(debitFormula))}
+${slot('debit-numeric', 'numeric', fraction(debit, denom))}
+      </slot:value>
+    </slot>
+  </split:slots>
+</trn:split>`;
+}
 
-  // Insert right before the first transaction block (or before </gnc:book>)
-  if (xml.includes('<gnc:transaction')) {
-    xml = xml.replace('<gnc:transaction', accountXml + '\n<gnc:transaction');
+function serializeTemplateTransaction(tpl, sx) {
+  const now = new Date().toISOString().replace('T', ' ').slice(0, 19) + ' +0000';
+  const denom = currencyFraction(tpl.currency || 'USD');
+  const numXml = tpl.num ? `\n  <trn:num>${escapeXml(tpl.num)}</trn:num>` : '';
+  const notesXml = tpl.notes
+    ? `\n  <trn:slots>\n  <slot>\n    <slot:key>notes</slot:key>\n    <slot:value type="string">${escapeXml(tpl.notes)}</slot:value>\n  </slot>\n</trn:slots>`
+    : '';
+  return `<gnc:transaction version="2.0.0">
+  <trn:id type="guid">${tpl.id}</trn:id>
+  <trn:currency>
+    <cmdty:space>CURRENCY</cmdty:space>
+    <cmdty:id>${escapeXml(tpl.currency || 'USD')}</cmdty:id>
+  </trn:currency>${numXml}
+  <trn:date-posted>
+    <ts:date>${gnucashDatetime(sx.startDate)}</ts:date>
+  </trn:date-posted>
+  <trn:date-entered>
+    <ts:date>${now}</ts:date>
+  </trn:date-entered>
+  <trn:description>${escapeXml(tpl.description || '')}</trn:description>${notesXml}
+  <trn:splits>
+${tpl.splits.map((s) => serializeTemplateSplit(s, sx.templateAccountId, denom)).join('\n')}
+  </trn:splits>
+</gnc:transaction>`;
+}
+
+/** The <gnc:template-transactions> section, created with its root account if missing. */
+function ensureTemplateSection(book) {
+  const section = book.child('gnc:template-transactions');
+  if (!section) {
+    const rootId = uuidv4().replace(/-/g, '');
+    const created = insertRecord(book,
+      `<gnc:template-transactions>\n${serializeTemplateRoot(rootId)}\n</gnc:template-transactions>`);
+    return { section: created, rootId };
+  }
+  const root = section.elements('gnc:account').find((a) => a.child('act:type')?.text === 'ROOT');
+  if (root) return { section, rootId: root.id };
+
+  const rootId = uuidv4().replace(/-/g, '');
+  const first = section.elements()[0];
+  if (first) section.insertBefore(first, serializeTemplateRoot(rootId));
+  else section.append(serializeTemplateRoot(rootId));
+  return { section, rootId };
+}
+
+/**
+ * Create, update or delete a scheduled transaction in a single write.
+ * Updates patch the <gnc:schedxaction> element (or schedxactions row) in
+ * place and rewrite only the schedule's first template transaction (the one
+ * the editor works on).
+ */
+export async function saveScheduled(sx, action = 'update') {
+  const [template] = sx.templates;
+
+  if (await isSqlite()) {
+    await editSqliteBook((db) => {
+      if (action !== 'create') requireRow(db, 'schedxactions', sx.id, 'Scheduled transaction');
+      if (action === 'delete') {
+        sqlite.deleteSchedule(db, sx);
+        return;
+      }
+      sqlite.writeSchedule(db, sx, { isNew: action === 'create' });
+      if (template) {
+        const currency = template.currency || 'USD';
+        sqlite.writeTemplateTransaction(db, template, sx, {
+          currencyGuid: sqlite.ensureCurrency(db, currency, currencyFraction(currency)),
+          denom: currencyFraction(currency),
+        });
+      }
+    });
+    return;
+  }
+
+  await editBook((book, doc) => {
+    if (action === 'create') {
+      ensureNamespaces(doc.root, SX_NAMESPACES);
+      const { section, rootId } = ensureTemplateSection(book);
+      section.append(serializeTemplateAccount(sx, rootId));
+      if (template) section.append(serializeTemplateTransaction(template, sx));
+      insertRecord(book, serializeSchedxaction(sx));
+    } else if (action === 'delete') {
+      book.removeChild(requireRecord(book, 'gnc:schedxaction', sx.id, 'Scheduled transaction'));
+      const section = book.child('gnc:template-transactions');
+      const templateIds = [sx.templateAccountId, ...sx.templates.map((t) => t.id)];
+      for (const el of section?.elements() ?? []) {
+        if (templateIds.includes(el.id)) section.removeChild(el);
+      }
+    } else {
+      patchSchedxaction(requireRecord(book, 'gnc:schedxaction', sx.id, 'Scheduled transaction'), sx);
+      if (template) {
+        const { section } = ensureTemplateSection(book);
+        const tplXml = serializeTemplateTransaction(template, sx);
+        const existing = section.findChild('gnc:transaction', template.id);
+        if (existing) section.replaceChild(existing, tplXml);
+        else section.append(tplXml);
+      }
+    }
+
+    setCount(book, 'schedxaction', book.elements('gnc:schedxaction').length);
+  });
+}
+
+/**
+ * "Since Last Run": add the transactions created from due schedules and
+ * record each schedule's new run state (last date, instance count,
+ * remaining occurrences) in one write, with a single .log entry.
+ */
+export async function runScheduled(transactions, schedules, accountMap) {
+  if (await isSqlite()) {
+    await editSqliteBook((db) => {
+      for (const txn of transactions) applySqliteTransactionOp(db, { action: 'create', before: null, after: txn }, accountMap);
+      for (const sx of schedules) {
+        requireRow(db, 'schedxactions', sx.id, 'Scheduled transaction');
+        sqlite.writeScheduleRun(db, sx);
+      }
+    });
   } else {
-    xml = xml.replace('</gnc:book>', accountXml + '\n</gnc:book>');
+    await editBook((book) => {
+      for (const txn of transactions) insertRecord(book, serializeTransaction(txn, accountMap));
+      setCount(book, 'transaction', book.elements('gnc:transaction').length);
+      for (const sx of schedules) {
+        patchSchedxaction(requireRecord(book, 'gnc:schedxaction', sx.id, 'Scheduled transaction'), sx);
+      }
+    });
   }
-  xml = updateCount(xml, 'account', 1);
 
-  // ── 3. Write compressed file ───────────────────────────────────────────────
-  await pipeline(
-    Readable.from([xml]),
-    createGzip({ level: 9 }),
-    createWriteStream(GNUCASH_FILE())
-  );
-  cachedRawXml = xml;
+  if (transactions.length) {
+    writeLogFile(transactions.map((txn) => logBlock(null, txn, accountMap, 'create')));
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Main save function
+// Budgets
+//
+// A <gnc:budget> holds its name, the number of periods and the recurrence
+// that lays them out; the amounts are slots, a frame per account guid with a
+// numeric slot per period number. A "rollover" string slot, which GnuCash
+// ignores, marks envelope budgets. Other slots (notes on a period) are left
+// alone when the amounts are rewritten.
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** The book feature GnuCash sets once budget amounts are stored with their natural sign */
+export const BUDGET_NATURAL_SIGNS = 'Use natural signs in budget amounts';
+
+const CREDIT_TYPES = new Set(['INCOME', 'LIABILITY', 'CREDIT', 'PAYABLE', 'EQUITY']);
+
+/**
+ * The app enters budgets as positive amounts, income included. Books with
+ * the natural-signs feature store income (and other credit accounts) as
+ * negative amounts instead, like their balances; flip those in either
+ * direction. Other books store amounts as entered.
+ */
+export function budgetSigns(budgets, accounts, naturalSigns) {
+  if (!naturalSigns) return budgets;
+  const credit = new Set(accounts.filter((a) => CREDIT_TYPES.has(a.type)).map((a) => a.id));
+  return budgets.map((b) => ({
+    ...b,
+    amounts: Object.fromEntries(Object.entries(b.amounts).map(([id, periods]) => [
+      id,
+      credit.has(id) ? periods.map((v) => (v == null ? null : -v)) : periods,
+    ])),
+  }));
+}
+
+const BGT_ORDER = ['bgt:id', 'bgt:name', 'bgt:description', 'bgt:num-periods', 'bgt:recurrence', 'bgt:slots'];
+
+const BGT_NAMESPACES = {
+  bgt: 'http://www.gnucash.org/XML/bgt',
+  recurrence: 'http://www.gnucash.org/XML/recurrence',
+};
+
+function serializeBudgetRecurrence(r) {
+  return serializeRecurrence(r).replace(/gnc:recurrence/g, 'bgt:recurrence');
+}
+
+function serializeBudgetAmounts(accountId, periods, denom) {
+  const slots = periods.flatMap((amount, period) => (amount == null ? [] : [
+    `    <slot>\n      <slot:key>${period}</slot:key>\n      <slot:value type="numeric">${fraction(amount, denom)}</slot:value>\n    </slot>`,
+  ]));
+  return `<slot>\n  <slot:key>${accountId}</slot:key>\n  <slot:value type="frame">\n${slots.join('\n')}\n  </slot:value>\n</slot>`;
+}
+
+/** Amount slots for every account with at least one amount */
+function budgetAmountSlots(budget, denoms) {
+  return Object.entries(budget.amounts)
+    .filter(([, periods]) => periods.some((v) => v != null))
+    .map(([id, periods]) => serializeBudgetAmounts(id, periods, denoms.get(id) ?? 100));
+}
+
+function serializeBudget(budget, denoms) {
+  const description = budget.description
+    ? `\n  <bgt:description>${escapeXml(budget.description)}</bgt:description>`
+    : '';
+  const slots = budgetAmountSlots(budget, denoms);
+  if (budget.rollover) {
+    slots.push('<slot>\n  <slot:key>rollover</slot:key>\n  <slot:value type="string">true</slot:value>\n</slot>');
+  }
+  const slotsXml = slots.length
+    ? `\n  <bgt:slots>\n${slots.join('\n').replace(/^/gm, '    ')}\n  </bgt:slots>`
+    : '';
+  return `<gnc:budget version="2.0.0">
+  <bgt:id type="guid">${budget.id}</bgt:id>
+  <bgt:name>${escapeXml(budget.name)}</bgt:name>${description}
+  <bgt:num-periods>${budget.numPeriods}</bgt:num-periods>
+  ${serializeBudgetRecurrence(budget.recurrence).replace(/\n/g, '\n  ')}${slotsXml}
+</gnc:budget>`;
+}
+
+/** Apply a budget's fields to its <gnc:budget>, rewriting only the amount and rollover slots */
+function patchBudget(el, budget, denoms) {
+  const opt = (tag) => ({ after: predecessors(BGT_ORDER, tag) });
+
+  setText(el, 'bgt:name', escapeXml(budget.name), opt('bgt:name'));
+  setElement(el, 'bgt:description',
+    budget.description ? `<bgt:description>${escapeXml(budget.description)}</bgt:description>` : null,
+    opt('bgt:description'));
+  setText(el, 'bgt:num-periods', budget.numPeriods, opt('bgt:num-periods'));
+  setElement(el, 'bgt:recurrence', serializeBudgetRecurrence(budget.recurrence), opt('bgt:recurrence'));
+
+  const slots = budgetAmountSlots(budget, denoms);
+  let container = el.child('bgt:slots');
+  for (const slot of container?.elements('slot') ?? []) {
+    if (/^[0-9a-f]{32}$/.test(slot.child('slot:key')?.text ?? '')) container.removeChild(slot);
+  }
+  if (!container && slots.length) {
+    setElement(el, 'bgt:slots', '<bgt:slots>\n</bgt:slots>', opt('bgt:slots'));
+    container = el.child('bgt:slots');
+  }
+  for (const slot of slots) container.append(slot);
+  if (container && !container.elements('slot').length) el.removeChild(container);
+  setStringSlot(el, 'bgt:slots', 'rollover', budget.rollover ? 'true' : null, opt('bgt:slots'));
+}
+
+/** Whether the book element has a GnuCash feature flag set */
+function hasFeature(book, feature) {
+  const features = findSlot(book.child('book:slots'), 'features')?.child('slot:value');
+  return !!findSlot(features, feature);
+}
+
+/**
+ * Create, update or delete a budget in a single write. `budget.amounts` are
+ * as the app shows them (see budgetSigns); amounts are stored in each
+ * account's smallest commodity unit.
+ */
+export async function saveBudget(budget, action, accountMap) {
+  const denoms = new Map([...accountMap.values()].map((a) => [a.id, a.commodityScu || 100]));
+  const stored = (naturalSigns) => budgetSigns([budget], [...accountMap.values()], naturalSigns)[0];
+
+  if (await isSqlite()) {
+    await editSqliteBook((db) => {
+      if (action !== 'create') requireRow(db, 'budgets', budget.id, 'Budget');
+      if (action === 'delete') {
+        sqlite.deleteBudget(db, budget.id);
+        return;
+      }
+      const naturalSigns = sqlite.hasFeature(db, BUDGET_NATURAL_SIGNS);
+      sqlite.writeBudget(db, stored(naturalSigns), denoms, { isNew: action === 'create' });
+    });
+    return;
+  }
+
+  await editBook((book, doc) => {
+    const naturalSigns = hasFeature(book, BUDGET_NATURAL_SIGNS);
+    if (action === 'create') {
+      ensureNamespaces(doc.root, BGT_NAMESPACES);
+      insertRecord(book, serializeBudget(stored(naturalSigns), denoms));
+    } else {
+      const el = requireRecord(book, 'gnc:budget', budget.id, 'Budget');
+      if (action === 'delete') book.removeChild(el);
+      else patchBudget(el, stored(naturalSigns), denoms);
+    }
+    setCount(book, 'budget', book.elements('gnc:budget').length);
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main save functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** applyTransactionOp for an SQLite book */
+function applySqliteTransactionOp(db, { action, before, after }, accountMap) {
+  const id = (before ?? after).id;
+  if (action !== 'create') requireRow(db, 'transactions', id, 'Transaction');
+  if (action === 'delete') {
+    sqlite.deleteTransaction(db, id);
+    return;
+  }
+  const currency = after.currency || 'USD';
+  sqlite.writeTransaction(db, after, (s) => splitDenoms(s, currency, accountMap), {
+    currencyGuid: sqlite.ensureCurrency(db, currency, currencyFraction(currency)),
+    isNew: action === 'create',
+  });
+}
+
+/** Apply one create / update / delete to the book's transactions. */
+function applyTransactionOp(book, { action, before, after }, accountMap) {
+  if (action === 'create') {
+    insertRecord(book, serializeTransaction(after, accountMap));
+    return;
+  }
+  const id = (before ?? after).id;
+  const el = requireRecord(book, 'gnc:transaction', id, 'Transaction');
+  if (action === 'delete') {
+    book.removeChild(el);
+  } else if (before) {
+    const beforeXml = el.toString();
+    patchTransaction(el, before, after, accountMap);
+    if (transactionDiffers(before, after)) assertPatched(el, beforeXml, `transaction ${id}`);
+  } else {
+    book.replaceChild(el, serializeTransaction(after, accountMap));
+  }
+}
+
 /**
  * Save a transaction change to disk.
  *
  * Steps (matching real GnuCash behaviour):
  *   1. Copy the current .gnucash file to a timestamped backup (.gnucash)
- *   2. Patch the in-memory XML
+ *   2. Patch the book — updates only rewrite the fields that changed, so
+ *      unknown elements and slots survive the round trip
  *   3. Re-gzip and overwrite the main .gnucash file
  *   4. Write a timestamped .log file recording the before/after state
  */
 export async function saveTransaction(txnAfter, action = 'update', txnBefore = null, accountMap = null) {
-  let xml = await getRawXml();
+  await saveTransactions([{ action, before: txnBefore, after: txnAfter }], accountMap ?? new Map());
+}
 
-  // ── 1. Backup: copy current compressed file verbatim ──────────────────────
-  const timestamp = new Date()
-    .toISOString()
-    .replace(/[-T:]/g, '')
-    .slice(0, 14);
-  const backupPath = `${GNUCASH_FILE()}.${timestamp}.gnucash`;
-  copyFileSync(GNUCASH_FILE(), backupPath);
+/**
+ * Apply a batch of transaction changes in one write — an import, a bulk
+ * recategorisation or a statement reconciliation. `ops` is a list of
+ * `{ action: 'create'|'update'|'delete', before, after }`.
+ * `accounts` are account changes of the same shape that belong with them
+ * (the Imbalance account a transaction was balanced into): created and
+ * updated accounts are written before the transactions, deleted ones after,
+ * so no split is ever left pointing at a missing account. `recount` rewrites
+ * every record count once the changes are in.
+ * The whole batch is applied to the book before anything touches disk, so a
+ * missing transaction aborts all of it; then it lands in a single backup,
+ * a single gzip write and one .log.
+ */
+export async function saveTransactions(ops, accountMap, { accounts = [], recount = false } = {}) {
+  const first = accounts.filter((o) => o.action !== 'delete');
+  const last = accounts.filter((o) => o.action === 'delete');
+  const written = (await isSqlite())
+    ? await editSqliteBook((db) => {
+      for (const op of first) applySqliteAccountOp(db, op);
+      for (const op of ops) applySqliteTransactionOp(db, op, accountMap);
+      for (const op of last) applySqliteAccountOp(db, op);
+    })
+    : await editBook((book) => {
+      for (const op of first) applyXmlAccountOp(book, op);
+      for (const op of ops) applyTransactionOp(book, op, accountMap);
+      for (const op of last) applyXmlAccountOp(book, op);
+      const counts = actualCounts(book);
+      if (recount) {
+        for (const [type, count] of Object.entries(counts)) setCount(book, type, count);
+      } else {
+        setCount(book, 'transaction', counts.transaction);
+        if (accounts.length) setCount(book, 'account', counts.account);
+      }
+    });
+  if (!written || !ops.length) return;
 
-  // ── 2. Patch XML ──────────────────────────────────────────────────────────
-  const txnPattern = new RegExp(
-    `<gnc:transaction version="2\\.0\\.0">\\s*<trn:id[^>]*>${txnAfter.id}<\\/trn:id>[\\s\\S]*?<\\/gnc:transaction>`,
-    'g'
-  );
+  writeLogFile(ops.map(({ action, before, after }) =>
+    logBlock(before ?? after, after ?? before, accountMap, action)));
+}
 
-  if (action === 'delete') {
-    xml = xml.replace(txnPattern, '');
-    xml = updateCount(xml, 'transaction', -1);
-  } else if (action === 'create') {
-    xml = xml.replace('</gnc:book>', serializeTransaction(txnAfter) + '\n</gnc:book>');
-    xml = updateCount(xml, 'transaction', 1);
-  } else {
-    xml = xml.replace(txnPattern, serializeTransaction(txnAfter));
-  }
+// ─────────────────────────────────────────────────────────────────────────────
+// Record counts
+//
+// <gnc:count-data> tells GnuCash how many records of each kind to expect
+// (it drives the progress bar while loading). Saves keep them in step; a book
+// edited by hand or by another tool can end up with stale ones.
+// ─────────────────────────────────────────────────────────────────────────────
 
-  // ── 3. Write compressed main file ─────────────────────────────────────────
-  await pipeline(
-    Readable.from([xml]),
-    createGzip({ level: 9 }),
-    createWriteStream(GNUCASH_FILE())
-  );
-  cachedRawXml = xml;
+/** How many records of each counted kind the book actually holds */
+function actualCounts(book) {
+  return {
+    commodity:    book.elements('gnc:commodity').length,
+    account:      book.elements('gnc:account').length,
+    transaction:  book.elements('gnc:transaction').length,
+    price:        book.child('gnc:pricedb')?.elements('price').length ?? 0,
+    schedxaction: book.elements('gnc:schedxaction').length,
+    budget:       book.elements('gnc:budget').length,
+  };
+}
 
-  // ── 4. Write .log file ────────────────────────────────────────────────────
-  const before = txnBefore ?? txnAfter; // fallback: use after for before (no diff shown)
-  const accMap = accountMap ?? new Map();
-  writeGnuCashLog(before, txnAfter, accMap, action);
+/** Each kind's `recorded` count-data value (null when missing) against the `actual` number of records */
+export async function readCounts() {
+  // SQLite books have no count records
+  if (await isSqlite()) return [];
+  const book = (await loadBook()).root.child('gnc:book');
+  const counts = book.elements('gnc:count-data');
+  return Object.entries(actualCounts(book)).map(([type, actual]) => {
+    const el = counts.find((c) => c.attr('cd:type') === type);
+    return { type, recorded: el ? parseInt(el.text) : null, actual };
+  });
 }
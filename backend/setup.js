@@ -6,7 +6,9 @@
  *   Liabilities > Credit Card
  *   Income > Salary, Other Income
  *   Expenses > Groceries, Utilities, Housing, Transportation, Other Expenses
- *   Equity > Opening Balances, Imbalance-USD
+ *   Equity > Opening Balances, Imbalance-<currency>
+ *
+ * Every account is denominated in the chosen home currency (USD by default).
  */
 
 import { createWriteStream } from 'fs';
@@ -14,6 +16,7 @@ import { createGzip } from 'zlib';
 import { pipeline, Readable } from 'stream';
 import { promisify } from 'util';
 import { v4 as uuid } from 'uuid';
+import { currencyFraction } from './serializer.js';
 
 const pipelineAsync = promisify(pipeline);
 
@@ -21,16 +24,20 @@ function guid() {
   return uuid().replace(/-/g, '');
 }
 
-function placeholderAccount(id, name, type, parentId) {
+function commodityXml(currency) {
+  return `  <act:commodity>
+    <cmdty:space>CURRENCY</cmdty:space>
+    <cmdty:id>${currency}</cmdty:id>
+  </act:commodity>
+  <act:commodity-scu>${currencyFraction(currency)}</act:commodity-scu>`;
+}
+
+function placeholderAccount(id, name, type, parentId, currency) {
   return `<gnc:account version="2.0.0">
   <act:name>${name}</act:name>
   <act:id type="guid">${id}</act:id>
   <act:type>${type}</act:type>
-  <act:commodity>
-    <cmdty:space>CURRENCY</cmdty:space>
-    <cmdty:id>USD</cmdty:id>
-  </act:commodity>
-  <act:commodity-scu>100</act:commodity-scu>
+${commodityXml(currency)}
   <act:slots>
     <slot>
       <slot:key>placeholder</slot:key>
@@ -41,21 +48,17 @@ function placeholderAccount(id, name, type, parentId) {
 </gnc:account>`;
 }
 
-function account(id, name, type, parentId) {
+function account(id, name, type, parentId, currency) {
   return `<gnc:account version="2.0.0">
   <act:name>${name}</act:name>
   <act:id type="guid">${id}</act:id>
   <act:type>${type}</act:type>
-  <act:commodity>
-    <cmdty:space>CURRENCY</cmdty:space>
-    <cmdty:id>USD</cmdty:id>
-  </act:commodity>
-  <act:commodity-scu>100</act:commodity-scu>
+${commodityXml(currency)}
   <act:parent type="guid">${parentId}</act:parent>
 </gnc:account>`;
 }
 
-export async function createNewGnuCashFile(filePath) {
+export async function createNewGnuCashFile(filePath, currency = 'USD') {
   // Generate GUIDs for all accounts
   const ids = {
     root:          guid(),
@@ -78,40 +81,42 @@ export async function createNewGnuCashFile(filePath) {
     imbalance:     guid(),
   };
 
+  const c = currency;
   const accounts = [
-    // ROOT (no parent, no commodity needed)
+    // ROOT (no parent; carries the home currency like GnuCash does)
     `<gnc:account version="2.0.0">
   <act:name>Root Account</act:name>
   <act:id type="guid">${ids.root}</act:id>
   <act:type>ROOT</act:type>
+${commodityXml(c)}
 </gnc:account>`,
 
     // Assets
-    placeholderAccount(ids.assets,      'Assets',            'ASSET',   ids.root),
-    account(ids.checking,  'Checking Account',  'BANK',    ids.assets),
-    account(ids.savings,   'Savings Account',   'BANK',    ids.assets),
+    placeholderAccount(ids.assets,      'Assets',            'ASSET',   ids.root, c),
+    account(ids.checking,  'Checking Account',  'BANK',    ids.assets, c),
+    account(ids.savings,   'Savings Account',   'BANK',    ids.assets, c),
 
     // Liabilities
-    placeholderAccount(ids.liabilities, 'Liabilities',       'LIABILITY', ids.root),
-    account(ids.creditCard,'Credit Card',       'CREDIT',    ids.liabilities),
+    placeholderAccount(ids.liabilities, 'Liabilities',       'LIABILITY', ids.root, c),
+    account(ids.creditCard,'Credit Card',       'CREDIT',    ids.liabilities, c),
 
     // Income
-    placeholderAccount(ids.income,      'Income',            'INCOME',  ids.root),
-    account(ids.salary,    'Salary',            'INCOME',  ids.income),
-    account(ids.otherIncome,'Other Income',     'INCOME',  ids.income),
+    placeholderAccount(ids.income,      'Income',            'INCOME',  ids.root, c),
+    account(ids.salary,    'Salary',            'INCOME',  ids.income, c),
+    account(ids.otherIncome,'Other Income',     'INCOME',  ids.income, c),
 
     // Expenses
-    placeholderAccount(ids.expenses,    'Expenses',          'EXPENSE', ids.root),
-    account(ids.groceries, 'Groceries',         'EXPENSE', ids.expenses),
-    account(ids.utilities, 'Utilities',         'EXPENSE', ids.expenses),
-    account(ids.housing,   'Housing',           'EXPENSE', ids.expenses),
-    account(ids.transport, 'Transportation',    'EXPENSE', ids.expenses),
-    account(ids.otherExpenses,'Other Expenses', 'EXPENSE', ids.expenses),
+    placeholderAccount(ids.expenses,    'Expenses',          'EXPENSE', ids.root, c),
+    account(ids.groceries, 'Groceries',         'EXPENSE', ids.expenses, c),
+    account(ids.utilities, 'Utilities',         'EXPENSE', ids.expenses, c),
+    account(ids.housing,   'Housing',           'EXPENSE', ids.expenses, c),
+    account(ids.transport, 'Transportation',    'EXPENSE', ids.expenses, c),
+    account(ids.otherExpenses,'Other Expenses', 'EXPENSE', ids.expenses, c),
 
     // Equity
-    placeholderAccount(ids.equity,      'Equity',            'EQUITY',  ids.root),
-    account(ids.openingBal,'Opening Balances',  'EQUITY',  ids.equity),
-    account(ids.imbalance, 'Imbalance-USD',     'EQUITY',  ids.equity),
+    placeholderAccount(ids.equity,      'Equity',            'EQUITY',  ids.root, c),
+    account(ids.openingBal,'Opening Balances',  'EQUITY',  ids.equity, c),
+    account(ids.imbalance, `Imbalance-${c}`,    'EQUITY',  ids.equity, c),
   ];
 
   const accountCount = accounts.length;
@@ -141,8 +146,16 @@ export async function createNewGnuCashFile(filePath) {
     </slot:value>
   </slot>
 </book:slots>
+<gnc:count-data cd:type="commodity">1</gnc:count-data>
 <gnc:count-data cd:type="account">${accountCount}</gnc:count-data>
 <gnc:count-data cd:type="transaction">0</gnc:count-data>
+<gnc:commodity version="2.0.0">
+  <cmdty:space>CURRENCY</cmdty:space>
+  <cmdty:id>${c}</cmdty:id>
+  <cmdty:get_quotes/>
+  <cmdty:quote_source>currency</cmdty:quote_source>
+  <cmdty:quote_tz/>
+</gnc:commodity>
 ${accounts.join('\n')}
 </gnc:book>
 </gnc-v2>`;
@@ -0,0 +1,694 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// GnuCash SQLite books
+//
+// GnuCash can save a book as an SQLite database instead of XML. This module
+// maps that schema (accounts, transactions, splits, slots, prices, scheduled
+// transactions and budgets) to and from the same objects parser.js produces,
+// so the rest of the app doesn't care which format a book is in. The whole
+// database is loaded into memory with sql.js and written back like an XML
+// book: backed up first, then atomically replaced (see serializer.js).
+//
+// Dates are stored as "YYYY-MM-DD HH:MM:SS" (UTC) timestamps or "YYYYMMDD"
+// dates; books written by GnuCash 2.4 use "YYYYMMDDHHMMSS", which we read too.
+// KVP slots are rows keyed by the owning object's guid; a frame slot's
+// children are keyed by the frame's own guid and named by their full path.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import initSqlJs from 'sql.js';
+import { v4 as uuidv4 } from 'uuid';
+
+const SQLITE_MAGIC = 'SQLite format 3\0';
+
+/** KvpValue::Type values in the slots table */
+const SLOT = { INT64: 1, DOUBLE: 2, NUMERIC: 3, STRING: 4, GUID: 5, TIME64: 6, FRAME: 9, GDATE: 10 };
+
+let sqlJs = null;
+
+export function isSqliteBook(bytes) {
+  return bytes.length >= 16 && bytes.subarray(0, 16).toString('latin1') === SQLITE_MAGIC;
+}
+
+/** Open a book's bytes as an in-memory database; throws if it isn't a GnuCash one */
+export async function openSqliteBook(bytes) {
+  sqlJs ??= initSqlJs();
+  const db = new (await sqlJs).Database(bytes);
+  try {
+    if (!rows(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'books'").length) {
+      throw new Error('This SQLite file is not a GnuCash book');
+    }
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+  return db;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function rows(db, sql, params = []) {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const out = [];
+    while (stmt.step()) out.push(stmt.getAsObject());
+    return out;
+  } finally {
+    stmt.free();
+  }
+}
+
+function run(db, sql, params = []) {
+  db.run(sql, params);
+}
+
+const newGuid = () => uuidv4().replace(/-/g, '');
+
+/** "2024-01-05 10:59:00", "20240105105900" or "20240105" → "2024-01-05"; GnuCash's "never" → null */
+function sqlDate(str) {
+  if (!str) return null;
+  const s = String(str);
+  const date = /^\d{8}/.test(s) ? `${s.slice(0, 4)}-${s.slice(4, 6)}-${s.slice(6, 8)}` : s.slice(0, 10);
+  return date.startsWith('1970-01-01') ? null : date;
+}
+
+/** "YYYY-MM-DD" → the timestamp GnuCash writes for a posted date (10:59 UTC, like the XML books) */
+function sqlTimestamp(date) {
+  return date ? `${date} 10:59:00` : null;
+}
+
+function nowTimestamp() {
+  return new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function ratio(num, denom) {
+  return Number(denom) ? Number(num) / Number(denom) : Number(num) || 0;
+}
+
+function units(amount, denom) {
+  return Math.round(amount * denom);
+}
+
+// ─── Slots ────────────────────────────────────────────────────────────────────
+
+function slotValue(row) {
+  switch (row.slot_type) {
+    case SLOT.INT64:   return row.int64_val;
+    case SLOT.DOUBLE:  return row.double_val;
+    case SLOT.NUMERIC: return ratio(row.numeric_val_num, row.numeric_val_denom);
+    case SLOT.STRING:  return row.string_val;
+    case SLOT.GUID:    return row.guid_val;
+    case SLOT.TIME64:  return row.timespec_val;
+    case SLOT.GDATE:   return sqlDate(row.gdate_val);
+    default:           return null;
+  }
+}
+
+/**
+ * Every object's slots as guid → { path → value }, with frames flattened into
+ * their children's paths ("sched-xaction/account").
+ */
+function readSlots(db) {
+  const byGuid = new Map();
+  for (const row of rows(db, 'SELECT * FROM slots')) {
+    if (!byGuid.has(row.obj_guid)) byGuid.set(row.obj_guid, []);
+    byGuid.get(row.obj_guid).push(row);
+  }
+  const flatten = (guid, out = {}, seen = new Set()) => {
+    if (seen.has(guid)) return out;
+    seen.add(guid);
+    for (const row of byGuid.get(guid) ?? []) {
+      if (row.slot_type === SLOT.FRAME) flatten(row.guid_val, out, seen);
+      else out[row.name] = slotValue(row);
+    }
+    return out;
+  };
+  return { of: (guid) => flatten(guid) };
+}
+
+/** Set (or with a null value, remove) a top-level string slot */
+function setStringSlot(db, guid, name, value) {
+  run(db, 'DELETE FROM slots WHERE obj_guid = ? AND name = ?', [guid, name]);
+  if (value != null && value !== '') {
+    run(db, 'INSERT INTO slots (obj_guid, name, slot_type, string_val) VALUES (?, ?, ?, ?)', [guid, name, SLOT.STRING, value]);
+  }
+}
+
+function setGdateSlot(db, guid, name, date) {
+  run(db, 'DELETE FROM slots WHERE obj_guid = ? AND name = ?', [guid, name]);
+  if (date) {
+    run(db, 'INSERT INTO slots (obj_guid, name, slot_type, gdate_val) VALUES (?, ?, ?, ?)', [guid, name, SLOT.GDATE, date.replace(/-/g, '')]);
+  }
+}
+
+/** Delete an object's slots, including the contents of its frames */
+function deleteSlots(db, guid) {
+  for (const { guid_val: frame } of rows(db, 'SELECT guid_val FROM slots WHERE obj_guid = ? AND slot_type = ?', [guid, SLOT.FRAME])) {
+    if (frame) deleteSlots(db, frame);
+  }
+  run(db, 'DELETE FROM slots WHERE obj_guid = ?', [guid]);
+}
+
+// ─── Commodities ──────────────────────────────────────────────────────────────
+
+function readCommodities(db) {
+  return new Map(rows(db, 'SELECT * FROM commodities').map((c) => [c.guid, c]));
+}
+
+/** The commodities row for a currency, added (like GnuCash does on first use) when missing */
+export function ensureCurrency(db, code, fraction) {
+  const [existing] = rows(db, "SELECT guid FROM commodities WHERE namespace = 'CURRENCY' AND mnemonic = ?", [code]);
+  if (existing) return existing.guid;
+  const guid = newGuid();
+  run(db,
+    `INSERT INTO commodities (guid, namespace, mnemonic, fullname, cusip, fraction, quote_flag, quote_source, quote_tz)
+     VALUES (?, 'CURRENCY', ?, '', '', ?, 1, 'currency', '')`,
+    [guid, code, fraction]);
+  return guid;
+}
+
+function commodityGuid(db, space, id) {
+  const [row] = rows(db, 'SELECT guid FROM commodities WHERE namespace = ? AND mnemonic = ?', [space, id]);
+  if (!row) throw new Error(`Commodity ${space}:${id} not found in the book`);
+  return row.guid;
+}
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+/**
+ * The book as parser.js's objects. Template accounts (under the template
+ * root) and their transactions describe scheduled transactions and are
+ * returned in `scheduled`, not with the real ones.
+ */
+export function readSqliteBook(db) {
+  const slots = readSlots(db);
+  const commodities = readCommodities(db);
+  const [book] = rows(db, 'SELECT * FROM books');
+  const commodityOf = (guid) => commodities.get(guid) ?? { namespace: 'CURRENCY', mnemonic: 'USD' };
+
+  const allAccounts = rows(db, 'SELECT * FROM accounts');
+  const templateIds = new Set(allAccounts
+    .filter((a) => a.guid === book?.root_template_guid || a.parent_guid === book?.root_template_guid)
+    .map((a) => a.guid));
+
+  const accounts = allAccounts
+    .filter((a) => !templateIds.has(a.guid))
+    .map((a) => {
+      const s = slots.of(a.guid);
+      const commodity = commodityOf(a.commodity_guid);
+      return {
+        id: a.guid,
+        name: a.name ?? '',
+        type: a.account_type,
+        commodity: commodity.mnemonic,
+        commoditySpace: commodity.namespace,
+        commodityScu: Number(a.commodity_scu) || 100,
+        parentId: a.parent_guid || null,
+        code: a.code ?? '',
+        description: a.description ?? '',
+        notes: s['notes'] != null ? String(s['notes']) : '',
+        placeholder: !!a.placeholder || s['placeholder'] === 'true',
+        hidden: !!a.hidden || s['hidden'] === 'true',
+      };
+    });
+
+  const splitsByTxn = new Map();
+  for (const s of rows(db, 'SELECT * FROM splits')) {
+    if (!splitsByTxn.has(s.tx_guid)) splitsByTxn.set(s.tx_guid, []);
+    splitsByTxn.get(s.tx_guid).push(s);
+  }
+
+  const transactions = [];
+  const templateTxns = [];
+  for (const t of rows(db, 'SELECT * FROM transactions')) {
+    const s = slots.of(t.guid);
+    const rawSplits = splitsByTxn.get(t.guid) ?? [];
+    const base = {
+      id: t.guid,
+      num: t.num ?? '',
+      description: t.description ?? '',
+      notes: s['notes'] != null ? String(s['notes']) : '',
+      currency: commodityOf(t.currency_guid).mnemonic,
+    };
+
+    if (rawSplits.some((r) => templateIds.has(r.account_guid))) {
+      templateTxns.push({
+        ...base,
+        splits: rawSplits.map((r) => {
+          const sx = slots.of(r.guid);
+          return {
+            id: r.guid,
+            templateAccountId: r.account_guid,
+            accountId: sx['sched-xaction/account'] ?? null,
+            amount: (Number(sx['sched-xaction/debit-numeric']) || 0) - (Number(sx['sched-xaction/credit-numeric']) || 0),
+            debitFormula: sx['sched-xaction/debit-formula'] ?? '',
+            creditFormula: sx['sched-xaction/credit-formula'] ?? '',
+            memo: r.memo ?? '',
+          };
+        }),
+      });
+      continue;
+    }
+
+    transactions.push({
+      ...base,
+      datePosted: sqlDate(t.post_date) ?? '',
+      dateEntered: sqlDate(t.enter_date) ?? '',
+      scheduledId: s['from-sched-xaction'] ?? null,
+      splits: rawSplits.map((r) => {
+        const splitSlots = slots.of(r.guid);
+        return {
+          id: r.guid,
+          accountId: r.account_guid,
+          value: ratio(r.value_num, r.value_denom),
+          quantity: ratio(r.quantity_num, r.quantity_denom),
+          reconciledState: r.reconcile_state || 'n',
+          reconcileDate: sqlDate(r.reconcile_date),
+          memo: r.memo ?? '',
+          action: r.action ?? '',
+          onlineId: splitSlots['online_id'] != null ? String(splitSlots['online_id']).trim() : null,
+        };
+      }),
+    });
+  }
+
+  const prices = rows(db, 'SELECT * FROM prices').map((p) => {
+    const commodity = commodityOf(p.commodity_guid);
+    return {
+      id: p.guid,
+      commodity: commodity.mnemonic,
+      commoditySpace: commodity.namespace,
+      currency: commodityOf(p.currency_guid).mnemonic,
+      date: sqlDate(p.date) ?? '',
+      source: p.source ?? '',
+      type: p.type ?? '',
+      value: ratio(p.value_num, p.value_denom),
+    };
+  });
+
+  const recurrences = rows(db, 'SELECT * FROM recurrences');
+  const scheduled = rows(db, 'SELECT * FROM schedxactions').map((x) => ({
+    id: x.guid,
+    name: x.name ?? '',
+    enabled: !!x.enabled,
+    autoCreate: !!x.auto_create,
+    autoCreateNotify: !!x.auto_notify,
+    advanceCreateDays: Number(x.adv_creation) || 0,
+    advanceRemindDays: Number(x.adv_notify) || 0,
+    instanceCount: Number(x.instance_count) || 0,
+    startDate: sqlDate(x.start_date) ?? '',
+    lastDate: sqlDate(x.last_occur),
+    endDate: sqlDate(x.end_date),
+    numOccur: Number(x.num_occur) || 0,
+    remOccur: Number(x.rem_occur) || 0,
+    templateAccountId: x.template_act_guid,
+    recurrences: recurrences.filter((r) => r.obj_guid === x.guid).map((r) => ({
+      mult: Number(r.recurrence_mult) || 1,
+      periodType: r.recurrence_period_type ?? 'month',
+      start: sqlDate(r.recurrence_period_start) ?? '',
+      weekendAdjust: r.recurrence_weekend_adjust ?? 'none',
+    })),
+    templates: templateTxns.filter((t) => t.splits.some((s) => s.templateAccountId === x.template_act_guid)),
+  }));
+
+  const amountRows = rows(db, 'SELECT * FROM budget_amounts');
+  const budgets = rows(db, 'SELECT * FROM budgets').map((b) => {
+    const numPeriods = Number(b.num_periods) || 0;
+    const [r] = recurrences.filter((rec) => rec.obj_guid === b.guid);
+    const amounts = {};
+    for (const a of amountRows) {
+      if (a.budget_guid !== b.guid || !(a.period_num >= 0 && a.period_num < numPeriods)) continue;
+      amounts[a.account_guid] ??= Array(numPeriods).fill(null);
+      amounts[a.account_guid][a.period_num] = ratio(a.amount_num, a.amount_denom);
+    }
+    return {
+      id: b.guid,
+      name: b.name ?? '',
+      description: b.description ?? '',
+      numPeriods,
+      recurrence: {
+        mult: Number(r?.recurrence_mult) || 1,
+        periodType: r?.recurrence_period_type ?? 'month',
+        start: sqlDate(r?.recurrence_period_start) ?? '',
+        weekendAdjust: r?.recurrence_weekend_adjust ?? 'none',
+      },
+      amounts,
+      rollover: slots.of(b.guid).rollover === 'true',
+    };
+  });
+
+  return {
+    accounts,
+    transactions,
+    commodities: [...commodities.values()]
+      .filter((c) => c.namespace !== 'template')
+      .map((c) => ({
+        space: c.namespace,
+        id: c.mnemonic,
+        name: c.fullname ?? '',
+        xcode: c.cusip ?? '',
+        fraction: Number(c.fraction) || 100,
+      })),
+    prices,
+    scheduled,
+    budgets,
+    // Book options GnuCash sets when a book uses a newer behaviour
+    features: Object.keys(slots.of(book?.guid))
+      .filter((name) => name.startsWith('features/'))
+      .map((name) => name.slice('features/'.length)),
+  };
+}
+
+// ─── Transactions ─────────────────────────────────────────────────────────────
+
+function writeSplit(db, split, txnId, { valueDenom, quantityDenom }, exists) {
+  const fields = [
+    split.accountId,
+    split.memo ?? '',
+    split.action ?? '',
+    split.reconciledState || 'n',
+    split.reconcileDate ? sqlTimestamp(split.reconcileDate) : '1970-01-01 00:00:00',
+    units(split.value, valueDenom), valueDenom,
+    units(split.quantity, quantityDenom), quantityDenom,
+  ];
+  if (exists) {
+    run(db,
+      `UPDATE splits SET account_guid = ?, memo = ?, action = ?, reconcile_state = ?, reconcile_date = ?,
+         value_num = ?, value_denom = ?, quantity_num = ?, quantity_denom = ? WHERE guid = ?`,
+      [...fields, split.id]);
+  } else {
+    run(db,
+      `INSERT INTO splits (account_guid, memo, action, reconcile_state, reconcile_date,
+         value_num, value_denom, quantity_num, quantity_denom, guid, tx_guid)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...fields, split.id, txnId]);
+  }
+  setStringSlot(db, split.id, 'online_id', split.onlineId || null);
+}
+
+function deleteSplit(db, id) {
+  deleteSlots(db, id);
+  run(db, 'DELETE FROM splits WHERE guid = ?', [id]);
+}
+
+/**
+ * Insert or rewrite a transaction and its splits in place — other columns
+ * (lots) and slots of splits that are kept survive. `denoms(split)` gives the
+ * value and quantity denominators, as serializer.js works them out.
+ */
+export function writeTransaction(db, txn, denoms, { currencyGuid, isNew }) {
+  const fields = [
+    currencyGuid,
+    txn.num ?? '',
+    sqlTimestamp(txn.datePosted),
+    txn.dateEntered ? sqlTimestamp(txn.dateEntered) : nowTimestamp(),
+    txn.description ?? '',
+  ];
+  if (isNew) {
+    run(db, 'INSERT INTO transactions (currency_guid, num, post_date, enter_date, description, guid) VALUES (?, ?, ?, ?, ?, ?)',
+      [...fields, txn.id]);
+  } else {
+    run(db, 'UPDATE transactions SET currency_guid = ?, num = ?, post_date = ?, enter_date = ?, description = ? WHERE guid = ?',
+      [...fields, txn.id]);
+  }
+
+  const existing = new Set(rows(db, 'SELECT guid FROM splits WHERE tx_guid = ?', [txn.id]).map((r) => r.guid));
+  const kept = new Set(txn.splits.map((s) => s.id));
+  for (const id of existing) if (!kept.has(id)) deleteSplit(db, id);
+  for (const split of txn.splits) writeSplit(db, split, txn.id, denoms(split), existing.has(split.id));
+
+  setStringSlot(db, txn.id, 'notes', txn.notes || null);
+  setGdateSlot(db, txn.id, 'date-posted', txn.datePosted);
+  if (isNew && txn.scheduledId) {
+    run(db, 'INSERT INTO slots (obj_guid, name, slot_type, guid_val) VALUES (?, ?, ?, ?)',
+      [txn.id, 'from-sched-xaction', SLOT.GUID, txn.scheduledId]);
+  }
+}
+
+export function deleteTransaction(db, id) {
+  for (const { guid } of rows(db, 'SELECT guid FROM splits WHERE tx_guid = ?', [id])) deleteSplit(db, guid);
+  deleteSlots(db, id);
+  run(db, 'DELETE FROM transactions WHERE guid = ?', [id]);
+}
+
+export function hasRecord(db, table, guid) {
+  return rows(db, `SELECT 1 FROM ${table} WHERE guid = ?`, [guid]).length > 0;
+}
+
+// ─── Accounts ─────────────────────────────────────────────────────────────────
+
+/** Insert or update an account row and the slots the app edits (notes, placeholder, hidden) */
+export function writeAccount(db, account, { isNew }) {
+  const commodity = commodityGuid(db, account.commoditySpace || 'CURRENCY', account.commodity || 'USD');
+  const fields = [
+    account.name,
+    account.type,
+    commodity,
+    account.commodityScu || 100,
+    account.parentId || null,
+    account.code || '',
+    account.description || '',
+    account.hidden ? 1 : 0,
+    account.placeholder ? 1 : 0,
+  ];
+  if (isNew) {
+    run(db,
+      `INSERT INTO accounts (name, account_type, commodity_guid, commodity_scu, parent_guid, code, description,
+         hidden, placeholder, non_std_scu, guid)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?)`,
+      [...fields, account.id]);
+  } else {
+    run(db,
+      `UPDATE accounts SET name = ?, account_type = ?, commodity_guid = ?, commodity_scu = ?, parent_guid = ?,
+         code = ?, description = ?, hidden = ?, placeholder = ? WHERE guid = ?`,
+      [...fields, account.id]);
+  }
+  setStringSlot(db, account.id, 'notes', account.notes || null);
+  setStringSlot(db, account.id, 'placeholder', account.placeholder ? 'true' : null);
+  setStringSlot(db, account.id, 'hidden', account.hidden ? 'true' : null);
+}
+
+export function deleteAccount(db, id) {
+  deleteSlots(db, id);
+  run(db, 'DELETE FROM accounts WHERE guid = ?', [id]);
+}
+
+// ─── Prices ───────────────────────────────────────────────────────────────────
+
+export function writePrice(db, action, price, valueDenom) {
+  if (action === 'delete') {
+    run(db, 'DELETE FROM prices WHERE guid = ?', [price.id]);
+    return;
+  }
+  const fields = [
+    commodityGuid(db, price.commoditySpace || 'CURRENCY', price.commodity),
+    commodityGuid(db, 'CURRENCY', price.currency),
+    `${price.date} 10:59:00`,
+    price.source || '',
+    price.type || '',
+    units(price.value, valueDenom), valueDenom,
+  ];
+  if (action === 'create') {
+    run(db,
+      `INSERT INTO prices (commodity_guid, currency_guid, date, source, type, value_num, value_denom, guid)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...fields, price.id]);
+  } else {
+    run(db,
+      `UPDATE prices SET commodity_guid = ?, currency_guid = ?, date = ?, source = ?, type = ?,
+         value_num = ?, value_denom = ? WHERE guid = ?`,
+      [...fields, price.id]);
+  }
+}
+
+// ─── Scheduled transactions ───────────────────────────────────────────────────
+
+// A schedule's template transactions post to a template account of its own,
+// under the book's template root; each template split carries the real
+// account and amounts in a "sched-xaction" frame slot.
+
+const gdate = (date) => (date ? date.replace(/-/g, '') : null);
+
+/** The template root account, created (with the book's pointer to it) when missing */
+function templateRoot(db) {
+  const [book] = rows(db, 'SELECT guid, root_template_guid FROM books');
+  if (book.root_template_guid && hasRecord(db, 'accounts', book.root_template_guid)) return book.root_template_guid;
+  const guid = book.root_template_guid || newGuid();
+  run(db,
+    `INSERT INTO accounts (guid, name, account_type, commodity_guid, commodity_scu, non_std_scu, parent_guid,
+       code, description, hidden, placeholder) VALUES (?, 'Template Root', 'ROOT', NULL, 0, 0, NULL, '', '', 0, 0)`,
+    [guid]);
+  run(db, 'UPDATE books SET root_template_guid = ? WHERE guid = ?', [guid, book.guid]);
+  return guid;
+}
+
+function templateCommodity(db) {
+  const [existing] = rows(db, "SELECT guid FROM commodities WHERE namespace = 'template' AND mnemonic = 'template'");
+  if (existing) return existing.guid;
+  const guid = newGuid();
+  run(db,
+    `INSERT INTO commodities (guid, namespace, mnemonic, fullname, cusip, fraction, quote_flag, quote_source, quote_tz)
+     VALUES (?, 'template', 'template', 'template', 'template', 1, 0, NULL, NULL)`,
+    [guid]);
+  return guid;
+}
+
+/**
+ * Insert or update a scheduled transaction and its recurrences; a new one
+ * gets its template account too. Other columns and slots are kept.
+ */
+export function writeSchedule(db, sx, { isNew }) {
+  const fields = [
+    sx.name,
+    sx.enabled ? 1 : 0,
+    gdate(sx.startDate),
+    sx.numOccur ? null : gdate(sx.endDate),
+    gdate(sx.lastDate),
+    sx.numOccur || 0,
+    sx.numOccur ? sx.remOccur ?? sx.numOccur : 0,
+    sx.autoCreate ? 1 : 0,
+    sx.autoCreateNotify ? 1 : 0,
+    sx.advanceCreateDays || 0,
+    sx.advanceRemindDays || 0,
+    sx.instanceCount || 0,
+    sx.templateAccountId,
+  ];
+  if (isNew) {
+    run(db,
+      `INSERT INTO accounts (guid, name, account_type, commodity_guid, commodity_scu, non_std_scu, parent_guid,
+         code, description, hidden, placeholder) VALUES (?, ?, 'BANK', ?, 1, 0, ?, '', '', 0, 0)`,
+      [sx.templateAccountId, sx.id, templateCommodity(db), templateRoot(db)]);
+    run(db,
+      `INSERT INTO schedxactions (name, enabled, start_date, end_date, last_occur, num_occur, rem_occur,
+         auto_create, auto_notify, adv_creation, adv_notify, instance_count, template_act_guid, guid)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...fields, sx.id]);
+  } else {
+    run(db,
+      `UPDATE schedxactions SET name = ?, enabled = ?, start_date = ?, end_date = ?, last_occur = ?, num_occur = ?,
+         rem_occur = ?, auto_create = ?, auto_notify = ?, adv_creation = ?, adv_notify = ?, instance_count = ?,
+         template_act_guid = ? WHERE guid = ?`,
+      [...fields, sx.id]);
+  }
+
+  run(db, 'DELETE FROM recurrences WHERE obj_guid = ?', [sx.id]);
+  for (const r of sx.recurrences) {
+    run(db,
+      `INSERT INTO recurrences (obj_guid, recurrence_mult, recurrence_period_type, recurrence_period_start,
+         recurrence_weekend_adjust) VALUES (?, ?, ?, ?, ?)`,
+      [sx.id, r.mult || 1, r.periodType, gdate(r.start), r.weekendAdjust || 'none']);
+  }
+}
+
+function writeTemplateSplit(db, s, tpl, templateAccountId, denom) {
+  const debit = s.amount > 0 ? s.amount : 0;
+  const credit = s.amount < 0 ? -s.amount : 0;
+  run(db,
+    `INSERT INTO splits (guid, tx_guid, account_guid, memo, action, reconcile_state, reconcile_date,
+       value_num, value_denom, quantity_num, quantity_denom) VALUES (?, ?, ?, ?, '', 'n', '1970-01-01 00:00:00', 0, 1, 0, 1)`,
+    [s.id, tpl.id, templateAccountId, s.memo ?? '']);
+
+  const frame = newGuid();
+  run(db, 'INSERT INTO slots (obj_guid, name, slot_type, guid_val) VALUES (?, ?, ?, ?)', [s.id, 'sched-xaction', SLOT.FRAME, frame]);
+  run(db, 'INSERT INTO slots (obj_guid, name, slot_type, guid_val) VALUES (?, ?, ?, ?)',
+    [frame, 'sched-xaction/account', SLOT.GUID, s.accountId]);
+  // Keep a formula GnuCash wrote (e.g. "rent * 1.02") unless the amount was re-entered
+  for (const [side, amount, formula] of [['credit', credit, s.creditFormula], ['debit', debit, s.debitFormula]]) {
+    run(db, 'INSERT INTO slots (obj_guid, name, slot_type, string_val) VALUES (?, ?, ?, ?)',
+      [frame, `sched-xaction/${side}-formula`, SLOT.STRING, formula ?? (amount ? String(amount) : '')]);
+    run(db, 'INSERT INTO slots (obj_guid, name, slot_type, numeric_val_num, numeric_val_denom) VALUES (?, ?, ?, ?, ?)',
+      [frame, `sched-xaction/${side}-numeric`, SLOT.NUMERIC, units(amount, denom), denom]);
+  }
+}
+
+/** Write a schedule's template transaction, replacing the one with its id if there is one */
+export function writeTemplateTransaction(db, tpl, sx, { currencyGuid, denom }) {
+  deleteTransaction(db, tpl.id);
+  run(db, 'INSERT INTO transactions (guid, currency_guid, num, post_date, enter_date, description) VALUES (?, ?, ?, ?, ?, ?)',
+    [tpl.id, currencyGuid, tpl.num ?? '', sqlTimestamp(sx.startDate), nowTimestamp(), tpl.description ?? '']);
+  for (const s of tpl.splits) writeTemplateSplit(db, s, tpl, sx.templateAccountId, denom);
+  setStringSlot(db, tpl.id, 'notes', tpl.notes || null);
+}
+
+/** Delete a scheduled transaction with its recurrences, template transactions and template account */
+export function deleteSchedule(db, sx) {
+  for (const tpl of sx.templates) deleteTransaction(db, tpl.id);
+  deleteAccount(db, sx.templateAccountId);
+  deleteSlots(db, sx.id);
+  run(db, 'DELETE FROM recurrences WHERE obj_guid = ?', [sx.id]);
+  run(db, 'DELETE FROM schedxactions WHERE guid = ?', [sx.id]);
+}
+
+/** Record a schedule's run state after "Since Last Run" */
+export function writeScheduleRun(db, sx) {
+  run(db, 'UPDATE schedxactions SET last_occur = ?, instance_count = ?, rem_occur = ? WHERE guid = ?', [
+    sx.lastDate ? sx.lastDate.replace(/-/g, '') : null,
+    sx.instanceCount,
+    sx.remOccur,
+    sx.id,
+  ]);
+}
+
+// ─── Budgets ──────────────────────────────────────────────────────────────────
+
+/**
+ * Insert or update a budget with its recurrence and amounts (already in the
+ * book's signs). Rollover is kept in a "rollover" slot, as in XML books.
+ */
+export function writeBudget(db, budget, denoms, { isNew }) {
+  const fields = [budget.name, budget.description || '', budget.numPeriods];
+  if (isNew) {
+    run(db, 'INSERT INTO budgets (name, description, num_periods, guid) VALUES (?, ?, ?, ?)', [...fields, budget.id]);
+  } else {
+    run(db, 'UPDATE budgets SET name = ?, description = ?, num_periods = ? WHERE guid = ?', [...fields, budget.id]);
+  }
+  setStringSlot(db, budget.id, 'rollover', budget.rollover ? 'true' : null);
+
+  const r = budget.recurrence;
+  run(db, 'DELETE FROM recurrences WHERE obj_guid = ?', [budget.id]);
+  run(db,
+    `INSERT INTO recurrences (obj_guid, recurrence_mult, recurrence_period_type, recurrence_period_start,
+       recurrence_weekend_adjust) VALUES (?, ?, ?, ?, ?)`,
+    [budget.id, r.mult || 1, r.periodType, r.start.replace(/-/g, ''), r.weekendAdjust || 'none']);
+
+  run(db, 'DELETE FROM budget_amounts WHERE budget_guid = ?', [budget.id]);
+  for (const [accountId, periods] of Object.entries(budget.amounts)) {
+    const denom = denoms.get(accountId) ?? 100;
+    periods.forEach((amount, period) => {
+      if (amount == null) return;
+      run(db,
+        `INSERT INTO budget_amounts (budget_guid, account_guid, period_num, amount_num, amount_denom)
+         VALUES (?, ?, ?, ?, ?)`,
+        [budget.id, accountId, period, units(amount, denom), denom]);
+    });
+  }
+}
+
+export function deleteBudget(db, id) {
+  deleteSlots(db, id);
+  run(db, 'DELETE FROM budget_amounts WHERE budget_guid = ?', [id]);
+  run(db, 'DELETE FROM recurrences WHERE obj_guid = ?', [id]);
+  run(db, 'DELETE FROM budgets WHERE guid = ?', [id]);
+}
+
+/** Whether the book has a GnuCash feature flag set (see readSqliteBook's `features`) */
+export function hasFeature(db, feature) {
+  return rows(db, 'SELECT 1 FROM slots WHERE name = ?', [`features/${feature}`]).length > 0;
+}
+
+// ─── Lock ─────────────────────────────────────────────────────────────────────
+
+// GnuCash marks an open SQLite book with a row in its gnclock table (creating
+// the table on first use) and deletes it on close; see lock.js.
+
+/** Who has the book open: `[{ hostname, pid }]`, empty when nobody has */
+export function readLock(db) {
+  if (!rows(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'gnclock'").length) return [];
+  return rows(db, 'SELECT Hostname, PID FROM gnclock').map((r) => ({ hostname: String(r.Hostname ?? ''), pid: Number(r.PID) }));
+}
+
+/** Set who has the book open — `{ hostname, pid }`, or null for nobody — replacing whoever had */
+export function writeLock(db, lock) {
+  run(db, 'CREATE TABLE IF NOT EXISTS gnclock (Hostname varchar(255), PID int)');
+  run(db, 'DELETE FROM gnclock');
+  if (lock) run(db, 'INSERT INTO gnclock (Hostname, PID) VALUES (?, ?)', [lock.hostname, lock.pid]);
+}
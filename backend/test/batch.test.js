@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { once } from 'events';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { parseGnuCashSnapshot } from '../parser.js';
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURE = path.join(HERE, 'fixtures/book.gnucash');
+const CHECKING = 'a0000000000000000000000000000001';
+
+// The batch route runs in a server of its own, on a copy of the fixture
+const dir = mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+const file = path.join(dir, 'book.gnucash');
+writeFileSync(file, readFileSync(FIXTURE));
+
+const port = 40000 + Math.floor(Math.random() * 10000);
+const server = spawn(process.execPath, [path.join(HERE, '../index.js')], {
+  env: { ...process.env, GNUCASH_FILE: file, PORT: String(port) },
+  stdio: ['ignore', 'pipe', 'inherit'],
+});
+await new Promise((resolve, reject) => {
+  server.stdout.on('data', (chunk) => { if (String(chunk).includes('running on')) resolve(); });
+  server.once('exit', (code) => reject(new Error(`The server exited with code ${code}`)));
+});
+
+async function api(method, route, body) {
+  const res = await fetch(`http://localhost:${port}${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body && JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+test.after(async () => {
+  server.kill('SIGTERM');
+  if (server.exitCode === null) await once(server, 'exit');
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('an auto-balanced batch saves an Imbalance account for each currency', async () => {
+  const { status, body } = await api('POST', '/api/transactions/batch?autoBalance=true', {
+    create: [
+      { description: 'Dollars', datePosted: '2024-04-01', currency: 'USD', splits: [{ accountId: CHECKING, value: -10, quantity: -10 }] },
+      { description: 'Euros', datePosted: '2024-04-02', currency: 'EUR', splits: [{ accountId: CHECKING, value: -5, quantity: -6 }] },
+    ],
+  });
+  assert.equal(status, 200, body.error);
+
+  const book = await parseGnuCashSnapshot(file);
+  const imbalance = book.accounts.filter((a) => a.name.startsWith('Imbalance-'));
+  assert.deepEqual(imbalance.map((a) => a.name).sort(), ['Imbalance-EUR', 'Imbalance-USD']);
+  const ids = new Set(book.accounts.map((a) => a.id));
+  for (const txn of body.created) {
+    assert.ok(txn.splits.every((s) => ids.has(s.accountId)), txn.description);
+  }
+  assert.match(readFileSync(file, 'utf-8'), /<gnc:count-data cd:type="account">6<\/gnc:count-data>/);
+
+  assert.equal((await api('POST', '/api/history/undo')).status, 200);
+  const undone = await parseGnuCashSnapshot(file);
+  assert.ok(!undone.accounts.some((a) => a.name.startsWith('Imbalance-')));
+  assert.equal(undone.transactions.length, 3);
+});
@@ -0,0 +1,55 @@
+-- A small GnuCash SQLite book: USD, a checking and a groceries account, one
+-- transaction and a monthly "Rent" schedule with its template transaction
+CREATE TABLE gnclock(Hostname varchar(255), PID int);
+CREATE TABLE versions(table_name text(50) PRIMARY KEY NOT NULL, table_version integer NOT NULL);
+CREATE TABLE books(guid text(32) PRIMARY KEY NOT NULL, root_account_guid text(32) NOT NULL, root_template_guid text(32) NOT NULL);
+CREATE TABLE commodities(guid text(32) PRIMARY KEY NOT NULL, namespace text(2048) NOT NULL, mnemonic text(2048) NOT NULL, fullname text(2048), cusip text(2048), fraction integer NOT NULL, quote_flag integer NOT NULL, quote_source text(2048), quote_tz text(2048));
+CREATE TABLE accounts(guid text(32) PRIMARY KEY NOT NULL, name text(2048) NOT NULL, account_type text(2048) NOT NULL, commodity_guid text(32), commodity_scu integer NOT NULL, non_std_scu integer NOT NULL, parent_guid text(32), code text(2048), description text(2048), hidden integer, placeholder integer);
+CREATE TABLE transactions(guid text(32) PRIMARY KEY NOT NULL, currency_guid text(32) NOT NULL, num text(2048) NOT NULL, post_date text(19), enter_date text(19), description text(2048));
+CREATE TABLE splits(guid text(32) PRIMARY KEY NOT NULL, tx_guid text(32) NOT NULL, account_guid text(32) NOT NULL, memo text(2048) NOT NULL, action text(2048) NOT NULL, reconcile_state text(1) NOT NULL, reconcile_date text(19), value_num bigint NOT NULL, value_denom bigint NOT NULL, quantity_num bigint NOT NULL, quantity_denom bigint NOT NULL, lot_guid text(32));
+CREATE TABLE slots(id integer PRIMARY KEY AUTOINCREMENT NOT NULL, obj_guid text(32) NOT NULL, name text(4096) NOT NULL, slot_type integer NOT NULL, int64_val bigint, string_val text(4096), double_val float8, timespec_val text(19), guid_val text(32), numeric_val_num bigint, numeric_val_denom bigint, gdate_val text(8));
+CREATE TABLE prices(guid text(32) PRIMARY KEY NOT NULL, commodity_guid text(32) NOT NULL, currency_guid text(32) NOT NULL, date text(19) NOT NULL, source text(2048), type text(2048), value_num bigint NOT NULL, value_denom bigint NOT NULL);
+CREATE TABLE schedxactions(guid text(32) PRIMARY KEY NOT NULL, name text(2048), enabled integer NOT NULL, start_date text(8), end_date text(8), last_occur text(8), num_occur integer NOT NULL, rem_occur integer NOT NULL, auto_create integer NOT NULL, auto_notify integer NOT NULL, adv_creation integer NOT NULL, adv_notify integer NOT NULL, instance_count integer NOT NULL, template_act_guid text(32) NOT NULL);
+CREATE TABLE recurrences(id integer PRIMARY KEY AUTOINCREMENT NOT NULL, obj_guid text(32) NOT NULL, recurrence_mult integer NOT NULL, recurrence_period_type text(2048) NOT NULL, recurrence_period_start text(8) NOT NULL, recurrence_weekend_adjust text(2048) NOT NULL);
+CREATE TABLE budgets(guid text(32) PRIMARY KEY NOT NULL, name text(2048) NOT NULL, description text(2048), num_periods integer NOT NULL);
+CREATE TABLE budget_amounts(id integer PRIMARY KEY AUTOINCREMENT NOT NULL, budget_guid text(32) NOT NULL, account_guid text(32) NOT NULL, period_num integer NOT NULL, amount_num bigint NOT NULL, amount_denom bigint NOT NULL);
+CREATE TABLE lots(guid text(32) PRIMARY KEY NOT NULL, account_guid text(32), is_closed integer NOT NULL);
+
+INSERT INTO books VALUES ('b0000000000000000000000000000001', 'a0000000000000000000000000000000', 'r0000000000000000000000000000000');
+INSERT INTO commodities VALUES
+  ('c0000000000000000000000000000001', 'CURRENCY', 'USD', 'US Dollar', '840', 100, 1, 'currency', ''),
+  ('c0000000000000000000000000000002', 'template', 'template', 'template', 'template', 1, 0, NULL, NULL);
+INSERT INTO accounts VALUES
+  ('a0000000000000000000000000000000', 'Root Account', 'ROOT', 'c0000000000000000000000000000001', 100, 0, NULL, '', '', 0, 0),
+  ('a0000000000000000000000000000001', 'Checking', 'BANK', 'c0000000000000000000000000000001', 100, 0, 'a0000000000000000000000000000000', '', '', 0, 0),
+  ('a0000000000000000000000000000002', 'Groceries', 'EXPENSE', 'c0000000000000000000000000000001', 100, 0, 'a0000000000000000000000000000000', '', '', 0, 0),
+  ('r0000000000000000000000000000000', 'Template Root', 'ROOT', NULL, 0, 0, NULL, '', '', 0, 0),
+  ('r0000000000000000000000000000001', 'x0000000000000000000000000000001', 'BANK', 'c0000000000000000000000000000002', 1, 0, 'r0000000000000000000000000000000', '', '', 0, 0);
+
+INSERT INTO transactions VALUES ('t0000000000000000000000000000001', 'c0000000000000000000000000000001', '', '2024-01-05 10:59:00', '2024-01-05 12:00:00', 'Store');
+INSERT INTO splits VALUES
+  ('s0000000000000000000000000000001', 't0000000000000000000000000000001', 'a0000000000000000000000000000001', '', '', 'n', '1970-01-01 00:00:00', -2500, 100, -2500, 100, NULL),
+  ('s0000000000000000000000000000002', 't0000000000000000000000000000001', 'a0000000000000000000000000000002', '', '', 'n', '1970-01-01 00:00:00', 2500, 100, 2500, 100, NULL);
+
+INSERT INTO schedxactions VALUES ('x0000000000000000000000000000001', 'Rent', 1, '20240101', NULL, NULL, 0, 0, 0, 0, 0, 0, 0, 'r0000000000000000000000000000001');
+INSERT INTO recurrences (obj_guid, recurrence_mult, recurrence_period_type, recurrence_period_start, recurrence_weekend_adjust)
+  VALUES ('x0000000000000000000000000000001', 1, 'month', '20240101', 'none');
+INSERT INTO transactions VALUES ('u0000000000000000000000000000001', 'c0000000000000000000000000000001', '', '2024-01-01 10:59:00', '2024-01-01 10:59:00', 'Rent');
+INSERT INTO splits VALUES
+  ('v0000000000000000000000000000001', 'u0000000000000000000000000000001', 'r0000000000000000000000000000001', '', '', 'n', '1970-01-01 00:00:00', 0, 1, 0, 1, NULL),
+  ('v0000000000000000000000000000002', 'u0000000000000000000000000000001', 'r0000000000000000000000000000001', '', '', 'n', '1970-01-01 00:00:00', 0, 1, 0, 1, NULL);
+INSERT INTO slots (obj_guid, name, slot_type, guid_val) VALUES
+  ('v0000000000000000000000000000001', 'sched-xaction', 9, 'f0000000000000000000000000000001'),
+  ('v0000000000000000000000000000002', 'sched-xaction', 9, 'f0000000000000000000000000000002'),
+  ('f0000000000000000000000000000001', 'sched-xaction/account', 5, 'a0000000000000000000000000000002'),
+  ('f0000000000000000000000000000002', 'sched-xaction/account', 5, 'a0000000000000000000000000000001');
+INSERT INTO slots (obj_guid, name, slot_type, string_val) VALUES
+  ('f0000000000000000000000000000001', 'sched-xaction/credit-formula', 4, ''),
+  ('f0000000000000000000000000000001', 'sched-xaction/debit-formula', 4, '900'),
+  ('f0000000000000000000000000000002', 'sched-xaction/credit-formula', 4, '900'),
+  ('f0000000000000000000000000000002', 'sched-xaction/debit-formula', 4, '');
+INSERT INTO slots (obj_guid, name, slot_type, numeric_val_num, numeric_val_denom) VALUES
+  ('f0000000000000000000000000000001', 'sched-xaction/credit-numeric', 3, 0, 1),
+  ('f0000000000000000000000000000001', 'sched-xaction/debit-numeric', 3, 90000, 100),
+  ('f0000000000000000000000000000002', 'sched-xaction/credit-numeric', 3, 90000, 100),
+  ('f0000000000000000000000000000002', 'sched-xaction/debit-numeric', 3, 0, 1);
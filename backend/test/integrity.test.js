@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/book.gnucash');
+
+// A copy of the fixture with one of each problem: a stale transaction count,
+// a split in a deleted account, an account whose parent is gone and a
+// transaction that doesn't balance
+const dir = mkdtempSync(path.join(os.tmpdir(), 'integrity-'));
+const file = path.join(dir, 'book.gnucash');
+writeFileSync(file, readFileSync(FIXTURE, 'utf-8')
+  .replace('<gnc:count-data cd:type="transaction">3</gnc:count-data>', '<gnc:count-data cd:type="transaction">7</gnc:count-data>')
+  .replace('<split:account type="guid">a0000000000000000000000000000002</split:account>', '<split:account type="guid">dead0000000000000000000000000000</split:account>')
+  .replace('<split:value>1250/100</split:value>', '<split:value>1200/100</split:value>')
+  .replace('<act:parent type="guid">a0000000000000000000000000000000</act:parent>\n</gnc:account>\n<gnc:transaction',
+    '<act:parent type="guid">a0000000000000000000000000000099</act:parent>\n</gnc:account>\n<gnc:transaction'));
+process.env.GNUCASH_FILE = file;
+
+const { parseGnuCash } = await import('../parser.js');
+const { readCounts, saveTransactions } = await import('../serializer.js');
+const { scanBook, planRepair } = await import('../integrity.js');
+const { recordEdit, undoEdit } = await import('../journal.js');
+
+const buildAccountMap = (accounts) => new Map(accounts.map((a) => [a.id, a]));
+const backups = () => readdirSync(dir).filter((f) => f !== 'book.gnucash' && f.endsWith('.gnucash'));
+
+test.after(() => rmSync(dir, { recursive: true, force: true }));
+
+test('scan finds each kind of damage', async () => {
+  const problems = scanBook(await parseGnuCash(), await readCounts());
+  assert.deepEqual(problems.map((p) => p.id).sort(), [
+    'count:transaction',
+    'orphan-account:a0000000000000000000000000000003',
+    'orphan-split:t0000000000000000000000000000001',
+    'unbalanced:t0000000000000000000000000000003',
+  ]);
+});
+
+test('repair fixes everything in one write and undoes as one step', async () => {
+  const data = await parseGnuCash();
+  const problems = scanBook(data, await readCounts());
+  const { created, moved, ops, counts } = planRepair(problems, data);
+  assert.deepEqual(created.map((a) => a.name).sort(), ['Imbalance-USD', 'Orphan-USD']);
+  assert.equal(moved.length, 1);
+  assert.equal(ops.length, 2);
+  assert.ok(counts);
+
+  const accounts = [
+    ...created.map((after) => ({ action: 'create', before: null, after })),
+    ...moved.map(({ before, after }) => ({ action: 'update', before, after })),
+  ];
+  await saveTransactions(ops, buildAccountMap(data.accounts), { accounts, recount: counts });
+  assert.equal(backups().length, 1);
+
+  const repaired = await parseGnuCash();
+  assert.deepEqual(scanBook(repaired, await readCounts()), []);
+  assert.equal(repaired.accounts.length, data.accounts.length);
+
+  recordEdit('Repair', [{ kind: 'transactions', ops, accounts }]);
+  await undoEdit(repaired);
+  const undone = await parseGnuCash();
+  assert.ok(!undone.accounts.some((a) => a.name === 'Imbalance-USD' || a.name === 'Orphan-USD'));
+  assert.deepEqual(
+    scanBook(undone, await readCounts()).map((p) => p.kind).sort(),
+    ['orphan-account', 'orphan-split', 'unbalanced'],
+  );
+});
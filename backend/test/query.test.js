@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { parseGnuCashSnapshot } from '../parser.js';
+import { parseTransactionQuery, queryTransactions } from '../query.js';
+
+const BOOK = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/book.gnucash');
+const CHECKING = 'a0000000000000000000000000000001';
+
+const data = await parseGnuCashSnapshot(BOOK);
+
+function run(params) {
+  const { query, error } = parseTransactionQuery(params, data.accounts);
+  assert.equal(error, undefined);
+  return queryTransactions(data, query);
+}
+
+const descriptions = (result) => result.items.map((i) => i.transaction.description);
+
+test('text that looks like a number is read as written', () => {
+  const txn = data.transactions.find((t) => t.id === 't0000000000000000000000000000002');
+  assert.equal(txn.description, '2024');
+  assert.equal(txn.notes, '12');
+  assert.equal(txn.splits[1].memo, '007');
+  assert.equal(data.transactions[0].num, '0042');
+  const account = data.accounts.find((a) => a.id === 'a0000000000000000000000000000003');
+  assert.equal(account.name, '401');
+  assert.equal(account.description, '2024');
+  assert.equal(data.accounts.find((a) => a.id === CHECKING).code, '0100');
+});
+
+test('text search covers description, notes, number and memo', () => {
+  assert.deepEqual(descriptions(run({ q: 'store' })), ['Store & Co']);
+  assert.deepEqual(descriptions(run({ q: '2024' })), ['2024']);
+  assert.deepEqual(descriptions(run({ q: '12' })), ['2024', 'apples']);
+  assert.deepEqual(descriptions(run({ q: '0042' })), ['Store & Co']);
+  assert.deepEqual(descriptions(run({ q: '007' })), ['2024']);
+});
+
+test('filters by account, date, amount and reconciled state', () => {
+  assert.equal(run({ accountId: 'a0000000000000000000000000000002' }).total, 2);
+  assert.deepEqual(descriptions(run({ from: '2024-01-06', to: '2024-01-31' })), ['2024']);
+  assert.deepEqual(descriptions(run({ minAmount: '20', maxAmount: '50' })), ['Store & Co']);
+  assert.deepEqual(descriptions(run({ accountId: CHECKING, reconciled: 'y,c' })), ['Store & Co', '2024']);
+});
+
+test('sorts by date, description and amount', () => {
+  assert.deepEqual(descriptions(run({})), ['Store & Co', '2024', 'apples']);
+  assert.deepEqual(descriptions(run({ sort: 'description' })), ['2024', 'apples', 'Store & Co']);
+  assert.deepEqual(descriptions(run({ sort: 'amount', order: 'desc' })), ['2024', 'Store & Co', 'apples']);
+});
+
+test('running balances and the register summary for an account', () => {
+  const result = run({ accountId: CHECKING, order: 'desc' });
+  assert.deepEqual(result.items.map((i) => i.balance), [-137.5, -125, -25]);
+  assert.equal(result.account.balance, -137.5);
+  assert.deepEqual(result.account.reconciled, { lastDate: '2024-01-05', balance: -25 });
+});
+
+test('pages with a cursor without skipping or repeating rows', () => {
+  const first = run({ limit: '2' });
+  assert.equal(first.total, 3);
+  assert.deepEqual(descriptions(first), ['Store & Co', '2024']);
+  const second = run({ limit: '2', cursor: first.nextCursor });
+  assert.deepEqual(descriptions(second), ['apples']);
+  assert.equal(second.nextCursor, null);
+});
+
+test('rejects invalid parameters', () => {
+  assert.match(parseTransactionQuery({ from: '2024/01/01' }, data.accounts).error, /YYYY-MM-DD/);
+  assert.match(parseTransactionQuery({ sort: 'payee' }, data.accounts).error, /sort must be/);
+  assert.match(parseTransactionQuery({ accountId: 'nope' }, data.accounts).error, /Unknown account/);
+});
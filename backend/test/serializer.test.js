@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/book.gnucash');
+
+const dir = mkdtempSync(path.join(os.tmpdir(), 'serializer-'));
+const file = path.join(dir, 'book.gnucash');
+writeFileSync(file, readFileSync(FIXTURE));
+process.env.GNUCASH_FILE = file;
+
+const { parseGnuCash } = await import('../parser.js');
+const { saveTransactions } = await import('../serializer.js');
+
+const buildAccountMap = (accounts) => new Map(accounts.map((a) => [a.id, a]));
+const TXN = 't0000000000000000000000000000002';
+
+test.after(() => rmSync(dir, { recursive: true, force: true }));
+
+test('an edit rewrites only the fields that changed', async () => {
+  const data = await parseGnuCash();
+  const before = data.transactions.find((t) => t.id === TXN);
+  const after = { ...before, description: '2025' };
+  const original = readFileSync(file, 'utf-8');
+
+  await saveTransactions([{ action: 'update', before, after }], buildAccountMap(data.accounts));
+  assert.equal(
+    readFileSync(file, 'utf-8'),
+    original.replace('<trn:description>2024</trn:description>', '<trn:description>2025</trn:description>'),
+  );
+
+  const saved = (await parseGnuCash()).transactions.find((t) => t.id === TXN);
+  assert.deepEqual(saved, after);
+  assert.equal(saved.splits[1].memo, '007');
+});
+
+test('a transaction created and deleted again leaves the book as it was', async () => {
+  const data = await parseGnuCash();
+  const original = readFileSync(file, 'utf-8');
+  const txn = {
+    id: 't0000000000000000000000000000009',
+    num: '0001',
+    description: 'Café <b> & "co"',
+    datePosted: '2024-03-01',
+    dateEntered: '2024-03-02',
+    notes: 'line one\nline two',
+    currency: 'USD',
+    scheduledId: null,
+    splits: [
+      { id: 's9', accountId: 'a0000000000000000000000000000001', value: -3.5, quantity: -3.5, reconciledState: 'n', reconcileDate: null, memo: '', action: '', onlineId: null },
+      { id: 's10', accountId: 'a0000000000000000000000000000002', value: 3.5, quantity: 3.5, reconciledState: 'n', reconcileDate: null, memo: '0.50', action: '', onlineId: null },
+    ],
+  };
+
+  await saveTransactions([{ action: 'create', before: null, after: txn }], buildAccountMap(data.accounts));
+  const created = await parseGnuCash();
+  assert.deepEqual(created.transactions.find((t) => t.id === txn.id), txn);
+  assert.match(readFileSync(file, 'utf-8'), /<gnc:count-data cd:type="transaction">4<\/gnc:count-data>/);
+
+  await saveTransactions([{ action: 'delete', before: txn, after: null }], buildAccountMap(data.accounts));
+  assert.equal(readFileSync(file, 'utf-8'), original);
+});
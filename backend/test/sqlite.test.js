@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import initSqlJs from 'sql.js';
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/book.sql');
+const SQL = await initSqlJs();
+
+// The book is built from the schema and rows in book.sql
+const dir = mkdtempSync(path.join(os.tmpdir(), 'sqlite-'));
+const file = path.join(dir, 'book.gnucash');
+const fixture = new SQL.Database();
+fixture.exec(readFileSync(FIXTURE, 'utf-8'));
+writeFileSync(file, Buffer.from(fixture.export()));
+fixture.close();
+process.env.GNUCASH_FILE = file;
+
+const { parseGnuCash } = await import('../parser.js');
+const { saveScheduled } = await import('../serializer.js');
+
+const CHECKING = 'a0000000000000000000000000000001';
+const GROCERIES = 'a0000000000000000000000000000002';
+const RENT = 'x0000000000000000000000000000001';
+
+/** Rows per table, to check a change leaves nothing behind */
+function tableSizes() {
+  const db = new SQL.Database(readFileSync(file));
+  try {
+    const tables = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")[0].values.flat();
+    return Object.fromEntries(tables.map((t) => [t, db.exec(`SELECT COUNT(*) FROM ${t}`)[0].values[0][0]]));
+  } finally {
+    db.close();
+  }
+}
+
+test.after(() => rmSync(dir, { recursive: true, force: true }));
+
+test('reads a schedule and its template transaction', async () => {
+  const [rent] = (await parseGnuCash()).scheduled;
+  assert.equal(rent.name, 'Rent');
+  assert.deepEqual(rent.recurrences, [{ mult: 1, periodType: 'month', start: '2024-01-01', weekendAdjust: 'none' }]);
+  assert.deepEqual(rent.templates[0].splits.map((s) => [s.accountId, s.amount, s.debitFormula, s.creditFormula]), [
+    [GROCERIES, 900, '900', ''],
+    [CHECKING, -900, '', '900'],
+  ]);
+});
+
+test('a schedule edit rewrites the schedule and its template', async () => {
+  const data = await parseGnuCash();
+  const before = data.scheduled.find((sx) => sx.id === RENT);
+  const after = {
+    ...before,
+    name: 'Rent & parking',
+    numOccur: 12,
+    remOccur: 12,
+    recurrences: [{ mult: 2, periodType: 'week', start: '2024-02-01', weekendAdjust: 'forward' }],
+    templates: [{
+      ...before.templates[0],
+      description: 'Rent',
+      notes: 'Flat 2',
+      splits: before.templates[0].splits.map((s) => ({
+        ...s, amount: s.amount > 0 ? 950 : -950, debitFormula: undefined, creditFormula: undefined, memo: 'June',
+      })),
+    }],
+  };
+  const sizes = tableSizes();
+
+  await saveScheduled(after, 'update');
+  const saved = (await parseGnuCash()).scheduled.find((sx) => sx.id === RENT);
+  assert.equal(saved.name, 'Rent & parking');
+  assert.equal(saved.numOccur, 12);
+  assert.equal(saved.remOccur, 12);
+  assert.deepEqual(saved.recurrences, after.recurrences);
+  assert.equal(saved.templates[0].notes, 'Flat 2');
+  assert.deepEqual(saved.templates[0].splits.map((s) => [s.accountId, s.amount, s.debitFormula, s.creditFormula, s.memo]), [
+    [GROCERIES, 950, '950', '', 'June'],
+    [CHECKING, -950, '', '950', 'June'],
+  ]);
+  // The template's notes slot is the only new row
+  assert.deepEqual(tableSizes(), { ...sizes, slots: sizes.slots + 1 });
+});
+
+test('a schedule created and deleted again leaves the book as it was', async () => {
+  const sizes = tableSizes();
+  const sx = {
+    id: 'x0000000000000000000000000000002',
+    name: 'Groceries',
+    enabled: true,
+    autoCreate: false,
+    autoCreateNotify: false,
+    advanceCreateDays: 0,
+    advanceRemindDays: 2,
+    instanceCount: 0,
+    startDate: '2024-03-01',
+    lastDate: null,
+    endDate: '2024-12-31',
+    numOccur: 0,
+    remOccur: 0,
+    templateAccountId: 'r0000000000000000000000000000002',
+    recurrences: [{ mult: 1, periodType: 'week', start: '2024-03-01', weekendAdjust: 'none' }],
+    templates: [{
+      id: 'u0000000000000000000000000000002',
+      description: 'Weekly shop',
+      currency: 'USD',
+      num: '',
+      notes: '',
+      splits: [
+        { id: 'v0000000000000000000000000000003', accountId: GROCERIES, amount: 80.25, memo: '' },
+        { id: 'v0000000000000000000000000000004', accountId: CHECKING, amount: -80.25, memo: '' },
+      ],
+    }],
+  };
+
+  await saveScheduled(sx, 'create');
+  const created = (await parseGnuCash()).scheduled.find((s) => s.id === sx.id);
+  assert.equal(created.endDate, '2024-12-31');
+  assert.equal(created.advanceRemindDays, 2);
+  assert.deepEqual(created.templates.map((t) => t.id), [sx.templates[0].id]);
+  assert.deepEqual(created.templates[0].splits.map((s) => s.amount), [80.25, -80.25]);
+  const data = await parseGnuCash();
+  assert.ok(!data.accounts.some((a) => a.id === sx.templateAccountId));
+  assert.ok(!data.transactions.some((t) => t.id === sx.templates[0].id));
+
+  await saveScheduled(created, 'delete');
+  assert.deepEqual((await parseGnuCash()).scheduled.map((s) => s.id), [RENT]);
+  assert.deepEqual(tableSizes(), sizes);
+});
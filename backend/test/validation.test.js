@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { parseGnuCashSnapshot } from '../parser.js';
+import {
+  accountErrors, accountTypesCompatible, transactionErrors, transactionImbalance,
+} from '../../frontend/src/types/validation.js';
+
+const BOOK = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/book.gnucash');
+const ROOT = 'a0000000000000000000000000000000';
+const CHECKING = 'a0000000000000000000000000000001';
+const GROCERIES = 'a0000000000000000000000000000002';
+
+const data = await parseGnuCashSnapshot(BOOK);
+
+function transaction(overrides = {}) {
+  return {
+    id: 't1',
+    description: 'Lunch',
+    datePosted: '2024-03-01',
+    currency: 'USD',
+    splits: [
+      { id: 's1', accountId: CHECKING, value: -12.5, quantity: -12.5 },
+      { id: 's2', accountId: GROCERIES, value: 12.5, quantity: 12.5 },
+    ],
+    ...overrides,
+  };
+}
+
+test('a balanced transaction has no errors', () => {
+  assert.deepEqual(transactionErrors(transaction(), data.accounts), []);
+});
+
+test('every transaction in a book passes as the parser reads it', () => {
+  // Edits merge the request into the stored transaction, so text fields that
+  // look like numbers ("2024", memo "007") must not fail validation
+  for (const txn of data.transactions) {
+    assert.deepEqual(transactionErrors({ ...txn, notes: 'x' }, data.accounts), [], txn.description);
+  }
+});
+
+test('rejects text fields that are not strings', () => {
+  const txn = transaction({ description: 2024, num: 7 });
+  txn.splits[0].memo = 7;
+  assert.deepEqual(transactionErrors(txn, data.accounts), [
+    'description must be a string',
+    'num must be a string',
+    'Split 1 memo must be a string',
+  ]);
+});
+
+test('reports imbalance to the currency\'s smallest unit', () => {
+  const txn = transaction();
+  txn.splits[1] = { ...txn.splits[1], value: 12.4, quantity: 12.4 };
+  assert.equal(transactionImbalance(txn), -0.1);
+  assert.deepEqual(transactionErrors(txn, data.accounts), ["The splits don't balance: they are off by -0.10 USD"]);
+  assert.deepEqual(transactionErrors(txn, data.accounts, { allowImbalance: true }), []);
+  assert.equal(transactionImbalance({ currency: 'JPY', splits: [{ value: 0.4 }, { value: 0.3 }] }), 0);
+});
+
+test('rejects bad splits', () => {
+  const errors = transactionErrors(transaction({
+    splits: [
+      { id: 's1', accountId: ROOT, value: -1, quantity: -1 },
+      { id: 's1', accountId: 'nope', value: 1, quantity: 1, reconciledState: 'x' },
+      { id: 's3', accountId: GROCERIES, value: 1, quantity: 2 },
+    ],
+  }), data.accounts);
+  assert.deepEqual(errors, [
+    'Split 1 is posted to the root account',
+    'Split 2 repeats split id s1',
+    'Split 2 refers to unknown account nope',
+    "Split 2 reconciledState must be 'n', 'c' or 'y'",
+    'Split 3 is in USD, so its quantity must equal its value',
+  ]);
+  assert.deepEqual(transactionErrors(transaction({ splits: [] }), data.accounts), ['A transaction needs at least one split']);
+});
+
+test('account types nest within their family', () => {
+  assert.ok(accountTypesCompatible('ROOT', 'EQUITY'));
+  assert.ok(accountTypesCompatible('BANK', 'CREDIT'));
+  assert.ok(accountTypesCompatible('INCOME', 'EXPENSE'));
+  assert.ok(!accountTypesCompatible('EXPENSE', 'BANK'));
+  assert.ok(!accountTypesCompatible('BANK', 'ROOT'));
+});
+
+test('account errors cover names, parents and cycles', () => {
+  const account = { id: 'x', name: 'Dining', type: 'EXPENSE', parentId: GROCERIES };
+  assert.deepEqual(accountErrors(account, data.accounts), []);
+  assert.deepEqual(accountErrors({ ...account, name: ' ', parentId: CHECKING }, data.accounts), [
+    'name is required',
+    'An EXPENSE account can\'t go under "Checking" (BANK)',
+  ]);
+  const groceries = data.accounts.find((a) => a.id === GROCERIES);
+  const accounts = [...data.accounts, account];
+  assert.deepEqual(accountErrors({ ...groceries, parentId: 'x' }, accounts), [
+    '"Groceries" can\'t move under its own sub-account "Dining"',
+  ]);
+  assert.deepEqual(accountErrors({ ...groceries, type: 'BANK' }, accounts), [
+    'A BANK account can\'t hold its sub-accounts "Dining" (EXPENSE)',
+  ]);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { Element, XmlDocument } from '../xmldoc.js';
+
+const BOOK = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/book.gnucash');
+
+const SAMPLE = `<?xml version="1.0" encoding="utf-8" ?>
+<!-- written by hand -->
+<root xmlns:a="urn:a">
+  <a:item id="1">One &amp; only</a:item>
+  <a:empty/>
+  <!-- keep <me> -->
+  <a:list>
+    <a:entry><a:id>x1</a:id></a:entry>
+    <a:entry><a:id>x2</a:id></a:entry>
+  </a:list>
+  <![CDATA[ <not-a-tag> ]]>
+</root>
+`;
+
+test('an untouched document is written back byte for byte', () => {
+  assert.equal(new XmlDocument(SAMPLE).toString(), SAMPLE);
+  const book = readFileSync(BOOK, 'utf-8');
+  const doc = new XmlDocument(book);
+  doc.root.child('gnc:book').elements('gnc:transaction').forEach((t) => t.id);
+  assert.equal(doc.toString(), book);
+});
+
+test('reads names, attributes, text and ids', () => {
+  const root = new XmlDocument(SAMPLE).root;
+  const item = root.child('a:item');
+  assert.equal(item.attr('id'), '1');
+  assert.equal(item.text, 'One &amp; only');
+  assert.ok(root.child('a:empty').selfClosing);
+  const list = root.child('a:list');
+  assert.deepEqual(list.elements('a:entry').map((e) => e.id), ['x1', 'x2']);
+  assert.equal(list.findChild('a:entry', 'x2').id, 'x2');
+  assert.equal(root.child('missing'), null);
+});
+
+test('edits rewrite only what changed', () => {
+  const doc = new XmlDocument(SAMPLE);
+  doc.root.child('a:item').setText('Two');
+  assert.equal(doc.toString(), SAMPLE.replace('One &amp; only', 'Two'));
+});
+
+test('inserted and removed children keep the surrounding layout', () => {
+  const doc = new XmlDocument(SAMPLE);
+  const list = doc.root.child('a:list');
+  list.append('<a:entry>\n  <a:id>x3</a:id>\n</a:entry>');
+  assert.match(doc.toString(), /<a:entry><a:id>x2<\/a:id><\/a:entry>\n {4}<a:entry>\n {6}<a:id>x3<\/a:id>\n {4}<\/a:entry>\n {2}<\/a:list>/);
+
+  list.removeChild(list.findChild('a:entry', 'x3'));
+  assert.equal(doc.toString(), SAMPLE);
+
+  list.insertBefore(list.findChild('a:entry', 'x1'), '<a:entry><a:id>x0</a:id></a:entry>');
+  assert.deepEqual(list.elements().map((e) => e.id), ['x0', 'x1', 'x2']);
+  assert.match(doc.toString(), /<a:list>\n {4}<a:entry><a:id>x0<\/a:id><\/a:entry>\n {4}<a:entry><a:id>x1/);
+});
+
+test('an emptied self-closing element can take children', () => {
+  const doc = new XmlDocument(SAMPLE);
+  doc.root.child('a:empty').append('<a:id>e1</a:id>');
+  assert.match(doc.toString(), /<a:empty>\n {4}<a:id>e1<\/a:id>\n {2}<\/a:empty>/);
+  assert.equal(doc.root.child('a:empty').id, 'e1');
+});
+
+test('malformed XML is refused', () => {
+  assert.throws(() => new XmlDocument('<root><a></root>'), /where <\/a> was expected/);
+  assert.throws(() => new XmlDocument('<root><a>'), /never closed/);
+  assert.throws(() => new XmlDocument('<root/><extra/>'), /Unexpected content/);
+  assert.throws(() => Element.parse('text'), /Expected an XML element/);
+});
@@ -0,0 +1,87 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// External change detection
+//
+// Remembers the fingerprint (mtime, size and a hash of the bytes) of the book
+// as we last read or wrote it. When the file on disk no longer matches —
+// GnuCash saved it, a sync tool replaced it — the in-memory copies are stale:
+// the watcher reports the change so they can be dropped, and saves are
+// refused until the book has been re-read.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createHash } from 'crypto';
+import { readFile, stat } from 'fs/promises';
+import { unwatchFile, watchFile } from 'fs';
+
+const POLL_INTERVAL_MS = 1500;
+
+let known = null;          // { file, mtimeMs, size, hash }
+let watched = null;        // file being polled
+let onExternalChange = () => {};
+
+export class StaleBookError extends Error {
+  constructor() {
+    super('The book was changed outside ModernFinance since it was loaded. It has been reloaded — review the latest data and try again.');
+    this.status = 409;
+  }
+}
+
+function hashOf(buffer) {
+  return createHash('sha1').update(buffer).digest('hex');
+}
+
+/**
+ * Record the raw (compressed) bytes of `file` as the version we now hold in
+ * memory. Take `mtimeMs` from a stat made *before* reading, so a change that
+ * lands mid-read still shows up as a different mtime.
+ */
+export function noteBookContents(file, buffer, mtimeMs) {
+  known = { file, mtimeMs, size: buffer.length, hash: hashOf(buffer) };
+}
+
+/**
+ * Whether the file still matches what we last read or wrote. A changed mtime
+ * alone (e.g. a `touch`, or a sync tool rewriting identical bytes) doesn't
+ * count: the contents are hashed to be sure.
+ */
+export async function isUnchanged(file) {
+  if (!known || known.file !== file) return true;
+  let st;
+  try { st = await stat(file); } catch { return true; } // mid-replace; check again next time
+  if (st.mtimeMs === known.mtimeMs && st.size === known.size) return true;
+  const hash = hashOf(await readFile(file));
+  if (hash !== known.hash) return false;
+  known.mtimeMs = st.mtimeMs;
+  return true;
+}
+
+async function checkBook(file) {
+  if (await isUnchanged(file)) return true;
+  known = null;
+  onExternalChange(file);
+  return false;
+}
+
+/** Throw StaleBookError if the book changed on disk since we loaded it. */
+export async function assertBookUnchanged(file) {
+  if (!(await checkBook(file))) throw new StaleBookError();
+}
+
+/** Call `listener(file)` whenever the book is changed by another program. */
+export function onBookChanged(listener) {
+  onExternalChange = listener;
+}
+
+/**
+ * Poll `file` for changes (polling, unlike fs.watch, survives the file being
+ * replaced by a rename — which is how both we and GnuCash save). Switching to
+ * another file stops watching the previous one.
+ */
+export function watchBook(file) {
+  if (!file || watched === file) return;
+  if (watched) unwatchFile(watched);
+  watched = file;
+  watchFile(file, { interval: POLL_INTERVAL_MS }, (curr) => {
+    if (curr.mtimeMs === 0) return; // momentarily missing
+    checkBook(file).catch((err) => console.warn(`Could not check ${file}: ${err.message}`));
+  });
+}
@@ -0,0 +1,328 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Lossless XML element tree
+//
+// The book is edited as a tree of elements rather than by regex over its
+// text. Every element keeps its original source until something inside it
+// changes, so the parts of the file we don't touch (formatting, comments,
+// elements we don't model) are written back byte-for-byte. Children are only
+// split out when first accessed, so loading a large book costs one scan.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const OPEN_TAG = /<([^\s/>!?]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/y;
+const CLOSE_TAG = /<\/([^\s>]+)\s*>/y;
+
+const SPECIAL = [['<!--', '-->'], ['<![CDATA[', ']]>'], ['<?', '?>'], ['<!', '>']];
+
+/** End offset of a comment / CDATA / PI / doctype starting at `pos`, or 0 if there is none. */
+function skipSpecial(src, pos) {
+  for (const [open, close] of SPECIAL) {
+    if (!src.startsWith(open, pos)) continue;
+    const end = src.indexOf(close, pos + open.length);
+    if (end === -1) throw new Error(`Unterminated ${open} at offset ${pos}`);
+    return end + close.length;
+  }
+  return 0;
+}
+
+/**
+ * Find the extent of the element starting at `pos`, checking that every tag
+ * inside it is balanced. Offsets are absolute positions in `src`.
+ */
+function scanElement(src, pos) {
+  OPEN_TAG.lastIndex = pos;
+  const first = OPEN_TAG.exec(src);
+  if (!first) throw new Error(`Expected an element at offset ${pos}`);
+  const name = first[1];
+  const openEnd = OPEN_TAG.lastIndex;
+  if (first[3]) return { name, openEnd, closeStart: openEnd, end: openEnd };
+
+  const stack = [name];
+  let i = openEnd;
+  for (;;) {
+    const lt = src.indexOf('<', i);
+    if (lt === -1) throw new Error(`<${stack.at(-1)}> is never closed`);
+    const special = skipSpecial(src, lt);
+    if (special) {
+      i = special;
+    } else if (src[lt + 1] === '/') {
+      CLOSE_TAG.lastIndex = lt;
+      const m = CLOSE_TAG.exec(src);
+      if (!m || m[1] !== stack.at(-1)) {
+        throw new Error(`Found </${m?.[1] ?? '?'}> at offset ${lt} where </${stack.at(-1)}> was expected`);
+      }
+      stack.pop();
+      i = CLOSE_TAG.lastIndex;
+      if (!stack.length) return { name, openEnd, closeStart: lt, end: i };
+    } else {
+      OPEN_TAG.lastIndex = lt;
+      const m = OPEN_TAG.exec(src);
+      if (!m) throw new Error(`Malformed tag at offset ${lt}`);
+      if (!m[3]) stack.push(m[1]);
+      i = OPEN_TAG.lastIndex;
+    }
+  }
+}
+
+/**
+ * Turn a fragment written at column 0 into an element positioned at `indent`:
+ * every line that starts a new tag is shifted right. Line breaks inside text
+ * content (multi-line notes) are left alone.
+ */
+function place(node, indent) {
+  if (typeof node !== 'string') return node;
+  return Element.parse(node.trim().replace(/>\n(?=[ \t]*<)/g, `>\n${indent}`));
+}
+
+function escapeRegex(str) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class Element {
+  /** Source text; null once a descendant has changed and it must be rebuilt. */
+  #raw;
+  #openEnd;
+  #closeStart;
+  #openTag;
+  #children = null;
+  #id;
+
+  constructor(raw, name, openEnd, closeStart) {
+    this.name = name;
+    this.parent = null;
+    this.#raw = raw;
+    this.#openEnd = openEnd;
+    this.#closeStart = closeStart;
+    this.#openTag = raw.slice(0, openEnd);
+  }
+
+  /** Parse one element (surrounding whitespace allowed); throws if it isn't well-formed. */
+  static parse(xml) {
+    const start = xml.search(/\S/);
+    if (start === -1 || xml[start] !== '<') throw new Error('Expected an XML element');
+    const s = scanElement(xml, start);
+    if (/\S/.test(xml.slice(s.end))) throw new Error(`Unexpected content after </${s.name}>`);
+    return new Element(xml.slice(start, s.end), s.name, s.openEnd - start, s.closeStart - start);
+  }
+
+  get selfClosing() {
+    return this.#openTag.endsWith('/>');
+  }
+
+  /** Child elements and the text between them (text keeps comments and entities as written). */
+  get children() {
+    if (!this.#children) this.#children = this.#parseChildren();
+    return this.#children;
+  }
+
+  #parseChildren() {
+    const src = this.#raw;
+    const end = this.#closeStart;
+    const out = [];
+    let i = this.#openEnd;
+    let textStart = i;
+    while (i < end) {
+      const lt = src.indexOf('<', i);
+      if (lt === -1 || lt >= end) break;
+      const special = skipSpecial(src, lt);
+      if (special) { i = special; continue; }
+      if (lt > textStart) out.push(src.slice(textStart, lt));
+      const s = scanElement(src, lt);
+      const child = new Element(src.slice(lt, s.end), s.name, s.openEnd - lt, s.closeStart - lt);
+      child.parent = this;
+      out.push(child);
+      i = textStart = s.end;
+    }
+    if (end > textStart) out.push(src.slice(textStart, end));
+    return out;
+  }
+
+  /** Mark this element and its ancestors as changed. */
+  #touch() {
+    for (let e = this; e; e = e.parent) {
+      e.children; // make sure the tree below is materialised before dropping the source
+      e.#raw = null;
+      e.#id = undefined;
+    }
+  }
+
+  toString() {
+    if (this.#raw === null) {
+      const inner = this.#children.join('');
+      if (this.selfClosing && !inner) {
+        this.#raw = this.#openTag;
+      } else {
+        const open = this.#openTag.replace(/\s*\/>$/, '>');
+        this.#raw = `${open}${inner}</${this.name}>`;
+        this.#openTag = open;
+      }
+      this.#openEnd = this.#openTag.length;
+      this.#closeStart = this.selfClosing ? this.#openEnd : this.#raw.length - this.name.length - 3;
+    }
+    return this.#raw;
+  }
+
+  get openTag() {
+    return this.#openTag;
+  }
+
+  set openTag(tag) {
+    this.#touch();
+    this.#openTag = tag;
+  }
+
+  attr(name) {
+    return this.#openTag.match(new RegExp(`\\s${escapeRegex(name)}\\s*=\\s*(["'])(.*?)\\1`))?.[2] ?? null;
+  }
+
+  /** Text content as written in the file (entities are not decoded). */
+  get text() {
+    return this.children.filter((c) => typeof c === 'string').join('');
+  }
+
+  setText(text) {
+    this.#children = [String(text)];
+    this.#touch();
+  }
+
+  /** The GUID in the element's own `<…:id>` child (trn:id, act:id, sx:id, price:id…). */
+  get id() {
+    if (this.#id === undefined) {
+      const idEl = this.children.find((c) => c instanceof Element && /(^|:)id$/.test(c.name));
+      this.#id = idEl ? idEl.text.trim() : null;
+    }
+    return this.#id;
+  }
+
+  elements(name) {
+    return this.children.filter((c) => c instanceof Element && (!name || c.name === name));
+  }
+
+  child(name) {
+    return this.children.find((c) => c instanceof Element && c.name === name) ?? null;
+  }
+
+  findChild(name, id) {
+    return this.children.find((c) => c instanceof Element && c.name === name && c.id === id) ?? null;
+  }
+
+  /** Leading whitespace of this element's line. */
+  get indent() {
+    if (!this.parent) return '';
+    const kids = this.parent.children;
+    const before = kids[kids.indexOf(this) - 1];
+    if (typeof before !== 'string') return '';
+    return before.slice(before.lastIndexOf('\n') + 1).match(/^[ \t]*/)[0];
+  }
+
+  /** Indentation for a new child: that of the last child element, else one step in from the closing tag. */
+  childIndent() {
+    const last = this.elements().at(-1);
+    if (last) return last.indent;
+    const tail = this.children.at(-1);
+    const closeIndent = typeof tail === 'string' && tail.includes('\n')
+      ? tail.slice(tail.lastIndexOf('\n') + 1).match(/^[ \t]*/)[0]
+      : this.indent;
+    return closeIndent + '  ';
+  }
+
+  #adopt(node) {
+    if (node.parent && node.parent !== this) node.parent.removeChild(node);
+    node.parent = this;
+    return node;
+  }
+
+  #indexOf(node) {
+    const i = this.children.indexOf(node);
+    if (i === -1) throw new Error(`<${node.name}> is not a child of <${this.name}>`);
+    return i;
+  }
+
+  // The insertion methods take an Element, or an XML string written at
+  // column 0 that is parsed and indented to fit where it lands.
+
+  /** Add a child on its own line just before the closing tag. */
+  append(node) {
+    const indent = this.childIndent();
+    node = place(node, indent);
+    const kids = this.children;
+    const tail = typeof kids.at(-1) === 'string' ? kids.pop() : '';
+    const nl = tail.lastIndexOf('\n');
+    const head = nl === -1 ? tail : tail.slice(0, nl);
+    const closing = nl === -1 ? `\n${this.indent}` : tail.slice(nl);
+    if (head) kids.push(head);
+    kids.push(`\n${indent}`, this.#adopt(node), closing);
+    this.#touch();
+    return node;
+  }
+
+  insertAfter(ref, node) {
+    const indent = ref.indent;
+    node = place(node, indent);
+    this.children.splice(this.#indexOf(ref) + 1, 0, `\n${indent}`, this.#adopt(node));
+    this.#touch();
+    return node;
+  }
+
+  insertBefore(ref, node) {
+    const indent = ref.indent;
+    node = place(node, indent);
+    this.children.splice(this.#indexOf(ref), 0, this.#adopt(node), `\n${indent}`);
+    this.#touch();
+    return node;
+  }
+
+  replaceChild(old, node) {
+    node = place(node, old.indent);
+    this.children[this.#indexOf(old)] = this.#adopt(node);
+    old.parent = null;
+    this.#touch();
+    return node;
+  }
+
+  /** Remove a child together with the line break and indentation in front of it. */
+  removeChild(node) {
+    const kids = this.children;
+    const i = this.#indexOf(node);
+    kids.splice(i, 1);
+    const before = kids[i - 1];
+    if (typeof before === 'string' && /\n[ \t]*$/.test(before)) {
+      const trimmed = before.replace(/\n[ \t]*$/, '');
+      if (trimmed) kids[i - 1] = trimmed; else kids.splice(i - 1, 1);
+    }
+    node.parent = null;
+    this.#touch();
+  }
+
+  /** Replace every child element with `nodes`, one per line at the current child indent. */
+  setElements(nodes) {
+    const indent = this.childIndent();
+    const tail = this.children.at(-1);
+    const closing = (typeof tail === 'string' && tail.match(/\n[ \t]*$/)?.[0]) || `\n${this.indent}`;
+    nodes = nodes.map((n) => this.#adopt(place(n, indent)));
+    this.#children = nodes.flatMap((n) => [`\n${indent}`, n]).concat(closing);
+    this.#touch();
+  }
+}
+
+/** A whole XML file: whatever precedes the root element, the root, and whatever follows. */
+export class XmlDocument {
+  constructor(xml) {
+    let i = 0;
+    for (;;) {
+      const lt = xml.indexOf('<', i);
+      if (lt === -1) throw new Error('The file has no root element');
+      const special = skipSpecial(xml, lt);
+      if (!special) { i = lt; break; }
+      i = special;
+    }
+    const s = scanElement(xml, i);
+    this.prolog = xml.slice(0, i);
+    this.root = new Element(xml.slice(i, s.end), s.name, s.openEnd - i, s.closeStart - i);
+    this.epilog = xml.slice(s.end);
+    if (/<[^!?]/.test(this.epilog)) throw new Error(`Unexpected content after </${s.name}>`);
+  }
+
+  toString() {
+    return this.prolog + this.root + this.epilog;
+  }
+}
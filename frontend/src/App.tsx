@@ -2,10 +2,12 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   LayoutDashboard, Search as SearchIcon, FileText, PanelLeft,
-  RefreshCw, AlertCircle, BookOpen, TrendingUp, Tag, Upload, Plus,
+  RefreshCw, AlertCircle, BookOpen, TrendingUp, Tag, Upload, Plus, LineChart, Briefcase, CalendarClock, Archive, History, ShieldCheck,
 } from 'lucide-react';
 import { fetchData } from './lib/api';
 import { buildAccountTree, cn } from './lib/utils';
+import { useCurrencyConverter } from './lib/currency';
+import { useServerEvents } from './lib/events';
 import { useAppStore } from './store/useAppStore';
 import { AccountTree } from './components/AccountTree/AccountTree';
 import { Register } from './components/Register/Register';
@@ -15,9 +17,17 @@ import { Reports } from './components/Reports/Reports';
 import { Projections } from './components/Projections/Projections';
 import { Recategorize } from './components/Recategorize/Recategorize';
 import { Import } from './components/Import/Import';
+import { Prices } from './components/Prices/Prices';
+import { Holdings } from './components/Holdings/Holdings';
+import { Scheduled } from './components/Scheduled/Scheduled';
+import { Backups } from './components/Backups/Backups';
+import { AuditLog } from './components/AuditLog/AuditLog';
+import { Integrity } from './components/Integrity/Integrity';
 import { ChatWidget } from './components/Chat/Chat';
 import { NewAccountModal } from './components/NewAccountModal/NewAccountModal';
 import { Setup } from './components/Setup/Setup';
+import { LockBanner, LockToggle } from './components/LockBanner/LockBanner';
+import { UndoToast } from './components/UndoToast/UndoToast';
 
 function LoadingSpinner() {
   return (
@@ -61,8 +71,21 @@ export default function App() {
     enabled: status?.configured === true,
   });
 
-  const { activeView, selectedAccountId, sidebarCollapsed, toggleSidebar, setActiveView } =
-    useAppStore();
+  // Pick up changes saved by other tabs or outside the app
+  useServerEvents(status?.configured === true);
+
+  const {
+    activeView, selectedAccountId, sidebarCollapsed, toggleSidebar, setActiveView,
+    reportCurrency, setReportCurrency,
+  } = useAppStore();
+
+  // Report in the book's home currency until the user picks another one
+  const defaultCurrency = data?.defaultCurrency;
+  useEffect(() => {
+    if (defaultCurrency) setReportCurrency(defaultCurrency);
+  }, [defaultCurrency, setReportCurrency]);
+
+  const convert = useCurrencyConverter(data?.accounts ?? [], data?.transactions ?? [], data?.prices);
 
   const [showNewAccount, setShowNewAccount] = useState(false);
   const [sidebarWidth, setSidebarWidth] = useState(280);
@@ -111,7 +134,14 @@ export default function App() {
   }
 
   const accountTree = data
-    ? buildAccountTree(data.accounts, data.transactions)
+    ? buildAccountTree(data.accounts, data.transactions, convert)
+    : [];
+
+  const currencies = data
+    ? Array.from(new Set([
+        data.defaultCurrency,
+        ...data.accounts.filter((a) => a.commoditySpace === 'CURRENCY').map((a) => a.commodity),
+      ])).sort()
     : [];
 
   const selectedAccount = selectedAccountId
@@ -125,6 +155,12 @@ export default function App() {
     { id: 'projections' as const,   icon: <TrendingUp size={16} />, label: 'Projections'   },
     { id: 'recategorize' as const, icon: <Tag size={16} />,        label: 'Recategorize'  },
     { id: 'import'       as const, icon: <Upload size={16} />,     label: 'Import'        },
+    { id: 'scheduled'    as const, icon: <CalendarClock size={16} />, label: 'Scheduled'   },
+    { id: 'holdings'     as const, icon: <Briefcase size={16} />,  label: 'Holdings'      },
+    { id: 'prices'       as const, icon: <LineChart size={16} />,  label: 'Prices'        },
+    { id: 'audit'        as const, icon: <History size={16} />,    label: 'Audit Log'     },
+    { id: 'integrity'    as const, icon: <ShieldCheck size={16} />, label: 'Check & Repair' },
+    { id: 'backups'      as const, icon: <Archive size={16} />,    label: 'Backups'       },
   ];
 
   return (
@@ -166,12 +202,25 @@ export default function App() {
 
         <div className="flex-1" />
 
+        {currencies.length > 1 && (
+          <select
+            value={reportCurrency}
+            onChange={(e) => setReportCurrency(e.target.value)}
+            className="bg-gray-800 border border-white/10 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-blue-500"
+            title="Report currency"
+          >
+            {currencies.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+        )}
+
         {data && (
           <span className="text-xs text-gray-600">
             {data.accounts.length} accounts · {data.transactions.length} transactions
           </span>
         )}
 
+        <LockToggle />
+
         <button
           onClick={() => refetch()}
           className="p-1.5 rounded hover:bg-white/10 text-gray-500 hover:text-gray-300 transition-colors"
@@ -181,6 +230,8 @@ export default function App() {
         </button>
       </header>
 
+      <LockBanner />
+
       <div className="flex flex-1 overflow-hidden">
         {/* Sidebar */}
         <aside
@@ -203,7 +254,7 @@ export default function App() {
             </button>
           </div>
           {data ? (
-            <AccountTree roots={accountTree} accounts={data.accounts} />
+            <AccountTree roots={accountTree} accounts={data.accounts} convert={convert} />
           ) : (
             <div className="flex-1" />
           )}
@@ -227,22 +278,42 @@ export default function App() {
             <>
               {activeView === 'account' && selectedAccount ? (
                 <Register
+                  key={selectedAccount.id}
                   account={selectedAccount}
                   accounts={data.accounts}
-                  transactions={data.transactions}
                 />
               ) : activeView === 'search' ? (
-                <Search accounts={data.accounts} transactions={data.transactions} />
+                <Search accounts={data.accounts} />
               ) : activeView === 'reports' ? (
-                <Reports accounts={data.accounts} transactions={data.transactions} />
+                <Reports accounts={data.accounts} transactions={data.transactions} prices={data.prices} budgets={data.budgets} />
               ) : activeView === 'projections' ? (
                 <Projections accounts={data.accounts} transactions={data.transactions} />
               ) : activeView === 'recategorize' ? (
                 <Recategorize accounts={data.accounts} transactions={data.transactions} />
               ) : activeView === 'import' ? (
                 <Import accounts={data.accounts} transactions={data.transactions} />
+              ) : activeView === 'scheduled' ? (
+                <Scheduled
+                  accounts={data.accounts}
+                  scheduled={data.scheduled}
+                  defaultCurrency={data.defaultCurrency}
+                />
+              ) : activeView === 'holdings' ? (
+                <Holdings accounts={data.accounts} transactions={data.transactions} prices={data.prices} />
+              ) : activeView === 'prices' ? (
+                <Prices
+                  prices={data.prices}
+                  commodities={data.commodities}
+                  defaultCurrency={data.defaultCurrency}
+                />
+              ) : activeView === 'audit' ? (
+                <AuditLog accounts={data.accounts} />
+              ) : activeView === 'integrity' ? (
+                <Integrity />
+              ) : activeView === 'backups' ? (
+                <Backups />
               ) : (
-                <Dashboard accounts={data.accounts} transactions={data.transactions} />
+                <Dashboard accounts={data.accounts} transactions={data.transactions} prices={data.prices} budgets={data.budgets} />
               )}
             </>
           )}
@@ -256,6 +327,9 @@ export default function App() {
         />
       )}
 
+      {/* "Saved … Undo" notices */}
+      <UndoToast />
+
       {/* Floating AI advisor widget — available from any view */}
       <ChatWidget />
     </div>
@@ -3,13 +3,16 @@ import { useQueryClient } from '@tanstack/react-query';
 import {
   ChevronRight, ChevronDown,
   TrendingUp, TrendingDown, PiggyBank, Building2, CreditCard,
-  FolderPlus, Pencil, Trash2, Check, X, AlertTriangle,
+  FolderPlus, Pencil, Settings2, Merge, Trash2, Check, X, AlertTriangle, MoveRight,
 } from 'lucide-react';
-import type { Account, AccountNode } from '../../types';
-import { cn, formatCurrency, getAccountDisplayBalance } from '../../lib/utils';
+import type { Account, AccountNode, GnuCashData } from '../../types';
+import { accountErrors } from '../../types/validation';
+import { cn, formatCurrency, formatDate, getAccountDisplayBalance, getAccountPath } from '../../lib/utils';
+import type { Converter } from '../../lib/currency';
 import { useAppStore } from '../../store/useAppStore';
-import { renameAccount, deleteAccount } from '../../lib/api';
+import { renameAccount, deleteAccount, reparentAccount } from '../../lib/api';
 import { NewAccountModal } from '../NewAccountModal/NewAccountModal';
+import { MergeAccountModal } from '../MergeAccountModal/MergeAccountModal';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Group config
@@ -32,18 +35,97 @@ function getGroupForNode(node: AccountNode): string {
   return 'Assets';
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Drag and drop
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Drop target id of a group header: dropping there moves the account to the top level */
+const TOP_LEVEL = '';
+
+/** Wiring every row shares: dragging an account onto another makes it a sub-account */
+interface DragProps {
+  draggingId: string | null;
+  dropTargetId: string | null;
+  canDrop: (targetId: string) => boolean;
+  onDragStart: (node: AccountNode) => void;
+  onDragOver: (targetId: string | null) => void;
+  onDrop: (targetId: string) => void;
+  onDragEnd: () => void;
+}
+
+/** Props that make an element a drop target for `targetId` */
+function dropTargetProps(drag: DragProps, targetId: string) {
+  return {
+    onDragOver: (e: React.DragEvent) => {
+      if (!drag.canDrop(targetId)) { drag.onDragOver(null); return; }
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      drag.onDragOver(targetId);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      drag.onDrop(targetId);
+    },
+  };
+}
+
+function MoveDialog({
+  from, to, onConfirm, onCancel,
+}: {
+  from: string;
+  to: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-sm bg-gray-900 border border-white/10 rounded-2xl shadow-2xl p-5 space-y-4">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-100">
+          <MoveRight size={16} className="text-blue-400" />
+          Move account?
+        </div>
+        <div className="space-y-1.5 text-xs">
+          <p className="text-gray-500">From <span className="font-mono text-gray-300">{from}</span></p>
+          <p className="text-gray-500">To <span className="font-mono text-blue-300">{to}</span></p>
+        </div>
+        <p className="text-xs text-gray-500">Its sub-accounts and transactions move with it.</p>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            autoFocus
+            onClick={onConfirm}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            Move
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Context menu
 // ─────────────────────────────────────────────────────────────────────────────
 
 function ContextMenu({
   x, y, node,
-  onAddSub, onRename, onDelete, onClose,
+  onAddSub, onRename, onEdit, onMerge, onDelete, onClose,
 }: {
   x: number; y: number;
   node: AccountNode;
   onAddSub: () => void;
   onRename: () => void;
+  onEdit: () => void;
+  onMerge: () => void;
   onDelete: () => void;
   onClose: () => void;
 }) {
@@ -114,6 +196,20 @@ function ContextMenu({
               <Pencil size={13} className="text-gray-400" />
               Rename
             </button>
+            <button
+              onClick={() => { onEdit(); onClose(); }}
+              className="w-full flex items-center gap-2.5 px-3 py-2 text-gray-300 hover:bg-white/5 hover:text-white transition-colors text-left"
+            >
+              <Settings2 size={13} className="text-gray-400" />
+              Properties…
+            </button>
+            <button
+              onClick={() => { onMerge(); onClose(); }}
+              className="w-full flex items-center gap-2.5 px-3 py-2 text-gray-300 hover:bg-white/5 hover:text-white transition-colors text-left"
+            >
+              <Merge size={13} className="text-gray-400" />
+              Merge into…
+            </button>
             <div className="border-t border-white/5 mt-1 pt-1">
               <button
                 onClick={() => setConfirmDelete(true)}
@@ -136,7 +232,7 @@ function ContextMenu({
 
 function AccountRow({
   node, depth, onSelect, selectedId,
-  onContextMenu,
+  onContextMenu, drag,
   renamingId, renameDraft, onRenameDraftChange, onRenameSubmit, onRenameCancel,
 }: {
   node: AccountNode;
@@ -144,6 +240,7 @@ function AccountRow({
   onSelect: (id: string) => void;
   selectedId: string | null;
   onContextMenu: (node: AccountNode, e: React.MouseEvent) => void;
+  drag: DragProps;
   renamingId: string | null;
   renameDraft: string;
   onRenameDraftChange: (v: string) => void;
@@ -167,9 +264,20 @@ function AccountRow({
         className={cn(
           'flex items-center gap-1 px-2 py-[3px] rounded cursor-pointer group text-sm',
           'hover:bg-white/5 transition-colors',
-          isSelected && 'bg-blue-600/20 text-blue-300'
+          isSelected && 'bg-blue-600/20 text-blue-300',
+          drag.draggingId === node.id && 'opacity-40',
+          drag.dropTargetId === node.id && 'bg-blue-500/10 ring-1 ring-inset ring-blue-500/60'
         )}
         style={{ paddingLeft: `${8 + depth * 14}px` }}
+        draggable={!isRenaming}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', node.id);
+          drag.onDragStart(node);
+        }}
+        onDragEnd={drag.onDragEnd}
+        {...dropTargetProps(drag, node.id)}
         onClick={() => {
           if (isRenaming) return;
           if (!node.placeholder) onSelect(node.id);
@@ -198,10 +306,14 @@ function AccountRow({
             className="flex-1 bg-gray-700 border border-blue-500 rounded px-1.5 py-0.5 text-xs text-gray-100 outline-none min-w-0"
           />
         ) : (
-          <span className={cn(
-            'flex-1 truncate',
-            node.placeholder ? 'text-gray-400 font-medium' : 'text-gray-200'
-          )}>
+          <span
+            className={cn(
+              'flex-1 truncate',
+              node.placeholder ? 'text-gray-400 font-medium' : 'text-gray-200',
+              node.hidden && 'opacity-50 italic'
+            )}
+            title={node.hidden ? 'Hidden in GnuCash' : undefined}
+          >
             {node.name}
           </span>
         )}
@@ -225,12 +337,18 @@ function AccountRow({
             </button>
           </span>
         ) : (
-          <span className={cn(
-            'text-xs tabular-nums ml-2 flex-shrink-0',
-            displayBalance < 0 ? 'text-red-400' : 'text-gray-400',
-            isSelected && 'text-blue-300'
-          )}>
-            {formatCurrency(displayBalance)}
+          <span
+            className={cn(
+              'text-xs tabular-nums ml-2 flex-shrink-0',
+              displayBalance < 0 ? 'text-red-400' : 'text-gray-400',
+              isSelected && 'text-blue-300'
+            )}
+            title={node.reconciled?.lastDate
+              ? `Reconciled ${formatDate(node.reconciled.lastDate)}: ` +
+                formatCurrency(getAccountDisplayBalance(node.reconciled.balance, node.type), false, node.commodity)
+              : 'Never reconciled'}
+          >
+            {formatCurrency(displayBalance, false, node.commodity)}
           </span>
         )}
       </div>
@@ -245,6 +363,7 @@ function AccountRow({
               onSelect={onSelect}
               selectedId={selectedId}
               onContextMenu={onContextMenu}
+              drag={drag}
               renamingId={renamingId}
               renameDraft={renameDraft}
               onRenameDraftChange={onRenameDraftChange}
@@ -263,15 +382,18 @@ function AccountRow({
 // ─────────────────────────────────────────────────────────────────────────────
 
 function GroupSection({
-  label, nodes, selectedId, onSelect,
-  onContextMenu, renamingId, renameDraft,
+  label, nodes, convert, reportCurrency, selectedId, onSelect,
+  onContextMenu, drag, renamingId, renameDraft,
   onRenameDraftChange, onRenameSubmit, onRenameCancel,
 }: {
   label: string;
   nodes: AccountNode[];
+  convert: Converter;
+  reportCurrency: string;
   selectedId: string | null;
   onSelect: (id: string) => void;
   onContextMenu: (node: AccountNode, e: React.MouseEvent) => void;
+  drag: DragProps;
   renamingId: string | null;
   renameDraft: string;
   onRenameDraftChange: (v: string) => void;
@@ -280,19 +402,24 @@ function GroupSection({
 }) {
   const [open, setOpen] = useState(true);
   const config = GROUP_CONFIG[label];
-  const totalBalance   = nodes.reduce((s, n) => s + n.totalBalance, 0);
+  const totalBalance   = nodes.reduce((s, n) => s + convert(n.totalBalance, n.commodity, reportCurrency), 0);
   const displayBalance = getAccountDisplayBalance(totalBalance, nodes[0]?.type ?? 'ASSET');
 
   return (
     <div className="mb-1">
       <button
-        className="w-full flex items-center gap-2 px-2 py-1.5 text-xs font-semibold uppercase tracking-wider text-gray-500 hover:text-gray-300 transition-colors"
+        className={cn(
+          'w-full flex items-center gap-2 px-2 py-1.5 text-xs font-semibold uppercase tracking-wider text-gray-500 hover:text-gray-300 transition-colors rounded',
+          drag.dropTargetId === TOP_LEVEL && 'bg-blue-500/10 ring-1 ring-inset ring-blue-500/60'
+        )}
         onClick={() => setOpen((o) => !o)}
+        title={drag.draggingId ? 'Drop here to move the account to the top level' : undefined}
+        {...dropTargetProps(drag, TOP_LEVEL)}
       >
         <span className={config?.colorClass}>{config?.icon}</span>
         <span className="flex-1 text-left">{label}</span>
         <span className={cn('tabular-nums normal-case font-normal text-xs', config?.colorClass)}>
-          {formatCurrency(Math.abs(displayBalance))}
+          {formatCurrency(Math.abs(displayBalance), false, reportCurrency)}
         </span>
         <span className="text-gray-600">
           {open ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
@@ -308,6 +435,7 @@ function GroupSection({
               onSelect={onSelect}
               selectedId={selectedId}
               onContextMenu={onContextMenu}
+              drag={drag}
               renamingId={renamingId}
               renameDraft={renameDraft}
               onRenameDraftChange={onRenameDraftChange}
@@ -328,11 +456,13 @@ function GroupSection({
 interface AccountTreeProps {
   roots: AccountNode[];
   accounts: Account[];
+  /** Used to total groups whose accounts span several commodities */
+  convert: Converter;
 }
 
-export function AccountTree({ roots, accounts }: AccountTreeProps) {
+export function AccountTree({ roots, accounts, convert }: AccountTreeProps) {
   const queryClient = useQueryClient();
-  const { selectedAccountId, setSelectedAccount } = useAppStore();
+  const { selectedAccountId, setSelectedAccount, reportCurrency } = useAppStore();
 
   // Context menu state
   const [ctxMenu, setCtxMenu] = useState<{ node: AccountNode; x: number; y: number } | null>(null);
@@ -341,8 +471,55 @@ export function AccountTree({ roots, accounts }: AccountTreeProps) {
   const [renaming, setRenaming] = useState<{ id: string; draft: string } | null>(null);
   const [renameError, setRenameError] = useState<string | null>(null);
 
-  // New-sub-account modal state
+  // New-sub-account and properties modal state
   const [addSubParent, setAddSubParent] = useState<AccountNode | null>(null);
+  const [editing, setEditing] = useState<Account | null>(null);
+  const [merging, setMerging] = useState<Account | null>(null);
+
+  // Drag-and-drop state: the account being dragged, the row under it, and the move awaiting confirmation
+  const [dragging, setDragging] = useState<Account | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ account: Account; parentId: string } | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const root = accounts.find((a) => a.type === 'ROOT');
+
+  /** The accounts as they would be after moving `accountId` under `parentId` */
+  const withParent = (accountId: string, parentId: string) =>
+    accounts.map((a) => (a.id === accountId ? { ...a, parentId } : a));
+
+  const drag: DragProps = {
+    draggingId: dragging?.id ?? null,
+    dropTargetId,
+    canDrop: (targetId) => {
+      if (!dragging) return false;
+      const parentId = targetId || root?.id || '';
+      return parentId !== dragging.parentId && accountErrors({ ...dragging, parentId }, accounts).length === 0;
+    },
+    onDragStart: (node) => { setDragging(accounts.find((a) => a.id === node.id) ?? null); setMoveError(null); },
+    onDragOver: setDropTargetId,
+    onDrop: (targetId) => {
+      if (dragging && drag.canDrop(targetId)) setPendingMove({ account: dragging, parentId: targetId || root?.id || '' });
+      setDragging(null);
+      setDropTargetId(null);
+    },
+    onDragEnd: () => { setDragging(null); setDropTargetId(null); },
+  };
+
+  async function handleMove() {
+    if (!pendingMove) return;
+    const { account, parentId } = pendingMove;
+    setPendingMove(null);
+    // Roll balances up under the new parent straight away; the refetch below confirms it
+    queryClient.setQueryData<GnuCashData>(['gnucash'], (old) =>
+      old && { ...old, accounts: old.accounts.map((a) => (a.id === account.id ? { ...a, parentId } : a)) });
+    try {
+      await reparentAccount(account.id, parentId === root?.id ? null : parentId);
+    } catch (err) {
+      setMoveError((err as Error).message);
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+    }
+  }
 
   // Close context menu when Escape is pressed
   useEffect(() => {
@@ -398,10 +575,13 @@ export function AccountTree({ roots, accounts }: AccountTreeProps) {
             <GroupSection
               key={label}
               label={label}
+              convert={convert}
+              reportCurrency={reportCurrency}
               nodes={nodes}
               selectedId={selectedAccountId}
               onSelect={setSelectedAccount}
               onContextMenu={handleContextMenu}
+              drag={drag}
               renamingId={renaming?.id ?? null}
               renameDraft={renaming?.draft ?? ''}
               onRenameDraftChange={(v) => setRenaming((r) => r ? { ...r, draft: v } : null)}
@@ -417,11 +597,11 @@ export function AccountTree({ roots, accounts }: AccountTreeProps) {
       </div>
 
       {/* Error toasts */}
-      {(renameError || deleteError) && (
+      {(renameError || deleteError || moveError) && (
         <div className="mx-2 mb-2 px-3 py-2 bg-red-500/10 border border-red-500/20 rounded-lg text-xs text-red-400 flex items-start gap-2">
           <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
-          <span>{renameError || deleteError}</span>
-          <button className="ml-auto" onClick={() => { setRenameError(null); setDeleteError(null); }}><X size={11} /></button>
+          <span>{renameError || deleteError || moveError}</span>
+          <button className="ml-auto" onClick={() => { setRenameError(null); setDeleteError(null); setMoveError(null); }}><X size={11} /></button>
         </div>
       )}
 
@@ -433,6 +613,8 @@ export function AccountTree({ roots, accounts }: AccountTreeProps) {
           node={ctxMenu.node}
           onAddSub={() => { setAddSubParent(ctxMenu.node); setCtxMenu(null); }}
           onRename={() => { setRenaming({ id: ctxMenu.node.id, draft: ctxMenu.node.name }); setCtxMenu(null); }}
+          onEdit={() => { setEditing(accounts.find((a) => a.id === ctxMenu.node.id) ?? null); setCtxMenu(null); }}
+          onMerge={() => { setMerging(accounts.find((a) => a.id === ctxMenu.node.id) ?? null); setCtxMenu(null); }}
           onDelete={() => handleDelete(ctxMenu.node)}
           onClose={() => setCtxMenu(null)}
         />
@@ -446,6 +628,36 @@ export function AccountTree({ roots, accounts }: AccountTreeProps) {
           onClose={() => setAddSubParent(null)}
         />
       )}
+
+      {/* Drag-and-drop move confirmation */}
+      {pendingMove && (
+        <MoveDialog
+          from={getAccountPath(pendingMove.account.id, accounts)}
+          to={getAccountPath(pendingMove.account.id, withParent(pendingMove.account.id, pendingMove.parentId))}
+          onConfirm={handleMove}
+          onCancel={() => setPendingMove(null)}
+        />
+      )}
+
+      {/* Account properties modal */}
+      {editing && (
+        <NewAccountModal
+          key={editing.id}
+          accounts={accounts}
+          account={editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {/* Merge modal */}
+      {merging && (
+        <MergeAccountModal
+          key={merging.id}
+          accounts={accounts}
+          account={merging}
+          onClose={() => setMerging(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,254 @@
+import { useMemo, useState } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { History, Loader2, RotateCcw, Search as SearchIcon, X, AlertCircle } from 'lucide-react';
+import type { Account } from '../../types';
+import { cn, formatCurrency, formatDate, getAccountPath } from '../../lib/utils';
+import { fetchAuditLog, revertAuditEntry, type AuditChange, type AuditEntry } from '../../lib/api';
+import { useDebounced } from '../../lib/transactions';
+
+interface AuditLogProps {
+  accounts: Account[];
+}
+
+const ACTIONS: { value: '' | AuditEntry['action']; label: string }[] = [
+  { value: '',       label: 'Any change' },
+  { value: 'create', label: 'Created'    },
+  { value: 'update', label: 'Edited'     },
+  { value: 'delete', label: 'Deleted'    },
+];
+
+const ACTION_BADGES: Record<AuditEntry['action'], { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-emerald-500/15 text-emerald-400' },
+  update: { label: 'Edited',  className: 'bg-blue-500/15 text-blue-400'       },
+  delete: { label: 'Deleted', className: 'bg-red-500/15 text-red-400'         },
+};
+
+const RECONCILED_LABELS: Record<string, string> = { n: 'not reconciled', c: 'cleared', y: 'reconciled' };
+
+function formatChangedAt(iso: string) {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+/** One line of an edit's summary, e.g. "Amount (Groceries): $5.00 → $10.00" */
+function describeChange(change: AuditChange) {
+  const text = (v: AuditChange['before']) => (v === null || v === '' ? '(blank)' : String(v));
+  switch (change.field) {
+    case 'description': return `Description: ${text(change.before)} → ${text(change.after)}`;
+    case 'date':        return `Date: ${formatDate(String(change.before))} → ${formatDate(String(change.after))}`;
+    case 'num':         return `Number: ${text(change.before)} → ${text(change.after)}`;
+    case 'notes':       return `Notes: ${text(change.before)} → ${text(change.after)}`;
+    case 'account':     return `Account: ${text(change.before)} → ${text(change.after)}`;
+    case 'amount':      return `Amount (${change.account}): ${formatCurrency(Number(change.before))} → ${formatCurrency(Number(change.after))}`;
+    case 'memo':        return `Memo (${change.account}): ${text(change.before)} → ${text(change.after)}`;
+    case 'reconciled':
+      return `${change.account}: ${RECONCILED_LABELS[String(change.before)] ?? change.before} → ${RECONCILED_LABELS[String(change.after)] ?? change.after}`;
+    case 'split':
+      return change.after === null
+        ? `Removed split: ${change.before} ${formatCurrency(change.value ?? 0)}`
+        : `Added split: ${change.after} ${formatCurrency(change.value ?? 0)}`;
+  }
+}
+
+function EntryDetail({ entry }: { entry: AuditEntry }) {
+  if (entry.action === 'update') {
+    return (
+      <ul className="space-y-0.5">
+        {entry.changes.map((c, i) => <li key={i}>{describeChange(c)}</li>)}
+      </ul>
+    );
+  }
+  const txn = (entry.after ?? entry.before)!;
+  return (
+    <ul className="space-y-0.5">
+      {txn.splits.map((s, i) => (
+        <li key={s.id || i}>
+          {s.accountName || s.accountId}: {formatCurrency(s.value)}{s.memo ? ` — ${s.memo}` : ''}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function AuditLog({ accounts }: AuditLogProps) {
+  const queryClient = useQueryClient();
+  const [query, setQuery] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [action, setAction] = useState<'' | AuditEntry['action']>('');
+  const [transactionId, setTransactionId] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filters = useDebounced({
+    q: query.trim(),
+    accountId,
+    action: action || undefined,
+    transactionId: transactionId ?? undefined,
+  }, 250);
+
+  const { data, isLoading, isFetching } = useQuery({
+    queryKey: ['gnucash', 'audit-log', filters],
+    queryFn: () => fetchAuditLog(filters),
+    placeholderData: keepPreviousData,
+  });
+
+  const revert = useMutation({
+    mutationFn: revertAuditEntry,
+    onSuccess: () => {
+      setConfirming(null);
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+    },
+    onError: (err: Error) => { setConfirming(null); setError(err.message); },
+  });
+
+  const accountOptions = useMemo(
+    () =>
+      accounts
+        .filter((a) => a.type !== 'ROOT')
+        .map((a) => ({ id: a.id, path: getAccountPath(a.id, accounts) }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
+    [accounts]
+  );
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-6 py-4 border-b border-white/10">
+        <h2 className="text-lg font-semibold text-gray-100">Audit Log</h2>
+        <p className="text-xs text-gray-500 mt-0.5 mb-4">
+          Every transaction change recorded in the book's .log files, by this app or by GnuCash
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="relative flex-1 min-w-60">
+            <SearchIcon size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              type="text"
+              placeholder="Search descriptions, memos, accounts…"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full bg-gray-800 border border-white/10 rounded pl-8 pr-3 py-1.5 text-sm text-gray-200 placeholder-gray-600 outline-none focus:border-blue-500"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Account</label>
+            <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500 w-56"
+            >
+              <option value="">All accounts</option>
+              {accountOptions.map((a) => <option key={a.id} value={a.id}>{a.path}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Change</label>
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as '' | AuditEntry['action'])}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500"
+            >
+              {ACTIONS.map((a) => <option key={a.value} value={a.value}>{a.label}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {transactionId && (
+          <div className="mt-3 inline-flex items-center gap-2 px-2 py-1 rounded bg-blue-500/10 text-xs text-blue-300">
+            Showing one transaction
+            <button onClick={() => setTransactionId(null)} className="hover:text-blue-100"><X size={11} /></button>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 mt-3 text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+            <AlertCircle size={13} className="mt-0.5 flex-shrink-0" />
+            <span className="flex-1">{error}</span>
+            <button onClick={() => setError(null)} className="text-red-400/60 hover:text-red-300"><X size={12} /></button>
+          </div>
+        )}
+      </div>
+
+      <div className="px-6 py-2 text-xs text-gray-500 border-b border-white/5 flex items-center gap-2">
+        {total} change{total !== 1 ? 's' : ''}
+        {total > entries.length && ` · showing the latest ${entries.length}`}
+        {isFetching && <Loader2 size={11} className="animate-spin" />}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-900 z-10">
+            <tr className="text-xs text-gray-500 border-b border-white/10">
+              <th className="px-4 py-2 text-left w-44">Changed</th>
+              <th className="px-4 py-2 text-left w-20"></th>
+              <th className="px-4 py-2 text-left w-28">Date</th>
+              <th className="px-4 py-2 text-left">Transaction</th>
+              <th className="px-4 py-2 w-40"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => {
+              const badge = ACTION_BADGES[entry.action];
+              return (
+                <tr key={entry.id} className="border-b border-white/5 hover:bg-white/3 align-top group">
+                  <td className="px-4 py-2.5 text-xs text-gray-500 font-mono whitespace-nowrap">{formatChangedAt(entry.changedAt)}</td>
+                  <td className="px-4 py-2.5">
+                    <span className={cn('px-1.5 py-0.5 rounded text-xs', badge.className)}>{badge.label}</span>
+                  </td>
+                  <td className="px-4 py-2.5 font-mono text-xs text-gray-500">{formatDate(entry.datePosted)}</td>
+                  <td className="px-4 py-2.5">
+                    <button
+                      onClick={() => setTransactionId(entry.transactionId)}
+                      className="text-gray-200 hover:text-blue-400 text-left"
+                      title="Show this transaction's history"
+                    >
+                      {entry.description || <span className="italic text-gray-600">No description</span>}
+                    </button>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      <EntryDetail entry={entry} />
+                    </div>
+                  </td>
+                  <td className="px-4 py-2.5 text-right">
+                    {confirming === entry.id ? (
+                      <span className="inline-flex items-center gap-2 text-xs">
+                        <button onClick={() => setConfirming(null)} className="text-gray-400 hover:text-gray-200">Cancel</button>
+                        <button
+                          onClick={() => revert.mutate(entry.id)}
+                          disabled={revert.isPending}
+                          className="px-2 py-0.5 bg-amber-600 hover:bg-amber-500 disabled:opacity-40 text-white rounded"
+                        >
+                          Revert
+                        </button>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setConfirming(entry.id)}
+                        className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-amber-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title={entry.action === 'create' ? 'Delete this transaction' : 'Restore the transaction as it was before this change'}
+                      >
+                        <RotateCcw size={12} />
+                        Revert
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {entries.length === 0 && !isLoading && (
+          <div className="flex flex-col items-center justify-center h-40 text-gray-600">
+            <History size={32} className="mb-2 opacity-30" />
+            <p>No changes found</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
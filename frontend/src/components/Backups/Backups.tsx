@@ -0,0 +1,298 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, ArchiveRestore, Check, Loader2, X } from 'lucide-react';
+import { cn, formatCurrency, formatDate } from '../../lib/utils';
+import {
+  fetchBackups, fetchBackupDiff, restoreBackup, saveBackupPolicy,
+  type Backup, type BackupPolicy, type RecordCounts, type TransactionSummary,
+} from '../../lib/api';
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Retention policy
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TIERS: { key: 'hourly' | 'daily' | 'monthly'; label: string; unit: string }[] = [
+  { key: 'hourly',  label: 'Hourly backups',  unit: 'hours'  },
+  { key: 'daily',   label: 'Daily backups',   unit: 'days'   },
+  { key: 'monthly', label: 'Monthly backups', unit: 'months' },
+];
+
+function PolicyForm({ policy }: { policy: BackupPolicy }) {
+  const queryClient = useQueryClient();
+  // Tier lengths as typed; blank means "forever"
+  const [draft, setDraft] = useState(() => ({
+    enabled: policy.enabled,
+    ...Object.fromEntries(TIERS.map(({ key }) => [key, policy[key] === null ? '' : String(policy[key])])),
+  }) as { enabled: boolean } & Record<'hourly' | 'daily' | 'monthly', string>);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: saveBackupPolicy,
+    onSuccess: ({ deleted }) => {
+      setMessage(deleted.length ? `Saved — deleted ${deleted.length} backup${deleted.length !== 1 ? 's' : ''}` : 'Saved');
+      queryClient.invalidateQueries({ queryKey: ['gnucash', 'backups'] });
+    },
+    onError: (err: Error) => setMessage(err.message),
+  });
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    const next: BackupPolicy = { enabled: draft.enabled, hourly: null, daily: null, monthly: null };
+    for (const { key, label } of TIERS) {
+      if (draft[key].trim() === '') continue;
+      const n = Number(draft[key]);
+      if (!Number.isInteger(n) || n < 0) { setMessage(`${label}: enter a whole number, or leave blank to keep forever`); return; }
+      next[key] = n;
+    }
+    mutation.mutate(next);
+  }
+
+  return (
+    <form onSubmit={handleSave} className="flex flex-wrap items-end gap-3">
+      <label className="flex items-center gap-2 text-sm text-gray-300 self-center">
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(e) => setDraft((d) => ({ ...d, enabled: e.target.checked }))}
+        />
+        Delete old backups
+      </label>
+      {TIERS.map(({ key, label, unit }) => (
+        <div key={key} className="flex flex-col gap-1">
+          <label className="text-xs text-gray-500">{label} for ({unit})</label>
+          <input
+            type="number"
+            min={0}
+            placeholder="forever"
+            value={draft[key]}
+            disabled={!draft.enabled}
+            onChange={(e) => setDraft((d) => ({ ...d, [key]: e.target.value }))}
+            className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500 w-28 disabled:opacity-40"
+          />
+        </div>
+      ))}
+      <button
+        type="submit"
+        disabled={mutation.isPending}
+        className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm rounded transition-colors"
+      >
+        <Check size={14} />
+        Save Policy
+      </button>
+      {message && <span className="text-xs text-gray-400 self-center">{message}</span>}
+    </form>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Comparison with the current book
+// ─────────────────────────────────────────────────────────────────────────────
+
+function countsText({ added, removed, changed }: RecordCounts) {
+  const parts = [
+    added && `${added} added`,
+    removed && `${removed} removed`,
+    changed && `${changed} changed`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'no changes';
+}
+
+function TransactionList({ title, items, total, tone }: {
+  title: string;
+  items: TransactionSummary[];
+  total: number;
+  tone: string;
+}) {
+  if (!total) return null;
+  return (
+    <div className="mt-4">
+      <p className={cn('text-xs font-semibold uppercase tracking-wider mb-1', tone)}>
+        {title} ({total})
+      </p>
+      <ul className="space-y-0.5">
+        {items.map((t) => (
+          <li key={t.id} className="flex gap-2 text-xs">
+            <span className="font-mono text-gray-500 w-20 flex-shrink-0">{formatDate(t.datePosted)}</span>
+            <span className="text-gray-300 truncate flex-1">{t.description || <span className="italic text-gray-600">No description</span>}</span>
+            <span className="font-mono text-gray-400">{formatCurrency(t.amount, false, t.currency)}</span>
+          </li>
+        ))}
+      </ul>
+      {total > items.length && <p className="text-xs text-gray-600 mt-1">and {total - items.length} more</p>}
+    </div>
+  );
+}
+
+function BackupDetail({ backup, onClose }: { backup: Backup; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [confirming, setConfirming] = useState(false);
+
+  const { data: diff, isLoading, error } = useQuery({
+    queryKey: ['gnucash', 'backups', backup.name, 'diff'],
+    queryFn: () => fetchBackupDiff(backup.name),
+  });
+
+  const restore = useMutation({
+    mutationFn: () => restoreBackup(backup.name),
+    onSuccess: () => {
+      setConfirming(false);
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      onClose();
+    },
+  });
+
+  return (
+    <aside className="w-[26rem] flex-shrink-0 border-l border-white/10 flex flex-col overflow-hidden">
+      <div className="px-4 py-3 border-b border-white/10 flex items-start gap-2">
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-200">{formatTime(backup.time)}</p>
+          <p className="text-xs text-gray-600 font-mono break-all">{backup.name}</p>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-300"><X size={14} /></button>
+      </div>
+
+      <div className="flex-1 overflow-auto px-4 py-3 text-sm">
+        {isLoading && <Loader2 size={16} className="animate-spin text-gray-500" />}
+        {error && <p className="text-xs text-red-400">{(error as Error).message}</p>}
+        {diff && (
+          <>
+            <p className="text-xs text-gray-500 mb-2">Changes made since this backup — restoring it undoes them:</p>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+              <dt className="text-gray-500">Transactions</dt><dd className="text-gray-300">{countsText(diff.transactions)}</dd>
+              <dt className="text-gray-500">Accounts</dt><dd className="text-gray-300">{countsText(diff.accounts)}</dd>
+              <dt className="text-gray-500">Prices</dt><dd className="text-gray-300">{countsText(diff.prices)}</dd>
+              <dt className="text-gray-500">Scheduled</dt><dd className="text-gray-300">{countsText(diff.scheduled)}</dd>
+            </dl>
+            <TransactionList title="Added" items={diff.transactions.items.added} total={diff.transactions.added} tone="text-emerald-400" />
+            <TransactionList title="Removed" items={diff.transactions.items.removed} total={diff.transactions.removed} tone="text-red-400" />
+            <TransactionList title="Changed" items={diff.transactions.items.changed} total={diff.transactions.changed} tone="text-amber-400" />
+          </>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-white/10">
+        {restore.error && (
+          <div className="flex items-start gap-2 mb-2 text-xs text-red-400">
+            <AlertCircle size={13} className="mt-0.5 flex-shrink-0" />
+            <span>{restore.error.message}</span>
+          </div>
+        )}
+        {confirming ? (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-amber-300 flex-1">
+              Replace the book with this backup? The current book is backed up first.
+            </span>
+            <button
+              onClick={() => setConfirming(false)}
+              className="px-3 py-1 text-xs text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => restore.mutate()}
+              disabled={restore.isPending}
+              className="px-3 py-1 bg-amber-600 hover:bg-amber-500 disabled:opacity-40 text-white text-xs rounded transition-colors"
+            >
+              Restore
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 border border-white/10 rounded hover:bg-white/5 transition-colors"
+          >
+            <ArchiveRestore size={14} />
+            Restore this backup
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function Backups() {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['gnucash', 'backups'],
+    queryFn: fetchBackups,
+  });
+
+  const backups = data?.backups ?? [];
+  const selectedBackup = backups.find((b) => b.name === selected) ?? null;
+  const totalSize = backups.reduce((sum, b) => sum + b.size, 0);
+
+  return (
+    <div className="flex h-full">
+      <div className="flex flex-col flex-1 min-w-0">
+        <div className="px-6 py-4 border-b border-white/10">
+          <h2 className="text-lg font-semibold text-gray-100">Backups</h2>
+          <p className="text-xs text-gray-500 mt-0.5 mb-4">
+            A copy of the book is saved next to it before every change. Keep the newest backup of each
+            hour, day and month for as long as you like; the rest can be deleted automatically.
+          </p>
+          {data && <PolicyForm key={JSON.stringify(data.policy)} policy={data.policy} />}
+        </div>
+
+        <div className="px-6 py-2 text-xs text-gray-500 border-b border-white/5">
+          {backups.length} backup{backups.length !== 1 ? 's' : ''} · {formatSize(totalSize)}
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {isLoading && <Loader2 size={16} className="animate-spin text-gray-500 m-6" />}
+          {error && <p className="m-6 text-sm text-red-400">{(error as Error).message}</p>}
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-900 z-10">
+              <tr className="text-xs text-gray-500 border-b border-white/10">
+                <th className="px-4 py-2 text-left">Saved</th>
+                <th className="px-4 py-2 text-right w-28">Size</th>
+                <th className="px-4 py-2 text-left w-48">Retention</th>
+              </tr>
+            </thead>
+            <tbody>
+              {backups.map((b) => (
+                <tr
+                  key={b.name}
+                  onClick={() => setSelected(b.name)}
+                  className={cn(
+                    'border-b border-white/5 cursor-pointer',
+                    b.name === selected ? 'bg-blue-500/10' : 'hover:bg-white/3'
+                  )}
+                >
+                  <td className="px-4 py-2 text-gray-200">{formatTime(b.time)}</td>
+                  <td className="px-4 py-2 text-right font-mono text-xs text-gray-400">{formatSize(b.size)}</td>
+                  <td className="px-4 py-2 text-xs">
+                    {b.kept
+                      ? <span className="text-gray-600">Kept</span>
+                      : <span className="text-amber-400/80">{data?.policy.enabled ? 'Deleted at next save' : 'Not kept by policy'}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {data && backups.length === 0 && (
+            <p className="text-center text-sm text-gray-600 py-10">No backups yet — one is made before each change.</p>
+          )}
+        </div>
+      </div>
+
+      {selectedBackup && (
+        <BackupDetail key={selectedBackup.name} backup={selectedBackup} onClose={() => setSelected(null)} />
+      )}
+    </div>
+  );
+}
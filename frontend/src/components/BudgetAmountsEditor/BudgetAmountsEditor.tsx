@@ -0,0 +1,140 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Budget } from '../../types';
+import { budgetPeriods } from '../../types/budget';
+import { spreadAnnual } from '../../lib/budget';
+import { cn, formatCurrency } from '../../lib/utils';
+import { useAppStore } from '../../store/useAppStore';
+
+type Mode = 'every' | 'annual' | 'each';
+
+const MODES: { id: Mode; label: string }[] = [
+  { id: 'every',  label: 'Every period' },
+  { id: 'annual', label: 'Annual' },
+  { id: 'each',   label: 'Per period' },
+];
+
+const inputClass = 'bg-gray-800 border border-white/10 rounded px-2 py-0.5 text-xs font-mono text-right outline-none text-gray-200 focus:border-blue-500';
+
+/** A typed amount: null when blank, NaN when it isn't a non-negative number */
+function parseAmount(raw: string): number | null {
+  if (!raw.trim()) return null;
+  const v = Number(raw);
+  return Number.isFinite(v) && v >= 0 ? v : NaN;
+}
+
+function periodLabel(from: string): string {
+  return new Date(`${from}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+}
+
+/**
+ * Popover for one account's amounts in a budget: the same amount for every
+ * period, an annual amount spread across the periods, or a different amount
+ * per period (quarterly insurance, a holiday month). Applying an empty entry
+ * clears the account's budget.
+ */
+export function BudgetAmountsEditor({ budget, accountId, accountName, onApply, onClose }: {
+  budget: Budget;
+  accountId: string;
+  accountName: string;
+  onApply: (periods: (number | null)[] | null) => void;
+  onClose: () => void;
+}) {
+  const { reportCurrency } = useAppStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const periods = budgetPeriods(budget);
+  const current = budget.amounts[accountId] ?? [];
+  const uniform = current.every((v) => v === current[0]);
+
+  const [mode, setMode] = useState<Mode>(uniform ? 'every' : 'each');
+  const [single, setSingle] = useState(uniform && current[0] != null ? String(current[0]) : '');
+  const [each, setEach] = useState(() => periods.map((_, i) => (current[i] != null ? String(current[i]) : '')));
+
+  // Close on outside click
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [onClose]);
+
+  const singleValue = parseAmount(single);
+  const eachValues = each.map(parseAmount);
+  const invalid = mode === 'each' ? eachValues.some((v) => Number.isNaN(v)) : Number.isNaN(singleValue);
+
+  function result(): (number | null)[] | null {
+    if (mode === 'each') return eachValues.some((v) => v != null) ? eachValues : null;
+    if (singleValue == null) return null;
+    return mode === 'annual' ? spreadAnnual(budget, singleValue) : Array(budget.numPeriods).fill(singleValue);
+  }
+
+  const spread = mode === 'annual' && singleValue != null && !invalid ? spreadAnnual(budget, singleValue) : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute left-0 top-full mt-1 z-30 w-80 bg-gray-900 border border-white/15 rounded-lg shadow-xl p-3 text-left cursor-default"
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <p className="text-xs font-semibold text-gray-200 truncate mb-2">{accountName}</p>
+      <div className="flex gap-1 bg-gray-800 rounded-md p-0.5 mb-3">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            type="button"
+            onClick={() => setMode(m.id)}
+            className={cn('flex-1 px-2 py-1 rounded text-xs transition-colors', mode === m.id ? 'bg-gray-700 text-gray-100' : 'text-gray-500 hover:text-gray-300')}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); if (!invalid) onApply(result()); }}
+        onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+      >
+        {mode === 'each' ? (
+          <div className="grid grid-cols-3 gap-x-2 gap-y-1.5 max-h-56 overflow-auto pr-1">
+            {periods.map((p, i) => (
+              <label key={p.from} className="flex flex-col gap-0.5" title={`${p.from} – ${p.to}`}>
+                <span className="text-[10px] text-gray-500">{periodLabel(p.from)}</span>
+                <input
+                  type="number" min="0" step="any" value={each[i]} placeholder="—"
+                  autoFocus={i === 0}
+                  onChange={(e) => setEach((prev) => prev.map((v, j) => (j === i ? e.target.value : v)))}
+                  className={cn(inputClass, 'w-full')}
+                />
+              </label>
+            ))}
+          </div>
+        ) : (
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-xs text-gray-400">{mode === 'annual' ? 'Per year' : 'Each period'}</span>
+            <input
+              type="number" min="0" step="any" value={single} placeholder="0.00" autoFocus
+              onChange={(e) => setSingle(e.target.value)}
+              className={cn(inputClass, 'w-28')}
+            />
+          </label>
+        )}
+        {spread && (
+          <p className="text-[11px] text-gray-500 mt-1.5 text-right">
+            {formatCurrency(spread[0], false, reportCurrency)} per period
+          </p>
+        )}
+        {invalid && <p className="text-[11px] text-red-400 mt-1.5">Amounts must be positive numbers</p>}
+
+        <div className="flex items-center justify-end gap-2 mt-3">
+          <button type="button" onClick={() => onApply(null)} className="mr-auto text-xs text-gray-500 hover:text-red-400">
+            Clear
+          </button>
+          <button type="button" onClick={onClose} className="text-xs text-gray-400 hover:text-gray-200">Cancel</button>
+          <button type="submit" disabled={invalid} className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded">
+            Apply
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Budget } from '../../types';
+import { createBudget, deleteBudget, type BudgetInput } from '../../lib/api';
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+const inputClass = 'bg-gray-800 border border-white/10 rounded px-2 py-1 text-xs text-gray-300 outline-none focus:border-blue-500';
+
+/** Period lengths offered for a new budget (GnuCash allows any recurrence) */
+const PERIODS: { id: string; label: string; recurrence: Pick<BudgetInput['recurrence'], 'mult' | 'periodType'>; perYear: number }[] = [
+  { id: 'month',   label: 'Monthly',   recurrence: { mult: 1, periodType: 'month' }, perYear: 12 },
+  { id: 'quarter', label: 'Quarterly', recurrence: { mult: 3, periodType: 'month' }, perYear: 4 },
+  { id: 'year',    label: 'Yearly',    recurrence: { mult: 1, periodType: 'year' },  perYear: 1 },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// New budget form
+// ─────────────────────────────────────────────────────────────────────────────
+
+function NewBudgetForm({ onCreated, onCancel }: { onCreated: (budget: Budget) => void; onCancel: () => void }) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(String(CURRENT_YEAR));
+  const [firstMonth, setFirstMonth] = useState(`${CURRENT_YEAR}-01`);
+  const [periodId, setPeriodId] = useState('month');
+  const [numPeriods, setNumPeriods] = useState(12);
+
+  const create = useMutation({
+    mutationFn: createBudget,
+    onSuccess: (budget) => {
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      onCreated(budget);
+    },
+  });
+
+  const period = PERIODS.find((p) => p.id === periodId) ?? PERIODS[0];
+
+  return (
+    <form
+      className="flex items-center gap-2 flex-wrap"
+      onSubmit={(e) => {
+        e.preventDefault();
+        create.mutate({
+          name: name.trim(),
+          numPeriods,
+          recurrence: { ...period.recurrence, start: `${firstMonth}-01` },
+          amounts: {},
+        });
+      }}
+    >
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Budget name" className={`${inputClass} w-32`} autoFocus />
+      <span className="text-xs text-gray-500">from</span>
+      <input type="month" value={firstMonth} onChange={(e) => setFirstMonth(e.target.value)} className={inputClass} />
+      <select
+        value={periodId}
+        onChange={(e) => {
+          setPeriodId(e.target.value);
+          setNumPeriods(PERIODS.find((p) => p.id === e.target.value)?.perYear ?? 12);
+        }}
+        className={inputClass}
+      >
+        {PERIODS.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+      </select>
+      <input
+        type="number" min={1} max={120} value={numPeriods}
+        onChange={(e) => setNumPeriods(Math.max(1, parseInt(e.target.value) || 1))}
+        className={`${inputClass} w-14 text-right`}
+        title="Number of periods"
+      />
+      <span className="text-xs text-gray-500">periods</span>
+      <button type="button" onClick={onCancel} className="text-xs text-gray-400 hover:text-gray-200">Cancel</button>
+      <button
+        type="submit"
+        disabled={!name.trim() || !firstMonth || create.isPending}
+        className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded"
+      >
+        Create
+      </button>
+      {create.error && <span className="text-xs text-red-400">{create.error.message}</span>}
+    </form>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Choose which of the book's budgets the report edits, or add and remove one */
+export function BudgetPicker({ budgets, selectedId, onSelect }: {
+  budgets: Budget[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const remove = useMutation({
+    mutationFn: deleteBudget,
+    onSuccess: () => {
+      setConfirmingDelete(false);
+      onSelect(null);
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+    },
+  });
+
+  const selected = budgets.find((b) => b.id === selectedId);
+
+  if (adding) {
+    return (
+      <NewBudgetForm
+        onCreated={(budget) => { setAdding(false); onSelect(budget.id); }}
+        onCancel={() => setAdding(false)}
+      />
+    );
+  }
+
+  if (confirmingDelete && selected) {
+    return (
+      <span className="flex items-center gap-2 text-xs">
+        <span className="text-amber-300">Delete budget &ldquo;{selected.name}&rdquo; and all its amounts?</span>
+        <button onClick={() => setConfirmingDelete(false)} className="text-gray-400 hover:text-gray-200">Cancel</button>
+        <button
+          onClick={() => remove.mutate(selected.id)}
+          disabled={remove.isPending}
+          className="px-3 py-1 bg-red-600 hover:bg-red-500 disabled:opacity-40 text-white rounded"
+        >
+          Delete
+        </button>
+        {remove.error && <span className="text-red-400">{remove.error.message}</span>}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {budgets.length > 0 ? (
+        <select value={selectedId ?? ''} onChange={(e) => onSelect(e.target.value)} className={inputClass} title="Budget to show and edit">
+          {budgets.map((b) => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+      ) : (
+        <span className="text-xs text-gray-500">No budgets in this book yet</span>
+      )}
+      <button
+        onClick={() => setAdding(true)}
+        className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-gray-200 border border-white/10 rounded transition-colors"
+        title="New budget"
+      >
+        <Plus size={12} />
+        New
+      </button>
+      {selected && (
+        <button
+          onClick={() => setConfirmingDelete(true)}
+          className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+          title="Delete this budget"
+        >
+          <Trash2 size={13} />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useMemo } from 'react';
+import { Check, X } from 'lucide-react';
+import type { Account, Budget, Transaction } from '../../types';
+import { cn, formatCurrency, getAccountPath } from '../../lib/utils';
+import { monthlyBalances, periodsPerYear, trailingMonths, typicalMonth, type SuggestStat } from '../../lib/budget';
+import type { Converter } from '../../lib/currency';
+import { useAppStore } from '../../store/useAppStore';
+
+const TODAY = new Date().toISOString().slice(0, 10);
+
+const WINDOWS = [3, 6, 12];
+
+const STATS: { id: SuggestStat; label: string }[] = [
+  { id: 'average',    label: 'Average' },
+  { id: 'median',     label: 'Median' },
+  { id: 'percentile', label: 'Percentile' },
+];
+
+const inputClass = 'bg-gray-800 border border-white/10 rounded px-2 py-1 text-xs text-gray-300 outline-none focus:border-blue-500';
+
+interface Suggestion {
+  id: string;
+  path: string;
+  /** The budget's amount for the period shown in the report */
+  current: number | null;
+  suggested: number;
+}
+
+/**
+ * Side panel suggesting a budget for every expense account from its spending
+ * over the last few whole months. Suggestions are per budget period, rounded
+ * to whole amounts; accepting one sets it for every period, as unsaved edits
+ * in the report.
+ */
+export function BudgetSuggestions({ budget, budgetPeriod, accounts, transactions, convert, onAccept, onClose }: {
+  budget: Budget;
+  budgetPeriod: number;
+  accounts: Account[];
+  transactions: Transaction[];
+  convert: Converter;
+  onAccept: (changes: Record<string, (number | null)[]>) => void;
+  onClose: () => void;
+}) {
+  const { reportCurrency } = useAppStore();
+  const [months, setMonths] = useState(6);
+  const [stat, setStat] = useState<SuggestStat>('average');
+  const [percentile, setPercentile] = useState(75);
+
+  const accountMap = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
+  const history = useMemo(() => trailingMonths(months, TODAY), [months]);
+  const balances = useMemo(
+    () => monthlyBalances(history, transactions, accountMap, reportCurrency, convert),
+    [history, transactions, accountMap, reportCurrency, convert],
+  );
+
+  // A budget period is this many months (a quarter is 3, a week about 0.23)
+  const monthsPerPeriod = 12 / periodsPerYear(budget.recurrence);
+
+  const suggestions = useMemo<Suggestion[]>(() => accounts
+    .filter((a) => a.type === 'EXPENSE' && !a.placeholder)
+    .map((a) => {
+      const typical = typicalMonth(balances.map((b) => b.get(a.id) ?? 0), stat, percentile);
+      return {
+        id: a.id,
+        path: getAccountPath(a.id, accounts),
+        current: budget.amounts[a.id]?.[budgetPeriod] ?? null,
+        suggested: Math.max(0, Math.round(typical * monthsPerPeriod)),
+      };
+    })
+    .filter((s) => s.suggested > 0 || s.current != null)
+    .sort((a, b) => b.suggested - a.suggested || a.path.localeCompare(b.path)),
+  [accounts, balances, stat, percentile, budget.amounts, budgetPeriod, monthsPerPeriod]);
+
+  const accept = (list: Suggestion[]) => onAccept(Object.fromEntries(
+    list.map((s) => [s.id, Array(budget.numPeriods).fill(s.suggested)]),
+  ));
+  // Accounts with no spending in the window (say, yearly insurance) keep their budget
+  const pending = suggestions.filter((s) => s.suggested > 0 && s.suggested !== s.current);
+
+  return (
+    <div className="w-96 flex-shrink-0 border-l border-white/10 flex flex-col bg-gray-900/80 min-w-0">
+      <div className="px-4 py-3 border-b border-white/10 flex items-start justify-between gap-2 flex-shrink-0">
+        <div>
+          <p className="font-semibold text-gray-100 text-sm leading-snug">Suggested budgets</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Spending {history[0]?.label} – {history[history.length - 1]?.label}, per budget period
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-600 hover:text-gray-300 p-0.5 mt-0.5 flex-shrink-0">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="px-4 py-2.5 border-b border-white/10 flex items-center gap-2 flex-wrap flex-shrink-0">
+        <div className="flex gap-1">
+          {WINDOWS.map((n) => (
+            <button
+              key={n}
+              onClick={() => setMonths(n)}
+              className={cn('px-2 py-1 text-xs rounded border transition-colors', months === n ? 'bg-gray-700 text-gray-100 border-gray-600' : 'text-gray-500 hover:text-gray-300 border-white/10')}
+            >
+              {n} mo
+            </button>
+          ))}
+        </div>
+        <select value={stat} onChange={(e) => setStat(e.target.value as SuggestStat)} className={inputClass}>
+          {STATS.map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        {stat === 'percentile' && (
+          <input
+            type="number" min={1} max={99} value={percentile}
+            onChange={(e) => setPercentile(Math.min(99, Math.max(1, parseInt(e.target.value) || 1)))}
+            className={`${inputClass} w-14 text-right`}
+            title="Percentile of monthly spending"
+          />
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {suggestions.length === 0 ? (
+          <div className="flex items-center justify-center h-24 text-gray-600 text-xs">
+            No expenses in these months
+          </div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-900 border-b border-white/10 z-10">
+              <tr className="text-gray-600">
+                <th className="px-3 py-2 text-left">Account</th>
+                <th className="px-3 py-2 text-right w-20">Current</th>
+                <th className="px-3 py-2 text-right w-20">Suggested</th>
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map((s) => {
+                const same = s.suggested === s.current;
+                return (
+                  <tr key={s.id} className="border-b border-white/5 hover:bg-white/3">
+                    <td className="px-3 py-1.5 text-gray-300 truncate max-w-[150px]" title={s.path}>{s.path}</td>
+                    <td className="px-3 py-1.5 text-right font-mono tabular-nums text-amber-400/80">
+                      {s.current != null ? formatCurrency(s.current, false, reportCurrency) : <span className="text-gray-700">—</span>}
+                    </td>
+                    <td className={cn('px-3 py-1.5 text-right font-mono tabular-nums', same ? 'text-gray-500' : 'text-gray-200')}>
+                      {formatCurrency(s.suggested, false, reportCurrency)}
+                    </td>
+                    <td className="pr-2 text-right">
+                      {!same && (
+                        <button
+                          onClick={() => accept([s])}
+                          className="p-1 text-gray-500 hover:text-emerald-400 transition-colors"
+                          title="Use this amount for every period"
+                        >
+                          <Check size={13} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="px-4 py-2.5 border-t border-white/10 flex items-center justify-between gap-2 flex-shrink-0">
+        <span className="text-xs text-gray-500">Accepted amounts are saved with the budget</span>
+        <button
+          onClick={() => accept(pending)}
+          disabled={!pending.length}
+          className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded"
+          title="Use every non-zero suggestion that differs from the budget"
+        >
+          Accept all ({pending.length})
+        </button>
+      </div>
+    </div>
+  );
+}
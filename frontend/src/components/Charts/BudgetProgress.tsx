@@ -0,0 +1,249 @@
+import { useMemo } from 'react';
+import {
+  ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+} from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import type { Account, Budget, Transaction } from '../../types';
+import { cn, formatCurrency } from '../../lib/utils';
+import { budgetAmount, budgetPeriodIndex } from '../../types/budget';
+import { buildMonthColumns, budgetMonths, monthlyBalances, rolloverAvailable } from '../../lib/budget';
+import { splitAmountIn, type Converter } from '../../lib/currency';
+import { useAppStore } from '../../store/useAppStore';
+import type { DrilldownTarget } from '../DrilldownPanel/DrilldownPanel';
+
+const TODAY = new Date().toISOString().slice(0, 10);
+
+interface CategoryProgress {
+  id: string;
+  name: string;
+  /** The account and its sub-accounts, which its budget covers */
+  ids: string[];
+  budgeted: number;
+  spent: number;
+  /** Month-end spending if it goes on at the same rate */
+  projected: number;
+  status: 'ok' | 'at-risk' | 'over';
+}
+
+const STATUS_COLORS: Record<CategoryProgress['status'], string> = {
+  'ok':      'bg-emerald-500',
+  'at-risk': 'bg-amber-500',
+  'over':    'bg-red-500',
+};
+
+/**
+ * Month-to-date spending against the budget in effect today: a trend of the
+ * month's spending against a pace line running from nothing to the whole
+ * budget at month end, and a bar per budgeted expense account. Accounts over
+ * budget, or spending fast enough to end the month over it, are flagged;
+ * clicking one lists its transactions. Renders nothing without a budget.
+ */
+export function BudgetProgress({ accounts, transactions, budgets, convert, onDrilldown }: {
+  accounts: Account[];
+  transactions: Transaction[];
+  budgets: Budget[];
+  convert: Converter;
+  onDrilldown: (target: DrilldownTarget) => void;
+}) {
+  const { reportCurrency } = useAppStore();
+  const accountMap = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
+
+  const month = buildMonthColumns(TODAY, TODAY)[0];
+  const day = Number(TODAY.slice(8));
+  const daysInMonth = Number(month.to.slice(8));
+  const pace = day / daysInMonth;
+  const budget = budgets.find((b) => budgetPeriodIndex(b, TODAY) !== -1) ?? null;
+
+  // Every account with its sub-accounts
+  const subtrees = useMemo(() => {
+    const children = new Map<string, string[]>();
+    for (const a of accounts) {
+      if (a.parentId) children.set(a.parentId, [...(children.get(a.parentId) ?? []), a.id]);
+    }
+    const collect = (id: string): string[] => [id, ...(children.get(id) ?? []).flatMap(collect)];
+    return new Map(accounts.map((a) => [a.id, collect(a.id)]));
+  }, [accounts]);
+
+  // This month's spending so far, per account and day
+  const spending = useMemo(() => {
+    const entries: { day: number; accountId: string; amount: number }[] = [];
+    for (const txn of transactions) {
+      if (txn.datePosted < month.from || txn.datePosted > TODAY) continue;
+      for (const split of txn.splits) {
+        const account = accountMap.get(split.accountId);
+        if (account?.type !== 'EXPENSE') continue;
+        entries.push({
+          day: Number(txn.datePosted.slice(8)),
+          accountId: split.accountId,
+          amount: splitAmountIn(split, txn, account, reportCurrency, convert),
+        });
+      }
+    }
+    return entries;
+  }, [transactions, month.from, accountMap, reportCurrency, convert]);
+
+  // With rollover, this month's budget includes what earlier months left over
+  const rolloverMonths = useMemo(
+    () => (budget?.rollover ? budgetMonths(budget).filter((m) => m.from <= month.from) : []),
+    [budget, month.from],
+  );
+  const rolloverBalances = useMemo(
+    () => monthlyBalances(rolloverMonths, transactions, accountMap, reportCurrency, convert),
+    [rolloverMonths, transactions, accountMap, reportCurrency, convert],
+  );
+
+  const { categories, totalBudget, totalSpent, trend } = useMemo(() => {
+    const empty = { categories: [], totalBudget: 0, totalSpent: 0, trend: [] };
+    if (!budget) return empty;
+
+    const budgetFor = (ids: string[]) => {
+      if (!budget.rollover) return budgetAmount(budget, ids, month.from, month.to) ?? 0;
+      const available = rolloverAvailable(budget, ids, rolloverMonths, (i) =>
+        ids.reduce((s, id) => s + (rolloverBalances[i].get(id) ?? 0), 0));
+      return available[available.length - 1] ?? 0;
+    };
+    const spentIn = (ids: Set<string>) =>
+      spending.reduce((s, e) => (ids.has(e.accountId) ? s + e.amount : s), 0);
+
+    const categories: CategoryProgress[] = accounts
+      .filter((a) => a.type === 'EXPENSE' && budgetAmount(budget, [a.id], month.from, month.to) != null)
+      .map((a) => {
+        const ids = subtrees.get(a.id) ?? [a.id];
+        const budgeted = budgetFor(ids);
+        const spent = spentIn(new Set(ids));
+        const projected = spent / pace;
+        const status: CategoryProgress['status'] =
+          spent > budgeted + 0.005 ? 'over' : projected > budgeted + 0.005 ? 'at-risk' : 'ok';
+        return { id: a.id, name: a.name, ids, budgeted, spent, projected, status };
+      })
+      .sort((a, b) => (b.status !== 'ok' ? 1 : 0) - (a.status !== 'ok' ? 1 : 0)
+        || b.spent / Math.max(b.budgeted, 1) - a.spent / Math.max(a.budgeted, 1));
+
+    // Totals over every budgeted account once, even when a parent and its
+    // sub-account both have a budget
+    const allIds = new Set(categories.flatMap((c) => c.ids));
+    const totalBudget = budgetFor([...allIds]);
+    let cumulative = 0;
+    const trend = Array.from({ length: daysInMonth }, (_, i) => {
+      for (const e of spending) if (e.day === i + 1 && allIds.has(e.accountId)) cumulative += e.amount;
+      return {
+        day: i + 1,
+        spent: i < day ? Math.round(cumulative) : undefined,
+        pace: Math.round((totalBudget * (i + 1)) / daysInMonth),
+      };
+    });
+    return { categories, totalBudget, totalSpent: spentIn(allIds), trend };
+  }, [budget, accounts, subtrees, spending, rolloverMonths, rolloverBalances, month.from, month.to, pace, day, daysInMonth]);
+
+  if (!budget || !categories.length) return null;
+
+  const flagged = categories.filter((c) => c.status !== 'ok').length;
+
+  return (
+    <div className="bg-gray-900 border border-white/10 rounded-xl p-4">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-300">Budget — {month.label}</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {budget.name}{budget.rollover && ' (rollover)'} · day {day} of {daysInMonth}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm tabular-nums">
+            <span className={cn('font-semibold', totalSpent > totalBudget ? 'text-red-400' : 'text-gray-200')}>
+              {formatCurrency(totalSpent, false, reportCurrency)}
+            </span>
+            <span className="text-gray-500"> of {formatCurrency(totalBudget, false, reportCurrency)}</span>
+          </p>
+          {flagged > 0 && (
+            <p className="text-xs text-amber-400 mt-0.5 flex items-center justify-end gap-1">
+              <AlertTriangle size={11} />
+              {flagged} {flagged === 1 ? 'category' : 'categories'} heading over budget
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Spending so far against the pace line */}
+        <div className="lg:col-span-2">
+          <ResponsiveContainer width="100%" height={200}>
+            <ComposedChart data={trend}>
+              <defs>
+                <linearGradient id="budgetSpentGrad" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#f97316" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="#f97316" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" />
+              <XAxis dataKey="day" tick={{ fill: '#6b7280', fontSize: 11 }} tickLine={false} />
+              <YAxis
+                tick={{ fill: '#6b7280', fontSize: 11 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => formatCurrency(v, true, reportCurrency)}
+              />
+              <Tooltip
+                formatter={(v) => formatCurrency(Number(v), false, reportCurrency)}
+                labelFormatter={(d) => `Day ${d}`}
+                contentStyle={{ background: '#1f2937', border: '1px solid #ffffff33', borderRadius: 8, fontSize: 12 }}
+              />
+              <Area type="monotone" dataKey="spent" name="Spent" stroke="#f97316" fill="url(#budgetSpentGrad)" strokeWidth={2} dot={false} connectNulls={false} />
+              <Line type="linear" dataKey="pace" name="Pace" stroke="#9ca3af" strokeDasharray="4 4" strokeWidth={1.5} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Per category, with today's pace marked on each bar */}
+        <div className="lg:col-span-3 space-y-1 max-h-[200px] overflow-auto pr-1">
+          {categories.map((c) => {
+            const share = c.budgeted > 0 ? c.spent / c.budgeted : c.spent > 0.005 ? 1 : 0;
+            return (
+              <button
+                key={c.id}
+                onClick={() => onDrilldown({
+                  label: `${c.name} — ${month.label}`,
+                  accountIds: new Set(c.ids),
+                  from: month.from,
+                  to: TODAY,
+                  kind: 'expense',
+                })}
+                className="w-full text-left px-2 py-1.5 rounded hover:bg-white/5 transition-colors"
+                title="Show this month's transactions"
+              >
+                <div className="flex items-center justify-between gap-2 text-xs mb-1">
+                  <span className="flex items-center gap-1.5 min-w-0 text-gray-300">
+                    {c.status !== 'ok' && (
+                      <AlertTriangle size={11} className={cn('flex-shrink-0', c.status === 'over' ? 'text-red-400' : 'text-amber-400')} />
+                    )}
+                    <span className="truncate">{c.name}</span>
+                  </span>
+                  <span className="tabular-nums text-gray-500 flex-shrink-0">
+                    <span className={c.status === 'over' ? 'text-red-400' : 'text-gray-300'}>
+                      {formatCurrency(c.spent, false, reportCurrency)}
+                    </span>
+                    {' / '}{formatCurrency(c.budgeted, false, reportCurrency)}
+                  </span>
+                </div>
+                <div className="relative h-1.5 bg-white/5 rounded-full">
+                  <div
+                    className={cn('absolute inset-y-0 left-0 rounded-full', STATUS_COLORS[c.status])}
+                    style={{ width: `${Math.min(100, share * 100)}%` }}
+                  />
+                  <div className="absolute -top-0.5 -bottom-0.5 w-px bg-gray-300" style={{ left: `${pace * 100}%` }} />
+                </div>
+                {c.status !== 'ok' && (
+                  <p className={cn('text-[11px] mt-0.5', c.status === 'over' ? 'text-red-400' : 'text-amber-400')}>
+                    {c.status === 'over'
+                      ? `Over by ${formatCurrency(c.spent - c.budgeted, false, reportCurrency)}`
+                      : `On pace for ${formatCurrency(c.projected, false, reportCurrency)}`}
+                  </p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
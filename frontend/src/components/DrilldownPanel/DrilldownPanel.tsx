@@ -0,0 +1,168 @@
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { X } from 'lucide-react';
+import type { Account, Transaction } from '../../types';
+import { cn, formatCurrency } from '../../lib/utils';
+import { useAppStore } from '../../store/useAppStore';
+import { splitAmountIn, type Converter } from '../../lib/currency';
+
+/** Transactions to list: those touching any of the accounts between two dates */
+export interface DrilldownTarget {
+  label: string;
+  accountIds: Set<string>;
+  from: string;
+  to: string;
+  kind: 'income' | 'expense';
+}
+
+/** Resizable side panel listing a drilldown target's transactions, newest first */
+export function DrilldownPanel({
+  target,
+  transactions,
+  accounts,
+  convert,
+  onClose,
+}: {
+  target: DrilldownTarget;
+  transactions: Transaction[];
+  accounts: Account[];
+  convert: Converter;
+  onClose: () => void;
+}) {
+  const { reportCurrency } = useAppStore();
+  const [width, setWidth] = useState(360);
+  const isDragging = useRef(false);
+  const dragStartX = useRef(0);
+  const dragStartWidth = useRef(0);
+
+  const handleDragStart = useCallback((e: React.MouseEvent) => {
+    isDragging.current = true;
+    dragStartX.current = e.clientX;
+    dragStartWidth.current = width;
+    e.preventDefault();
+  }, [width]);
+
+  useEffect(() => {
+    const onMouseMove = (e: MouseEvent) => {
+      if (!isDragging.current) return;
+      const delta = dragStartX.current - e.clientX;
+      setWidth(Math.max(260, Math.min(700, dragStartWidth.current + delta)));
+    };
+    const onMouseUp = () => { isDragging.current = false; };
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+    };
+  }, []);
+
+  const accountMap = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
+
+  const rows = useMemo(() => {
+    const result: {
+      txnId: string;
+      date: string;
+      description: string;
+      amount: number;
+      counterpart: string;
+    }[] = [];
+
+    for (const txn of transactions) {
+      if (txn.datePosted < target.from || txn.datePosted > target.to) continue;
+
+      const relevantSplits = txn.splits.filter((s) => target.accountIds.has(s.accountId));
+      if (relevantSplits.length === 0) continue;
+
+      const rawSum = relevantSplits.reduce(
+        (s, sp) => s + splitAmountIn(sp, txn, accountMap.get(sp.accountId), reportCurrency, convert),
+        0
+      );
+      const amount = target.kind === 'income' ? -rawSum : rawSum;
+
+      const otherSplits = txn.splits.filter((s) => !target.accountIds.has(s.accountId));
+      const counterpart =
+        otherSplits.length === 0 ? '—'
+        : otherSplits.length === 1 ? (accountMap.get(otherSplits[0].accountId)?.name ?? '?')
+        : 'Split';
+
+      result.push({
+        txnId: txn.id,
+        date: txn.datePosted,
+        description: txn.description,
+        amount,
+        counterpart,
+      });
+    }
+
+    return result.sort((a, b) => b.date.localeCompare(a.date));
+  }, [target, transactions, accountMap, reportCurrency, convert]);
+
+  const total = rows.reduce((s, r) => s + r.amount, 0);
+
+  return (
+    <div className="flex-shrink-0 flex" style={{ width }}>
+      {/* Resize handle */}
+      <div
+        className="w-1 flex-shrink-0 cursor-col-resize hover:bg-blue-500/50 active:bg-blue-500/70 transition-colors relative"
+        onMouseDown={handleDragStart}
+      >
+        <div className="absolute inset-y-0 -left-1 -right-1" />
+      </div>
+      <div className="flex-1 border-l border-white/10 flex flex-col bg-gray-900/80 min-w-0">
+      <div className="px-4 py-3 border-b border-white/10 flex items-start justify-between gap-2 flex-shrink-0">
+        <div>
+          <p className="font-semibold text-gray-100 text-sm leading-snug">{target.label}</p>
+          <p className="text-xs text-gray-500 mt-0.5">{rows.length} transaction{rows.length !== 1 ? 's' : ''}</p>
+        </div>
+        <button onClick={onClose} className="text-gray-600 hover:text-gray-300 p-0.5 mt-0.5 flex-shrink-0">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {rows.length === 0 ? (
+          <div className="flex items-center justify-center h-24 text-gray-600 text-xs">
+            No transactions found
+          </div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-900 border-b border-white/10 z-10">
+              <tr className="text-gray-600">
+                <th className="px-3 py-2 text-left w-16">Date</th>
+                <th className="px-3 py-2 text-left">Description</th>
+                <th className="px-3 py-2 text-right w-24">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i} className="border-b border-white/5 hover:bg-white/3">
+                  <td className="px-3 py-2 font-mono text-gray-500 whitespace-nowrap">
+                    {row.date.slice(5).replace('-', '/')}
+                  </td>
+                  <td className="px-3 py-2">
+                    <p className="text-gray-300 truncate max-w-[160px]">{row.description || <span className="italic text-gray-600">—</span>}</p>
+                    <p className="text-gray-600 truncate max-w-[160px]">{row.counterpart}</p>
+                  </td>
+                  <td className={cn(
+                    'px-3 py-2 text-right font-mono tabular-nums',
+                    row.amount >= 0 ? 'text-emerald-400' : 'text-red-400'
+                  )}>
+                    {formatCurrency(Math.abs(row.amount), false, reportCurrency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="px-4 py-2.5 border-t border-white/10 flex items-center justify-between flex-shrink-0">
+        <span className="text-xs text-gray-500 font-semibold uppercase tracking-wide">Total</span>
+        <span className={cn('font-mono font-bold text-sm', total >= 0 ? 'text-emerald-400' : 'text-red-400')}>
+          {formatCurrency(Math.abs(total), false, reportCurrency)}
+        </span>
+      </div>
+    </div>
+    </div>
+  );
+}
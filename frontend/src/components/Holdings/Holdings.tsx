@@ -0,0 +1,175 @@
+import { useState, useMemo } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Coins } from 'lucide-react';
+import type { Account, Price, Transaction } from '../../types';
+import { cn, formatCurrency, formatDate, getAccountPath } from '../../lib/utils';
+import { useAppStore } from '../../store/useAppStore';
+import { useCurrencyConverter } from '../../lib/currency';
+import { computeHoldings, type TradeKind } from '../../lib/holdings';
+import { TradeModal } from './TradeModal';
+
+interface HoldingsProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  prices: Price[];
+}
+
+function gainClass(n: number) {
+  return n < 0 ? 'text-red-400' : n > 0 ? 'text-emerald-400' : 'text-gray-400';
+}
+
+export function Holdings({ accounts, transactions, prices }: HoldingsProps) {
+  const { setSelectedAccount, reportCurrency } = useAppStore();
+  const convert = useCurrencyConverter(accounts, transactions, prices);
+  const [showClosed, setShowClosed] = useState(false);
+  const [trade, setTrade] = useState<{ kind: TradeKind; securityId?: string } | null>(null);
+
+  const holdings = useMemo(
+    () => computeHoldings(accounts, transactions, prices, reportCurrency, convert),
+    [accounts, transactions, prices, reportCurrency, convert]
+  );
+  const visible = showClosed ? holdings : holdings.filter((h) => h.shares !== 0);
+
+  const totals = visible.reduce(
+    (t, h) => ({ cost: t.cost + h.costBasis, value: t.value + h.marketValue }),
+    { cost: 0, value: 0 }
+  );
+  const totalGain = totals.value - totals.cost;
+  const fmt = (n: number) => formatCurrency(n, false, reportCurrency);
+
+  const tradeButtons: { kind: TradeKind; label: string; icon: React.ReactNode }[] = [
+    { kind: 'buy',      label: 'Buy',      icon: <ArrowDownLeft size={14} /> },
+    { kind: 'sell',     label: 'Sell',     icon: <ArrowUpRight size={14} />  },
+    { kind: 'dividend', label: 'Dividend', icon: <Coins size={14} />         },
+  ];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-6 py-4 border-b border-white/10">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-100">Holdings</h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Shares, cost basis and market value of every security account, in {reportCurrency}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {tradeButtons.map((b) => (
+              <button
+                key={b.kind}
+                onClick={() => setTrade({ kind: b.kind })}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 border border-white/10 rounded hover:bg-white/5 transition-colors"
+              >
+                {b.icon}
+                {b.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mt-4">
+          <div className="bg-gray-900 border border-white/10 rounded-xl p-3">
+            <p className="text-xs text-gray-500">Market value</p>
+            <p className="text-xl font-bold text-blue-400">{fmt(totals.value)}</p>
+          </div>
+          <div className="bg-gray-900 border border-white/10 rounded-xl p-3">
+            <p className="text-xs text-gray-500">Cost basis</p>
+            <p className="text-xl font-bold text-gray-300">{fmt(totals.cost)}</p>
+          </div>
+          <div className="bg-gray-900 border border-white/10 rounded-xl p-3">
+            <p className="text-xs text-gray-500">Unrealized gain</p>
+            <p className={cn('text-xl font-bold', gainClass(totalGain))}>
+              {fmt(totalGain)}
+              {totals.cost > 0 && (
+                <span className="text-sm font-normal ml-2">
+                  {((totalGain / totals.cost) * 100).toFixed(1)}%
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="px-6 py-2 text-xs text-gray-500 border-b border-white/5 flex items-center">
+        <span className="flex-1">{visible.length} securit{visible.length !== 1 ? 'ies' : 'y'}</span>
+        <label className="flex items-center gap-1.5 cursor-pointer select-none">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+          Show closed positions
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-900 z-10">
+            <tr className="text-xs text-gray-500 border-b border-white/10">
+              <th className="px-4 py-2 text-left">Security</th>
+              <th className="px-4 py-2 text-right w-28">Shares</th>
+              <th className="px-4 py-2 text-right w-28">Avg cost</th>
+              <th className="px-4 py-2 text-right w-36">Latest price</th>
+              <th className="px-4 py-2 text-right w-32">Market value</th>
+              <th className="px-4 py-2 text-right w-32">Unrealized</th>
+              <th className="px-4 py-2 w-28"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((h) => (
+              <tr key={h.account.id} className="border-b border-white/5 hover:bg-white/3 group">
+                <td className="px-4 py-2">
+                  <button
+                    onClick={() => setSelectedAccount(h.account.id)}
+                    className="text-left text-gray-200 hover:text-blue-300 transition-colors"
+                  >
+                    {h.account.commodity}
+                  </button>
+                  <p className="text-xs text-gray-600">{getAccountPath(h.account.id, accounts)}</p>
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-gray-300">
+                  {h.shares.toLocaleString('en-US', { maximumFractionDigits: 4 })}
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-gray-400">{h.shares ? fmt(h.avgCost) : '—'}</td>
+                <td className="px-4 py-2 text-right font-mono text-gray-300">
+                  {h.price != null ? fmt(h.price) : <span className="text-gray-600">no price</span>}
+                  {h.priceDate && <p className="text-xs text-gray-600">{formatDate(h.priceDate)}</p>}
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-gray-200">{fmt(h.marketValue)}</td>
+                <td className={cn('px-4 py-2 text-right font-mono', gainClass(h.unrealizedGain))}>
+                  {fmt(h.unrealizedGain)}
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {tradeButtons.map((b) => (
+                      <button
+                        key={b.kind}
+                        onClick={() => setTrade({ kind: b.kind, securityId: h.account.id })}
+                        className="p-1 rounded text-gray-500 hover:text-blue-400 hover:bg-white/5"
+                        title={b.label}
+                      >
+                        {b.icon}
+                      </button>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visible.length === 0 && (
+          <div className="text-center py-16 text-gray-600">
+            No security accounts — create a Stock or Mutual Fund account to track investments
+          </div>
+        )}
+      </div>
+
+      {trade && (
+        <TradeModal
+          kind={trade.kind}
+          securityId={trade.securityId}
+          accounts={accounts}
+          holdings={holdings}
+          reportCurrency={reportCurrency}
+          convert={convert}
+          onClose={() => setTrade(null)}
+        />
+      )}
+    </div>
+  );
+}
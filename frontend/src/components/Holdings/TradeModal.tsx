@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, Loader2, ArrowDownLeft, ArrowUpRight, Coins } from 'lucide-react';
+import type { Account } from '../../types';
+import { cn, formatCurrency, getAccountPath } from '../../lib/utils';
+import { createTransaction } from '../../lib/api';
+import { buildTradeTransaction, SECURITY_TYPES, type Holding, type TradeKind } from '../../lib/holdings';
+import type { Converter } from '../../lib/currency';
+
+const TODAY = new Date().toISOString().slice(0, 10);
+
+const KIND_CONFIG: Record<TradeKind, { label: string; icon: React.ReactNode; colorClass: string }> = {
+  buy:      { label: 'Buy',      icon: <ArrowDownLeft size={16} />, colorClass: 'text-emerald-400' },
+  sell:     { label: 'Sell',     icon: <ArrowUpRight size={16} />,  colorClass: 'text-red-400'     },
+  dividend: { label: 'Dividend', icon: <Coins size={16} />,         colorClass: 'text-blue-400'    },
+};
+
+const CASH_TYPES = new Set(['BANK', 'CASH', 'ASSET']);
+
+interface Props {
+  kind: TradeKind;
+  accounts: Account[];
+  holdings: Holding[];
+  /** Pre-selected security account */
+  securityId?: string;
+  reportCurrency: string;
+  convert: Converter;
+  onClose: () => void;
+}
+
+export function TradeModal({ kind, accounts, holdings, securityId, reportCurrency, convert, onClose }: Props) {
+  const queryClient = useQueryClient();
+  const cfg = KIND_CONFIG[kind];
+
+  const withPath = (list: Account[]) =>
+    list
+      .map((a) => ({ ...a, path: getAccountPath(a.id, accounts) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+  const securities = withPath(accounts.filter((a) => SECURITY_TYPES.has(a.type) && !a.placeholder));
+  const cashAccounts = withPath(accounts.filter((a) => CASH_TYPES.has(a.type) && !a.placeholder && a.commoditySpace === 'CURRENCY'));
+  const expenseAccounts = withPath(accounts.filter((a) => a.type === 'EXPENSE' && !a.placeholder));
+  const incomeAccounts = withPath(accounts.filter((a) => a.type === 'INCOME' && !a.placeholder));
+
+  // Sensible defaults: accounts whose names match what GnuCash's wizard creates
+  const guess = (list: typeof incomeAccounts, pattern: RegExp) => list.find((a) => pattern.test(a.name))?.id ?? '';
+
+  const [secId,    setSecId]    = useState(securityId ?? securities[0]?.id ?? '');
+  const [cashId,   setCashId]   = useState(() => guess(cashAccounts, /brokerage|invest/i) || cashAccounts[0]?.id || '');
+  const [incomeId, setIncomeId] = useState(() =>
+    kind === 'dividend' ? guess(incomeAccounts, /dividend/i) : guess(incomeAccounts, /capital gain/i));
+  const [feeAccId, setFeeAccId] = useState(() => guess(expenseAccounts, /commission|fee|brokerage/i));
+  const [date,     setDate]     = useState(TODAY);
+  const [shares,   setShares]   = useState('');
+  const [price,    setPrice]    = useState('');
+  const [amount,   setAmount]   = useState('');
+  const [fee,      setFee]      = useState('');
+  const [error,    setError]    = useState<string | null>(null);
+
+  const security = accounts.find((a) => a.id === secId) ?? null;
+  const cash     = accounts.find((a) => a.id === cashId) ?? null;
+  const holding  = holdings.find((h) => h.account.id === secId);
+
+  const mutation = useMutation({
+    mutationFn: (txn: Parameters<typeof createTransaction>[0]) => createTransaction(txn),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      onClose();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const nShares = parseFloat(shares) || 0;
+  const nPrice  = parseFloat(price) || 0;
+  const nFee    = parseFloat(fee) || 0;
+  const currency = cash?.commodity ?? reportCurrency;
+  const gross = kind === 'dividend' ? parseFloat(amount) || 0 : nShares * nPrice;
+  const net   = kind === 'buy' ? gross + nFee : kind === 'sell' ? gross - nFee : gross;
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!security || !cash) { setError('Choose a security and a cash account.'); return; }
+    if (kind !== 'dividend' && (nShares <= 0 || nPrice <= 0)) { setError('Enter shares and price.'); return; }
+    if (kind === 'dividend' && gross <= 0) { setError('Enter the dividend amount.'); return; }
+    if (kind === 'dividend' && !incomeId) { setError('Choose the income account for the dividend.'); return; }
+    if (kind === 'sell' && holding && nShares > holding.shares + 1e-9) {
+      setError(`Only ${holding.shares} shares are held.`);
+      return;
+    }
+
+    const avgCost = holding ? convert(holding.avgCost, reportCurrency, currency, date) : 0;
+    const txn = buildTradeTransaction({
+      kind,
+      date,
+      description: `${cfg.label} ${security.commodity}`,
+      security,
+      cash,
+      shares: nShares,
+      pricePerShare: nPrice,
+      amount: gross,
+      fee: nFee,
+      feeAccount: accounts.find((a) => a.id === feeAccId) ?? null,
+      income: accounts.find((a) => a.id === incomeId) ?? null,
+      avgCost,
+    });
+    setError(null);
+    mutation.mutate(txn);
+  }
+
+  const selectClass = 'w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 outline-none focus:border-blue-500 transition-colors';
+  const inputClass  = 'w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 placeholder-gray-600 outline-none focus:border-blue-500 transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="relative w-full max-w-md bg-gray-900 border border-white/10 rounded-2xl shadow-2xl">
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-white/5">
+          <span className={cfg.colorClass}>{cfg.icon}</span>
+          <h2 className="text-sm font-semibold text-gray-100">{cfg.label}</h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-1 rounded hover:bg-white/10 text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            <X size={15} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs text-gray-500 mb-1.5">Security</label>
+              <select value={secId} onChange={(e) => setSecId(e.target.value)} className={selectClass}>
+                {securities.map((a) => <option key={a.id} value={a.id}>{a.path} ({a.commodity})</option>)}
+              </select>
+              {holding && (
+                <p className="text-xs text-gray-600 mt-1">
+                  Holding {holding.shares.toLocaleString('en-US', { maximumFractionDigits: 4 })} shares
+                  · avg cost {formatCurrency(holding.avgCost, false, reportCurrency)}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-1.5">Date</label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            </div>
+
+            {kind === 'dividend' ? (
+              <div>
+                <label className="block text-xs text-gray-500 mb-1.5">Amount</label>
+                <input type="number" step="any" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="0.00" className={inputClass} />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1.5">Shares</label>
+                  <input type="number" step="any" value={shares} onChange={(e) => setShares(e.target.value)} placeholder="0" className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1.5">Price per share</label>
+                  <input type="number" step="any" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="0.00" className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1.5">Fee</label>
+                  <input type="number" step="any" value={fee} onChange={(e) => setFee(e.target.value)} placeholder="0.00" className={inputClass} />
+                </div>
+              </>
+            )}
+
+            <div className="col-span-2">
+              <label className="block text-xs text-gray-500 mb-1.5">
+                {kind === 'buy' ? 'Pay from' : 'Deposit to'}
+              </label>
+              <select value={cashId} onChange={(e) => setCashId(e.target.value)} className={selectClass}>
+                {cashAccounts.map((a) => <option key={a.id} value={a.id}>{a.path} ({a.commodity})</option>)}
+              </select>
+            </div>
+
+            {kind !== 'buy' && (
+              <div className="col-span-2">
+                <label className="block text-xs text-gray-500 mb-1.5">
+                  {kind === 'dividend' ? 'Dividend income account' : 'Capital gains account'}
+                  {kind === 'sell' && <span className="text-gray-700"> (optional)</span>}
+                </label>
+                <select value={incomeId} onChange={(e) => setIncomeId(e.target.value)} className={selectClass}>
+                  <option value="">{kind === 'sell' ? '— don’t record a gain —' : '— choose —'}</option>
+                  {incomeAccounts.map((a) => <option key={a.id} value={a.id}>{a.path}</option>)}
+                </select>
+              </div>
+            )}
+
+            {kind !== 'dividend' && nFee > 0 && (
+              <div className="col-span-2">
+                <label className="block text-xs text-gray-500 mb-1.5">Fee account</label>
+                <select value={feeAccId} onChange={(e) => setFeeAccId(e.target.value)} className={selectClass}>
+                  <option value="">— include in {kind === 'buy' ? 'cost' : 'proceeds'} —</option>
+                  {expenseAccounts.map((a) => <option key={a.id} value={a.id}>{a.path}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between text-sm bg-gray-800/50 border border-white/5 rounded-lg px-3 py-2">
+            <span className="text-gray-500">{kind === 'buy' ? 'Total cost' : 'Net proceeds'}</span>
+            <span className={cn('font-mono font-semibold', cfg.colorClass)}>
+              {formatCurrency(net, false, currency)}
+            </span>
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+              {error}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={mutation.isPending || securities.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              {mutation.isPending ? <><Loader2 size={13} className="animate-spin" />Saving…</> : `Record ${cfg.label.toLowerCase()}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,12 @@ import {
 } from 'lucide-react';
 import type { Account, Transaction } from '../../types';
 import { cn, formatCurrency, formatDate, generateGuid, getAccountPath } from '../../lib/utils';
-import { previewImport, createTransaction } from '../../lib/api';
+import { previewImport, batchTransactions, type TransactionBatch } from '../../lib/api';
 import type { ParsedRow, ImportPreviewResult, CsvColumnMapping } from '../../lib/api';
 import { buildModel, predictBatch } from '../../lib/categorizer';
 import type { CategoryPrediction } from '../../lib/categorizer';
+import { useUndoShortcuts } from '../../lib/history';
+import { transactionErrors } from '../../types/validation';
 
 interface ImportProps {
   accounts: Account[];
@@ -213,7 +215,7 @@ function RecentTransactions({
                   'px-3 py-1.5 text-right font-mono whitespace-nowrap',
                   split.value >= 0 ? 'text-emerald-400' : 'text-red-400'
                 )}>
-                  {split.value >= 0 ? '+' : ''}{formatCurrency(split.value)}
+                  {split.value >= 0 ? '+' : ''}{formatCurrency(split.value, false, txn.currency)}
                 </td>
               </tr>
             );
@@ -230,6 +232,7 @@ function RecentTransactions({
 
 export function Import({ accounts, transactions }: ImportProps) {
   const queryClient = useQueryClient();
+  useUndoShortcuts();
 
   const [step, setStep]             = useState<Step>('upload');
   const [dragOver, setDragOver]     = useState(false);
@@ -264,8 +267,11 @@ export function Import({ accounts, transactions }: ImportProps) {
   // ── Offset account auto-detection ──────────────────────────────────────────
   // 1. Look at existing transactions for the target account and find the most
   //    frequently used counter-account (the "other side" of each split).
-  // 2. Fall back to Imbalance-USD → any account with "imbalance" in the name →
+  // 2. Fall back to Imbalance-<currency> → any account with "imbalance" in the name →
   //    any EQUITY account.
+  // Statements are in the currency of the account they were downloaded for
+  const targetCurrency = accounts.find((a) => a.id === targetAccId)?.commodity ?? 'USD';
+
   const autoOffsetAccId = useMemo(() => {
     if (!targetAccId) return null;
 
@@ -294,8 +300,9 @@ export function Import({ accounts, transactions }: ImportProps) {
 
     if (candidates.length > 0) return candidates[0][0];
 
-    // Fallback 1: Imbalance-USD by exact name
-    const exact = accounts.find((a) => a.name === 'Imbalance-USD');
+    // Fallback 1: Imbalance-<currency of the target account> by exact name
+    const currency = accMap.get(targetAccId)?.commodity ?? 'USD';
+    const exact = accounts.find((a) => a.name === `Imbalance-${currency}`);
     if (exact) return exact.id;
 
     // Fallback 2: any account with "imbalance" in the name
@@ -454,17 +461,19 @@ export function Import({ accounts, transactions }: ImportProps) {
     let skipped = 0;
 
     try {
+      const create: NonNullable<TransactionBatch['create']> = [];
       for (const [i, row] of rows.entries()) {
         if (!selected.has(i)) { skipped++; continue; }
 
         // Use the per-row ML/user-selected category; fall back to default offset
         const offsetId = rowCategories.get(i) || defaultOffsetId;
 
-        await createTransaction({
+        create.push({
+          num: '',
           description: row.description,
           datePosted: row.date,
           notes: row.memo || '',
-          currency: 'USD',
+          currency: targetCurrency,
           splits: [
             {
               id: generateGuid(),
@@ -490,7 +499,18 @@ export function Import({ accounts, transactions }: ImportProps) {
             },
           ],
         });
-        saved++;
+      }
+
+      // Check with the server's own rules first so one bad row can name itself
+      for (const txn of create) {
+        const problems = transactionErrors(txn, accounts);
+        if (problems.length) throw new Error(`"${txn.description}" on ${formatDate(txn.datePosted)}: ${problems.join('; ')}`);
+      }
+
+      // One request, one backup and one log for the whole import
+      if (create.length) {
+        const label = `Import ${create.length} transaction${create.length !== 1 ? 's' : ''}`;
+        saved = (await batchTransactions({ create, label })).created.length;
       }
 
       queryClient.invalidateQueries({ queryKey: ['gnucash'] });
@@ -777,7 +797,7 @@ export function Import({ accounts, transactions }: ImportProps) {
                           'px-3 py-2 text-right font-mono text-sm',
                           row.amount >= 0 ? 'text-emerald-400' : 'text-red-400'
                         )} onClick={() => toggleRow(i)}>
-                          {row.amount >= 0 ? '+' : ''}{formatCurrency(row.amount)}
+                          {row.amount >= 0 ? '+' : ''}{formatCurrency(row.amount, false, targetCurrency)}
                         </td>
                         {/* Per-row category select — stops click propagation so row toggle isn't triggered */}
                         <td className="px-3 py-2" onClick={(e) => e.stopPropagation()}>
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, Loader2, RefreshCw, ShieldCheck, Wrench, X } from 'lucide-react';
+import { formatDate } from '../../lib/utils';
+import { fetchIntegrity, repairIntegrity, type IntegrityProblem } from '../../lib/api';
+
+const KINDS: { kind: IntegrityProblem['kind']; title: string; hint: string }[] = [
+  { kind: 'orphan-split',   title: 'Splits in missing accounts', hint: 'Their amounts count towards no account' },
+  { kind: 'orphan-account', title: 'Accounts without a parent',  hint: 'GnuCash may not show them in the account tree' },
+  { kind: 'unbalanced',     title: 'Unbalanced transactions',    hint: "Debits and credits don't add up" },
+  { kind: 'count',          title: 'Record counts',              hint: 'GnuCash uses these while opening the book' },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function Integrity() {
+  const queryClient = useQueryClient();
+  const [confirmingAll, setConfirmingAll] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['gnucash', 'integrity'],
+    queryFn: fetchIntegrity,
+  });
+
+  const repair = useMutation({
+    mutationFn: repairIntegrity,
+    onSuccess: ({ fixed, problems }) => {
+      setConfirmingAll(false);
+      setMessage(`Fixed ${fixed} problem${fixed !== 1 ? 's' : ''} — a backup was made first, and Undo reverses the fix`);
+      queryClient.setQueryData(['gnucash', 'integrity'], { problems });
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+    },
+    onError: (err: Error) => { setConfirmingAll(false); setMessage(err.message); },
+  });
+
+  const problems = data?.problems ?? [];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-6 py-4 border-b border-white/10 flex items-start gap-4">
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold text-gray-100">Check &amp; Repair</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Looks for damage from hand edits, crashes or other tools. Fixes are saved like any edit: backed up, logged and undoable.
+          </p>
+        </div>
+        <button
+          onClick={() => { setMessage(null); refetch(); }}
+          disabled={isFetching}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 border border-white/10 rounded hover:bg-white/5 disabled:opacity-40 transition-colors"
+        >
+          <RefreshCw size={14} className={isFetching ? 'animate-spin' : undefined} />
+          Check Again
+        </button>
+        {problems.length > 0 && (confirmingAll ? (
+          <span className="flex items-center gap-2 text-xs">
+            <span className="text-amber-300">Fix all {problems.length}?</span>
+            <button onClick={() => setConfirmingAll(false)} className="text-gray-400 hover:text-gray-200">Cancel</button>
+            <button
+              onClick={() => repair.mutate(undefined)}
+              disabled={repair.isPending}
+              className="px-3 py-1.5 bg-amber-600 hover:bg-amber-500 disabled:opacity-40 text-white rounded"
+            >
+              Fix All
+            </button>
+          </span>
+        ) : (
+          <button
+            onClick={() => setConfirmingAll(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+          >
+            <Wrench size={14} />
+            Fix All
+          </button>
+        ))}
+      </div>
+
+      {(message || error) && (
+        <div className="flex items-start gap-2 mx-6 mt-3 text-xs text-gray-300 bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+          <AlertCircle size={13} className="mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{message ?? (error as Error).message}</span>
+          {message && <button onClick={() => setMessage(null)} className="text-gray-500 hover:text-gray-300"><X size={12} /></button>}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto px-6 py-4">
+        {isLoading && <Loader2 size={16} className="animate-spin text-gray-500" />}
+
+        {data && problems.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-40 text-gray-500">
+            <ShieldCheck size={32} className="mb-2 text-emerald-500/60" />
+            <p>No problems found</p>
+          </div>
+        )}
+
+        {KINDS.map(({ kind, title, hint }) => {
+          const group = problems.filter((p) => p.kind === kind);
+          if (!group.length) return null;
+          return (
+            <section key={kind} className="mb-6">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-400">
+                {title} ({group.length})
+              </h3>
+              <p className="text-xs text-gray-600 mb-2">{hint}</p>
+              <ul className="divide-y divide-white/5 border border-white/10 rounded-lg">
+                {group.map((problem) => (
+                  <li key={problem.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-200">{problem.message}</p>
+                      {problem.datePosted && <p className="text-xs text-gray-500 font-mono">{formatDate(problem.datePosted)}</p>}
+                    </div>
+                    <button
+                      onClick={() => repair.mutate([problem.id])}
+                      disabled={repair.isPending}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-blue-300 border border-blue-500/30 rounded hover:bg-blue-500/10 disabled:opacity-40 transition-colors whitespace-nowrap"
+                      title="Apply this fix"
+                    >
+                      <Wrench size={11} />
+                      {problem.fix}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Lock, Unlock, Loader2 } from 'lucide-react';
+import { fetchLock, setLockMode } from '../../lib/api';
+import { formatDate } from '../../lib/utils';
+
+function useBookLock() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: lock } = useQuery({
+    queryKey: ['gnucash', 'lock'],
+    queryFn: fetchLock,
+  });
+
+  const mutation = useMutation({
+    mutationFn: ({ mode, force }: { mode: 'write' | 'read-only'; force?: boolean }) => setLockMode(mode, force),
+    onSuccess: () => {
+      setError(null);
+      // Taking the lock re-reads the book, which may have changed meanwhile
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  return { lock, mutation, error };
+}
+
+/** Header button that hands the book over to GnuCash (drops our lock) */
+export function LockToggle() {
+  const { lock, mutation } = useBookLock();
+  if (!lock || lock.readOnly) return null;
+
+  return (
+    <button
+      onClick={() => mutation.mutate({ mode: 'read-only' })}
+      disabled={mutation.isPending}
+      className="p-1.5 rounded hover:bg-white/10 text-gray-500 hover:text-gray-300 transition-colors"
+      title="Switch to read-only so the book can be opened in GnuCash"
+    >
+      <Unlock size={14} />
+    </button>
+  );
+}
+
+/** Strip under the header while the book is open read-only */
+export function LockBanner() {
+  const { lock, mutation, error } = useBookLock();
+  const [confirming, setConfirming] = useState(false);
+  if (!lock?.readOnly) return null;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-amber-500/10 border-b border-amber-500/20 text-sm flex-shrink-0">
+      <Lock size={14} className="text-amber-400" />
+      {lock.released ? (
+        <span className="text-amber-200">
+          Read-only — the lock has been released so the book can be edited in GnuCash
+        </span>
+      ) : (
+        <span className="text-amber-200">
+          Read-only — the book is open in {lock.lockedBy}
+          {lock.since && <span className="text-amber-400/70"> (since {formatDate(lock.since.slice(0, 10))})</span>}.
+          Close it there to make changes here.
+        </span>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        {error && <span className="text-xs text-red-400">{error}</span>}
+        {mutation.isPending && <Loader2 size={13} className="animate-spin text-amber-400" />}
+        {lock.released ? (
+          <button
+            onClick={() => mutation.mutate({ mode: 'write' })}
+            disabled={mutation.isPending}
+            className="px-3 py-1 text-xs text-amber-200 border border-amber-500/30 rounded hover:bg-amber-500/10 disabled:opacity-40 transition-colors"
+          >
+            Reopen for editing
+          </button>
+        ) : confirming ? (
+          <>
+            <span className="text-xs text-amber-300">Edits made in both programs can overwrite each other.</span>
+            <button
+              onClick={() => { mutation.mutate({ mode: 'write', force: true }); setConfirming(false); }}
+              className="px-2 py-0.5 bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold rounded transition-colors"
+            >
+              Open anyway
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => mutation.mutate({ mode: 'write' })}
+              disabled={mutation.isPending}
+              className="px-3 py-1 text-xs text-amber-200 border border-amber-500/30 rounded hover:bg-amber-500/10 disabled:opacity-40 transition-colors"
+              title="Take the lock if GnuCash has closed the book"
+            >
+              Check again
+            </button>
+            <button
+              onClick={() => setConfirming(true)}
+              className="px-3 py-1 text-xs text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded transition-colors"
+            >
+              Open for editing anyway…
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { X, Loader2, Merge, AlertCircle } from 'lucide-react';
+import type { Account } from '../../types';
+import { getAccountPath } from '../../lib/utils';
+import { mergeAccount, previewMerge } from '../../lib/api';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface Props {
+  accounts: Account[];
+  /** The account to merge away */
+  account: Account;
+  onClose: () => void;
+}
+
+export function MergeAccountModal({ accounts, account, onClose }: Props) {
+  const queryClient = useQueryClient();
+  const [targetId, setTargetId] = useState('');
+
+  // Only accounts in the same commodity, outside the one being merged, can take its splits
+  const byId = new Map(accounts.map((a) => [a.id, a]));
+  const below = (a: Account): boolean => {
+    for (let p = byId.get(a.parentId ?? ''); p; p = byId.get(p.parentId ?? '')) {
+      if (p.id === account.id) return true;
+    }
+    return false;
+  };
+  const candidates = accounts
+    .filter((a) => a.type !== 'ROOT' && a.id !== account.id && !below(a)
+      && a.commodity === account.commodity && a.commoditySpace === account.commoditySpace)
+    .map((a) => ({ ...a, path: getAccountPath(a.id, accounts) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const preview = useQuery({
+    queryKey: ['gnucash', 'merge-preview', account.id, targetId],
+    queryFn: () => previewMerge(account.id, targetId),
+    enabled: !!targetId,
+    retry: false,
+  });
+
+  const merge = useMutation({
+    mutationFn: () => mergeAccount(account.id, targetId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      onClose();
+    },
+  });
+
+  const target = candidates.find((a) => a.id === targetId);
+  const error = (merge.error ?? preview.error) as Error | null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="relative w-full max-w-md bg-gray-900 border border-white/10 rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-white/5">
+          <Merge size={18} className="text-blue-400" />
+          <h2 className="text-sm font-semibold text-gray-100 truncate">Merge "{account.name}" into…</h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-1 rounded hover:bg-white/10 text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            <X size={15} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1.5">Account to keep</label>
+            <select
+              autoFocus
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 outline-none focus:border-blue-500 transition-colors"
+            >
+              <option value="">— choose an account —</option>
+              {candidates.map((a) => (
+                <option key={a.id} value={a.id}>{a.path}</option>
+              ))}
+            </select>
+            {candidates.length === 0 && (
+              <p className="text-xs text-gray-600 mt-1.5">No other account holds {account.commodity}.</p>
+            )}
+          </div>
+
+          {/* Preview */}
+          {preview.isFetching && (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <Loader2 size={13} className="animate-spin" /> Checking…
+            </div>
+          )}
+          {preview.data && target && !preview.isFetching && (
+            <div className="text-xs text-gray-400 bg-white/5 border border-white/10 rounded-lg px-3 py-2 space-y-1">
+              <p>
+                {preview.data.splits} split{preview.data.splits !== 1 ? 's' : ''} in {preview.data.transactions}{' '}
+                transaction{preview.data.transactions !== 1 ? 's' : ''} will move to{' '}
+                <span className="font-mono text-blue-300">{target.path}</span>.
+              </p>
+              {preview.data.children.length > 0 && (
+                <p>
+                  {preview.data.children.length} sub-account{preview.data.children.length !== 1 ? 's' : ''} will
+                  move under it: {preview.data.children.map((c) => c.name).join(', ')}.
+                </p>
+              )}
+              <p>"{account.name}" is then deleted. Undo reverses the whole merge.</p>
+            </div>
+          )}
+
+          {error && (
+            <p className="flex items-start gap-2 text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+              <AlertCircle size={13} className="mt-0.5 flex-shrink-0" />
+              {error.message}
+            </p>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => merge.mutate()}
+              disabled={!preview.data || preview.isFetching || merge.isPending}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              {merge.isPending ? <><Loader2 size={13} className="animate-spin" />Merging…</> : 'Merge'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { X, Loader2, FolderPlus } from 'lucide-react';
+import { X, Loader2, FolderPlus, Settings2 } from 'lucide-react';
 import type { Account, AccountType } from '../../types';
+import { accountErrors, accountTypesCompatible } from '../../types/validation';
 import { cn, getAccountPath } from '../../lib/utils';
-import { createAccount } from '../../lib/api';
+import { createAccount, updateAccount } from '../../lib/api';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
@@ -26,6 +27,43 @@ const ACCOUNT_TYPES: { value: AccountType; label: string; group: string }[] = [
 
 const TYPE_GROUPS = ['Assets', 'Liabilities', 'Income', 'Expenses', 'Equity'];
 
+const COMMON_CURRENCIES = ['USD', 'EUR', 'CAD', 'GBP', 'AUD', 'CHF', 'JPY'];
+
+function Toggle({ checked, onChange, label }: { checked: boolean; onChange: (v: boolean) => void; label: string }) {
+  return (
+    <label className="flex items-center gap-3 cursor-pointer group">
+      <div
+        onClick={() => onChange(!checked)}
+        className={cn(
+          'w-9 h-5 rounded-full flex-shrink-0 transition-colors relative',
+          checked ? 'bg-blue-600' : 'bg-gray-700'
+        )}
+      >
+        <span className={cn(
+          'absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-transform',
+          checked ? 'translate-x-4' : 'translate-x-0.5'
+        )} />
+      </div>
+      <span className="text-xs text-gray-400 group-hover:text-gray-300 transition-colors select-none">
+        {label}
+      </span>
+    </label>
+  );
+}
+
+/** `id` and every account below it */
+function subtreeIds(id: string, accounts: Account[]): Set<string> {
+  const ids = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const a of accounts) {
+      if (a.parentId && ids.has(a.parentId) && !ids.has(a.id)) { ids.add(a.id); grew = true; }
+    }
+  }
+  return ids;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Component
 // ─────────────────────────────────────────────────────────────────────────────
@@ -33,38 +71,87 @@ const TYPE_GROUPS = ['Assets', 'Liabilities', 'Income', 'Expenses', 'Equity'];
 interface Props {
   accounts: Account[];
   defaultParentId?: string;
+  /** Edit this account's properties instead of creating a new one */
+  account?: Account;
   onClose: () => void;
 }
 
-export function NewAccountModal({ accounts, defaultParentId, onClose }: Props) {
+export function NewAccountModal({ accounts, defaultParentId, account, onClose }: Props) {
   const queryClient = useQueryClient();
+  const root = accounts.find((a) => a.type === 'ROOT');
+  const defaultParent = accounts.find((a) => a.id === defaultParentId);
 
-  const [name,        setName]        = useState('');
-  const [type,        setType]        = useState<AccountType>('EXPENSE');
-  const [parentId,    setParentId]    = useState(defaultParentId ?? '');
-  const [description, setDescription] = useState('');
-  const [placeholder, setPlaceholder] = useState(false);
+  const [name,        setName]        = useState(account?.name ?? '');
+  // A sub-account starts out the same type as its parent, as in GnuCash
+  const [type,        setType]        = useState<AccountType>(
+    account?.type ?? (defaultParent && defaultParent.type !== 'ROOT' ? defaultParent.type : 'EXPENSE'));
+  const [parentId,    setParentId]    = useState(
+    account ? (account.parentId === root?.id ? '' : account.parentId ?? '') : defaultParentId ?? '');
+  const [code,        setCode]        = useState(account?.code ?? '');
+  const [description, setDescription] = useState(account?.description ?? '');
+  const [placeholder, setPlaceholder] = useState(account?.placeholder ?? false);
+  const [hidden,      setHidden]      = useState(account?.hidden ?? false);
+  const [commodityKey, setCommodityKey] = useState<string | null>(
+    account ? `${account.commoditySpace}:${account.commodity}` : null);
   const [saving,      setSaving]      = useState(false);
   const [error,       setError]       = useState<string | null>(null);
 
-  // Filter parent account candidates to non-ROOT, non-placeholder (or placeholder OK for nesting)
+  // Any account can be a parent, except the one being edited and its own sub-accounts
+  const excluded = account ? subtreeIds(account.id, accounts) : new Set<string>();
   const parentCandidates = accounts
-    .filter((a) => a.type !== 'ROOT')
+    .filter((a) => a.type !== 'ROOT' && !excluded.has(a.id))
     .map((a) => ({ ...a, path: getAccountPath(a.id, accounts) }))
     .sort((a, b) => a.path.localeCompare(b.path));
 
+  // Types GnuCash allows here: compatible with the parent and with any sub-accounts
+  const children = account ? accounts.filter((a) => a.parentId === account.id) : [];
+  const parentType = accounts.find((a) => a.id === parentId)?.type ?? 'ROOT';
+  const typeAllowed = (t: AccountType) =>
+    accountTypesCompatible(parentType, t) && children.every((c) => accountTypesCompatible(t, c.type));
+
+  // Commodity options: everything already used in the book plus common currencies.
+  // Keys are "SPACE:ID" so securities and currencies can share one select.
+  const commodityOptions = Array.from(new Set([
+    ...accounts.map((a) => `${a.commoditySpace}:${a.commodity}`),
+    ...COMMON_CURRENCIES.map((c) => `CURRENCY:${c}`),
+  ])).sort();
+
+  // New accounts inherit the parent's currency unless the user picks one
+  const parent = accounts.find((a) => a.id === parentId);
+  const inherited = parent?.commoditySpace === 'CURRENCY' ? parent : root;
+  const effectiveCommodity = commodityKey ?? `CURRENCY:${inherited?.commodity ?? 'USD'}`;
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!name.trim()) { setError('Account name is required.'); return; }
 
+    const sep = effectiveCommodity.indexOf(':');
+    const commoditySpace = effectiveCommodity.slice(0, sep);
+    const commodity      = effectiveCommodity.slice(sep + 1);
+
+    const problems = accountErrors(
+      { id: account?.id ?? '', name: name.trim(), type, parentId: parentId || root?.id || null, code, description },
+      accounts,
+    );
+    if (problems.length) { setError(problems.join(' ')); return; }
+
     setSaving(true);
     setError(null);
     try {
-      await createAccount({ name: name.trim(), type, parentId: parentId || null, description, placeholder });
+      if (account) {
+        await updateAccount(account.id, {
+          name: name.trim(), type, parentId: parentId || null, code, description, placeholder, hidden,
+        });
+      } else {
+        await createAccount({
+          name: name.trim(), type, parentId: parentId || null, code, description, placeholder,
+          commodity, commoditySpace,
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['gnucash'] });
       onClose();
     } catch (err: any) {
-      setError(err.message || 'Failed to create account');
+      setError(err.message || (account ? 'Failed to save account' : 'Failed to create account'));
     } finally {
       setSaving(false);
     }
@@ -79,8 +166,10 @@ export function NewAccountModal({ accounts, defaultParentId, onClose }: Props) {
       <div className="relative w-full max-w-md bg-gray-900 border border-white/10 rounded-2xl shadow-2xl">
         {/* Header */}
         <div className="flex items-center gap-3 px-5 py-4 border-b border-white/5">
-          <FolderPlus size={18} className="text-blue-400" />
-          <h2 className="text-sm font-semibold text-gray-100">New Account</h2>
+          {account
+            ? <Settings2 size={18} className="text-blue-400" />
+            : <FolderPlus size={18} className="text-blue-400" />}
+          <h2 className="text-sm font-semibold text-gray-100">{account ? 'Account Properties' : 'New Account'}</h2>
           <button
             onClick={onClose}
             className="ml-auto p-1 rounded hover:bg-white/10 text-gray-500 hover:text-gray-300 transition-colors"
@@ -117,7 +206,7 @@ export function NewAccountModal({ accounts, defaultParentId, onClose }: Props) {
               {TYPE_GROUPS.map((group) => (
                 <optgroup key={group} label={group}>
                   {ACCOUNT_TYPES.filter((t) => t.group === group).map((t) => (
-                    <option key={t.value} value={t.value}>{t.label}</option>
+                    <option key={t.value} value={t.value} disabled={!typeAllowed(t.value)}>{t.label}</option>
                   ))}
                 </optgroup>
               ))}
@@ -139,6 +228,39 @@ export function NewAccountModal({ accounts, defaultParentId, onClose }: Props) {
             </select>
           </div>
 
+          {/* Commodity */}
+          <div>
+            <label className="block text-xs text-gray-500 mb-1.5">Currency / security</label>
+            <select
+              value={effectiveCommodity}
+              onChange={(e) => setCommodityKey(e.target.value)}
+              disabled={!!account}
+              title={account ? "An account's currency or security can't be changed" : undefined}
+              className="w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 outline-none focus:border-blue-500 disabled:opacity-50 transition-colors"
+            >
+              {commodityOptions.map((key) => {
+                const [space, id] = key.split(':');
+                return (
+                  <option key={key} value={key}>
+                    {space === 'CURRENCY' ? id : `${id} (${space})`}
+                  </option>
+                );
+              })}
+            </select>
+          </div>
+
+          {/* Code */}
+          <div>
+            <label className="block text-xs text-gray-500 mb-1.5">Account code <span className="text-gray-700">(optional)</span></label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="e.g. 5100"
+              className="w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 placeholder-gray-600 outline-none focus:border-blue-500 transition-colors font-mono"
+            />
+          </div>
+
           {/* Description */}
           <div>
             <label className="block text-xs text-gray-500 mb-1.5">Description <span className="text-gray-700">(optional)</span></label>
@@ -151,24 +273,15 @@ export function NewAccountModal({ accounts, defaultParentId, onClose }: Props) {
             />
           </div>
 
-          {/* Placeholder toggle */}
-          <label className="flex items-center gap-3 cursor-pointer group">
-            <div
-              onClick={() => setPlaceholder((p) => !p)}
-              className={cn(
-                'w-9 h-5 rounded-full flex-shrink-0 transition-colors relative',
-                placeholder ? 'bg-blue-600' : 'bg-gray-700'
-              )}
-            >
-              <span className={cn(
-                'absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-transform',
-                placeholder ? 'translate-x-4' : 'translate-x-0.5'
-              )} />
-            </div>
-            <span className="text-xs text-gray-400 group-hover:text-gray-300 transition-colors select-none">
-              Placeholder (contains sub-accounts only, cannot hold transactions)
-            </span>
-          </label>
+          {/* Placeholder / hidden toggles */}
+          <Toggle
+            checked={placeholder}
+            onChange={setPlaceholder}
+            label="Placeholder (contains sub-accounts only, cannot hold transactions)"
+          />
+          {account && (
+            <Toggle checked={hidden} onChange={setHidden} label="Hidden (GnuCash leaves it out of the account tree)" />
+          )}
 
           {/* Error */}
           {error && (
@@ -191,7 +304,9 @@ export function NewAccountModal({ accounts, defaultParentId, onClose }: Props) {
               disabled={saving || !name.trim()}
               className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-semibold rounded-lg transition-colors"
             >
-              {saving ? <><Loader2 size={13} className="animate-spin" />Creating…</> : 'Create Account'}
+              {saving
+                ? <><Loader2 size={13} className="animate-spin" />{account ? 'Saving…' : 'Creating…'}</>
+                : account ? 'Save Changes' : 'Create Account'}
             </button>
           </div>
         </form>
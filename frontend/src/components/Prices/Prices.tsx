@@ -0,0 +1,420 @@
+import { useState, useMemo, useRef } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2, Upload, X, AlertCircle, Check } from 'lucide-react';
+import type { Commodity, Price } from '../../types';
+import { cn, formatDate } from '../../lib/utils';
+import { createPrice, deletePrice, importPrices, updatePrice, type PriceInput } from '../../lib/api';
+
+interface PricesProps {
+  prices: Price[];
+  commodities: Commodity[];
+  defaultCurrency: string;
+}
+
+const TODAY = new Date().toISOString().slice(0, 10);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Split one CSV line, honouring double-quoted fields */
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      out.push(cur.trim());
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+/** Accepts YYYY-MM-DD or MM/DD/YYYY */
+function normalizeCsvDate(raw: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+  const m = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!m) return null;
+  return `${m[3]}-${m[1].padStart(2, '0')}-${m[2].padStart(2, '0')}`;
+}
+
+/**
+ * Parse a quotes CSV. The header row must name a commodity column
+ * (commodity/symbol/ticker), a date column and a price column (price/value/close);
+ * a currency column is optional and defaults to the book currency.
+ */
+function parsePriceCsv(text: string, defaultCurrency: string): { rows: PriceInput[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) return { rows: [], errors: ['The file has no data rows.'] };
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const find = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const commodityCol = find('commodity', 'symbol', 'ticker', 'security');
+  const dateCol      = find('date');
+  const valueCol     = find('price', 'value', 'close');
+  const currencyCol  = find('currency');
+  if (commodityCol < 0 || dateCol < 0 || valueCol < 0) {
+    return { rows: [], errors: ['Header must include commodity (or symbol), date and price columns.'] };
+  }
+
+  const rows: PriceInput[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, i) => {
+    const cells = splitCsvLine(line);
+    const date  = normalizeCsvDate(cells[dateCol] ?? '');
+    const value = parseFloat((cells[valueCol] ?? '').replace(/[$,]/g, ''));
+    const commodity = (cells[commodityCol] ?? '').toUpperCase();
+    if (!commodity || !date || !(value > 0)) {
+      errors.push(`Line ${i + 2}: could not read "${line}"`);
+      return;
+    }
+    const currency = currencyCol >= 0 && cells[currencyCol] ? cells[currencyCol].toUpperCase() : defaultCurrency;
+    rows.push({ commodity, currency, date, value });
+  });
+  return { rows, errors };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Editable price cell
+// ─────────────────────────────────────────────────────────────────────────────
+
+function PriceValueCell({ price, onSave }: { price: Price; onSave: (value: number) => void }) {
+  const [editing, setEditing] = useState(false);
+  const [raw, setRaw] = useState('');
+
+  if (!editing) {
+    return (
+      <span
+        className="cursor-text hover:bg-white/5 rounded px-1 -mx-1"
+        onClick={() => { setRaw(String(price.value)); setEditing(true); }}
+      >
+        {price.value.toLocaleString('en-US', { maximumFractionDigits: 6 })}
+      </span>
+    );
+  }
+
+  const commit = () => {
+    const v = parseFloat(raw);
+    if (v > 0 && v !== price.value) onSave(v);
+    setEditing(false);
+  };
+
+  return (
+    <input
+      autoFocus
+      type="number"
+      step="any"
+      value={raw}
+      onChange={(e) => setRaw(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setEditing(false);
+      }}
+      className="w-28 bg-gray-800 border border-blue-500 rounded px-1.5 py-0.5 text-right text-sm text-gray-100 outline-none"
+    />
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function Prices({ prices, commodities, defaultCurrency }: PricesProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [filterCommodity, setFilterCommodity] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Quotable commodities: every security plus every foreign currency
+  const quotable = useMemo(
+    () => commodities.filter((c) => !(c.space === 'CURRENCY' && c.id === defaultCurrency)),
+    [commodities, defaultCurrency]
+  );
+  const currencies = useMemo(
+    () => Array.from(new Set([defaultCurrency, ...commodities.filter((c) => c.space === 'CURRENCY').map((c) => c.id)])),
+    [commodities, defaultCurrency]
+  );
+
+  // New price form
+  const [draft, setDraft] = useState<PriceInput>({
+    commodity: quotable[0]?.id ?? '',
+    currency: defaultCurrency,
+    date: TODAY,
+    value: 0,
+  });
+  const [draftValue, setDraftValue] = useState('');
+
+  // CSV preview
+  const [csvPreview, setCsvPreview] = useState<{ fileName: string; rows: PriceInput[]; errors: string[] } | null>(null);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+  const onError = (err: Error) => setError(err.message);
+
+  const createMutation = useMutation({
+    mutationFn: createPrice,
+    onSuccess: () => { invalidate(); setDraftValue(''); setError(null); },
+    onError,
+  });
+  const updateMutation = useMutation({
+    mutationFn: ({ id, value }: { id: string; value: number }) => updatePrice(id, { value }),
+    onSuccess: invalidate,
+    onError,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: deletePrice,
+    onSuccess: invalidate,
+    onError,
+  });
+  const importMutation = useMutation({
+    mutationFn: importPrices,
+    onSuccess: () => { invalidate(); setCsvPreview(null); setError(null); },
+    onError,
+  });
+
+  const sorted = useMemo(
+    () =>
+      prices
+        .filter((p) => !filterCommodity || p.commodity === filterCommodity)
+        .sort((a, b) => b.date.localeCompare(a.date) || a.commodity.localeCompare(b.commodity)),
+    [prices, filterCommodity]
+  );
+
+  const priceCommodities = useMemo(
+    () => Array.from(new Set(prices.map((p) => p.commodity))).sort(),
+    [prices]
+  );
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const value = parseFloat(draftValue);
+    if (!draft.commodity) { setError('Choose a commodity to quote.'); return; }
+    if (!(value > 0)) { setError('Enter a positive price.'); return; }
+    const commodity = quotable.find((c) => c.id === draft.commodity);
+    createMutation.mutate({ ...draft, commoditySpace: commodity?.space, value });
+  }
+
+  function handleFile(file: File) {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const { rows, errors } = parsePriceCsv(String(reader.result ?? ''), defaultCurrency);
+      setCsvPreview({ fileName: file.name, rows, errors });
+    };
+    reader.readAsText(file);
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-6 py-4 border-b border-white/10">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-100">Price Database</h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Quotes used to value securities and foreign currencies in {defaultCurrency}
+            </p>
+          </div>
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) handleFile(f);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 border border-white/10 rounded hover:bg-white/5 transition-colors"
+            >
+              <Upload size={14} />
+              Load CSV
+            </button>
+          </div>
+        </div>
+
+        {/* New price form */}
+        <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Commodity</label>
+            <select
+              value={draft.commodity}
+              onChange={(e) => setDraft((d) => ({ ...d, commodity: e.target.value }))}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500 w-40"
+            >
+              {quotable.length === 0 && <option value="">No commodities</option>}
+              {quotable.map((c) => (
+                <option key={`${c.space}:${c.id}`} value={c.id}>
+                  {c.space === 'CURRENCY' ? c.id : `${c.id} (${c.space})`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Currency</label>
+            <select
+              value={draft.currency}
+              onChange={(e) => setDraft((d) => ({ ...d, currency: e.target.value }))}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500"
+            >
+              {currencies.map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Date</label>
+            <input
+              type="date"
+              value={draft.date}
+              onChange={(e) => setDraft((d) => ({ ...d, date: e.target.value }))}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Price</label>
+            <input
+              type="number"
+              step="any"
+              placeholder="0.00"
+              value={draftValue}
+              onChange={(e) => setDraftValue(e.target.value)}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500 w-32"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm rounded transition-colors"
+          >
+            <Plus size={14} />
+            Add Price
+          </button>
+
+          <div className="flex-1" />
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Show</label>
+            <select
+              value={filterCommodity}
+              onChange={(e) => setFilterCommodity(e.target.value)}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500"
+            >
+              <option value="">All commodities</option>
+              {priceCommodities.map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+        </form>
+
+        {error && (
+          <div className="flex items-start gap-2 mt-3 text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+            <AlertCircle size={13} className="mt-0.5 flex-shrink-0" />
+            <span className="flex-1">{error}</span>
+            <button onClick={() => setError(null)} className="text-red-400/60 hover:text-red-300">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* CSV preview */}
+      {csvPreview && (
+        <div className="px-6 py-3 border-b border-white/10 bg-blue-950/20 text-sm">
+          <div className="flex items-center gap-3">
+            <span className="text-gray-300">
+              <span className="font-medium">{csvPreview.fileName}</span>: {csvPreview.rows.length} price{csvPreview.rows.length !== 1 ? 's' : ''} ready
+              {csvPreview.errors.length > 0 && (
+                <span className="text-amber-400"> · {csvPreview.errors.length} line{csvPreview.errors.length !== 1 ? 's' : ''} skipped</span>
+              )}
+            </span>
+            <div className="flex-1" />
+            <button
+              onClick={() => setCsvPreview(null)}
+              className="px-3 py-1 text-xs text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              disabled={csvPreview.rows.length === 0 || importMutation.isPending}
+              onClick={() => importMutation.mutate(csvPreview.rows)}
+              className="flex items-center gap-1.5 px-3 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-xs rounded transition-colors"
+            >
+              <Check size={12} />
+              Import {csvPreview.rows.length}
+            </button>
+          </div>
+          {csvPreview.errors.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-xs text-amber-400/80 max-h-24 overflow-auto">
+              {csvPreview.errors.slice(0, 20).map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Results count */}
+      <div className="px-6 py-2 text-xs text-gray-500 border-b border-white/5">
+        {sorted.length} price{sorted.length !== 1 ? 's' : ''}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-900 z-10">
+            <tr className="text-xs text-gray-500 border-b border-white/10">
+              <th className="px-4 py-2 text-left w-28">Date</th>
+              <th className="px-4 py-2 text-left">Commodity</th>
+              <th className="px-4 py-2 text-left w-24">Currency</th>
+              <th className="px-4 py-2 text-right w-36">Price</th>
+              <th className="px-4 py-2 text-left w-40">Source</th>
+              <th className="px-4 py-2 w-10"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((p) => (
+              <tr key={p.id} className="border-b border-white/5 hover:bg-white/3 group">
+                <td className="px-4 py-2 font-mono text-xs text-gray-400">{formatDate(p.date)}</td>
+                <td className="px-4 py-2 text-gray-200">
+                  {p.commodity}
+                  {p.commoditySpace !== 'CURRENCY' && (
+                    <span className="ml-1.5 text-xs text-gray-600">{p.commoditySpace}</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-400">{p.currency}</td>
+                <td className="px-4 py-2 text-right font-mono text-gray-200">
+                  <PriceValueCell price={p} onSave={(value) => updateMutation.mutate({ id: p.id, value })} />
+                </td>
+                <td className={cn('px-4 py-2 text-xs', p.source.startsWith('user:') ? 'text-gray-500' : 'text-gray-600')}>
+                  {p.source}
+                </td>
+                <td className="px-4 py-2">
+                  <button
+                    onClick={() => deleteMutation.mutate(p.id)}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-600 hover:text-red-400"
+                    title="Delete price"
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {sorted.length === 0 && (
+          <div className="text-center py-16 text-gray-600">
+            No prices yet — add a quote above or load a CSV
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,10 @@ import {
 import { SplitModal } from './SplitModal';
 import type { Account, Transaction, Split } from '../../types';
 import { cn, formatCurrency, formatDate, getAccountPath } from '../../lib/utils';
-import { updateTransaction, fetchChangeLog } from '../../lib/api';
+import { batchTransactions, fetchChangeLog } from '../../lib/api';
 import type { ChangeLogEntry } from '../../lib/api';
+import { useUndoShortcuts } from '../../lib/history';
+import { useAppStore } from '../../store/useAppStore';
 
 interface RecategorizeProps {
   accounts: Account[];
@@ -408,6 +410,8 @@ function mergeSplits(
 
 export function Recategorize({ accounts, transactions }: RecategorizeProps) {
   const queryClient = useQueryClient();
+  const { setActiveView } = useAppStore();
+  useUndoShortcuts();
 
   // Filters
   const [searchQ,    setSearchQ]    = useState('');
@@ -530,15 +534,24 @@ export function Recategorize({ accounts, transactions }: RecategorizeProps) {
   async function saveChanges() {
     setSaving(true);
     try {
+      // Several staged splits can belong to one transaction — fold them together
+      const updates = new Map<string, Transaction>();
       for (const change of stagedList) {
-        const newSplits = change.txn.splits.map((s) =>
+        const txn = updates.get(change.txn.id) ?? change.txn;
+        const newSplits = txn.splits.map((s) =>
           s.id === change.splitId ? { ...s, accountId: change.toAccountId } : s
         );
-        await updateTransaction(change.txn.id, { ...change.txn, splits: newSplits });
+        updates.set(txn.id, { ...txn, splits: newSplits });
       }
       for (const change of stagedSplitList) {
         const merged = mergeSplits(change.txn, change.newCategorizableSplits, accountMap);
-        await updateTransaction(change.txn.id, { ...change.txn, splits: merged });
+        updates.set(change.txn.id, { ...change.txn, splits: merged });
+      }
+      if (updates.size) {
+        await batchTransactions({
+          update: [...updates.values()],
+          label: `Recategorize ${updates.size} transaction${updates.size !== 1 ? 's' : ''}`,
+        });
       }
       queryClient.invalidateQueries({ queryKey: ['gnucash'] });
       queryClient.invalidateQueries({ queryKey: ['change-log'] });
@@ -801,6 +814,13 @@ export function Recategorize({ accounts, transactions }: RecategorizeProps) {
               <History size={14} className="text-gray-400" />
               <span className="font-medium text-sm text-gray-300">Change History</span>
               <span className="ml-auto text-xs text-gray-600">{logEntries.length} entries</span>
+              <button
+                onClick={() => setActiveView('audit')}
+                className="text-xs text-blue-400 hover:text-blue-300"
+                title="Every logged change, with revert"
+              >
+                Full log
+              </button>
             </div>
             <div className="flex-1 overflow-auto">
               <LogPanel entries={logEntries} />
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Scale, X, Loader2 } from 'lucide-react';
+import type { Account } from '../../types';
+import { cn, formatCurrency, formatDate } from '../../lib/utils';
+
+export interface ReconcileSession {
+  statementDate: string;
+  /** Ending balance as printed on the statement (display sign) */
+  endingBalance: number;
+}
+
+/** Statement date + ending balance prompt shown before reconcile mode starts */
+export function ReconcileStart({
+  account,
+  defaultBalance,
+  lastDate,
+  error,
+  onStart,
+  onCancel,
+}: {
+  account: Account;
+  /** Suggested ending balance for a given statement date (display sign) */
+  defaultBalance: (date: string) => Promise<number>;
+  lastDate: string | null;
+  error: string | null;
+  onStart: (session: ReconcileSession) => void;
+  onCancel: () => void;
+}) {
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [ending, setEnding] = useState('');
+
+  // Suggest the register balance on the statement date whenever the date changes
+  useEffect(() => {
+    let current = true;
+    defaultBalance(date).then((b) => { if (current) setEnding(b.toFixed(2)); }).catch(() => {});
+    return () => { current = false; };
+  }, [date, defaultBalance]);
+
+  const inputClass = 'bg-gray-800 border border-white/10 rounded px-2 py-1 text-sm text-gray-100 outline-none focus:border-blue-500';
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        const endingBalance = parseFloat(ending.replace(/[$,]/g, ''));
+        if (!date || isNaN(endingBalance)) return;
+        onStart({ statementDate: date, endingBalance });
+      }}
+      className="flex items-center gap-3 px-4 py-2 border-b border-white/5 bg-blue-500/5 text-sm"
+    >
+      <Scale size={14} className="text-blue-400" />
+      <span className="text-gray-300 font-medium">Reconcile {account.name}</span>
+      <label className="flex items-center gap-1.5 text-xs text-gray-500">
+        Statement date
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center gap-1.5 text-xs text-gray-500">
+        Ending balance
+        <input
+          type="number"
+          step="any"
+          value={ending}
+          onChange={(e) => setEnding(e.target.value)}
+          className={cn(inputClass, 'w-32 text-right font-mono')}
+        />
+      </label>
+      {lastDate && <span className="text-xs text-gray-600">Last reconciled {formatDate(lastDate)}</span>}
+      <div className="ml-auto flex items-center gap-2">
+        {error && <span className="text-xs text-red-400">{error}</span>}
+        <button type="button" onClick={onCancel} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded transition-colors">
+          Cancel
+        </button>
+        <button type="submit" className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors">
+          Start
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** Running totals shown while ticking off cleared splits */
+export function ReconcileSummary({
+  account,
+  session,
+  openingBalance,
+  clearedBalance,
+  digits,
+  pending,
+  error,
+  onFinish,
+  onPostpone,
+  onCancel,
+}: {
+  account: Account;
+  session: ReconcileSession;
+  /** Reconciled balance before this statement (display sign) */
+  openingBalance: number;
+  /** Opening balance plus every ticked split (display sign) */
+  clearedBalance: number;
+  digits: number;
+  pending: boolean;
+  error: string | null;
+  onFinish: () => void;
+  onPostpone: () => void;
+  onCancel: () => void;
+}) {
+  const difference = session.endingBalance - clearedBalance;
+  const balanced = Math.abs(difference) < 0.5 / 10 ** digits;
+  const fmt = (n: number) => formatCurrency(n, false, account.commodity);
+
+  const stat = (label: string, value: React.ReactNode, className = 'text-gray-300') => (
+    <div className="text-right">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className={cn('font-mono text-sm', className)}>{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="flex items-center gap-6 px-4 py-2 border-b border-white/5 bg-blue-500/5">
+      <div className="flex items-center gap-2 text-sm">
+        <Scale size={14} className="text-blue-400" />
+        <span className="text-gray-300 font-medium">Reconciling to {formatDate(session.statementDate)}</span>
+      </div>
+      {stat('Opening', fmt(openingBalance))}
+      {stat('Cleared', fmt(clearedBalance))}
+      {stat('Ending', fmt(session.endingBalance))}
+      {stat('Difference', fmt(difference), balanced ? 'text-emerald-400' : 'text-amber-400')}
+      <div className="ml-auto flex items-center gap-2">
+        {error && <span className="text-xs text-red-400">{error}</span>}
+        <button
+          onClick={onCancel}
+          className="p-1 rounded text-gray-500 hover:text-gray-300 hover:bg-white/10"
+          title="Cancel reconciliation"
+        >
+          <X size={14} />
+        </button>
+        <button
+          onClick={onPostpone}
+          disabled={pending}
+          className="px-3 py-1 text-sm text-gray-300 border border-white/10 rounded hover:bg-white/5 disabled:opacity-40 transition-colors"
+          title="Save the ticked splits as cleared and finish later"
+        >
+          Postpone
+        </button>
+        <button
+          onClick={onFinish}
+          disabled={!balanced || pending}
+          className="flex items-center gap-1.5 px-3 py-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm rounded transition-colors"
+          title={balanced ? 'Mark the ticked splits reconciled' : 'The difference must be zero to finish'}
+        >
+          {pending && <Loader2 size={13} className="animate-spin" />}
+          Finish
+        </button>
+      </div>
+    </div>
+  );
+}
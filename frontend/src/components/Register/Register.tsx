@@ -1,19 +1,25 @@
-import { useState, useMemo, useRef, useEffect } from 'react';
+import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Plus, Trash2, Check, ArrowUpDown, ChevronUp, ChevronDown,
-  CheckCircle, Circle, Clock, Layers, ChevronRight
+  CheckCircle, Circle, Clock, Layers, ChevronRight, Scale, AlertCircle, X
 } from 'lucide-react';
 import type { Account, Transaction, Split } from '../../types';
 import {
   cn, formatCurrency, formatDate, generateGuid, getAccountDisplayBalance, getAccountPath
 } from '../../lib/utils';
-import { createTransaction, updateTransaction, deleteTransaction } from '../../lib/api';
+import {
+  createTransaction, updateTransaction, deleteTransaction, reconcileAccount,
+  fetchTransactions, fetchAllTransactions, type TransactionPage,
+} from '../../lib/api';
+import { scuDigits, withQuantity, withValue } from '../../lib/currency';
+import { useTransactionPages } from '../../lib/transactions';
+import { useUndoShortcuts } from '../../lib/history';
+import { ReconcileStart, ReconcileSummary, type ReconcileSession } from './ReconcileBar';
 
 interface RegisterProps {
   account: Account;
   accounts: Account[];
-  transactions: Transaction[];
 }
 
 interface RegisterRow {
@@ -23,9 +29,24 @@ interface RegisterRow {
   runningBalance: number;
 }
 
-type SortField = 'date' | 'description' | 'amount' | 'balance';
+type SortField = 'date' | 'description' | 'amount';
 type SortDir = 'asc' | 'desc';
 
+/**
+ * One register line. A transaction can touch the account more than once, so
+ * ALL its splits in this account are summed (matching computeAccountBalances
+ * in the sidebar); amounts are quantities, in the account's own commodity.
+ */
+function toRow({ transaction: txn, balance }: TransactionPage['items'][number], accountId: string): RegisterRow {
+  const accountSplits = txn.splits.filter((s) => s.accountId === accountId);
+  const otherSplits   = txn.splits.filter((s) => s.accountId !== accountId);
+  const netValue    = accountSplits.reduce((sum, s) => sum + s.value, 0);
+  const netQuantity = accountSplits.reduce((sum, s) => sum + s.quantity, 0);
+  // Primary split used for display (memo, reconcile state, etc.)
+  const split = { ...accountSplits[0], value: netValue, quantity: netQuantity };
+  return { txn, split, otherSplits, runningBalance: balance ?? 0 };
+}
+
 function ReconcileIcon({ state }: { state: string }) {
   if (state === 'y') return <CheckCircle size={13} className="text-emerald-400" title="Reconciled" />;
   if (state === 'c') return <Check size={13} className="text-blue-400" title="Cleared" />;
@@ -47,6 +68,10 @@ function getColumnLabels(accountType: string): {
       return { left: 'Payment', right: 'Charge', leftColor: 'text-emerald-400', rightColor: 'text-red-400' };
     case 'EQUITY':
       return { left: 'Increase', right: 'Decrease', leftColor: 'text-emerald-400', rightColor: 'text-red-400' };
+    case 'STOCK':
+    case 'MUTUAL':
+      // Amounts in a security register are share quantities
+      return { left: 'Sell', right: 'Buy', leftColor: 'text-red-400', rightColor: 'text-emerald-400' };
     default:
       return { left: 'Withdrawal', right: 'Deposit', leftColor: 'text-red-400', rightColor: 'text-emerald-400' };
   }
@@ -194,13 +219,22 @@ function EditableCell({
   );
 }
 
-export function Register({ account, accounts, transactions }: RegisterProps) {
+export function Register({ account, accounts }: RegisterProps) {
   const queryClient = useQueryClient();
+  useUndoShortcuts();
+  // Newest first, so recent activity shows without paging through the history
   const [sortField, setSortField] = useState<SortField>('date');
-  const [sortDir, setSortDir] = useState<SortDir>('asc');
+  const [sortDir, setSortDir] = useState<SortDir>('desc');
   const [filter, setFilter] = useState('');
   const [expandedTxns, setExpandedTxns] = useState<Set<string>>(new Set());
   const [contextMenu, setContextMenu] = useState<{ txnId: string; x: number; y: number } | null>(null);
+  // Reconcile mode: 'setup' while asking for the statement, then the live session
+  const [reconcile, setReconcile] = useState<'setup' | ReconcileSession | null>(null);
+  const [sessionRows, setSessionRows] = useState<RegisterRow[]>([]);
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+  const [reconcileError, setReconcileError] = useState<string | null>(null);
+  // Why the server refused the last edit (unbalanced, unknown account, …)
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   function toggleExpand(txnId: string) {
     setExpandedTxns((prev) => {
@@ -210,70 +244,40 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
     });
   }
 
-  const accountTxns = useMemo(() => {
-    return transactions.filter((t) =>
-      t.splits.some((s) => s.accountId === account.id)
-    );
-  }, [transactions, account.id]);
-
-  const sortedRows = useMemo(() => {
-    let rows = [...accountTxns];
-
-    if (filter) {
-      const q = filter.toLowerCase();
-      rows = rows.filter(
-        (t) =>
-          t.description.toLowerCase().includes(q) ||
-          t.notes.toLowerCase().includes(q) ||
-          t.splits.some((s) => s.memo.toLowerCase().includes(q))
-      );
-    }
-
-    rows.sort((a, b) => {
-      let cmp = 0;
-      if (sortField === 'date') {
-        cmp = a.datePosted.localeCompare(b.datePosted);
-      } else if (sortField === 'description') {
-        cmp = a.description.localeCompare(b.description);
-      } else if (sortField === 'amount') {
-        const aAmt = a.splits.find((s) => s.accountId === account.id)?.value ?? 0;
-        const bAmt = b.splits.find((s) => s.accountId === account.id)?.value ?? 0;
-        cmp = aAmt - bAmt;
-      }
-      return sortDir === 'asc' ? cmp : -cmp;
-    });
-
-    // Build running balance — sum ALL splits for this account (not just the first),
-    // so the register total matches computeAccountBalances in the sidebar.
-    let running = 0;
-    const builtRows: RegisterRow[] = rows.map((txn) => {
-      const accountSplits = txn.splits.filter((s) => s.accountId === account.id);
-      const otherSplits   = txn.splits.filter((s) => s.accountId !== account.id);
-      const netValue = accountSplits.reduce((sum, s) => sum + s.value, 0);
-      // Primary split used for display (memo, reconcile state, etc.)
-      const split = { ...accountSplits[0], value: netValue, quantity: netValue };
-      running += netValue;
-      return { txn, split, otherSplits, runningBalance: running };
-    });
+  // Rows come a page at a time from the server, already filtered and sorted;
+  // running balances are computed there over the whole register
+  const {
+    items, total, account: summary, isLoading, hasNextPage, sentinelRef,
+  } = useTransactionPages({ accountId: account.id, q: filter, sort: sortField, order: sortDir });
+  const sortedRows = useMemo(
+    () => items.map((item) => toRow(item, account.id)),
+    [items, account.id]
+  );
 
-    return builtRows;
-  }, [accountTxns, sortField, sortDir, filter, account.id]);
+  const onSaved = () => {
+    setSaveError(null);
+    return queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+  };
+  const onSaveFailed = (err: Error) => setSaveError(err.message);
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Transaction> }) =>
-      updateTransaction(id, data),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['gnucash'] }),
+    mutationFn: ({ id, data, autoBalance }: { id: string; data: Partial<Transaction>; autoBalance?: boolean }) =>
+      updateTransaction(id, data, { autoBalance }),
+    onSuccess: onSaved,
+    onError: onSaveFailed,
   });
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => deleteTransaction(id),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['gnucash'] }),
+    onSuccess: onSaved,
+    onError: onSaveFailed,
   });
 
   const createMutation = useMutation({
     mutationFn: (txn: Omit<Transaction, 'id' | 'dateEntered'>) =>
       createTransaction(txn),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['gnucash'] }),
+    onSuccess: onSaved,
+    onError: onSaveFailed,
   });
 
   function handleSort(field: SortField) {
@@ -304,28 +308,45 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
   function handleUpdateAmount(txn: Transaction, split: Split, rawValue: string) {
     const newAmount = parseFloat(rawValue.replace(/[$,]/g, ''));
     if (isNaN(newAmount)) return;
+    const inTxnCurrency = (id: string) =>
+      accounts.find((a) => a.id === id)?.commodity === txn.currency;
+    // The edited amount is in this account's commodity; the counterpart is
+    // balanced on value (transaction currency) and keeps its own price.
+    const edited = withQuantity(split, newAmount, inTxnCurrency(split.accountId));
     const newSplits = txn.splits.map((s) => {
-      if (s.id === split.id) return { ...s, value: newAmount, quantity: newAmount };
+      if (s.id === split.id) return edited;
       // Adjust counterpart split
       if (txn.splits.length === 2) {
-        return { ...s, value: -newAmount, quantity: -newAmount };
+        return withValue(s, -edited.value, inTxnCurrency(s.accountId));
       }
       return s;
     });
-    updateMutation.mutate({ id: txn.id, data: { ...txn, splits: newSplits } });
+    // With more than two splits there is no single counterpart to adjust:
+    // like GnuCash, post the difference to Imbalance-<currency>
+    updateMutation.mutate({ id: txn.id, data: { ...txn, splits: newSplits }, autoBalance: txn.splits.length !== 2 });
   }
 
   function handleAddTransaction() {
     const today = new Date().toISOString().slice(0, 10);
-    const imbalanceAcc = accounts.find((a) => a.name === 'Imbalance-USD') ??
-      accounts.find((a) => a.type === 'BANK' && a.id !== account.id) ??
-      accounts[0];
+    // Securities are bought and sold in the book's home currency
+    const currency = account.commoditySpace === 'CURRENCY'
+      ? account.commodity
+      : accounts.find((a) => a.type === 'ROOT')?.commodity ?? 'USD';
+    const postable = accounts.filter((a) => a.type !== 'ROOT' && !a.placeholder && a.id !== account.id);
+    const imbalanceAcc = postable.find((a) => a.name === `Imbalance-${currency}`) ??
+      postable.find((a) => a.type === 'BANK') ??
+      postable[0];
+    if (!imbalanceAcc) {
+      setSaveError('Add another account to post the other side of the transaction to');
+      return;
+    }
 
     createMutation.mutate({
+      num: '',
       description: 'New Transaction',
       datePosted: today,
       notes: '',
-      currency: 'USD',
+      currency,
       splits: [
         { id: generateGuid(), accountId: account.id, value: 0, quantity: 0, reconciledState: 'n', reconcileDate: null, memo: '', action: '', onlineId: null },
         { id: generateGuid(), accountId: imbalanceAcc.id, value: 0, quantity: 0, reconciledState: 'n', reconcileDate: null, memo: '', action: '', onlineId: null },
@@ -353,10 +374,7 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
     );
   }
 
-  const displayBalance = getAccountDisplayBalance(
-    sortedRows[sortedRows.length - 1]?.runningBalance ?? 0,
-    account.type
-  );
+  const displayBalance = getAccountDisplayBalance(summary?.balance ?? 0, account.type);
 
   const accountOptions = accounts
     .filter((a) => a.type !== 'ROOT' && !a.placeholder)
@@ -364,6 +382,66 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
     .sort((a, b) => a.label.localeCompare(b.label));
 
   const colLabels = getColumnLabels(account.type);
+  const digits = scuDigits(account.commodityScu);
+
+  // ── Reconcile mode ─────────────────────────────────────────────────────────
+  const reconciled = summary?.reconciled ?? null;
+  const session = reconcile && reconcile !== 'setup' ? reconcile : null;
+  const accountSplitIds = (txn: Transaction) =>
+    txn.splits.filter((s) => s.accountId === account.id).map((s) => s.id);
+
+  // While reconciling, only unreconciled rows up to the statement date are listed
+  const visibleRows = session ? sessionRows : sortedRows;
+  const openingRaw = reconciled?.balance ?? 0;
+  const tickedRaw = visibleRows.reduce((sum, r) => sum + (ticked.has(r.txn.id) ? r.split.quantity : 0), 0);
+
+  /** Register balance at the end of `date`, from the last transaction on or before it */
+  const balanceAt = useCallback(async (date: string) => {
+    const page = await fetchTransactions({ accountId: account.id, to: date, order: 'desc', limit: 1 });
+    return getAccountDisplayBalance(page.items[0]?.balance ?? 0, account.type);
+  }, [account.id, account.type]);
+
+  const reconcileMutation = useMutation({
+    mutationFn: (states: Record<string, Split['reconciledState']>) =>
+      reconcileAccount(account.id, session!.statementDate, states),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      setReconcile(null);
+    },
+    onError: (err: Error) => setReconcileError(err.message),
+  });
+
+  async function startReconcile(s: ReconcileSession) {
+    setReconcileError(null);
+    try {
+      const items = await fetchAllTransactions({ accountId: account.id, to: s.statementDate, reconciled: ['n', 'c'] });
+      const rows = items.map((item) => toRow(item, account.id)).filter((r) => r.split.reconciledState !== 'y');
+      setSessionRows(rows);
+      // Splits already marked cleared start out ticked
+      setTicked(new Set(rows.filter((r) => r.split.reconciledState === 'c').map((r) => r.txn.id)));
+      setReconcile(s);
+    } catch (err) {
+      setReconcileError((err as Error).message);
+    }
+  }
+
+  function toggleTicked(txnId: string) {
+    setTicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(txnId)) next.delete(txnId); else next.add(txnId);
+      return next;
+    });
+  }
+
+  /** Finish marks ticked splits reconciled, postpone saves them as cleared; unticking clears 'c' */
+  function saveReconcile(tickedState: 'y' | 'c') {
+    const states: Record<string, Split['reconciledState']> = {};
+    for (const { txn, split } of visibleRows) {
+      const state = ticked.has(txn.id) ? tickedState : split.reconciledState === 'c' ? 'n' : null;
+      if (state) for (const id of accountSplitIds(txn)) states[id] = state;
+    }
+    reconcileMutation.mutate(states);
+  }
 
   return (
     <div className="flex flex-col h-full">
@@ -371,13 +449,20 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
       <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
         <div>
           <h2 className="font-semibold text-gray-100">{account.name}</h2>
-          <p className="text-xs text-gray-500 mt-0.5">{sortedRows.length} transactions</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {total} transactions
+            {reconciled?.lastDate && (
+              <> · last reconciled {formatDate(reconciled.lastDate)} at{' '}
+                {formatCurrency(getAccountDisplayBalance(reconciled.balance, account.type), false, account.commodity)}
+              </>
+            )}
+          </p>
         </div>
         <div className="flex items-center gap-3">
           <div className="text-right">
             <p className="text-xs text-gray-500">Balance</p>
             <p className={cn('font-mono font-semibold', displayBalance < 0 ? 'text-red-400' : 'text-emerald-400')}>
-              {formatCurrency(displayBalance)}
+              {formatCurrency(displayBalance, false, account.commodity)}
             </p>
           </div>
         </div>
@@ -399,8 +484,49 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
           <Plus size={14} />
           Add Transaction
         </button>
+        <button
+          onClick={() => setReconcile('setup')}
+          disabled={reconcile !== null}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 border border-white/10 rounded hover:bg-white/5 disabled:opacity-40 transition-colors"
+        >
+          <Scale size={14} />
+          Reconcile
+        </button>
       </div>
 
+      {saveError && (
+        <div className="flex items-start gap-2 mx-4 mt-2 text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <AlertCircle size={13} className="mt-0.5 flex-shrink-0" />
+          <span className="flex-1">Not saved: {saveError}</span>
+          <button onClick={() => setSaveError(null)} className="text-red-400/60 hover:text-red-300"><X size={12} /></button>
+        </div>
+      )}
+
+      {reconcile === 'setup' && (
+        <ReconcileStart
+          account={account}
+          defaultBalance={balanceAt}
+          lastDate={reconciled?.lastDate ?? null}
+          error={reconcileError}
+          onStart={startReconcile}
+          onCancel={() => setReconcile(null)}
+        />
+      )}
+      {session && (
+        <ReconcileSummary
+          account={account}
+          session={session}
+          openingBalance={getAccountDisplayBalance(openingRaw, account.type)}
+          clearedBalance={getAccountDisplayBalance(openingRaw + tickedRaw, account.type)}
+          digits={digits}
+          pending={reconcileMutation.isPending}
+          error={reconcileError}
+          onFinish={() => saveReconcile('y')}
+          onPostpone={() => saveReconcile('c')}
+          onCancel={() => setReconcile(null)}
+        />
+      )}
+
       {/* Table */}
       <div className="flex-1 overflow-auto">
         <table className="w-full text-sm border-collapse">
@@ -423,8 +549,8 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
             </tr>
           </thead>
           <tbody>
-            {sortedRows.map(({ txn, split, otherSplits, runningBalance }, i) => {
-              const amount = split.value;
+            {visibleRows.map(({ txn, split, otherSplits, runningBalance }, i) => {
+              const amount = split.quantity;
               const displayRunning = getAccountDisplayBalance(runningBalance, account.type);
               const isExpanded = expandedTxns.has(txn.id);
               const isSplitTxn = otherSplits.length > 1;
@@ -443,7 +569,16 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
                   }}
                 >
                   <td className="px-3 py-2 text-center">
-                    <ReconcileIcon state={split.reconciledState} />
+                    {session ? (
+                      <input
+                        type="checkbox"
+                        checked={ticked.has(txn.id)}
+                        onChange={() => toggleTicked(txn.id)}
+                        title="Cleared on this statement"
+                      />
+                    ) : (
+                      <ReconcileIcon state={split.reconciledState} />
+                    )}
                   </td>
                   <td className="px-3 py-2 font-mono text-gray-400 text-xs">
                     <EditableCell
@@ -477,7 +612,7 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
                   </td>
                   <td className="px-3 py-2 text-right">
                     <EditableCell
-                      value={amount <= 0 ? Math.abs(amount).toFixed(2) : ''}
+                      value={amount <= 0 ? Math.abs(amount).toFixed(digits) : ''}
                       type="number"
                       onSave={(v) => handleUpdateAmount(txn, split, v ? '-' + v : '0')}
                       className={cn(colLabels.leftColor, 'font-mono text-right')}
@@ -485,7 +620,7 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
                   </td>
                   <td className="px-3 py-2 text-right">
                     <EditableCell
-                      value={amount > 0 ? amount.toFixed(2) : ''}
+                      value={amount > 0 ? amount.toFixed(digits) : ''}
                       type="number"
                       onSave={(v) => handleUpdateAmount(txn, split, v || '0')}
                       className={cn(colLabels.rightColor, 'font-mono text-right')}
@@ -495,7 +630,7 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
                     'px-3 py-2 text-right font-mono text-xs',
                     displayRunning < 0 ? 'text-red-400' : 'text-gray-400'
                   )}>
-                    {formatCurrency(displayRunning)}
+                    {formatCurrency(displayRunning, false, account.commodity)}
                   </td>
                   <td className="px-3 py-2">
                     <div className="flex items-center gap-1">
@@ -521,8 +656,13 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
                   </td>
                 </tr>
                 {isExpanded && otherSplits.map((s) => {
-                  const accName = accounts.find((a) => a.id === s.accountId)?.name ?? '?';
+                  const splitAcc = accounts.find((a) => a.id === s.accountId);
+                  const accName = splitAcc?.name ?? '?';
                   const sAmt = s.value;
+                  // Foreign-commodity splits also show what moved in their own units
+                  const foreign = splitAcc && splitAcc.commodity !== txn.currency
+                    ? ` (${formatCurrency(Math.abs(s.quantity), false, splitAcc.commodity)})`
+                    : '';
                   return (
                     <tr key={s.id} className="bg-blue-950/20 border-b border-blue-900/20">
                       <td className="px-3 py-1.5" />
@@ -535,10 +675,10 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
                       </td>
                       <td className="px-3 py-1.5 text-xs text-blue-400/80">{accName}</td>
                       <td className="px-3 py-1.5 text-right font-mono text-xs text-gray-400">
-                        {sAmt < 0 ? formatCurrency(Math.abs(sAmt)) : ''}
+                        {sAmt < 0 ? formatCurrency(Math.abs(sAmt), false, txn.currency) + foreign : ''}
                       </td>
                       <td className="px-3 py-1.5 text-right font-mono text-xs text-gray-400">
-                        {sAmt > 0 ? formatCurrency(sAmt) : ''}
+                        {sAmt > 0 ? formatCurrency(sAmt, false, txn.currency) + foreign : ''}
                       </td>
                       <td className="px-3 py-1.5" />
                       <td className="px-3 py-1.5" />
@@ -550,15 +690,20 @@ export function Register({ account, accounts, transactions }: RegisterProps) {
             })}
           </tbody>
         </table>
-        {sortedRows.length === 0 && (
+        {!session && hasNextPage && (
+          <div ref={sentinelRef} className="py-4 text-center text-xs text-gray-600">
+            Loading more…
+          </div>
+        )}
+        {visibleRows.length === 0 && !isLoading && (
           <div className="text-center py-16 text-gray-600">
-            No transactions found
+            {session ? 'Nothing left to reconcile up to this statement date' : 'No transactions found'}
           </div>
         )}
       </div>
 
       {contextMenu && (() => {
-        const row = sortedRows.find((r) => r.txn.id === contextMenu.txnId);
+        const row = visibleRows.find((r) => r.txn.id === contextMenu.txnId);
         if (!row) return null;
         return (
           <TransactionContextMenu
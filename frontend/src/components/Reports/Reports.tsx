@@ -1,14 +1,24 @@
-import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { ChevronRight, ChevronDown, X, Search, PiggyBank, Save } from 'lucide-react';
-import type { Account, Transaction } from '../../types';
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ChevronRight, ChevronDown, Search, PiggyBank, Save, Repeat, Lightbulb } from 'lucide-react';
+import type { Account, Budget, Price, Recurrence, Transaction } from '../../types';
 import { cn, formatCurrency, buildAccountTree } from '../../lib/utils';
 import type { AccountNode } from '../../types';
-import { fetchBudget, saveBudget } from '../../lib/api';
+import { updateBudget } from '../../lib/api';
+import { budgetAmount, budgetPeriodIndex, budgetPeriods } from '../../types/budget';
+import { buildMonthColumns, budgetMonths, monthlyBalances, rolloverAvailable } from '../../lib/budget';
+import { useAppStore } from '../../store/useAppStore';
+import { useCurrencyConverter } from '../../lib/currency';
+import { BudgetPicker } from '../BudgetPicker/BudgetPicker';
+import { BudgetAmountsEditor } from '../BudgetAmountsEditor/BudgetAmountsEditor';
+import { BudgetSuggestions } from '../BudgetSuggestions/BudgetSuggestions';
+import { DrilldownPanel, type DrilldownTarget } from '../DrilldownPanel/DrilldownPanel';
 
 interface ReportsProps {
   accounts: Account[];
   transactions: Transaction[];
+  prices: Price[];
+  budgets: Budget[];
 }
 
 type ReportType = 'income' | 'balance';
@@ -27,12 +37,10 @@ interface ColDef {
   getValue: (id: string) => number;
 }
 
-interface DrilldownTarget {
-  label: string;
-  accountIds: Set<string>;
-  from: string;
-  to: string;
-  kind: 'income' | 'expense';
+/** Budget for each month column and for all of them; with rollover, what was available */
+interface ColumnBudgets {
+  byCol: (number | null)[];
+  total: number | null;
 }
 
 interface CtxMenu {
@@ -55,25 +63,34 @@ function collectAllIds(node: AccountNode): string[] {
   return [node.id, ...node.children.flatMap(collectAllIds)];
 }
 
-/** Build an array of calendar months between two ISO date strings (inclusive). */
-function buildMonthColumns(from: string, to: string): { label: string; from: string; to: string }[] {
-  const cols: { label: string; from: string; to: string }[] = [];
-  const [fy, fm] = from.split('-').map(Number);
-  const [ty, tm] = to.split('-').map(Number);
-  let y = fy, m = fm;
-  while (y < ty || (y === ty && m <= tm)) {
-    const start = `${y}-${String(m).padStart(2, '0')}-01`;
-    const lastDay = new Date(y, m, 0).getDate();
-    const end = `${y}-${String(m).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
-    cols.push({
-      label: new Date(y, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
-      from: start,
-      to: end,
-    });
-    m++;
-    if (m > 12) { m = 1; y++; }
-  }
-  return cols;
+/** Whether any of the accounts has an amount in the budget */
+function hasBudget(budget: Budget | null, ids: string[]): boolean {
+  return !!budget && ids.some((id) => budget.amounts[id]?.some((v) => v != null));
+}
+
+/** Sum of the accounts' amounts for one period of the budget */
+function periodBudget(budget: Budget | null, ids: string[], period: number): number {
+  return budget ? ids.reduce((s, id) => s + (budget.amounts[id]?.[period] ?? 0), 0) : 0;
+}
+
+/** Total of per-column budgets; null when no column has one */
+function sumBudgets(values: (number | null)[]): number | null {
+  return values.reduce<number | null>((s, v) => (v == null ? s : (s ?? 0) + v), null);
+}
+
+/** The period the budget column shows: the current one, else the nearer end of the budget */
+function shownPeriod(budget: Budget): number {
+  const i = budgetPeriodIndex(budget, TODAY);
+  if (i !== -1) return i;
+  return (budgetPeriods(budget)[0]?.from ?? TODAY) > TODAY ? 0 : budget.numPeriods - 1;
+}
+
+/** Short name of a budget's period length, for the "Budget/…" column */
+function periodUnit({ mult, periodType }: Recurrence): string {
+  if (periodType === 'year') return mult === 1 ? 'yr' : `${mult} yr`;
+  if (periodType === 'month' || periodType === 'end of month') return mult === 1 ? 'mo' : mult === 3 ? 'qtr' : `${mult} mo`;
+  if (periodType === 'week') return mult === 1 ? 'wk' : `${mult} wk`;
+  return 'period';
 }
 
 /** Returns the first day of the month N months ago from today. */
@@ -90,6 +107,19 @@ function currentMonthEnd(): string {
   return new Date(d.getFullYear(), d.getMonth() + 1, 0).toISOString().slice(0, 10);
 }
 
+/** Highlight for an actual against its budget: over (or, for income, short of) it or not */
+function budgetBg(kind: 'income' | 'expense' | undefined, actual: number, budgeted: number | null): string {
+  if (budgeted == null) return '';
+  // $0 budget: any actual spending is over budget
+  if (budgeted === 0) {
+    return actual > 0.005
+      ? (kind === 'expense' ? 'bg-red-500/15' : 'bg-amber-500/10')
+      : 'bg-emerald-500/10';
+  }
+  if (kind === 'expense') return actual > budgeted ? 'bg-red-500/15' : 'bg-emerald-500/10';
+  return actual >= budgeted ? 'bg-emerald-500/10' : 'bg-amber-500/10';
+}
+
 function sortedChildren(children: AccountNode[], cols: ColDef[], sortColIdx: number | null): AccountNode[] {
   if (sortColIdx === null) return children;
   return [...children].sort((a, b) => {
@@ -103,230 +133,67 @@ function sortedChildren(children: AccountNode[], cols: ColDef[], sortColIdx: num
   });
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Drilldown panel
-// ─────────────────────────────────────────────────────────────────────────────
-
-function DrilldownPanel({
-  target,
-  transactions,
-  accounts,
-  onClose,
-}: {
-  target: DrilldownTarget;
-  transactions: Transaction[];
-  accounts: Account[];
-  onClose: () => void;
-}) {
-  const [width, setWidth] = useState(360);
-  const isDragging = useRef(false);
-  const dragStartX = useRef(0);
-  const dragStartWidth = useRef(0);
-
-  const handleDragStart = useCallback((e: React.MouseEvent) => {
-    isDragging.current = true;
-    dragStartX.current = e.clientX;
-    dragStartWidth.current = width;
-    e.preventDefault();
-  }, [width]);
-
-  useEffect(() => {
-    const onMouseMove = (e: MouseEvent) => {
-      if (!isDragging.current) return;
-      const delta = dragStartX.current - e.clientX;
-      setWidth(Math.max(260, Math.min(700, dragStartWidth.current + delta)));
-    };
-    const onMouseUp = () => { isDragging.current = false; };
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
-    return () => {
-      document.removeEventListener('mousemove', onMouseMove);
-      document.removeEventListener('mouseup', onMouseUp);
-    };
-  }, []);
-
-  const accountMap = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
-
-  const rows = useMemo(() => {
-    const result: {
-      txnId: string;
-      date: string;
-      description: string;
-      amount: number;
-      counterpart: string;
-    }[] = [];
-
-    for (const txn of transactions) {
-      if (txn.datePosted < target.from || txn.datePosted > target.to) continue;
-
-      const relevantSplits = txn.splits.filter((s) => target.accountIds.has(s.accountId));
-      if (relevantSplits.length === 0) continue;
-
-      const rawSum = relevantSplits.reduce((s, sp) => s + sp.value, 0);
-      const amount = target.kind === 'income' ? -rawSum : rawSum;
-
-      const otherSplits = txn.splits.filter((s) => !target.accountIds.has(s.accountId));
-      const counterpart =
-        otherSplits.length === 0 ? '—'
-        : otherSplits.length === 1 ? (accountMap.get(otherSplits[0].accountId)?.name ?? '?')
-        : 'Split';
-
-      result.push({
-        txnId: txn.id,
-        date: txn.datePosted,
-        description: txn.description,
-        amount,
-        counterpart,
-      });
-    }
-
-    return result.sort((a, b) => b.date.localeCompare(a.date));
-  }, [target, transactions, accountMap]);
-
-  const total = rows.reduce((s, r) => s + r.amount, 0);
-
-  return (
-    <div className="flex-shrink-0 flex" style={{ width }}>
-      {/* Resize handle */}
-      <div
-        className="w-1 flex-shrink-0 cursor-col-resize hover:bg-blue-500/50 active:bg-blue-500/70 transition-colors relative"
-        onMouseDown={handleDragStart}
-      >
-        <div className="absolute inset-y-0 -left-1 -right-1" />
-      </div>
-      <div className="flex-1 border-l border-white/10 flex flex-col bg-gray-900/80 min-w-0">
-      <div className="px-4 py-3 border-b border-white/10 flex items-start justify-between gap-2 flex-shrink-0">
-        <div>
-          <p className="font-semibold text-gray-100 text-sm leading-snug">{target.label}</p>
-          <p className="text-xs text-gray-500 mt-0.5">{rows.length} transaction{rows.length !== 1 ? 's' : ''}</p>
-        </div>
-        <button onClick={onClose} className="text-gray-600 hover:text-gray-300 p-0.5 mt-0.5 flex-shrink-0">
-          <X size={14} />
-        </button>
-      </div>
-
-      <div className="flex-1 overflow-auto">
-        {rows.length === 0 ? (
-          <div className="flex items-center justify-center h-24 text-gray-600 text-xs">
-            No transactions found
-          </div>
-        ) : (
-          <table className="w-full text-xs">
-            <thead className="sticky top-0 bg-gray-900 border-b border-white/10 z-10">
-              <tr className="text-gray-600">
-                <th className="px-3 py-2 text-left w-16">Date</th>
-                <th className="px-3 py-2 text-left">Description</th>
-                <th className="px-3 py-2 text-right w-24">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              {rows.map((row, i) => (
-                <tr key={i} className="border-b border-white/5 hover:bg-white/3">
-                  <td className="px-3 py-2 font-mono text-gray-500 whitespace-nowrap">
-                    {row.date.slice(5).replace('-', '/')}
-                  </td>
-                  <td className="px-3 py-2">
-                    <p className="text-gray-300 truncate max-w-[160px]">{row.description || <span className="italic text-gray-600">—</span>}</p>
-                    <p className="text-gray-600 truncate max-w-[160px]">{row.counterpart}</p>
-                  </td>
-                  <td className={cn(
-                    'px-3 py-2 text-right font-mono tabular-nums',
-                    row.amount >= 0 ? 'text-emerald-400' : 'text-red-400'
-                  )}>
-                    {formatCurrency(Math.abs(row.amount))}
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        )}
-      </div>
-
-      <div className="px-4 py-2.5 border-t border-white/10 flex items-center justify-between flex-shrink-0">
-        <span className="text-xs text-gray-500 font-semibold uppercase tracking-wide">Total</span>
-        <span className={cn('font-mono font-bold text-sm', total >= 0 ? 'text-emerald-400' : 'text-red-400')}>
-          {formatCurrency(Math.abs(total))}
-        </span>
-      </div>
-    </div>
-    </div>
-  );
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 // Income statement rows
 // ─────────────────────────────────────────────────────────────────────────────
 
 function BudgetCell({
-  nodeId,
-  isPlaceholder,
-  budgetTotal,
+  node,
+  budget,
+  budgetForPeriod,
   isSet,
   budgetMode,
   onSetBudget,
 }: {
-  nodeId: string;
-  isPlaceholder: boolean;
-  budgetTotal: number;
+  node: AccountNode;
+  budget: Budget | null;
+  budgetForPeriod: number;
   isSet: boolean;
   budgetMode: boolean;
-  onSetBudget: (id: string, v: number | null) => void;
+  onSetBudget: (id: string, periods: (number | null)[] | null) => void;
 }) {
+  const { reportCurrency } = useAppStore();
   const [editing, setEditing] = useState(false);
-  const [raw, setRaw] = useState('');
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => { if (editing) inputRef.current?.focus(); }, [editing]);
-
-  if (!budgetMode) return null;
-
-  const commit = () => {
-    const v = parseFloat(raw);
-    onSetBudget(nodeId, isNaN(v) || v < 0 ? null : v);
-    setEditing(false);
-  };
-
-  if (editing) {
-    return (
-      <td className="py-1 px-3 text-right w-28">
-        <input
-          ref={inputRef}
-          type="number"
-          min="0"
-          step="1"
-          value={raw}
-          onChange={(e) => setRaw(e.target.value)}
-          onBlur={commit}
-          onKeyDown={(e) => { if (e.key === 'Enter') commit(); if (e.key === 'Escape') setEditing(false); }}
-          className="bg-gray-800 border border-blue-500 rounded px-2 py-0.5 text-xs font-mono text-right w-24 outline-none text-gray-200"
-          placeholder="0.00"
-        />
-      </td>
-    );
-  }
+
+  if (!budgetMode || !budget) return null;
+
+  const own = budget.amounts[node.id];
+  const varies = !!own && own.some((v) => v !== own[0]);
 
   return (
     <td
-      className="py-1.5 px-3 text-right w-28 cursor-pointer group"
-      onDoubleClick={isPlaceholder ? undefined : () => { setRaw(budgetTotal > 0 ? budgetTotal.toFixed(2) : ''); setEditing(true); }}
-      title={isPlaceholder ? undefined : 'Double-click to set budget'}
+      className="py-1.5 px-3 text-right w-28 cursor-pointer group relative"
+      onDoubleClick={node.placeholder ? undefined : () => setEditing(true)}
+      title={node.placeholder || editing ? undefined
+        : varies ? 'Varies by period — double-click to edit'
+        : 'Double-click to set the budget for every period, per year or per period'}
     >
       {isSet ? (
-        <span className={cn('font-mono text-xs tabular-nums text-amber-400', !isPlaceholder && 'group-hover:brightness-125')}>
-          {formatCurrency(budgetTotal)}
+        <span className={cn('font-mono text-xs tabular-nums text-amber-400', !node.placeholder && 'group-hover:brightness-125')}>
+          {formatCurrency(budgetForPeriod, false, reportCurrency)}
+          {varies && <span className="text-amber-600">*</span>}
         </span>
       ) : (
-        <span className={cn('text-xs', isPlaceholder ? 'text-gray-800' : 'text-gray-700 group-hover:text-gray-500')}>
-          {isPlaceholder ? '—' : '+ set'}
+        <span className={cn('text-xs', node.placeholder ? 'text-gray-800' : 'text-gray-700 group-hover:text-gray-500')}>
+          {node.placeholder ? '—' : '+ set'}
         </span>
       )}
+      {editing && (
+        <BudgetAmountsEditor
+          budget={budget}
+          accountId={node.id}
+          accountName={node.name}
+          onApply={(periods) => { onSetBudget(node.id, periods); setEditing(false); }}
+          onClose={() => setEditing(false)}
+        />
+      )}
     </td>
   );
 }
 
 function IncomeRow({
   node, depth, cols, showTotal, sortColIdx, kind, onDrilldown, onContextMenu,
-  budgetMode, budgets, onSetBudget,
+  budgetMode, budget, budgetPeriod, columnBudgets, onSetBudget,
 }: {
   node: AccountNode;
   depth: number;
@@ -337,21 +204,31 @@ function IncomeRow({
   onDrilldown: (target: DrilldownTarget) => void;
   onContextMenu: (e: React.MouseEvent, target: DrilldownTarget) => void;
   budgetMode: boolean;
-  budgets: Map<string, number>;
-  onSetBudget: (id: string, v: number | null) => void;
+  budget: Budget | null;
+  /** Period shown in the budget column */
+  budgetPeriod: number;
+  columnBudgets: (ids: string[], kind: 'income' | 'expense') => ColumnBudgets;
+  onSetBudget: (id: string, periods: (number | null)[] | null) => void;
 }) {
+  const { reportCurrency } = useAppStore();
   const [open, setOpen] = useState(depth < 1);
   const hasChildren = node.children.length > 0;
 
   const totalByCol = cols.map((c) => sumTree(node, c.getValue));
   const grandTotal = totalByCol.reduce((s, v) => s + v, 0);
 
-  const allIds = new Set(collectAllIds(node));
+  const ids = collectAllIds(node);
+  const allIds = new Set(ids);
 
-  // Sum of monthly budgets across the subtree
-  const budgetTotal = Array.from(allIds).reduce((s, id) => s + (budgets.get(id) ?? 0), 0);
+  // Budgets across the subtree: for the budget column's period, then for
+  // each month column (prorated when the budget's periods aren't months, and
+  // what was available when it rolls over)
+  const isBudgetSet = hasBudget(budget, ids);
+  const budgetForPeriod = periodBudget(budget, ids, budgetPeriod);
+  const { byCol: budgetByCol, total: budgetTotal } = columnBudgets(ids, kind);
+  const rollover = budgetMode && !!budget?.rollover;
 
-  if (Math.abs(grandTotal) < 0.005 && !node.placeholder && budgetTotal === 0) return null;
+  if (Math.abs(grandTotal) < 0.005 && !node.placeholder && !isBudgetSet) return null;
 
   const orderedChildren = sortedChildren(node.children, cols, sortColIdx);
 
@@ -362,20 +239,13 @@ function IncomeRow({
     return { label: `${node.name} — Total`, accountIds: allIds, from: cols[0].from, to: cols[cols.length - 1].to, kind };
   }
 
-  function cellBg(actual: number, budget: number, isBudgetSet: boolean): string {
-    if (!budgetMode || !isBudgetSet) return '';
-    // $0 budget: any actual spending is over budget
-    if (budget === 0) {
-      return actual > 0.005
-        ? (kind === 'expense' ? 'bg-red-500/15' : 'bg-amber-500/10')
-        : 'bg-emerald-500/10';
-    }
-    const ratio = actual / budget;
-    if (kind === 'expense') {
-      return ratio > 1 ? 'bg-red-500/15' : 'bg-emerald-500/10';
-    } else {
-      return ratio >= 1 ? 'bg-emerald-500/10' : 'bg-amber-500/10';
-    }
+  function cellBg(actual: number, budgeted: number | null): string {
+    return budgetMode ? budgetBg(kind, actual, budgeted) : '';
+  }
+
+  /** With rollover, what the colour was measured against */
+  function availableTitle(available: number | null): string | undefined {
+    return rollover && available != null ? `${formatCurrency(available, false, reportCurrency)} available` : undefined;
   }
 
   return (
@@ -396,10 +266,10 @@ function IncomeRow({
         </td>
 
         <BudgetCell
-          nodeId={node.id}
-          isPlaceholder={!!node.placeholder}
-          budgetTotal={budgetTotal}
-          isSet={Array.from(allIds).some((id) => budgets.has(id))}
+          node={node}
+          budget={budget}
+          budgetForPeriod={budgetForPeriod}
+          isSet={isBudgetSet}
           budgetMode={budgetMode}
           onSetBudget={onSetBudget}
         />
@@ -408,7 +278,7 @@ function IncomeRow({
           const val = hasChildren ? totalByCol[i] : col.getValue(node.id);
           const show = Math.abs(val) > 0.005;
           const target = makeCellTarget(col);
-          const bg = cellBg(val, budgetTotal, Array.from(allIds).some((id) => budgets.has(id)));
+          const bg = cellBg(val, budgetByCol[i]);
           return (
             <td
               key={i}
@@ -419,10 +289,11 @@ function IncomeRow({
                   ? cn(val < 0 ? 'text-red-400' : 'text-emerald-400', 'cursor-pointer hover:brightness-125')
                   : 'text-gray-800'
               )}
+              title={availableTitle(budgetByCol[i])}
               onDoubleClick={show ? () => onDrilldown(target) : undefined}
               onContextMenu={show ? (e) => { e.preventDefault(); onContextMenu(e, target); } : undefined}
             >
-              {show ? formatCurrency(Math.abs(val)) : '—'}
+              {show ? formatCurrency(Math.abs(val), false, reportCurrency) : '—'}
             </td>
           );
         })}
@@ -430,9 +301,7 @@ function IncomeRow({
         {showTotal && (() => {
           const show = Math.abs(grandTotal) > 0.005;
           const target = makeTotalTarget();
-          const periodBudget = budgetTotal * cols.length;
-          const isBudgetSet = Array.from(allIds).some((id) => budgets.has(id));
-          const bg = cellBg(grandTotal, periodBudget, isBudgetSet);
+          const bg = cellBg(grandTotal, budgetTotal);
           return (
             <td
               className={cn(
@@ -442,15 +311,16 @@ function IncomeRow({
                   ? cn(grandTotal < 0 ? 'text-red-400' : 'text-emerald-400', 'cursor-pointer hover:brightness-125')
                   : 'text-gray-800'
               )}
+              title={availableTitle(budgetTotal)}
               onDoubleClick={show ? () => onDrilldown(target) : undefined}
               onContextMenu={show ? (e) => { e.preventDefault(); onContextMenu(e, target); } : undefined}
             >
               {show ? (
                 <div>
-                  {formatCurrency(Math.abs(grandTotal))}
-                  {budgetMode && periodBudget > 0 && (
-                    <div className={cn('text-xs font-normal', grandTotal > periodBudget ? 'text-red-400' : 'text-emerald-500')}>
-                      {grandTotal > periodBudget ? '+' : '-'}{formatCurrency(Math.abs(grandTotal - periodBudget))}
+                  {formatCurrency(Math.abs(grandTotal), false, reportCurrency)}
+                  {budgetMode && budgetTotal != null && budgetTotal > 0 && (
+                    <div className={cn('text-xs font-normal', grandTotal > budgetTotal ? 'text-red-400' : 'text-emerald-500')}>
+                      {grandTotal > budgetTotal ? '+' : '-'}{formatCurrency(Math.abs(grandTotal - budgetTotal), false, reportCurrency)}
                     </div>
                   )}
                 </div>
@@ -465,7 +335,8 @@ function IncomeRow({
           key={child.id} node={child} depth={depth + 1}
           cols={cols} showTotal={showTotal} sortColIdx={sortColIdx}
           kind={kind} onDrilldown={onDrilldown} onContextMenu={onContextMenu}
-          budgetMode={budgetMode} budgets={budgets} onSetBudget={onSetBudget}
+          budgetMode={budgetMode} budget={budget} budgetPeriod={budgetPeriod}
+          columnBudgets={columnBudgets} onSetBudget={onSetBudget}
         />
       ))}
     </>
@@ -474,23 +345,17 @@ function IncomeRow({
 
 function SectionTotalRow({
   label, values, showTotal, colorClass = 'text-emerald-400', borderClass = 'border-white/20',
-  budgetMode, monthlyBudgetTotal, kind, isBudgetSet,
+  budgetMode, budgetForPeriod, budgets, kind, isBudgetSet,
 }: {
   label: string; values: number[]; showTotal: boolean; colorClass?: string; borderClass?: string;
-  budgetMode?: boolean; monthlyBudgetTotal?: number; kind?: 'income' | 'expense'; isBudgetSet?: boolean;
+  budgetMode?: boolean; budgetForPeriod?: number; budgets?: ColumnBudgets;
+  kind?: 'income' | 'expense'; isBudgetSet?: boolean;
 }) {
+  const { reportCurrency } = useAppStore();
   const total = values.reduce((s, v) => s + v, 0);
 
-  function cellBg(actual: number, budget: number): string {
-    if (!budgetMode || !isBudgetSet) return '';
-    if (budget === 0) {
-      return actual > 0.005
-        ? (kind === 'expense' ? 'bg-red-500/15' : 'bg-amber-500/10')
-        : 'bg-emerald-500/10';
-    }
-    const ratio = actual / budget;
-    if (kind === 'expense') return ratio > 1 ? 'bg-red-500/15' : 'bg-emerald-500/10';
-    return ratio >= 1 ? 'bg-emerald-500/10' : 'bg-amber-500/10';
+  function cellBg(actual: number, budgeted: number | null): string {
+    return budgetMode ? budgetBg(kind, actual, budgeted) : '';
   }
 
   return (
@@ -499,28 +364,28 @@ function SectionTotalRow({
       {/* budget column placeholder */}
       {budgetMode && (
         <td className="py-2 px-3 text-right w-28">
-          {isBudgetSet && (monthlyBudgetTotal ?? 0) >= 0 && (
+          {isBudgetSet && (budgetForPeriod ?? 0) >= 0 && (
             <span className="font-mono font-bold text-sm tabular-nums text-amber-400">
-              {formatCurrency(monthlyBudgetTotal!)}
+              {formatCurrency(budgetForPeriod ?? 0, false, reportCurrency)}
             </span>
           )}
         </td>
       )}
       {values.map((v, i) => (
-        <td key={i} className={cn('py-2 px-3 text-right font-mono font-bold text-sm tabular-nums', colorClass, cellBg(v, monthlyBudgetTotal ?? 0))}>
-          {formatCurrency(Math.abs(v))}
+        <td key={i} className={cn('py-2 px-3 text-right font-mono font-bold text-sm tabular-nums', colorClass, cellBg(v, budgets?.byCol[i] ?? null))}>
+          {formatCurrency(Math.abs(v), false, reportCurrency)}
         </td>
       ))}
       {showTotal && (() => {
-        const periodBudget = (monthlyBudgetTotal ?? 0) * values.length;
-        const bg = cellBg(total, periodBudget);
-        const variance = kind === 'expense' ? total - periodBudget : periodBudget - total;
+        const budgetTotal = budgets?.total ?? null;
+        const bg = cellBg(total, budgetTotal);
+        const variance = budgetTotal == null ? 0 : kind === 'expense' ? total - budgetTotal : budgetTotal - total;
         return (
           <td className={cn('py-2 px-3 text-right font-mono font-bold text-sm border-l border-white/10', colorClass, bg)}>
-            <div>{formatCurrency(Math.abs(total))}</div>
-            {budgetMode && isBudgetSet && (monthlyBudgetTotal ?? 0) >= 0 && (
+            <div>{formatCurrency(Math.abs(total), false, reportCurrency)}</div>
+            {budgetMode && budgetTotal != null && budgetTotal >= 0 && (
               <div className={cn('text-xs font-normal', variance > 0 ? 'text-red-400' : 'text-emerald-500')}>
-                {variance > 0 ? '+' : ''}{formatCurrency(variance)} vs budget
+                {variance > 0 ? '+' : ''}{formatCurrency(variance, false, reportCurrency)} vs budget
               </div>
             )}
           </td>
@@ -535,6 +400,7 @@ function SectionTotalRow({
 // ─────────────────────────────────────────────────────────────────────────────
 
 function BalanceRow({ node, depth, getValue }: { node: AccountNode; depth: number; getValue: (id: string) => number }) {
+  const { reportCurrency } = useAppStore();
   const [open, setOpen] = useState(depth < 1);
   const hasChildren = node.children.length > 0;
   const value = getValue(node.id);
@@ -554,10 +420,10 @@ function BalanceRow({ node, depth, getValue }: { node: AccountNode; depth: numbe
           </div>
         </td>
         <td className={cn('py-1.5 px-4 text-right font-mono text-sm', !hasChildren && Math.abs(value) > 0.005 ? value < 0 ? 'text-red-400' : 'text-emerald-400' : 'text-gray-600')}>
-          {!hasChildren && Math.abs(value) > 0.005 ? formatCurrency(Math.abs(value)) : ''}
+          {!hasChildren && Math.abs(value) > 0.005 ? formatCurrency(Math.abs(value), false, reportCurrency) : ''}
         </td>
         <td className={cn('py-1.5 px-4 text-right font-mono text-sm font-medium', total < 0 ? 'text-red-400' : 'text-emerald-400')}>
-          {Math.abs(total) > 0.005 ? formatCurrency(Math.abs(total)) : ''}
+          {Math.abs(total) > 0.005 ? formatCurrency(Math.abs(total), false, reportCurrency) : ''}
         </td>
       </tr>
       {open && hasChildren && node.children.map((child) => (
@@ -568,12 +434,13 @@ function BalanceRow({ node, depth, getValue }: { node: AccountNode; depth: numbe
 }
 
 function BSSectionTotal({ label, value, className }: { label: string; value: number; className?: string }) {
+  const { reportCurrency } = useAppStore();
   return (
     <tr className={cn('border-t-2 border-white/20', className)}>
       <td className="py-2 px-4 font-bold text-gray-200">{label}</td>
       <td />
       <td className={cn('py-2 px-4 text-right font-mono font-bold text-base', value < 0 ? 'text-red-400' : 'text-emerald-400')}>
-        {formatCurrency(Math.abs(value))}
+        {formatCurrency(Math.abs(value), false, reportCurrency)}
       </td>
     </tr>
   );
@@ -585,8 +452,11 @@ function BSSectionTotal({ label, value, className }: { label: string; value: num
 
 type MonthPreset = '3m' | '6m' | '12m' | 'ytd' | 'lastyear' | 'custom';
 
-export function Reports({ accounts, transactions }: ReportsProps) {
+export function Reports({ accounts, transactions, prices, budgets }: ReportsProps) {
   const queryClient = useQueryClient();
+  const { reportCurrency } = useAppStore();
+  const convert = useCurrencyConverter(accounts, transactions, prices);
+  const accountMap = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
   const [reportType, setReportType] = useState<ReportType>('income');
   const [sortColIdx, setSortColIdx] = useState<number | null>(null);
   const [monthPreset, setMonthPreset] = useState<MonthPreset>('3m');
@@ -596,29 +466,45 @@ export function Reports({ accounts, transactions }: ReportsProps) {
   const [drilldown, setDrilldown] = useState<DrilldownTarget | null>(null);
   const [ctxMenu, setCtxMenu] = useState<CtxMenu | null>(null);
 
-  // Budget state
+  // Budget state: the selected budget, with any unsaved edits to its amounts
+  // and rollover setting
   const [budgetMode, setBudgetMode] = useState(false);
-  const [localBudgets, setLocalBudgets] = useState<Map<string, number>>(new Map());
-  const [budgetDirty, setBudgetDirty] = useState(false);
-
-  const { data: budgetData } = useQuery({ queryKey: ['budget'], queryFn: fetchBudget });
-  useEffect(() => {
-    if (budgetData) setLocalBudgets(new Map(Object.entries(budgetData.monthly)));
-  }, [budgetData]);
+  const [budgetId, setBudgetId] = useState<string | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [edits, setEdits] = useState<({ id: string } & Pick<Budget, 'amounts' | 'rollover'>) | null>(null);
+
+  const savedBudget = budgets.find((b) => b.id === budgetId) ?? budgets[0] ?? null;
+  const budgetDirty = !!savedBudget && edits?.id === savedBudget.id;
+  const budget = useMemo(
+    () => (savedBudget && budgetDirty ? { ...savedBudget, amounts: edits.amounts, rollover: edits.rollover } : savedBudget),
+    [savedBudget, budgetDirty, edits],
+  );
+  const budgetPeriod = budget ? shownPeriod(budget) : 0;
+  const showBudget = budgetMode && !!budget;
 
   const saveMutation = useMutation({
-    mutationFn: saveBudget,
-    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ['budget'] }); setBudgetDirty(false); },
+    mutationFn: (b: Budget) => updateBudget(b.id, { amounts: b.amounts, rollover: b.rollover }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      setEdits(null);
+    },
   });
 
-  const handleSetBudget = useCallback((id: string, v: number | null) => {
-    setLocalBudgets((prev) => {
-      const next = new Map(prev);
-      if (v == null) next.delete(id); else next.set(id, v);
-      return next;
-    });
-    setBudgetDirty(true);
-  }, []);
+  /** Set (or with null, clear) the per-period amounts of some accounts */
+  const handleSetBudgets = useCallback((changes: Record<string, (number | null)[] | null>) => {
+    if (!budget) return;
+    const amounts = { ...budget.amounts };
+    for (const [id, periods] of Object.entries(changes)) {
+      if (periods == null) delete amounts[id];
+      else amounts[id] = periods;
+    }
+    setEdits({ id: budget.id, amounts, rollover: budget.rollover });
+  }, [budget]);
+
+  const handleSetBudget = useCallback(
+    (id: string, periods: (number | null)[] | null) => handleSetBudgets({ [id]: periods }),
+    [handleSetBudgets],
+  );
 
   const accountTree = useMemo(() => buildAccountTree(accounts, []), [accounts]);
 
@@ -658,29 +544,55 @@ export function Reports({ accounts, transactions }: ReportsProps) {
 
   useEffect(() => { setSortColIdx(null); }, [monthCols.length]);
 
-  const monthBalances = useMemo(() => {
-    return monthCols.map(({ from, to }) => {
-      const map = new Map<string, number>();
-      for (const txn of transactions) {
-        if (txn.datePosted < from || txn.datePosted > to) continue;
-        for (const split of txn.splits) {
-          map.set(split.accountId, (map.get(split.accountId) ?? 0) + split.value);
-        }
-      }
-      return map;
-    });
-  }, [transactions, monthCols]);
+  const monthBalances = useMemo(
+    () => monthlyBalances(monthCols, transactions, accountMap, reportCurrency, convert),
+    [transactions, monthCols, accountMap, reportCurrency, convert],
+  );
 
+  // Rollover carries each month's leftover into the next from the budget's
+  // first month on, so it needs the actuals of every month of the budget
+  const rolloverRecurrence = showBudget && budget.rollover ? budget.recurrence : null;
+  const rolloverPeriods = budget?.numPeriods ?? 0;
+  const rolloverMonths = useMemo(
+    () => (rolloverRecurrence ? budgetMonths({ numPeriods: rolloverPeriods, recurrence: rolloverRecurrence }) : []),
+    [rolloverRecurrence, rolloverPeriods],
+  );
+  const rolloverBalances = useMemo(
+    () => monthlyBalances(rolloverMonths, transactions, accountMap, reportCurrency, convert),
+    [transactions, rolloverMonths, accountMap, reportCurrency, convert],
+  );
+
+  const columnBudgets = useCallback((ids: string[], kind: 'income' | 'expense'): ColumnBudgets => {
+    const planned = monthCols.map((c) => (budget ? budgetAmount(budget, ids, c.from, c.to) : null));
+    if (!budget?.rollover) return { byCol: planned, total: sumBudgets(planned) };
+
+    const sign = kind === 'income' ? -1 : 1;
+    const available = rolloverAvailable(budget, ids, rolloverMonths, (i) =>
+      sign * ids.reduce((s, id) => s + (rolloverBalances[i].get(id) ?? 0), 0));
+    const monthIndex = new Map(rolloverMonths.map((m, i) => [m.from, i]));
+    const byCol = monthCols.map((c) => available[monthIndex.get(c.from) ?? -1] ?? null);
+    // Over several months: what the first had available, plus the later months' budgets
+    const first = byCol.findIndex((v) => v != null);
+    const total = first === -1 ? null : (byCol[first] ?? 0) + (sumBudgets(planned.slice(first + 1)) ?? 0);
+    return { byCol, total };
+  }, [budget, monthCols, rolloverMonths, rolloverBalances]);
+
+  // Balance sheet: sum quantities in each account's commodity, then value
+  // them in the report currency at the rate in effect on the report date
   const bsBalances = useMemo(() => {
     const map = new Map<string, number>();
     for (const txn of transactions) {
       if (txn.datePosted > bsDate) continue;
       for (const split of txn.splits) {
-        map.set(split.accountId, (map.get(split.accountId) ?? 0) + split.value);
+        map.set(split.accountId, (map.get(split.accountId) ?? 0) + split.quantity);
       }
     }
+    for (const [id, qty] of map) {
+      const commodity = accountMap.get(id)?.commodity ?? reportCurrency;
+      map.set(id, convert(qty, commodity, reportCurrency, bsDate));
+    }
     return map;
-  }, [transactions, bsDate]);
+  }, [transactions, bsDate, accountMap, reportCurrency, convert]);
 
   const assetNodes  = accountTree.filter((n) => ['ASSET', 'BANK', 'CASH', 'STOCK', 'MUTUAL', 'RECEIVABLE'].includes(n.type));
   const liabNodes   = accountTree.filter((n) => ['LIABILITY', 'CREDIT', 'PAYABLE'].includes(n.type));
@@ -715,9 +627,11 @@ export function Reports({ accounts, transactions }: ReportsProps) {
   const expenseTotals = monthBalances.map((mb) => expenseNodes.reduce((s, n) => s + sumTree(n, (id) => mb.get(id) ?? 0), 0));
   const netTotals     = incomeTotals.map((inc, i) => inc - expenseTotals[i]);
 
-  // Monthly budget totals per section
-  const incomeBudgetTotal  = incomeNodes.reduce((s, n) => s + Array.from(collectAllIds(n)).reduce((ss, id) => ss + (localBudgets.get(id) ?? 0), 0), 0);
-  const expenseBudgetTotal = expenseNodes.reduce((s, n) => s + Array.from(collectAllIds(n)).reduce((ss, id) => ss + (localBudgets.get(id) ?? 0), 0), 0);
+  // Section budgets: for the budget column's period and each month column
+  const incomeIds  = incomeNodes.flatMap(collectAllIds);
+  const expenseIds = expenseNodes.flatMap(collectAllIds);
+  const incomeBudgets  = columnBudgets(incomeIds, 'income');
+  const expenseBudgets = columnBudgets(expenseIds, 'expense');
 
   const showTotal = monthCols.length > 1;
 
@@ -805,8 +719,41 @@ export function Reports({ accounts, transactions }: ReportsProps) {
               Budget
             </button>
             {budgetMode && (
+              <BudgetPicker budgets={budgets} selectedId={savedBudget?.id ?? null} onSelect={setBudgetId} />
+            )}
+            {showBudget && (
+              <button
+                onClick={() => setEdits({ id: budget.id, amounts: budget.amounts, rollover: !budget.rollover })}
+                className={cn(
+                  'flex items-center gap-1 px-2 py-1 text-xs rounded border transition-colors',
+                  budget.rollover
+                    ? 'bg-amber-600/10 border-amber-500/40 text-amber-300'
+                    : 'border-white/10 text-gray-400 hover:text-gray-200'
+                )}
+                title="Rollover: carry what is left of each month's budget, or overspent, into the next month"
+              >
+                <Repeat size={12} />
+                Rollover
+              </button>
+            )}
+            {showBudget && (
               <button
-                onClick={() => saveMutation.mutate({ monthly: Object.fromEntries(localBudgets) })}
+                onClick={() => setSuggesting((v) => !v)}
+                className={cn(
+                  'flex items-center gap-1 px-2 py-1 text-xs rounded border transition-colors',
+                  suggesting
+                    ? 'bg-amber-600/10 border-amber-500/40 text-amber-300'
+                    : 'border-white/10 text-gray-400 hover:text-gray-200'
+                )}
+                title="Suggest budgets from recent spending"
+              >
+                <Lightbulb size={12} />
+                Suggest budgets
+              </button>
+            )}
+            {showBudget && (
+              <button
+                onClick={() => budget && saveMutation.mutate(budget)}
                 disabled={!budgetDirty || saveMutation.isPending}
                 className={cn(
                   'flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors',
@@ -830,9 +777,14 @@ export function Reports({ accounts, transactions }: ReportsProps) {
                 <thead>
                   <tr className="text-xs text-gray-500 border-b border-white/10">
                     <th className="py-2 pr-3 text-left w-52">Account</th>
-                    {budgetMode && (
-                      <th className="py-2 px-3 text-right w-28 text-amber-500/70">Budget/mo</th>
-                    )}
+                    {showBudget && budget && (() => {
+                      const period = budgetPeriods(budget)[budgetPeriod];
+                      return (
+                        <th className="py-2 px-3 text-right w-28 text-amber-500/70" title={period && `${period.from} – ${period.to}`}>
+                          Budget/{periodUnit(budget.recurrence)}
+                        </th>
+                      );
+                    })()}
                     {monthCols.map((col, i) => (
                       <th key={i} className="py-2 px-3 text-right min-w-[110px]">
                         <button onClick={() => handleColHeaderClick(i)} className={cn('flex items-center gap-1 ml-auto transition-colors', sortColIdx === i ? 'text-blue-400' : 'hover:text-gray-300')}>
@@ -853,31 +805,31 @@ export function Reports({ accounts, transactions }: ReportsProps) {
                 </thead>
                 <tbody>
                   <tr>
-                    <td colSpan={monthCols.length + (showTotal ? 2 : 1) + (budgetMode ? 1 : 0)} className="py-2 px-3 text-xs font-bold uppercase tracking-widest text-blue-400 pt-4">Income</td>
+                    <td colSpan={monthCols.length + (showTotal ? 2 : 1) + (showBudget ? 1 : 0)} className="py-2 px-3 text-xs font-bold uppercase tracking-widest text-blue-400 pt-4">Income</td>
                   </tr>
                   {incomeNodes.map((n) => (
-                    <IncomeRow key={n.id} node={n} depth={0} cols={incomeCols} showTotal={showTotal} sortColIdx={sortColIdx} kind="income" onDrilldown={handleDrilldown} onContextMenu={handleContextMenu} budgetMode={budgetMode} budgets={localBudgets} onSetBudget={handleSetBudget} />
+                    <IncomeRow key={n.id} node={n} depth={0} cols={incomeCols} showTotal={showTotal} sortColIdx={sortColIdx} kind="income" onDrilldown={handleDrilldown} onContextMenu={handleContextMenu} budgetMode={showBudget} budget={budget} budgetPeriod={budgetPeriod} columnBudgets={columnBudgets} onSetBudget={handleSetBudget} />
                   ))}
-                  <SectionTotalRow label="Total Income" values={incomeTotals} showTotal={showTotal} colorClass="text-blue-400" borderClass="border-blue-500/30" budgetMode={budgetMode} monthlyBudgetTotal={incomeBudgetTotal} kind="income" isBudgetSet={incomeBudgetTotal > 0 || incomeNodes.some((n) => Array.from(collectAllIds(n)).some((id) => localBudgets.has(id)))} />
+                  <SectionTotalRow label="Total Income" values={incomeTotals} showTotal={showTotal} colorClass="text-blue-400" borderClass="border-blue-500/30" budgetMode={showBudget} budgetForPeriod={periodBudget(budget, incomeIds, budgetPeriod)} budgets={incomeBudgets} kind="income" isBudgetSet={hasBudget(budget, incomeIds)} />
 
                   <tr>
-                    <td colSpan={monthCols.length + (showTotal ? 2 : 1) + (budgetMode ? 1 : 0)} className="py-2 px-3 text-xs font-bold uppercase tracking-widest text-orange-400 pt-6">Expenses</td>
+                    <td colSpan={monthCols.length + (showTotal ? 2 : 1) + (showBudget ? 1 : 0)} className="py-2 px-3 text-xs font-bold uppercase tracking-widest text-orange-400 pt-6">Expenses</td>
                   </tr>
                   {expenseNodes.map((n) => (
-                    <IncomeRow key={n.id} node={n} depth={0} cols={expenseCols} showTotal={showTotal} sortColIdx={sortColIdx} kind="expense" onDrilldown={handleDrilldown} onContextMenu={handleContextMenu} budgetMode={budgetMode} budgets={localBudgets} onSetBudget={handleSetBudget} />
+                    <IncomeRow key={n.id} node={n} depth={0} cols={expenseCols} showTotal={showTotal} sortColIdx={sortColIdx} kind="expense" onDrilldown={handleDrilldown} onContextMenu={handleContextMenu} budgetMode={showBudget} budget={budget} budgetPeriod={budgetPeriod} columnBudgets={columnBudgets} onSetBudget={handleSetBudget} />
                   ))}
-                  <SectionTotalRow label="Total Expenses" values={expenseTotals} showTotal={showTotal} colorClass="text-orange-400" borderClass="border-orange-400/30" budgetMode={budgetMode} monthlyBudgetTotal={expenseBudgetTotal} kind="expense" isBudgetSet={expenseBudgetTotal > 0 || expenseNodes.some((n) => Array.from(collectAllIds(n)).some((id) => localBudgets.has(id)))} />
+                  <SectionTotalRow label="Total Expenses" values={expenseTotals} showTotal={showTotal} colorClass="text-orange-400" borderClass="border-orange-400/30" budgetMode={showBudget} budgetForPeriod={periodBudget(budget, expenseIds, budgetPeriod)} budgets={expenseBudgets} kind="expense" isBudgetSet={hasBudget(budget, expenseIds)} />
 
                   <tr className="border-t-2 border-blue-500/50">
-                    <td className="py-3 px-3 font-bold text-white" colSpan={budgetMode ? 2 : 1}>Net Income</td>
+                    <td className="py-3 px-3 font-bold text-white" colSpan={showBudget ? 2 : 1}>Net Income</td>
                     {netTotals.map((v, i) => (
                       <td key={i} className={cn('py-3 px-3 text-right font-mono font-bold tabular-nums', v >= 0 ? 'text-emerald-400' : 'text-red-400')}>
-                        {formatCurrency(v)}
+                        {formatCurrency(v, false, reportCurrency)}
                       </td>
                     ))}
                     {showTotal && (
                       <td className={cn('py-3 px-3 text-right font-mono font-bold border-l border-white/10', netTotals.reduce((s, v) => s + v, 0) >= 0 ? 'text-emerald-400' : 'text-red-400')}>
-                        {formatCurrency(netTotals.reduce((s, v) => s + v, 0))}
+                        {formatCurrency(netTotals.reduce((s, v) => s + v, 0), false, reportCurrency)}
                       </td>
                     )}
                   </tr>
@@ -907,8 +859,8 @@ export function Reports({ accounts, transactions }: ReportsProps) {
                   {equityNodes.map((n) => <BalanceRow key={n.id} node={n} depth={0} getValue={(id) => -(bsBalances.get(id) ?? 0)} />)}
                   <tr className="border-b border-white/5 hover:bg-white/3">
                     <td className="py-1.5 px-4 text-gray-400" style={{ paddingLeft: '16px' }}>Retained Earnings</td>
-                    <td className={cn('py-1.5 px-4 text-right font-mono text-sm', retainedEarnings < 0 ? 'text-red-400' : 'text-emerald-400')}>{formatCurrency(retainedEarnings)}</td>
-                    <td className={cn('py-1.5 px-4 text-right font-mono text-sm font-medium', retainedEarnings < 0 ? 'text-red-400' : 'text-emerald-400')}>{formatCurrency(retainedEarnings)}</td>
+                    <td className={cn('py-1.5 px-4 text-right font-mono text-sm', retainedEarnings < 0 ? 'text-red-400' : 'text-emerald-400')}>{formatCurrency(retainedEarnings, false, reportCurrency)}</td>
+                    <td className={cn('py-1.5 px-4 text-right font-mono text-sm font-medium', retainedEarnings < 0 ? 'text-red-400' : 'text-emerald-400')}>{formatCurrency(retainedEarnings, false, reportCurrency)}</td>
                   </tr>
                   <BSSectionTotal label="Total Equity" value={-totalEquity + retainedEarnings} className="border-purple-400/40" />
 
@@ -916,7 +868,7 @@ export function Reports({ accounts, transactions }: ReportsProps) {
                     <td className="py-3 px-4 font-bold text-white text-base">Total Liabilities + Equity</td>
                     <td />
                     <td className="py-3 px-4 text-right font-mono font-bold text-base text-blue-400">
-                      {formatCurrency(-totalLiabs - totalEquity + retainedEarnings)}
+                      {formatCurrency(-totalLiabs - totalEquity + retainedEarnings, false, reportCurrency)}
                     </td>
                   </tr>
                 </tbody>
@@ -925,12 +877,25 @@ export function Reports({ accounts, transactions }: ReportsProps) {
           )}
         </div>
 
+        {reportType === 'income' && showBudget && suggesting && (
+          <BudgetSuggestions
+            budget={budget}
+            budgetPeriod={budgetPeriod}
+            accounts={accounts}
+            transactions={transactions}
+            convert={convert}
+            onAccept={handleSetBudgets}
+            onClose={() => setSuggesting(false)}
+          />
+        )}
+
         {/* Drilldown panel */}
         {drilldown && (
           <DrilldownPanel
             target={drilldown}
             transactions={transactions}
             accounts={accounts}
+            convert={convert}
             onClose={() => setDrilldown(null)}
           />
         )}
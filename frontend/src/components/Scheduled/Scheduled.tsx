@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Plus, Pencil, Trash2, PlayCircle, AlertCircle, Loader2, X } from 'lucide-react';
+import type { Account, ScheduledInstance, ScheduledTransaction } from '../../types';
+import { cn, formatCurrency, formatDate } from '../../lib/utils';
+import { deleteScheduled, fetchDueScheduled, runSinceLastRun, updateScheduled } from '../../lib/api';
+import { describeRecurrence, scheduledAmount } from '../../lib/scheduled';
+import { ScheduledEditor } from './ScheduledEditor';
+
+interface ScheduledProps {
+  accounts: Account[];
+  scheduled: ScheduledTransaction[];
+  defaultCurrency: string;
+}
+
+const instanceKey = (i: Pick<ScheduledInstance, 'scheduledId' | 'date'>) => `${i.scheduledId}|${i.date}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Since Last Run
+// ─────────────────────────────────────────────────────────────────────────────
+
+function SinceLastRun({ due, accounts, onClose }: { due: ScheduledInstance[]; accounts: Account[]; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  // Occurrences that can't be created here start out skipped
+  const [skipped, setSkipped] = useState(() => new Set(due.filter((i) => i.error).map(instanceKey)));
+  const [error, setError] = useState<string | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: () => runSinceLastRun(due.filter((i) => skipped.has(instanceKey(i)))),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      onClose();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const toggle = (key: string) =>
+    setSkipped((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+
+  const accountName = (id: string) => accounts.find((a) => a.id === id)?.name ?? '—';
+  const toCreate = due.length - skipped.size;
+
+  return (
+    <div className="border-b border-white/10 bg-blue-500/5">
+      <div className="px-6 py-3 flex items-center gap-3">
+        <PlayCircle size={15} className="text-blue-400" />
+        <h3 className="text-sm font-semibold text-gray-200">Since Last Run</h3>
+        <span className="text-xs text-gray-500">
+          Unticked occurrences are skipped and won't come up again
+        </span>
+        <button onClick={onClose} className="ml-auto p-1 rounded hover:bg-white/10 text-gray-500 hover:text-gray-300">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="max-h-72 overflow-auto px-6">
+        <table className="w-full text-sm">
+          <tbody>
+            {due.map((i) => {
+              const key = instanceKey(i);
+              const debit = i.transaction.splits.find((s) => s.value > 0);
+              const credit = i.transaction.splits.find((s) => s.value < 0);
+              return (
+                <tr key={key + i.transaction.id} className={cn('border-b border-white/5', skipped.has(key) && 'opacity-50')}>
+                  <td className="py-1.5 w-8">
+                    <input type="checkbox" checked={!skipped.has(key)} disabled={!!i.error} onChange={() => toggle(key)} />
+                  </td>
+                  <td className="py-1.5 w-28 text-gray-400">{formatDate(i.date)}</td>
+                  <td className="py-1.5 text-gray-200">
+                    {i.transaction.description}
+                    {i.error && (
+                      <span className="ml-2 text-xs text-amber-400 inline-flex items-center gap-1">
+                        <AlertCircle size={11} />{i.error}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 text-xs text-gray-500">
+                    {credit && accountName(credit.accountId)} → {debit && accountName(debit.accountId)}
+                  </td>
+                  <td className="py-1.5 text-right font-mono text-gray-300">
+                    {formatCurrency(debit?.value ?? 0, false, i.transaction.currency)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-6 py-3 flex items-center justify-end gap-3">
+        {error && <span className="text-xs text-red-400">{error}</span>}
+        <button
+          onClick={() => mutation.mutate()}
+          disabled={mutation.isPending}
+          className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-semibold rounded-lg transition-colors"
+        >
+          {mutation.isPending
+            ? <><Loader2 size={13} className="animate-spin" />Creating…</>
+            : toCreate > 0 ? `Create ${toCreate} transaction${toCreate !== 1 ? 's' : ''}` : 'Skip all'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function Scheduled({ accounts, scheduled, defaultCurrency }: ScheduledProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ScheduledTransaction | 'new' | null>(null);
+  const [showRun, setShowRun] = useState(false);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: due = [] } = useQuery({
+    queryKey: ['gnucash', 'scheduled-due'],
+    queryFn: fetchDueScheduled,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+
+  const toggleMutation = useMutation({
+    mutationFn: (sx: ScheduledTransaction) => updateScheduled(sx.id, { enabled: !sx.enabled }),
+    onSuccess: invalidate,
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteScheduled,
+    onSuccess: invalidate,
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const accountName = (id: string) => accounts.find((a) => a.id === id)?.name ?? '—';
+  const sorted = [...scheduled].sort((a, b) =>
+    (a.nextDate ?? '9999').localeCompare(b.nextDate ?? '9999') || a.name.localeCompare(b.name));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-100">Scheduled Transactions</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Recurring bills and transfers, shared with GnuCash's scheduled transaction editor
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRun(true)}
+            disabled={due.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 border border-white/10 rounded hover:bg-white/5 disabled:opacity-40 transition-colors"
+          >
+            <PlayCircle size={14} />
+            Since Last Run
+            {due.length > 0 && (
+              <span className="ml-1 px-1.5 rounded-full bg-blue-600 text-white text-xs">{due.length}</span>
+            )}
+          </button>
+          <button
+            onClick={() => setEditing('new')}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors"
+          >
+            <Plus size={14} />
+            New schedule
+          </button>
+        </div>
+      </div>
+
+      {showRun && due.length > 0 && (
+        <SinceLastRun due={due} accounts={accounts} onClose={() => setShowRun(false)} />
+      )}
+
+      {error && (
+        <div className="mx-6 mt-3 flex items-center gap-2 text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <AlertCircle size={13} />
+          {error}
+          <button onClick={() => setError(null)} className="ml-auto"><X size={12} /></button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-900 z-10">
+            <tr className="text-xs text-gray-500 border-b border-white/10">
+              <th className="px-4 py-2 text-left">Name</th>
+              <th className="px-4 py-2 text-left">Frequency</th>
+              <th className="px-4 py-2 text-left">Accounts</th>
+              <th className="px-4 py-2 text-right w-28">Amount</th>
+              <th className="px-4 py-2 text-left w-28">Next</th>
+              <th className="px-4 py-2 text-left w-28">Last run</th>
+              <th className="px-4 py-2 w-20 text-center">Enabled</th>
+              <th className="px-4 py-2 w-32"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((sx) => {
+              const tpl = sx.templates[0];
+              const to = tpl?.splits.filter((s) => s.amount > 0).map((s) => accountName(s.accountId)) ?? [];
+              const from = tpl?.splits.filter((s) => s.amount < 0).map((s) => accountName(s.accountId)) ?? [];
+              return (
+                <tr key={sx.id} className={cn('border-b border-white/5 hover:bg-white/3 group', !sx.enabled && 'opacity-50')}>
+                  <td className="px-4 py-2 text-gray-200">
+                    {sx.name}
+                    {sx.numOccur > 0 && (
+                      <p className="text-xs text-gray-600">{sx.remOccur} of {sx.numOccur} remaining</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-400">
+                    {sx.recurrences.map((r, i) => <p key={i}>{describeRecurrence(r)}</p>)}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500">
+                    {from.join(', ')} → {to.join(', ')}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-gray-300">
+                    {formatCurrency(scheduledAmount(sx), false, tpl?.currency ?? defaultCurrency)}
+                  </td>
+                  <td className="px-4 py-2 text-gray-400">{sx.nextDate ? formatDate(sx.nextDate) : <span className="text-gray-600">ended</span>}</td>
+                  <td className="px-4 py-2 text-gray-500">{sx.lastDate ? formatDate(sx.lastDate) : '—'}</td>
+                  <td className="px-4 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={sx.enabled}
+                      disabled={toggleMutation.isPending}
+                      onChange={() => toggleMutation.mutate(sx)}
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    {confirmId === sx.id ? (
+                      <div className="flex justify-end gap-1">
+                        <button
+                          onClick={() => { deleteMutation.mutate(sx.id); setConfirmId(null); }}
+                          className="px-2 py-0.5 bg-red-600 hover:bg-red-500 text-white text-xs font-semibold rounded transition-colors"
+                          title="Transactions it already created are kept"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setConfirmId(null)}
+                          className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => setEditing(sx)}
+                          className="p-1 rounded text-gray-500 hover:text-blue-400 hover:bg-white/5"
+                          title="Edit"
+                        >
+                          <Pencil size={13} />
+                        </button>
+                        <button
+                          onClick={() => setConfirmId(sx.id)}
+                          className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-white/5"
+                          title="Delete"
+                        >
+                          <Trash2 size={13} />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {scheduled.length === 0 && (
+          <div className="text-center py-16 text-gray-600">
+            No scheduled transactions — create one for rent, salary or other recurring entries
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <ScheduledEditor
+          accounts={accounts}
+          scheduled={editing === 'new' ? undefined : editing}
+          defaultCurrency={defaultCurrency}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, Loader2, Plus, Trash2, CalendarClock } from 'lucide-react';
+import type { Account, Recurrence, RecurrencePeriod, ScheduledTransaction, TemplateSplit } from '../../types';
+import { cn, formatCurrency, getAccountPath } from '../../lib/utils';
+import { createScheduled, updateScheduled, type ScheduledInput } from '../../lib/api';
+import { PERIOD_LABELS, PERIOD_UNITS } from '../../lib/scheduled';
+
+const TODAY = new Date().toISOString().slice(0, 10);
+
+type EndMode = 'never' | 'date' | 'count';
+
+/** One editable split row; `debit`/`credit` are the raw input strings */
+interface SplitRow {
+  id?: string;
+  accountId: string;
+  debit: string;
+  credit: string;
+  memo: string;
+  /** Formulas from GnuCash, dropped as soon as the amount is edited */
+  debitFormula?: string;
+  creditFormula?: string;
+}
+
+function toRow(s: TemplateSplit): SplitRow {
+  return {
+    id: s.id,
+    accountId: s.accountId,
+    debit: s.amount > 0 ? String(s.amount) : '',
+    credit: s.amount < 0 ? String(-s.amount) : '',
+    memo: s.memo,
+    debitFormula: s.debitFormula,
+    creditFormula: s.creditFormula,
+  };
+}
+
+/** A formula worth showing — anything other than the plain number GnuCash also stores */
+function shownFormula(row: SplitRow): string | null {
+  const f = row.debit ? row.debitFormula : row.creditFormula;
+  if (!f || !isNaN(Number(f.replace(/,/g, '')))) return null;
+  return f;
+}
+
+interface Props {
+  accounts: Account[];
+  /** Schedule to edit; omitted when creating a new one */
+  scheduled?: ScheduledTransaction;
+  defaultCurrency: string;
+  onClose: () => void;
+}
+
+export function ScheduledEditor({ accounts, scheduled, defaultCurrency, onClose }: Props) {
+  const queryClient = useQueryClient();
+  const template = scheduled?.templates[0];
+  const currency = template?.currency ?? defaultCurrency;
+  const [firstRec, ...otherRecs] = scheduled?.recurrences ?? [];
+
+  const postable = accounts
+    .filter((a) => a.type !== 'ROOT' && !a.placeholder && a.commoditySpace === 'CURRENCY' && a.commodity === currency)
+    .map((a) => ({ ...a, path: getAccountPath(a.id, accounts) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const [name,        setName]        = useState(scheduled?.name ?? '');
+  const [description, setDescription] = useState(template?.description ?? '');
+  const [startDate,   setStartDate]   = useState(firstRec?.start ?? scheduled?.startDate ?? TODAY);
+  const [periodType,  setPeriodType]  = useState<RecurrencePeriod>(firstRec?.periodType ?? 'month');
+  const [mult,        setMult]        = useState(String(firstRec?.mult ?? 1));
+  const [weekendAdj,  setWeekendAdj]  = useState<Recurrence['weekendAdjust']>(firstRec?.weekendAdjust ?? 'none');
+  const [endMode,     setEndMode]     = useState<EndMode>(
+    scheduled?.numOccur ? 'count' : scheduled?.endDate ? 'date' : 'never');
+  const [endDate,     setEndDate]     = useState(scheduled?.endDate ?? '');
+  const [numOccur,    setNumOccur]    = useState(String(scheduled?.numOccur || 12));
+  const [advance,     setAdvance]     = useState(String(scheduled?.advanceCreateDays ?? 0));
+  const [enabled,     setEnabled]     = useState(scheduled?.enabled ?? true);
+  const [rows,        setRows]        = useState<SplitRow[]>(() =>
+    template?.splits.map(toRow) ?? [
+      { accountId: '', debit: '', credit: '', memo: '' },
+      { accountId: '', debit: '', credit: '', memo: '' },
+    ]);
+  const [error,       setError]       = useState<string | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: (input: ScheduledInput) =>
+      scheduled ? updateScheduled(scheduled.id, input) : createScheduled(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+      onClose();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const amountOf = (r: SplitRow) => (parseFloat(r.debit) || 0) - (parseFloat(r.credit) || 0);
+  const imbalance = rows.reduce((sum, r) => sum + amountOf(r), 0);
+  const isMonthly = !['once', 'day', 'week'].includes(periodType);
+
+  const updateRow = (i: number, patch: Partial<SplitRow>) =>
+    setRows((prev) => prev.map((r, j) => {
+      if (j !== i) return r;
+      const next = { ...r, ...patch };
+      // Editing an amount replaces whatever formula GnuCash had stored
+      if ('debit' in patch || 'credit' in patch) {
+        next.debitFormula = undefined;
+        next.creditFormula = undefined;
+      }
+      return next;
+    }));
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) { setError('Give the schedule a name.'); return; }
+    const used = rows.filter((r) => r.accountId || amountOf(r));
+    if (used.length < 2 || used.some((r) => !r.accountId)) {
+      setError('Choose an account for every split (at least two).');
+      return;
+    }
+    if (Math.abs(imbalance) > 1e-9) { setError('Debits and credits must balance.'); return; }
+    if (endMode === 'date' && !endDate) { setError('Choose an end date.'); return; }
+
+    setError(null);
+    mutation.mutate({
+      name: name.trim(),
+      enabled,
+      autoCreate: scheduled?.autoCreate ?? false,
+      advanceCreateDays: parseInt(advance) || 0,
+      startDate,
+      endDate: endMode === 'date' ? endDate : null,
+      numOccur: endMode === 'count' ? parseInt(numOccur) || 0 : 0,
+      recurrences: [
+        { mult: Math.max(1, parseInt(mult) || 1), periodType, start: startDate, weekendAdjust: isMonthly ? weekendAdj : 'none' },
+        ...otherRecs,
+      ],
+      template: {
+        description: description.trim() || name.trim(),
+        currency,
+        splits: used.map((r) => ({
+          id: r.id,
+          accountId: r.accountId,
+          amount: amountOf(r),
+          memo: r.memo,
+          debitFormula: r.debitFormula,
+          creditFormula: r.creditFormula,
+        })),
+      },
+    });
+  }
+
+  const selectClass = 'w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 outline-none focus:border-blue-500 transition-colors';
+  const inputClass  = 'w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 placeholder-gray-600 outline-none focus:border-blue-500 transition-colors';
+  const cellClass   = 'w-full bg-gray-800 border border-white/10 rounded px-2 py-1 text-sm text-gray-100 placeholder-gray-600 outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="relative w-full max-w-2xl max-h-[90vh] overflow-auto bg-gray-900 border border-white/10 rounded-2xl shadow-2xl">
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-white/5">
+          <CalendarClock size={16} className="text-blue-400" />
+          <h2 className="text-sm font-semibold text-gray-100">
+            {scheduled ? 'Edit scheduled transaction' : 'New scheduled transaction'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-1 rounded hover:bg-white/10 text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            <X size={15} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1.5">Name</label>
+              <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Rent" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1.5">Transaction description</label>
+              <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder={name || 'Same as name'} className={inputClass} />
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-1.5">Frequency</label>
+              <select value={periodType} onChange={(e) => setPeriodType(e.target.value as RecurrencePeriod)} className={selectClass}>
+                {Object.entries(PERIOD_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1.5">Starting on</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            </div>
+
+            {periodType !== 'once' && (
+              <div>
+                <label className="block text-xs text-gray-500 mb-1.5">Every</label>
+                <div className="flex items-center gap-2">
+                  <input type="number" min={1} value={mult} onChange={(e) => setMult(e.target.value)} className={cn(inputClass, 'w-20')} />
+                  <span className="text-sm text-gray-500">{PERIOD_UNITS[periodType]}</span>
+                </div>
+              </div>
+            )}
+            {isMonthly && (
+              <div>
+                <label className="block text-xs text-gray-500 mb-1.5">If it falls on a weekend</label>
+                <select value={weekendAdj} onChange={(e) => setWeekendAdj(e.target.value as Recurrence['weekendAdjust'])} className={selectClass}>
+                  <option value="none">Keep the date</option>
+                  <option value="back">Use the Friday before</option>
+                  <option value="forward">Use the Monday after</option>
+                </select>
+              </div>
+            )}
+
+            {periodType !== 'once' && (
+              <div className="col-span-2">
+                <label className="block text-xs text-gray-500 mb-1.5">Ends</label>
+                <div className="flex items-center gap-3 text-sm text-gray-300">
+                  {(['never', 'date', 'count'] as EndMode[]).map((m) => (
+                    <label key={m} className="flex items-center gap-1.5 cursor-pointer">
+                      <input type="radio" checked={endMode === m} onChange={() => setEndMode(m)} />
+                      {m === 'never' ? 'Never' : m === 'date' ? 'On' : 'After'}
+                    </label>
+                  ))}
+                  {endMode === 'date' && (
+                    <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={cn(inputClass, 'w-40')} />
+                  )}
+                  {endMode === 'count' && (
+                    <>
+                      <input type="number" min={1} value={numOccur} onChange={(e) => setNumOccur(e.target.value)} className={cn(inputClass, 'w-20')} />
+                      <span className="text-gray-500">occurrences</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-1.5">Create in advance (days)</label>
+              <input type="number" min={0} value={advance} onChange={(e) => setAdvance(e.target.value)} className={inputClass} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer self-end pb-2">
+              <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+              Enabled
+            </label>
+          </div>
+
+          {otherRecs.length > 0 && (
+            <p className="text-xs text-gray-500">
+              This schedule has {otherRecs.length} more recurrence{otherRecs.length !== 1 ? 's' : ''} set up in GnuCash; they are kept as they are.
+            </p>
+          )}
+
+          {/* Splits */}
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="text-xs text-gray-500">Splits ({currency})</label>
+              <button
+                type="button"
+                onClick={() => setRows((prev) => [...prev, { accountId: '', debit: '', credit: '', memo: '' }])}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-400"
+              >
+                <Plus size={12} /> Add split
+              </button>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-600">
+                  <th className="text-left font-normal pb-1">Account</th>
+                  <th className="text-left font-normal pb-1 w-32">Memo</th>
+                  <th className="text-right font-normal pb-1 w-24">Debit</th>
+                  <th className="text-right font-normal pb-1 w-24">Credit</th>
+                  <th className="w-6"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r, i) => (
+                  <tr key={r.id ?? i}>
+                    <td className="pr-1 py-0.5">
+                      <select value={r.accountId} onChange={(e) => updateRow(i, { accountId: e.target.value })} className={cellClass}>
+                        <option value="">— choose —</option>
+                        {postable.map((a) => <option key={a.id} value={a.id}>{a.path}</option>)}
+                      </select>
+                    </td>
+                    <td className="pr-1 py-0.5">
+                      <input value={r.memo} onChange={(e) => updateRow(i, { memo: e.target.value })} className={cellClass} />
+                    </td>
+                    <td className="pr-1 py-0.5">
+                      <input type="number" step="any" value={r.debit} placeholder="0.00"
+                        onChange={(e) => updateRow(i, { debit: e.target.value, credit: '' })}
+                        className={cn(cellClass, 'text-right')} />
+                    </td>
+                    <td className="pr-1 py-0.5">
+                      <input type="number" step="any" value={r.credit} placeholder="0.00"
+                        onChange={(e) => updateRow(i, { credit: e.target.value, debit: '' })}
+                        className={cn(cellClass, 'text-right')} />
+                      {shownFormula(r) && (
+                        <p className="text-[10px] text-gray-600 text-right truncate" title={shownFormula(r)!}>= {shownFormula(r)}</p>
+                      )}
+                    </td>
+                    <td className="py-0.5">
+                      <button
+                        type="button"
+                        onClick={() => setRows((prev) => prev.filter((_, j) => j !== i))}
+                        disabled={rows.length <= 2}
+                        className="p-1 text-gray-600 hover:text-red-400 disabled:opacity-30"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {Math.abs(imbalance) > 1e-9 && (
+              <p className="text-xs text-amber-400 mt-1">Out of balance by {formatCurrency(Math.abs(imbalance), false, currency)}</p>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+              {error}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-gray-200 hover:bg-white/5 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={mutation.isPending}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              {mutation.isPending ? <><Loader2 size={13} className="animate-spin" />Saving…</> : scheduled ? 'Save changes' : 'Create schedule'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,23 @@
 import { useState, useMemo } from 'react';
-import { Search as SearchIcon, ExternalLink } from 'lucide-react';
-import type { Account, Transaction } from '../../types';
+import { Search as SearchIcon, ExternalLink, Loader2 } from 'lucide-react';
+import type { Account, Split, Transaction } from '../../types';
 import { cn, formatCurrency, formatDate, getAccountPath } from '../../lib/utils';
+import type { TransactionQuery } from '../../lib/api';
+import { useTransactionPages } from '../../lib/transactions';
 import { useAppStore } from '../../store/useAppStore';
 
 interface SearchProps {
   accounts: Account[];
-  transactions: Transaction[];
 }
 
-export function Search({ accounts, transactions }: SearchProps) {
+const SORT_OPTIONS: { value: string; label: string; sort: TransactionQuery['sort']; order: TransactionQuery['order'] }[] = [
+  { value: 'date-desc',   label: 'Newest first',   sort: 'date',        order: 'desc' },
+  { value: 'date-asc',    label: 'Oldest first',   sort: 'date',        order: 'asc'  },
+  { value: 'amount-desc', label: 'Largest first',  sort: 'amount',      order: 'desc' },
+  { value: 'description', label: 'Description',    sort: 'description', order: 'asc'  },
+];
+
+export function Search({ accounts }: SearchProps) {
   const { setSelectedAccount } = useAppStore();
   const [query, setQuery] = useState('');
   const [filterAccountId, setFilterAccountId] = useState('');
@@ -17,49 +25,43 @@ export function Search({ accounts, transactions }: SearchProps) {
   const [filterDateTo, setFilterDateTo] = useState('');
   const [filterAmountMin, setFilterAmountMin] = useState('');
   const [filterAmountMax, setFilterAmountMax] = useState('');
+  const [includeSubaccounts, setIncludeSubaccounts] = useState(false);
+  const [filterReconciled, setFilterReconciled] = useState<'' | Split['reconciledState']>('');
+  const [sortBy, setSortBy] = useState(SORT_OPTIONS[0].value);
 
   const accountMap = useMemo(
     () => new Map(accounts.map((a) => [a.id, a])),
     [accounts]
   );
 
-  const results = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    const amtMin = filterAmountMin ? parseFloat(filterAmountMin) : null;
-    const amtMax = filterAmountMax ? parseFloat(filterAmountMax) : null;
-
-    return transactions.filter((txn) => {
-      if (q) {
-        const descMatch = txn.description.toLowerCase().includes(q);
-        const notesMatch = txn.notes.toLowerCase().includes(q);
-        const memoMatch = txn.splits.some((s) => s.memo.toLowerCase().includes(q));
-        const amtMatch = txn.splits.some((s) =>
-          Math.abs(s.value).toFixed(2).includes(q)
-        );
-        if (!descMatch && !notesMatch && !memoMatch && !amtMatch) return false;
-      }
-
-      if (filterAccountId) {
-        if (!txn.splits.some((s) => s.accountId === filterAccountId)) return false;
-      }
-
-      if (filterDateFrom && txn.datePosted < filterDateFrom) return false;
-      if (filterDateTo && txn.datePosted > filterDateTo) return false;
+  const sortOption = SORT_OPTIONS.find((o) => o.value === sortBy) ?? SORT_OPTIONS[0];
+  const { items, total, isFetching, isLoading, hasNextPage, sentinelRef } = useTransactionPages({
+    q: query.trim(),
+    accountId: filterAccountId || undefined,
+    descendants: includeSubaccounts || undefined,
+    from: filterDateFrom || undefined,
+    to: filterDateTo || undefined,
+    minAmount: filterAmountMin ? parseFloat(filterAmountMin) : undefined,
+    maxAmount: filterAmountMax ? parseFloat(filterAmountMax) : undefined,
+    reconciled: filterReconciled ? [filterReconciled] : undefined,
+    sort: sortOption.sort,
+    order: sortOption.order,
+  });
 
-      if (amtMin !== null || amtMax !== null) {
-        const maxAbs = Math.max(...txn.splits.map((s) => Math.abs(s.value)));
-        if (amtMin !== null && maxAbs < amtMin) return false;
-        if (amtMax !== null && maxAbs > amtMax) return false;
+  // Accounts whose split is the one shown for a result
+  const shownAccountIds = useMemo(() => {
+    if (!filterAccountId) return null;
+    const ids = new Set([filterAccountId]);
+    if (includeSubaccounts) {
+      for (let grew = true; grew;) {
+        grew = false;
+        for (const a of accounts) {
+          if (a.parentId && ids.has(a.parentId) && !ids.has(a.id)) { ids.add(a.id); grew = true; }
+        }
       }
-
-      return true;
-    });
-  }, [transactions, query, filterAccountId, filterDateFrom, filterDateTo, filterAmountMin, filterAmountMax]);
-
-  const sortedResults = useMemo(
-    () => [...results].sort((a, b) => b.datePosted.localeCompare(a.datePosted)),
-    [results]
-  );
+    }
+    return ids;
+  }, [accounts, filterAccountId, includeSubaccounts]);
 
   const leafAccounts = useMemo(
     () =>
@@ -107,6 +109,15 @@ export function Search({ accounts, transactions }: SearchProps) {
                 <option key={a.id} value={a.id}>{a.path}</option>
               ))}
             </select>
+            <label className="flex items-center gap-1.5 text-xs text-gray-500">
+              <input
+                type="checkbox"
+                checked={includeSubaccounts}
+                disabled={!filterAccountId}
+                onChange={(e) => setIncludeSubaccounts(e.target.checked)}
+              />
+              Include subaccounts
+            </label>
           </div>
 
           <div className="flex flex-col gap-1">
@@ -151,6 +162,31 @@ export function Search({ accounts, transactions }: SearchProps) {
             />
           </div>
 
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Status</label>
+            <select
+              value={filterReconciled}
+              onChange={(e) => setFilterReconciled(e.target.value as '' | Split['reconciledState'])}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500"
+            >
+              <option value="">Any</option>
+              <option value="n">Not reconciled</option>
+              <option value="c">Cleared</option>
+              <option value="y">Reconciled</option>
+            </select>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-500">Sort</label>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value)}
+              className="bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-300 outline-none focus:border-blue-500"
+            >
+              {SORT_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+
           <button
             onClick={() => {
               setQuery('');
@@ -159,6 +195,8 @@ export function Search({ accounts, transactions }: SearchProps) {
               setFilterDateTo('');
               setFilterAmountMin('');
               setFilterAmountMax('');
+              setIncludeSubaccounts(false);
+              setFilterReconciled('');
             }}
             className="self-end px-3 py-1.5 text-sm text-gray-500 hover:text-gray-300 border border-white/10 rounded transition-colors"
           >
@@ -168,8 +206,9 @@ export function Search({ accounts, transactions }: SearchProps) {
       </div>
 
       {/* Results count */}
-      <div className="px-6 py-2 text-xs text-gray-500 border-b border-white/5">
-        {sortedResults.length} result{sortedResults.length !== 1 ? 's' : ''}
+      <div className="px-6 py-2 text-xs text-gray-500 border-b border-white/5 flex items-center gap-2">
+        {total} result{total !== 1 ? 's' : ''}
+        {isFetching && <Loader2 size={11} className="animate-spin" />}
       </div>
 
       {/* Results table */}
@@ -185,9 +224,9 @@ export function Search({ accounts, transactions }: SearchProps) {
             </tr>
           </thead>
           <tbody>
-            {sortedResults.map((txn) => {
-              const primarySplit = filterAccountId
-                ? txn.splits.find((s) => s.accountId === filterAccountId)
+            {items.map(({ transaction: txn }) => {
+              const primarySplit = shownAccountIds
+                ? txn.splits.find((s) => shownAccountIds.has(s.accountId))
                 : txn.splits[0];
               if (!primarySplit) return null;
               const acc = accountMap.get(primarySplit.accountId);
@@ -217,7 +256,7 @@ export function Search({ accounts, transactions }: SearchProps) {
                     'px-4 py-2.5 text-right font-mono text-sm',
                     primarySplit.value < 0 ? 'text-red-400' : 'text-emerald-400'
                   )}>
-                    {formatCurrency(primarySplit.value)}
+                    {formatCurrency(primarySplit.value, false, txn.currency)}
                   </td>
                   <td className="px-4 py-2.5">
                     <ExternalLink
@@ -230,7 +269,12 @@ export function Search({ accounts, transactions }: SearchProps) {
             })}
           </tbody>
         </table>
-        {sortedResults.length === 0 && (
+        {hasNextPage && (
+          <div ref={sentinelRef} className="py-4 text-center text-xs text-gray-600">
+            Loading more…
+          </div>
+        )}
+        {items.length === 0 && !isLoading && (
           <div className="flex flex-col items-center justify-center h-40 text-gray-600">
             <SearchIcon size={32} className="mb-2 opacity-30" />
             <p>No results found</p>
@@ -14,12 +14,22 @@ import { cn } from '../../lib/utils';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+type BookFormat = 'xml-gzip' | 'xml' | 'sqlite';
+
 interface Entry {
   name: string;
   isDir: boolean;
   isGnuCash: boolean;
+  /** How a .gnucash file is stored; null when it isn't a GnuCash book at all */
+  format: BookFormat | null;
 }
 
+const FORMAT_LABELS: Record<BookFormat, string> = {
+  'xml-gzip': 'XML',
+  xml:        'XML, uncompressed',
+  sqlite:     'SQLite',
+};
+
 interface DirListing {
   path: string;
   parent: string | null;
@@ -123,13 +133,13 @@ export function FilePicker({ mode, onSelect, onCancel }: FilePickerProps) {
 
     if (entry.isDir) {
       navigate(fullPath);
-    } else if (entry.isGnuCash) {
+    } else if (entry.isGnuCash && entry.format) {
       setSelected(fullPath);
     }
   }
 
   function handleEntryDoubleClick(entry: Entry) {
-    if (entry.isGnuCash && mode === 'open') {
+    if (entry.isGnuCash && entry.format && mode === 'open') {
       const fullPath = listing!.path.endsWith('/')
         ? listing!.path + entry.name
         : listing!.path + '/' + entry.name;
@@ -235,6 +245,17 @@ export function FilePicker({ mode, onSelect, onCancel }: FilePickerProps) {
                       <FileText size={14} className="text-blue-400/70 flex-shrink-0" />
                     )}
                     <span className="flex-1 truncate">{entry.name}</span>
+                    {entry.isGnuCash && !entry.isDir && (
+                      <span
+                        className={cn(
+                          'text-[10px] px-1.5 py-0.5 rounded flex-shrink-0',
+                          entry.format ? 'bg-white/5 text-gray-500' : 'bg-red-500/10 text-red-400/80'
+                        )}
+                        title={entry.format ? undefined : 'Not a GnuCash XML or SQLite book'}
+                      >
+                        {entry.format ? FORMAT_LABELS[entry.format] : 'Unreadable'}
+                      </span>
+                    )}
                     {entry.isDir && <ChevronRight size={12} className="text-gray-600 flex-shrink-0" />}
                     {isSelected && <Check size={12} className="text-blue-400 flex-shrink-0" />}
                   </button>
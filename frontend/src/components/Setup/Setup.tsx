@@ -71,6 +71,7 @@ function LinkPanel({ onDone }: { onDone: () => void }) {
             </button>
           </div>
           <p className="text-xs text-gray-600 mt-1.5">
+            XML (compressed or not) and SQLite books both work.
             GnuCash backups (.log, .gnucash.YYYYMMDD…) will be stored in the same directory.
           </p>
         </div>
@@ -101,11 +102,14 @@ const DEFAULT_ACCOUNTS = [
   { group: 'Liabilities', accounts: ['Credit Card'] },
   { group: 'Income',      accounts: ['Salary', 'Other Income'] },
   { group: 'Expenses',    accounts: ['Groceries', 'Utilities', 'Housing', 'Transportation', 'Other Expenses'] },
-  { group: 'Equity',      accounts: ['Opening Balances', 'Imbalance-USD'] },
+  { group: 'Equity',      accounts: ['Opening Balances', 'Imbalance'] },
 ];
 
+const HOME_CURRENCIES = ['USD', 'EUR', 'CAD', 'GBP', 'AUD', 'CHF', 'JPY', 'NZD', 'SEK', 'NOK', 'DKK', 'MXN'];
+
 function NewPanel({ onDone }: { onDone: () => void }) {
   const [filePath,   setFilePath]   = useState('');
+  const [currency,   setCurrency]   = useState('USD');
   const [showPicker, setShowPicker] = useState(false);
   const [loading,    setLoading]    = useState(false);
   const [error,      setError]      = useState<string | null>(null);
@@ -115,7 +119,7 @@ function NewPanel({ onDone }: { onDone: () => void }) {
     if (!filePath.trim()) return;
     setLoading(true); setError(null);
     try {
-      await apiPost('/api/setup/new', { filePath: filePath.trim() });
+      await apiPost('/api/setup/new', { filePath: filePath.trim(), currency });
       onDone();
     } catch (err: any) {
       setError(err.message);
@@ -160,6 +164,17 @@ function NewPanel({ onDone }: { onDone: () => void }) {
           <p className="text-xs text-gray-600 mt-1.5">The directory must already exist. The file will be created fresh.</p>
         </div>
 
+        <div>
+          <label className="block text-xs text-gray-500 mb-1.5">Home currency</label>
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="w-full bg-gray-800 border border-white/10 rounded-lg px-3 py-2.5 text-sm text-gray-100 outline-none focus:border-blue-500 transition-colors"
+          >
+            {HOME_CURRENCIES.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+
         {/* Account preview */}
         <div className="bg-gray-800/50 border border-white/5 rounded-lg p-3 space-y-2">
           <p className="text-xs text-gray-500 font-medium">Starter accounts that will be created:</p>
@@ -168,7 +183,7 @@ function NewPanel({ onDone }: { onDone: () => void }) {
               <div key={group}>
                 <p className="text-xs font-semibold text-gray-400">{group}</p>
                 {accounts.map((a) => (
-                  <p key={a} className="text-xs text-gray-600 pl-2">• {a}</p>
+                  <p key={a} className="text-xs text-gray-600 pl-2">• {a === 'Imbalance' ? `Imbalance-${currency}` : a}</p>
                 ))}
               </div>
             ))}
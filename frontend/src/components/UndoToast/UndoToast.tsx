@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { useMutationState } from '@tanstack/react-query';
+import { Undo2, Redo2, X, AlertTriangle } from 'lucide-react';
+import type { HistoryStatus } from '../../lib/api';
+import { HISTORY_MUTATION_KEY, useHistory, useUndoRedo } from '../../lib/history';
+
+const VISIBLE_MS = 6000;
+
+interface Toast {
+  key: string;
+  message: string;
+  error?: boolean;
+  action?: 'undo' | 'redo';
+}
+
+/**
+ * Bottom-corner notice for each edit that can be undone ("Saved … Undo"),
+ * and for the result of an undo or redo. Shows only what happened since the
+ * page was opened.
+ */
+export function UndoToast() {
+  const history = useHistory();
+  const { mutate, isPending } = useUndoRedo();
+  const [openedAt] = useState(() => Date.now());
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  const replays = useMutationState({
+    filters: { mutationKey: HISTORY_MUTATION_KEY },
+    select: (m) => ({
+      status: m.state.status,
+      submittedAt: m.state.submittedAt,
+      direction: m.state.variables as 'undo' | 'redo',
+      data: m.state.data as (HistoryStatus & { applied: string }) | undefined,
+      error: m.state.error,
+    }),
+  });
+  const replay = replays.at(-1);
+
+  let toast: Toast | null = null;
+  const edit = history?.undo;
+  const editAt = edit ? Date.parse(edit.at) : 0;
+  if (replay && replay.status !== 'pending' && replay.submittedAt >= editAt) {
+    if (replay.error) {
+      toast = { key: `error-${replay.submittedAt}`, message: `Could not ${replay.direction}: ${replay.error.message}`, error: true };
+    } else if (replay.data) {
+      const undid = replay.direction === 'undo';
+      toast = {
+        key: `${replay.direction}-${replay.submittedAt}`,
+        message: `${undid ? 'Undid' : 'Redid'}: ${replay.data.applied}`,
+        action: undid && history?.redo ? 'redo' : !undid && history?.undo ? 'undo' : undefined,
+      };
+    }
+  } else if (edit && editAt >= openedAt) {
+    toast = { key: `edit-${edit.id}`, message: edit.label, action: 'undo' };
+  }
+
+  const key = toast?.key ?? null;
+  useEffect(() => {
+    if (!key) return;
+    const timer = setTimeout(() => setDismissed(key), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [key]);
+
+  if (!toast || dismissed === toast.key) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2.5 bg-gray-800 border border-white/10 rounded-lg shadow-xl text-sm max-w-md">
+      {toast.error && <AlertTriangle size={14} className="text-red-400 flex-shrink-0" />}
+      <span className={toast.error ? 'text-red-300' : 'text-gray-200'}>{toast.message}</span>
+      {toast.action && (
+        <button
+          onClick={() => mutate(toast.action!)}
+          disabled={isPending}
+          className="flex items-center gap-1 text-blue-400 hover:text-blue-300 font-medium disabled:opacity-50"
+          title={toast.action === 'undo' ? 'Undo (Ctrl+Z)' : 'Redo (Ctrl+Shift+Z)'}
+        >
+          {toast.action === 'undo' ? <Undo2 size={13} /> : <Redo2 size={13} />}
+          {toast.action === 'undo' ? 'Undo' : 'Redo'}
+        </button>
+      )}
+      <button onClick={() => setDismissed(toast.key)} className="text-gray-500 hover:text-gray-300">
+        <X size={13} />
+      </button>
+    </div>
+  );
+}
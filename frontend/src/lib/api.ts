@@ -1,4 +1,8 @@
-import type { GnuCashData, Transaction, ProjectionsData } from '../types';
+import type {
+  GnuCashData, Transaction, Split, ProjectionsData, Price, ScheduledTransaction, ScheduledInstance,
+  TemplateSplit, TemplateTransaction, Budget,
+} from '../types';
+import type { ReconcileInfo } from './utils';
 
 const BASE = '/api';
 
@@ -8,23 +12,48 @@ export async function fetchData(): Promise<GnuCashData> {
   return res.json();
 }
 
-export async function createTransaction(txn: Omit<Transaction, 'id' | 'dateEntered'>): Promise<Transaction> {
-  const res = await fetch(`${BASE}/transactions`, {
+/**
+ * `autoBalance` posts any imbalance to Imbalance-<currency> (creating the
+ * account if needed) instead of rejecting an unbalanced transaction.
+ */
+export interface SaveTransactionOptions {
+  autoBalance?: boolean;
+}
+
+function saveTransactionQuery({ autoBalance }: SaveTransactionOptions = {}) {
+  return autoBalance ? '?autoBalance=true' : '';
+}
+
+export async function createTransaction(
+  txn: Omit<Transaction, 'id' | 'dateEntered'>,
+  options?: SaveTransactionOptions,
+): Promise<Transaction> {
+  const res = await fetch(`${BASE}/transactions${saveTransactionQuery(options)}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(txn),
   });
-  if (!res.ok) throw new Error('Failed to create transaction');
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to create transaction');
+  }
   return res.json();
 }
 
-export async function updateTransaction(id: string, txn: Partial<Transaction>): Promise<Transaction> {
-  const res = await fetch(`${BASE}/transactions/${id}`, {
+export async function updateTransaction(
+  id: string,
+  txn: Partial<Transaction>,
+  options?: SaveTransactionOptions,
+): Promise<Transaction> {
+  const res = await fetch(`${BASE}/transactions/${id}${saveTransactionQuery(options)}`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(txn),
   });
-  if (!res.ok) throw new Error('Failed to update transaction');
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to update transaction');
+  }
   return res.json();
 }
 
@@ -33,6 +62,89 @@ export async function deleteTransaction(id: string): Promise<void> {
   if (!res.ok) throw new Error('Failed to delete transaction');
 }
 
+export interface TransactionBatch {
+  create?: Omit<Transaction, 'id' | 'dateEntered'>[];
+  update?: (Partial<Transaction> & { id: string })[];
+  delete?: string[];
+  /** How the change appears in the undo history, e.g. "Import 12 transactions" */
+  label?: string;
+}
+
+/**
+ * Apply many transaction changes as one save — a single backup, write and
+ * .log on the server. Nothing is applied if any operation fails.
+ */
+export async function batchTransactions(batch: TransactionBatch): Promise<{
+  created: Transaction[];
+  updated: Transaction[];
+  deleted: string[];
+}> {
+  const res = await fetch(`${BASE}/transactions/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(batch),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to save transactions');
+  }
+  return res.json();
+}
+
+/** Filters for GET /api/transactions; every field is optional */
+export interface TransactionQuery {
+  accountId?: string;
+  /** Include the account's subaccounts */
+  descendants?: boolean;
+  /** Inclusive YYYY-MM-DD bounds on the posted date */
+  from?: string;
+  to?: string;
+  /** Matches description, notes, number, memos and amounts */
+  q?: string;
+  /** Bounds on the absolute amount (the account's net amount when accountId is set) */
+  minAmount?: number;
+  maxAmount?: number;
+  reconciled?: Split['reconciledState'][];
+  sort?: 'date' | 'description' | 'amount';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TransactionPage {
+  items: {
+    transaction: Transaction;
+    /** Running balance of the queried account after this transaction (account queries only) */
+    balance: number | null;
+  }[];
+  /** Number of matching transactions across all pages */
+  total: number;
+  nextCursor: string | null;
+  /** Current balance and last reconciliation of the queried account */
+  account: { balance: number; reconciled: ReconcileInfo | null } | null;
+}
+
+export function fetchTransactions(query: TransactionQuery): Promise<TransactionPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === '' || (Array.isArray(value) && !value.length)) continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  return jsonRequest(`${BASE}/transactions?${params}`, 'GET');
+}
+
+/** Every page of a query, for the few places that need the whole result */
+export async function fetchAllTransactions(query: TransactionQuery): Promise<TransactionPage['items']> {
+  const items: TransactionPage['items'] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchTransactions({ ...query, limit: 1000, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return items;
+}
+
 export async function deleteAccount(id: string): Promise<void> {
   const res = await fetch(`/api/accounts/${id}`, { method: 'DELETE' });
   if (!res.ok) {
@@ -41,24 +153,73 @@ export async function deleteAccount(id: string): Promise<void> {
   }
 }
 
+/** The account properties `updateAccount` can change; a null parentId means top level */
+export type AccountChanges = Partial<
+  Pick<import('../types').Account, 'name' | 'type' | 'parentId' | 'code' | 'description' | 'notes' | 'placeholder' | 'hidden'>
+>;
+
+export function updateAccount(id: string, changes: AccountChanges): Promise<import('../types').Account> {
+  return jsonRequest(`${BASE}/accounts/${id}`, 'PUT', changes);
+}
+
 export async function renameAccount(id: string, name: string): Promise<void> {
-  const res = await fetch(`${BASE}/accounts/${id}`, {
-    method: 'PUT',
+  await updateAccount(id, { name });
+}
+
+/** What merging one account into another would move */
+export interface MergePreview {
+  splits: number;
+  transactions: number;
+  children: { id: string; name: string }[];
+}
+
+export function previewMerge(id: string, into: string): Promise<MergePreview> {
+  return jsonRequest(`${BASE}/accounts/${id}/merge?into=${encodeURIComponent(into)}`, 'GET');
+}
+
+/** Move every split and sub-account of `id` to `into`, then delete `id` */
+export function mergeAccount(
+  id: string,
+  into: string,
+): Promise<{ merged: string; into: string; splits: number; transactions: number; children: number }> {
+  return jsonRequest(`${BASE}/accounts/${id}/merge`, 'POST', { into });
+}
+
+/** Move an account (and everything under it) below `parentId`, or to the top level when null */
+export function reparentAccount(id: string, parentId: string | null): Promise<import('../types').Account> {
+  return jsonRequest(`${BASE}/accounts/${id}/reparent`, 'POST', { parentId });
+}
+
+/**
+ * Set reconcile states for splits of one account in a single write.
+ * Splits set to 'y' take `statementDate` as their reconcile date.
+ */
+export async function reconcileAccount(
+  id: string,
+  statementDate: string,
+  states: Record<string, Split['reconciledState']>
+): Promise<{ updated: number }> {
+  const res = await fetch(`${BASE}/accounts/${id}/reconcile`, {
+    method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ name }),
+    body: JSON.stringify({ statementDate, states }),
   });
   if (!res.ok) {
     const err = await res.json().catch(() => ({}));
-    throw new Error(err.error || 'Failed to rename account');
+    throw new Error(err.error || 'Failed to reconcile account');
   }
+  return res.json();
 }
 
 export async function createAccount(data: {
   name: string;
   type: string;
   parentId?: string | null;
+  code?: string;
   description?: string;
   placeholder?: boolean;
+  commodity?: string;
+  commoditySpace?: string;
 }): Promise<import('../types').Account> {
   const res = await fetch(`${BASE}/accounts`, {
     method: 'POST',
@@ -72,25 +233,6 @@ export async function createAccount(data: {
   return res.json();
 }
 
-export interface BudgetData {
-  monthly: Record<string, number>;
-}
-
-export async function fetchBudget(): Promise<BudgetData> {
-  const res = await fetch(`${BASE}/budget`);
-  if (!res.ok) throw new Error('Failed to fetch budget');
-  return res.json();
-}
-
-export async function saveBudget(data: BudgetData): Promise<void> {
-  const res = await fetch(`${BASE}/budget`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
-  });
-  if (!res.ok) throw new Error('Failed to save budget');
-}
-
 export async function fetchProjections(): Promise<ProjectionsData> {
   const res = await fetch(`${BASE}/projections`);
   if (!res.ok) throw new Error('Failed to fetch projections');
@@ -106,6 +248,196 @@ export async function saveProjections(data: ProjectionsData): Promise<void> {
   if (!res.ok) throw new Error('Failed to save projections');
 }
 
+// ─── Prices ──────────────────────────────────────────────────────────────────
+
+/** Fields the user supplies for a quote; the server fills in id, source and type */
+export type PriceInput = Pick<Price, 'commodity' | 'currency' | 'date' | 'value'> &
+  Partial<Pick<Price, 'commoditySpace' | 'source' | 'type'>>;
+
+async function jsonRequest<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `${method} ${url} failed`);
+  }
+  return res.json();
+}
+
+export function createPrice(price: PriceInput): Promise<Price> {
+  return jsonRequest(`${BASE}/prices`, 'POST', price);
+}
+
+export function importPrices(prices: PriceInput[]): Promise<{ created: number }> {
+  return jsonRequest(`${BASE}/prices/bulk`, 'POST', { prices });
+}
+
+export function updatePrice(id: string, price: Partial<PriceInput>): Promise<Price> {
+  return jsonRequest(`${BASE}/prices/${id}`, 'PUT', price);
+}
+
+export async function deletePrice(id: string): Promise<void> {
+  await jsonRequest(`${BASE}/prices/${id}`, 'DELETE');
+}
+
+// ─── Scheduled transactions ──────────────────────────────────────────────────
+
+/** What the editor sends: schedule fields plus the (first) template transaction */
+export type ScheduledInput = Pick<ScheduledTransaction,
+  'name' | 'enabled' | 'autoCreate' | 'advanceCreateDays' | 'startDate' | 'endDate' | 'numOccur' | 'recurrences'> & {
+  template: Pick<TemplateTransaction, 'description' | 'currency'> & {
+    splits: (Omit<TemplateSplit, 'id'> & { id?: string })[];
+  };
+};
+
+export function createScheduled(sx: ScheduledInput): Promise<ScheduledTransaction> {
+  return jsonRequest(`${BASE}/scheduled`, 'POST', sx);
+}
+
+export function updateScheduled(id: string, sx: Partial<ScheduledInput>): Promise<ScheduledTransaction> {
+  return jsonRequest(`${BASE}/scheduled/${id}`, 'PUT', sx);
+}
+
+export async function deleteScheduled(id: string): Promise<void> {
+  await jsonRequest(`${BASE}/scheduled/${id}`, 'DELETE');
+}
+
+export function fetchDueScheduled(): Promise<ScheduledInstance[]> {
+  return jsonRequest(`${BASE}/scheduled/since-last-run`, 'GET');
+}
+
+/** Create every due occurrence except the skipped ones (which are marked as run) */
+export function runSinceLastRun(skip: Pick<ScheduledInstance, 'scheduledId' | 'date'>[]): Promise<{ created: number }> {
+  return jsonRequest(`${BASE}/scheduled/since-last-run`, 'POST', { skip });
+}
+
+// ─── Budgets ─────────────────────────────────────────────────────────────────
+
+/** A budget as sent to the API; the recurrence's weekend adjustment isn't used */
+export type BudgetInput = Pick<Budget, 'name' | 'numPeriods' | 'amounts'> &
+  Partial<Pick<Budget, 'description' | 'rollover'>> & { recurrence: Omit<Budget['recurrence'], 'weekendAdjust'> };
+
+export function createBudget(budget: BudgetInput): Promise<Budget> {
+  return jsonRequest(`${BASE}/budgets`, 'POST', budget);
+}
+
+/** Change some of a budget's fields; `amounts`, when sent, replaces all of them */
+export function updateBudget(id: string, budget: Partial<BudgetInput>): Promise<Budget> {
+  return jsonRequest(`${BASE}/budgets/${id}`, 'PUT', budget);
+}
+
+export async function deleteBudget(id: string): Promise<void> {
+  await jsonRequest(`${BASE}/budgets/${id}`, 'DELETE');
+}
+
+// ─── Lock file ───────────────────────────────────────────────────────────────
+
+/** Whether this session may write the book, and who holds the lock if not */
+export interface BookLock {
+  readOnly: boolean;
+  /** True when we gave up the lock ourselves (e.g. to open the book in GnuCash) */
+  released: boolean;
+  lockedBy: string | null;
+  since: string | null;
+}
+
+export function fetchLock(): Promise<BookLock> {
+  return jsonRequest(`${BASE}/lock`, 'GET');
+}
+
+/** 'write' takes the lock (`force` overrides one held elsewhere); 'read-only' gives ours up */
+export function setLockMode(mode: 'write' | 'read-only', force = false): Promise<BookLock> {
+  return jsonRequest(`${BASE}/lock`, 'POST', { mode, force });
+}
+
+// ─── Undo / redo ─────────────────────────────────────────────────────────────
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  at: string;
+}
+
+/** The edits that undo and redo would apply next */
+export interface HistoryStatus {
+  undo: HistoryEntry | null;
+  redo: HistoryEntry | null;
+}
+
+export function fetchHistory(): Promise<HistoryStatus> {
+  return jsonRequest(`${BASE}/history`, 'GET');
+}
+
+export function undoEdit(): Promise<HistoryStatus & { applied: string }> {
+  return jsonRequest(`${BASE}/history/undo`, 'POST');
+}
+
+export function redoEdit(): Promise<HistoryStatus & { applied: string }> {
+  return jsonRequest(`${BASE}/history/redo`, 'POST');
+}
+
+// ─── Backups ─────────────────────────────────────────────────────────────────
+
+/** How long the newest backup per hour / day / month is kept; null keeps forever */
+export interface BackupPolicy {
+  enabled: boolean;
+  hourly: number | null;
+  daily: number | null;
+  monthly: number | null;
+}
+
+export interface Backup {
+  name: string;
+  time: string;
+  size: number;
+  /** Whether the retention policy keeps this backup */
+  kept: boolean;
+}
+
+export interface RecordCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface TransactionSummary {
+  id: string;
+  datePosted: string;
+  description: string;
+  amount: number;
+  currency: string;
+}
+
+/** What changed in the book since a backup was taken */
+export interface BackupDiff {
+  transactions: RecordCounts & {
+    items: { added: TransactionSummary[]; removed: TransactionSummary[]; changed: TransactionSummary[] };
+  };
+  accounts: RecordCounts;
+  prices: RecordCounts;
+  scheduled: RecordCounts;
+}
+
+export function fetchBackups(): Promise<{ policy: BackupPolicy; backups: Backup[] }> {
+  return jsonRequest(`${BASE}/backups`, 'GET');
+}
+
+export function fetchBackupDiff(name: string): Promise<BackupDiff> {
+  return jsonRequest(`${BASE}/backups/${encodeURIComponent(name)}/diff`, 'GET');
+}
+
+export function restoreBackup(name: string): Promise<{ ok: boolean }> {
+  return jsonRequest(`${BASE}/backups/${encodeURIComponent(name)}/restore`, 'POST');
+}
+
+/** Save the policy; if it is on, backups it doesn't keep are deleted straight away */
+export function saveBackupPolicy(policy: BackupPolicy): Promise<{ policy: BackupPolicy; deleted: string[] }> {
+  return jsonRequest(`${BASE}/backups/policy`, 'PUT', policy);
+}
+
 // ─── Import ──────────────────────────────────────────────────────────────────
 
 export interface ParsedRow {
@@ -173,3 +505,83 @@ export async function fetchChangeLog(): Promise<ChangeLogEntry[]> {
   if (!res.ok) throw new Error('Failed to fetch change log');
   return res.json();
 }
+
+// ─── Audit trail ─────────────────────────────────────────────────────────────
+
+/** A transaction as a .log file recorded it */
+export interface LoggedTransaction {
+  id: string;
+  num: string;
+  description: string;
+  notes: string;
+  datePosted: string;
+  dateEntered: string | null;
+  splits: (Omit<Split, 'onlineId'> & { accountName: string })[];
+}
+
+/** One field that an edit changed; split-level changes name the split's account */
+export interface AuditChange {
+  field: 'description' | 'date' | 'num' | 'notes' | 'split' | 'account' | 'amount' | 'memo' | 'reconciled';
+  splitId?: string;
+  account?: string;
+  before: string | number | null;
+  after: string | number | null;
+  value?: number;
+}
+
+export interface AuditEntry {
+  id: string;
+  changedAt: string;
+  logFile: string;
+  transactionId: string;
+  action: 'create' | 'update' | 'delete';
+  description: string;
+  datePosted: string;
+  accountIds: string[];
+  changes: AuditChange[];
+  before: LoggedTransaction | null;
+  after: LoggedTransaction | null;
+}
+
+export interface AuditQuery {
+  q?: string;
+  accountId?: string;
+  transactionId?: string;
+  action?: AuditEntry['action'];
+  limit?: number;
+}
+
+export function fetchAuditLog(query: AuditQuery): Promise<{ total: number; entries: AuditEntry[] }> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return jsonRequest(`${BASE}/audit-log?${params}`, 'GET');
+}
+
+/** Put the transaction back the way it was before the logged change */
+export function revertAuditEntry(id: string): Promise<{ action: AuditEntry['action']; transaction: Transaction }> {
+  return jsonRequest(`${BASE}/audit-log/${encodeURIComponent(id)}/revert`, 'POST');
+}
+
+// ─── Check & Repair ──────────────────────────────────────────────────────────
+
+/** Something wrong with the book, and the fix the server would apply */
+export interface IntegrityProblem {
+  id: string;
+  kind: 'count' | 'orphan-split' | 'orphan-account' | 'unbalanced';
+  message: string;
+  fix: string;
+  accountId?: string;
+  transactionId?: string;
+  datePosted?: string;
+}
+
+export function fetchIntegrity(): Promise<{ problems: IntegrityProblem[] }> {
+  return jsonRequest(`${BASE}/integrity`, 'GET');
+}
+
+/** Apply the suggested fixes for `ids`, or for every problem when omitted */
+export function repairIntegrity(ids?: string[]): Promise<{ fixed: number; problems: IntegrityProblem[] }> {
+  return jsonRequest(`${BASE}/integrity/repair`, 'POST', { ids });
+}
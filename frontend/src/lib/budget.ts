@@ -0,0 +1,139 @@
+import type { Account, Budget, Recurrence, Transaction } from '../types';
+import { budgetAmount, budgetPeriods } from '../types/budget';
+import { splitAmountIn, type Converter } from './currency';
+
+export interface MonthColumn {
+  label: string;
+  from: string;
+  to: string;
+}
+
+/** Build an array of calendar months between two ISO date strings (inclusive). */
+export function buildMonthColumns(from: string, to: string): MonthColumn[] {
+  const cols: MonthColumn[] = [];
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  let y = fy, m = fm;
+  while (y < ty || (y === ty && m <= tm)) {
+    const start = `${y}-${String(m).padStart(2, '0')}-01`;
+    const lastDay = new Date(y, m, 0).getDate();
+    const end = `${y}-${String(m).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
+    cols.push({
+      label: new Date(y, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+      from: start,
+      to: end,
+    });
+    m++;
+    if (m > 12) { m = 1; y++; }
+  }
+  return cols;
+}
+
+/** Each month's account balances, in the report currency */
+export function monthlyBalances(
+  months: MonthColumn[],
+  transactions: Transaction[],
+  accountMap: Map<string, Account>,
+  reportCurrency: string,
+  convert: Converter,
+): Map<string, number>[] {
+  return months.map(({ from, to }) => {
+    const map = new Map<string, number>();
+    for (const txn of transactions) {
+      if (txn.datePosted < from || txn.datePosted > to) continue;
+      for (const split of txn.splits) {
+        const amount = splitAmountIn(split, txn, accountMap.get(split.accountId), reportCurrency, convert);
+        map.set(split.accountId, (map.get(split.accountId) ?? 0) + amount);
+      }
+    }
+    return map;
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Entering amounts
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How many of a budget's periods make up a year (12 for monthly, 4 for quarterly) */
+export function periodsPerYear({ mult, periodType }: Recurrence): number {
+  switch (periodType) {
+    case 'day':  return 365 / mult;
+    case 'week': return 52 / mult;
+    case 'year': return 1 / mult;
+    default:     return 12 / mult;
+  }
+}
+
+/**
+ * An annual amount spread evenly over the budget's periods. Amounts are
+ * rounded to cents with the remainder handed out along the way, so every
+ * year of periods adds up to exactly `annual`.
+ */
+export function spreadAnnual(budget: Pick<Budget, 'numPeriods' | 'recurrence'>, annual: number): number[] {
+  const perYear = periodsPerYear(budget.recurrence);
+  const cents = Math.round(annual * 100);
+  const upTo = (n: number) => Math.floor((cents * n) / perYear);
+  return Array.from({ length: budget.numPeriods }, (_, i) => (upTo(i + 1) - upTo(i)) / 100);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rollover
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The calendar months the budget's periods cover */
+export function budgetMonths(budget: Pick<Budget, 'numPeriods' | 'recurrence'>): MonthColumn[] {
+  const periods = budgetPeriods(budget);
+  return periods.length ? buildMonthColumns(periods[0].from, periods[periods.length - 1].to) : [];
+}
+
+/**
+ * Envelope budgeting: what is available in each of `months` (consecutive,
+ * from the budget's first month) when whatever is left of a month's budget —
+ * or overspent — carries into the next one. `actual(i)` is what was spent
+ * (or, for income, earned) in `months[i]`. Null until the first month with
+ * a budget.
+ */
+export function rolloverAvailable(
+  budget: Budget,
+  ids: string[],
+  months: MonthColumn[],
+  actual: (i: number) => number,
+): (number | null)[] {
+  let carry: number | null = null;
+  return months.map((month, i) => {
+    const budgeted = budgetAmount(budget, ids, month.from, month.to);
+    if (budgeted == null && carry == null) return null;
+    const available = (budgeted ?? 0) + (carry ?? 0);
+    carry = available - actual(i);
+    return available;
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Suggestions
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SuggestStat = 'average' | 'median' | 'percentile';
+
+/** The last `n` whole months before the one `today` falls in */
+export function trailingMonths(n: number, today: string): MonthColumn[] {
+  const [y, m] = today.split('-').map(Number);
+  const from = new Date(Date.UTC(y, m - 1 - n, 1)).toISOString().slice(0, 10);
+  const to = new Date(Date.UTC(y, m - 1, 0)).toISOString().slice(0, 10);
+  return buildMonthColumns(from, to);
+}
+
+/**
+ * A typical month from monthly amounts: their average, median or the
+ * `percentile`-th percentile (interpolated between the nearest two, so the
+ * 50th is the median).
+ */
+export function typicalMonth(values: number[], stat: SuggestStat, percentile = 75): number {
+  if (!values.length) return 0;
+  if (stat === 'average') return values.reduce((s, v) => s + v, 0) / values.length;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = ((stat === 'median' ? 50 : percentile) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
@@ -0,0 +1,152 @@
+import { useMemo } from 'react';
+import type { Account, Price, Split, Transaction } from '../types';
+
+/** Converts `amount` of `from` into `to`, using the rate in effect on `date` (YYYY-MM-DD). */
+export type Converter = (amount: number, from: string, to: string, date?: string) => number;
+
+interface RatePoint {
+  date: string;
+  rate: number;
+}
+
+/** Rates keyed by `FROM|TO`, each list sorted by date ascending */
+export type RateTable = Map<string, RatePoint[]>;
+
+function addRate(table: RateTable, from: string, to: string, date: string, rate: number) {
+  if (!isFinite(rate) || rate <= 0 || from === to) return;
+  const key = `${from}|${to}`;
+  if (!table.has(key)) table.set(key, []);
+  table.get(key)!.push({ date, rate });
+}
+
+/**
+ * Build the rate table from the price database plus the book itself: every
+ * split whose account commodity differs from the transaction currency records
+ * an implicit price (value / quantity), like GnuCash's "price from transaction".
+ */
+export function buildRateTable(
+  accounts: Account[],
+  transactions: Transaction[],
+  prices: Price[] = []
+): RateTable {
+  const accountMap = new Map(accounts.map((a) => [a.id, a]));
+  const table: RateTable = new Map();
+
+  for (const p of prices) addRate(table, p.commodity, p.currency, p.date, p.value);
+
+  for (const txn of transactions) {
+    for (const split of txn.splits) {
+      const acc = accountMap.get(split.accountId);
+      if (!acc || acc.commodity === txn.currency || !split.quantity) continue;
+      addRate(table, acc.commodity, txn.currency, txn.datePosted, Math.abs(split.value / split.quantity));
+    }
+  }
+
+  for (const points of table.values()) points.sort((a, b) => a.date.localeCompare(b.date));
+  return table;
+}
+
+/** Latest rate on or before `date`; the earliest known rate if none precede it. */
+function rateAt(points: RatePoint[] | undefined, date?: string): number | null {
+  if (!points?.length) return null;
+  if (!date) return points[points.length - 1].rate;
+  let found = points[0].rate;
+  for (const p of points) {
+    if (p.date > date) break;
+    found = p.rate;
+  }
+  return found;
+}
+
+/**
+ * Build a converter over a rate table. Tries a direct rate, the inverse of the
+ * opposite pair, then a single hop through any shared commodity. Amounts with
+ * no known path are returned unconverted rather than dropped.
+ */
+export function makeConverter(table: RateTable): Converter {
+  const direct = (from: string, to: string, date?: string): number | null => {
+    const r = rateAt(table.get(`${from}|${to}`), date);
+    if (r != null) return r;
+    const inv = rateAt(table.get(`${to}|${from}`), date);
+    return inv != null ? 1 / inv : null;
+  };
+
+  const commodities = new Set<string>();
+  for (const key of table.keys()) key.split('|').forEach((c) => commodities.add(c));
+
+  return (amount, from, to, date) => {
+    if (from === to || amount === 0) return amount;
+    const r = direct(from, to, date);
+    if (r != null) return amount * r;
+    for (const via of commodities) {
+      if (via === from || via === to) continue;
+      const a = direct(from, via, date);
+      const b = a != null ? direct(via, to, date) : null;
+      if (a != null && b != null) return amount * a * b;
+    }
+    return amount;
+  };
+}
+
+export function useCurrencyConverter(
+  accounts: Account[],
+  transactions: Transaction[],
+  prices?: Price[]
+): Converter {
+  return useMemo(
+    () => makeConverter(buildRateTable(accounts, transactions, prices)),
+    [accounts, transactions, prices]
+  );
+}
+
+/**
+ * A split's amount expressed in `currency`: the quantity when the account is
+ * already in that commodity, the value when the transaction is, otherwise the
+ * value converted at the transaction date.
+ */
+export function splitAmountIn(
+  split: Split,
+  txn: Transaction,
+  account: Account | undefined,
+  currency: string,
+  convert: Converter
+): number {
+  if (account?.commodity === currency) return split.quantity;
+  if (txn.currency === currency) return split.value;
+  return convert(split.value, txn.currency, currency, txn.datePosted);
+}
+
+/** Price of one unit of the split's commodity in the transaction currency */
+function splitPrice(split: Split): number {
+  return split.quantity && split.value ? split.value / split.quantity : 1;
+}
+
+/**
+ * Set a split's quantity (account commodity), keeping its price: the value
+ * follows 1:1 when both sides share a commodity, otherwise at the old rate.
+ */
+export function withQuantity(split: Split, quantity: number, sameCommodity: boolean): Split {
+  return { ...split, quantity, value: sameCommodity ? quantity : quantity * splitPrice(split) };
+}
+
+/** Set a split's value (transaction currency), keeping its price. */
+export function withValue(split: Split, value: number, sameCommodity: boolean): Split {
+  return { ...split, value, quantity: sameCommodity ? value : value / splitPrice(split) };
+}
+
+/** Decimal places implied by a commodity's smallest unit (100 → 2, 10000 → 4) */
+export function scuDigits(scu: number): number {
+  return Math.max(0, Math.round(Math.log10(scu || 100)));
+}
+
+/** Total of per-commodity amounts, each converted into `currency` as of `date`. */
+export function sumHoldings(
+  holdings: Map<string, number>,
+  currency: string,
+  convert: Converter,
+  date?: string
+): number {
+  let total = 0;
+  for (const [commodity, qty] of holdings) total += convert(qty, commodity, currency, date);
+  return total;
+}
@@ -0,0 +1,71 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import type { GnuCashData, Transaction } from '../types';
+import type { HistoryStatus } from './api';
+
+/** Payload of the record events: what was saved, by id or as whole records */
+export interface RecordChange<T> {
+  created: T[];
+  updated: T[];
+  deleted: string[];
+}
+
+/** Merge saved transactions into the cached book instead of refetching it */
+function patchTransactions(data: GnuCashData | undefined, change: RecordChange<Transaction>) {
+  if (!data) return data;
+  const saved = new Map([...change.created, ...change.updated].map((t) => [t.id, t]));
+  const deleted = new Set(change.deleted);
+  const transactions = data.transactions
+    .filter((t) => !deleted.has(t.id))
+    .map((t) => saved.get(t.id) ?? t);
+  const present = new Set(transactions.map((t) => t.id));
+  transactions.push(...change.created.filter((t) => !present.has(t.id)));
+  return { ...data, transactions };
+}
+
+function listen(source: EventSource, queryClient: QueryClient) {
+  const refetch = (queryKey: string[]) => () => queryClient.invalidateQueries({ queryKey });
+
+  source.addEventListener('transactions', (e) => {
+    const change: RecordChange<Transaction> = JSON.parse(e.data);
+    queryClient.setQueryData<GnuCashData>(['gnucash'], (data) => patchTransactions(data, change));
+    // Paged register and search results are sorted and balanced server-side
+    void queryClient.invalidateQueries({ queryKey: ['gnucash', 'transactions'] });
+  });
+  // Account, price and schedule changes ripple through balances and
+  // valuations, so those refetch the whole book
+  source.addEventListener('accounts', refetch(['gnucash']));
+  source.addEventListener('prices', refetch(['gnucash']));
+  source.addEventListener('scheduled', refetch(['gnucash']));
+  // Budgets are part of the book data too
+  source.addEventListener('budgets', refetch(['gnucash']));
+  source.addEventListener('projections', refetch(['projections']));
+  source.addEventListener('history', (e) => {
+    queryClient.setQueryData<HistoryStatus>(['gnucash', 'history'], JSON.parse(e.data));
+  });
+  // Saved by another program (e.g. GnuCash): everything may have changed
+  source.addEventListener('book-changed', refetch(['gnucash']));
+
+  // Events sent while we were disconnected are lost, so catch up on reconnect
+  let connected = false;
+  source.addEventListener('open', () => {
+    if (connected) void queryClient.invalidateQueries({ queryKey: ['gnucash'] });
+    connected = true;
+  });
+}
+
+/**
+ * Keep the React Query cache in step with changes saved by other tabs,
+ * background imports or GnuCash itself, using the backend's /api/events
+ * stream. EventSource reconnects by itself if the server restarts.
+ */
+export function useServerEvents(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+    const source = new EventSource('/api/events');
+    listen(source, queryClient);
+    return () => source.close();
+  }, [enabled, queryClient]);
+}
@@ -0,0 +1,51 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchHistory, undoEdit, redoEdit } from './api';
+
+/** Mutation key shared by every undo/redo, so the toast can report the latest one */
+export const HISTORY_MUTATION_KEY = ['history'];
+
+/** What undo and redo would apply next; kept current by the 'history' server event */
+export function useHistory() {
+  return useQuery({
+    queryKey: ['gnucash', 'history'],
+    queryFn: fetchHistory,
+  }).data;
+}
+
+export function useUndoRedo() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationKey: HISTORY_MUTATION_KEY,
+    mutationFn: (direction: 'undo' | 'redo') => (direction === 'undo' ? undoEdit() : redoEdit()),
+    // The replayed edit can touch anything in the book
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['gnucash'] }),
+  });
+}
+
+function isTyping(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Ctrl+Z / Ctrl+Shift+Z (⌘ on macOS; Ctrl+Y also redoes) while the calling
+ * view is mounted. Left alone while a form field has focus, so text fields
+ * keep their own undo.
+ */
+export function useUndoShortcuts() {
+  const { mutate, isPending } = useUndoRedo();
+
+  useEffect(() => {
+    function handleKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      const direction = key === 'z' ? (e.shiftKey ? 'redo' : 'undo') : key === 'y' && !e.shiftKey ? 'redo' : null;
+      if (!direction) return;
+      e.preventDefault();
+      if (!isPending) mutate(direction);
+    }
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [mutate, isPending]);
+}
@@ -0,0 +1,197 @@
+import type { Account, Price, Transaction } from '../types';
+import type { Converter } from './currency';
+import { generateGuid } from './utils';
+
+export const SECURITY_TYPES = new Set(['STOCK', 'MUTUAL']);
+
+export interface Holding {
+  account: Account;
+  /** Shares currently held (sum of split quantities) */
+  shares: number;
+  /** Remaining cost of the shares held, in `currency` (average-cost method) */
+  costBasis: number;
+  avgCost: number;
+  /** Latest known price per share in `currency`, null if the security was never priced */
+  price: number | null;
+  priceDate: string | null;
+  marketValue: number;
+  unrealizedGain: number;
+  /** Currency the security is traded in (from its transactions or quotes) */
+  currency: string;
+}
+
+/**
+ * Latest price for a commodity: the newest quote in the price database,
+ * falling back to the most recent trade in the book.
+ */
+function latestPrice(
+  account: Account,
+  transactions: Transaction[],
+  prices: Price[]
+): { price: number; date: string; currency: string } | null {
+  let best: { price: number; date: string; currency: string } | null = null;
+  for (const p of prices) {
+    if (p.commodity !== account.commodity || p.commoditySpace !== account.commoditySpace) continue;
+    if (!best || p.date > best.date) best = { price: p.value, date: p.date, currency: p.currency };
+  }
+  if (best) return best;
+
+  for (const txn of transactions) {
+    for (const s of txn.splits) {
+      if (s.accountId !== account.id || !s.quantity || !s.value) continue;
+      if (!best || txn.datePosted > best.date) {
+        best = { price: Math.abs(s.value / s.quantity), date: txn.datePosted, currency: txn.currency };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Compute holdings for every STOCK/MUTUAL account. Cost basis follows the
+ * average-cost method: buys add their value, sells remove the average cost
+ * of the shares sold. Market value and gains are converted into
+ * `reportCurrency`.
+ */
+export function computeHoldings(
+  accounts: Account[],
+  transactions: Transaction[],
+  prices: Price[],
+  reportCurrency: string,
+  convert: Converter
+): Holding[] {
+  const holdings: Holding[] = [];
+  const sorted = [...transactions].sort((a, b) => a.datePosted.localeCompare(b.datePosted));
+
+  for (const account of accounts) {
+    if (!SECURITY_TYPES.has(account.type) || account.placeholder) continue;
+
+    let shares = 0;
+    let cost = 0;
+    let tradeCurrency: string | null = null;
+    for (const txn of sorted) {
+      for (const s of txn.splits) {
+        if (s.accountId !== account.id || !s.quantity) continue;
+        tradeCurrency ??= txn.currency;
+        const value = convert(s.value, txn.currency, reportCurrency, txn.datePosted);
+        if (s.quantity > 0) {
+          cost += value;
+        } else if (shares > 0) {
+          cost -= (cost / shares) * Math.min(-s.quantity, shares);
+        }
+        shares += s.quantity;
+      }
+    }
+    if (Math.abs(shares) < 1e-9) { shares = 0; cost = 0; }
+
+    const quote = latestPrice(account, transactions, prices);
+    const price = quote ? convert(quote.price, quote.currency, reportCurrency, quote.date) : null;
+    const marketValue = price != null ? shares * price : cost;
+
+    holdings.push({
+      account,
+      shares,
+      costBasis: cost,
+      avgCost: shares ? cost / shares : 0,
+      price,
+      priceDate: quote?.date ?? null,
+      marketValue,
+      unrealizedGain: marketValue - cost,
+      currency: quote?.currency ?? tradeCurrency ?? reportCurrency,
+    });
+  }
+
+  return holdings.sort((a, b) => b.marketValue - a.marketValue);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trade entry
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TradeKind = 'buy' | 'sell' | 'dividend';
+
+export interface TradeInput {
+  kind: TradeKind;
+  date: string;
+  description: string;
+  security: Account;
+  /** Brokerage/bank account the money moves through; sets the transaction currency */
+  cash: Account;
+  shares: number;
+  pricePerShare: number;
+  /** Dividend amount (dividend only) */
+  amount: number;
+  fee: number;
+  feeAccount: Account | null;
+  /** Capital gains account for sells, dividend income account for dividends */
+  income: Account | null;
+  /** Average cost per share in the cash account's currency (sell only) */
+  avgCost: number;
+}
+
+function round(n: number, scu: number): number {
+  return Math.round(n * scu) / scu;
+}
+
+function newSplit(accountId: string, value: number, quantity: number, action = '') {
+  return {
+    id: generateGuid(),
+    accountId,
+    value,
+    quantity,
+    reconciledState: 'n' as const,
+    reconcileDate: null,
+    memo: '',
+    action,
+    onlineId: null,
+  };
+}
+
+/**
+ * Turn a buy/sell/dividend form into a balanced transaction. Security splits
+ * carry shares as quantity and cost as value; every other split is in the cash
+ * account's currency. Fees without a fee account are folded into the cost (buy)
+ * or netted from the proceeds (sell). A sell with a gains account books the
+ * shares out at their average cost and posts the difference as a realized gain.
+ */
+export function buildTradeTransaction(t: TradeInput): Omit<Transaction, 'id' | 'dateEntered'> {
+  const currency = t.cash.commodity;
+  const cents = t.cash.commodityScu || 100;
+  const fee = round(t.fee || 0, cents);
+  const splits = [];
+
+  if (t.kind === 'dividend') {
+    const amount = round(t.amount, cents);
+    splits.push(newSplit(t.cash.id, amount, amount));
+    if (t.income) splits.push(newSplit(t.income.id, -amount, -amount));
+    // Zero-share split so the dividend shows in the security's register
+    splits.push(newSplit(t.security.id, 0, 0, 'Div'));
+  } else {
+    const shares = round(t.shares, t.security.commodityScu || 10000);
+    const gross  = round(shares * t.pricePerShare, cents);
+    const separateFee = fee !== 0 && t.feeAccount != null;
+
+    if (t.kind === 'buy') {
+      const cost = separateFee ? gross : gross + fee;
+      splits.push(newSplit(t.security.id, cost, shares, 'Buy'));
+      splits.push(newSplit(t.cash.id, -(gross + fee), -(gross + fee)));
+    } else {
+      const proceeds = separateFee ? gross : gross - fee;
+      const basis = t.income ? round(shares * t.avgCost, cents) : proceeds;
+      splits.push(newSplit(t.security.id, -basis, -shares, 'Sell'));
+      splits.push(newSplit(t.cash.id, gross - fee, gross - fee));
+      const gain = round(proceeds - basis, cents);
+      if (t.income && gain !== 0) splits.push(newSplit(t.income.id, -gain, -gain));
+    }
+    if (separateFee) splits.push(newSplit(t.feeAccount!.id, fee, fee));
+  }
+
+  return {
+    num: '',
+    description: t.description,
+    datePosted: t.date,
+    notes: '',
+    currency,
+    splits,
+  };
+}
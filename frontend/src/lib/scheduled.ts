@@ -0,0 +1,49 @@
+import type { Recurrence, RecurrencePeriod, ScheduledTransaction } from '../types';
+
+export const PERIOD_LABELS: Record<RecurrencePeriod, string> = {
+  'once':         'Once',
+  'day':          'Daily',
+  'week':         'Weekly',
+  'month':        'Monthly',
+  'end of month': 'Monthly (last day)',
+  'nth weekday':  'Monthly (same weekday)',
+  'last weekday': 'Monthly (last weekday)',
+  'year':         'Yearly',
+};
+
+export const PERIOD_UNITS: Record<RecurrencePeriod, string> = {
+  'once': '', 'day': 'days', 'week': 'weeks', 'month': 'months', 'end of month': 'months',
+  'nth weekday': 'months', 'last weekday': 'months', 'year': 'years',
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th'];
+
+function ordinal(n: number) {
+  const s = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${s}`;
+}
+
+/** Human description of a recurrence, e.g. "Every 2 months on the 15th" */
+export function describeRecurrence(r: Recurrence): string {
+  const start = new Date(`${r.start}T00:00:00Z`);
+  const day = start.getUTCDate();
+  const weekday = WEEKDAYS[start.getUTCDay()];
+  const every = r.mult > 1 ? `Every ${r.mult} ${PERIOD_UNITS[r.periodType]}` : PERIOD_LABELS[r.periodType].split(' ')[0];
+
+  switch (r.periodType) {
+    case 'once':         return `Once on ${r.start}`;
+    case 'day':          return every;
+    case 'week':         return `${every} on ${weekday}`;
+    case 'month':        return `${every} on the ${ordinal(day)}`;
+    case 'end of month': return `${every} on the last day`;
+    case 'nth weekday':  return `${every} on the ${ORDINALS[Math.floor((day - 1) / 7)]} ${weekday}`;
+    case 'last weekday': return `${every} on the last ${weekday}`;
+    case 'year':         return `${every} on ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`;
+  }
+}
+
+/** Total debited by a schedule's first template — what one occurrence "costs" */
+export function scheduledAmount(sx: ScheduledTransaction): number {
+  return (sx.templates[0]?.splits ?? []).reduce((sum, s) => sum + (s.amount > 0 ? s.amount : 0), 0);
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query';
+import { fetchTransactions, type TransactionQuery } from './api';
+
+const PAGE_SIZE = 200;
+
+/** `value`, once it has stopped changing for `ms` (compared by JSON) */
+export function useDebounced<T>(value: T, ms: number): T {
+  const [settled, setSettled] = useState(value);
+  const key = JSON.stringify(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(JSON.parse(key)), ms);
+    return () => clearTimeout(timer);
+  }, [key, ms]);
+  return settled;
+}
+
+/**
+ * Page through GET /api/transactions. Typing into a filter re-queries once
+ * the input settles, and the previous results stay on screen meanwhile.
+ * Attach `sentinelRef` to an element after the last row: the next page is
+ * loaded when it scrolls into view.
+ */
+export function useTransactionPages(query: TransactionQuery, enabled = true) {
+  const settled = useDebounced(query, 250);
+
+  const result = useInfiniteQuery({
+    queryKey: ['gnucash', 'transactions', settled],
+    queryFn: ({ pageParam }) => fetchTransactions({ ...settled, limit: PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (last) => last.nextCursor ?? undefined,
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+  const { data, hasNextPage, isFetchingNextPage, fetchNextPage } = result;
+  const items = useMemo(() => data?.pages.flatMap((p) => p.items) ?? [], [data]);
+  const first = data?.pages[0];
+
+  const sentinelRef = useCallback((el: HTMLElement | null) => {
+    if (!el || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) void fetchNextPage();
+    }, { rootMargin: '400px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    items,
+    total: first?.total ?? 0,
+    account: first?.account ?? null,
+    isLoading: result.isLoading,
+    isFetching: result.isFetching,
+    hasNextPage,
+    sentinelRef,
+  };
+}
@@ -6,18 +6,24 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number, compact = false): string {
+export function formatCurrency(amount: number, compact = false, currency = 'USD'): string {
+  // Non-ISO commodities (stock tickers, fund codes) can't go through Intl's
+  // currency style — show a plain quantity followed by the symbol instead.
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    const qty = new Intl.NumberFormat('en-US', { maximumFractionDigits: 4 }).format(amount);
+    return `${qty} ${currency}`;
+  }
   if (compact && Math.abs(amount) >= 1000) {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       notation: 'compact',
       maximumFractionDigits: 1,
     }).format(amount);
   }
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
   }).format(amount);
 }
 
@@ -50,11 +56,18 @@ export function isCreditAccount(type: AccountType): boolean {
   return CREDIT_TYPES.has(type);
 }
 
+/**
+ * Build the account hierarchy. `balance` is in the account's own commodity;
+ * `totalBalance` adds the children after converting each into the parent's
+ * commodity with `convert` (identity when no converter is given).
+ */
 export function buildAccountTree(
   accounts: Account[],
-  transactions: Transaction[]
+  transactions: Transaction[],
+  convert: (amount: number, from: string, to: string) => number = (n) => n
 ): AccountNode[] {
   const balances = computeAccountBalances(accounts, transactions);
+  const reconciled = computeReconcileInfo(transactions);
 
   const nodeMap = new Map<string, AccountNode>();
   for (const acc of accounts) {
@@ -63,6 +76,7 @@ export function buildAccountTree(
       children: [],
       balance: balances.get(acc.id) ?? 0,
       totalBalance: 0,
+      reconciled: reconciled.get(acc.id) ?? null,
     });
   }
 
@@ -85,7 +99,7 @@ export function buildAccountTree(
   function sumTotal(node: AccountNode): number {
     let total = node.balance;
     for (const child of node.children) {
-      total += sumTotal(child);
+      total += convert(sumTotal(child), child.commodity, node.commodity);
     }
     node.totalBalance = total;
     return total;
@@ -125,12 +139,37 @@ export function computeAccountBalances(
       const acc = accountMap.get(split.accountId);
       if (!acc) continue;
       const cur = balances.get(split.accountId) ?? 0;
-      balances.set(split.accountId, cur + split.value);
+      // quantity is in the account's commodity; value is in the txn currency
+      balances.set(split.accountId, cur + split.quantity);
     }
   }
   return balances;
 }
 
+export interface ReconcileInfo {
+  /** Latest reconcile date among the account's reconciled splits */
+  lastDate: string | null;
+  /** Sum of reconciled ('y') split quantities, in the account's commodity */
+  balance: number;
+}
+
+/** Last reconcile date and reconciled balance of every account that has one */
+export function computeReconcileInfo(transactions: Transaction[]): Map<string, ReconcileInfo> {
+  const info = new Map<string, ReconcileInfo>();
+  for (const txn of transactions) {
+    for (const split of txn.splits) {
+      if (split.reconciledState !== 'y') continue;
+      const cur = info.get(split.accountId) ?? { lastDate: null, balance: 0 };
+      const date = split.reconcileDate ?? txn.datePosted;
+      info.set(split.accountId, {
+        lastDate: !cur.lastDate || date > cur.lastDate ? date : cur.lastDate,
+        balance: cur.balance + split.quantity,
+      });
+    }
+  }
+  return info;
+}
+
 export function getAccountDisplayBalance(
   balance: number,
   type: AccountType
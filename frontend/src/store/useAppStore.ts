@@ -2,14 +2,17 @@ import { create } from 'zustand';
 
 interface AppStore {
   selectedAccountId: string | null;
-  activeView: 'dashboard' | 'account' | 'reports' | 'search' | 'projections' | 'recategorize' | 'import';
+  activeView: 'dashboard' | 'account' | 'reports' | 'search' | 'projections' | 'recategorize' | 'import' | 'prices' | 'holdings' | 'scheduled' | 'backups' | 'audit' | 'integrity';
   sidebarCollapsed: boolean;
   searchQuery: string;
+  /** Currency that reports, the dashboard and group totals are converted into */
+  reportCurrency: string;
 
   setSelectedAccount: (id: string | null) => void;
   setActiveView: (view: AppStore['activeView']) => void;
   toggleSidebar: () => void;
   setSearchQuery: (q: string) => void;
+  setReportCurrency: (currency: string) => void;
 }
 
 export const useAppStore = create<AppStore>((set) => ({
@@ -17,6 +20,7 @@ export const useAppStore = create<AppStore>((set) => ({
   activeView: 'dashboard',
   sidebarCollapsed: false,
   searchQuery: '',
+  reportCurrency: 'USD',
 
   setSelectedAccount: (id) =>
     set({ selectedAccountId: id, activeView: 'account' }),
@@ -25,4 +29,5 @@ export const useAppStore = create<AppStore>((set) => ({
   toggleSidebar: () =>
     set((s) => ({ sidebarCollapsed: !s.sidebarCollapsed })),
   setSearchQuery: (q) => set({ searchQuery: q }),
+  setReportCurrency: (currency) => set({ reportCurrency: currency }),
 }));
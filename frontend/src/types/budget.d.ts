@@ -0,0 +1,13 @@
+import type { Budget } from './index';
+
+/** Every period of the budget as `{ from, to }`, both dates included */
+export function budgetPeriods(budget: Pick<Budget, 'numPeriods' | 'recurrence'>): { from: string; to: string }[];
+
+/** Index of the period containing `date`, or -1 outside the budget */
+export function budgetPeriodIndex(budget: Pick<Budget, 'numPeriods' | 'recurrence'>, date: string): number;
+
+/**
+ * Budgeted amount for some accounts between two dates (both included),
+ * prorated by day for partly covered periods; null when nothing is budgeted
+ */
+export function budgetAmount(budget: Budget, accountIds: Iterable<string>, from: string, to: string): number | null;
@@ -0,0 +1,87 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Budget periods
+//
+// A GnuCash budget has `numPeriods` consecutive periods laid out by its
+// recurrence (e.g. 12 periods of one month from 2025-01-01), and an amount
+// per account per period. Plain JavaScript so the backend can share it, like
+// validation.js; see budget.d.ts for the typed signatures. Dates are
+// "YYYY-MM-DD" strings and the arithmetic is done in UTC.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DAY_MS = 86_400_000;
+
+function toDate(str) {
+  const [y, m, d] = str.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toStr(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Days from `from` to `to`, both included */
+function daysBetween(from, to) {
+  return Math.round((toDate(to) - toDate(from)) / DAY_MS) + 1;
+}
+
+/** Start of the `n`-th period (n = numPeriods gives the day after the last one) */
+function periodStart(recurrence, n) {
+  const start = toDate(recurrence.start);
+  const mult = Math.max(1, recurrence.mult || 1);
+  switch (recurrence.periodType) {
+    case 'day':
+      start.setUTCDate(start.getUTCDate() + n * mult);
+      return toStr(start);
+    case 'week':
+      start.setUTCDate(start.getUTCDate() + n * mult * 7);
+      return toStr(start);
+  }
+  // Month-based periods (a year is twelve months); a start on the 31st
+  // lands on the last day of shorter months
+  const months = n * mult * (recurrence.periodType === 'year' ? 12 : 1);
+  const y = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + months) / 12);
+  const m = (start.getUTCMonth() + months) % 12;
+  const last = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  const day = recurrence.periodType === 'end of month' ? last : Math.min(start.getUTCDate(), last);
+  return toStr(new Date(Date.UTC(y, m, day)));
+}
+
+/** Every period of the budget as `{ from, to }`, both dates included */
+export function budgetPeriods(budget) {
+  const periods = [];
+  let from = periodStart(budget.recurrence, 0);
+  for (let i = 0; i < budget.numPeriods; i++) {
+    const next = periodStart(budget.recurrence, i + 1);
+    const to = new Date(toDate(next) - DAY_MS);
+    periods.push({ from, to: toStr(to) });
+    from = next;
+  }
+  return periods;
+}
+
+/** Index of the period containing `date`, or -1 outside the budget */
+export function budgetPeriodIndex(budget, date) {
+  return budgetPeriods(budget).findIndex((p) => p.from <= date && date <= p.to);
+}
+
+/**
+ * Budgeted amount for some accounts between two dates (both included).
+ * Periods that only partly overlap the range count in proportion to the days
+ * they share with it, so a monthly column of a quarterly budget gets about a
+ * third of the quarter. Null when none of the accounts has an amount in any
+ * period overlapping the range, so "no budget" can be told apart from 0.
+ */
+export function budgetAmount(budget, accountIds, from, to) {
+  let total = null;
+  budgetPeriods(budget).forEach((p, i) => {
+    const start = p.from > from ? p.from : from;
+    const end = p.to < to ? p.to : to;
+    if (start > end) return;
+    const share = daysBetween(start, end) / daysBetween(p.from, p.to);
+    for (const id of accountIds) {
+      const amount = budget.amounts[id]?.[i];
+      if (amount != null) total = (total ?? 0) + amount * share;
+    }
+  });
+  return total;
+}
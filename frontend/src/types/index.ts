@@ -12,11 +12,14 @@ export interface Split {
 
 export interface Transaction {
   id: string;
+  num: string;
   description: string;
   datePosted: string;
   dateEntered: string;
   notes: string;
   currency: string;
+  /** Scheduled transaction this one was created from, if any */
+  scheduledId?: string | null;
   splits: Split[];
 }
 
@@ -25,9 +28,25 @@ export interface Account {
   name: string;
   type: AccountType;
   parentId: string | null;
+  code: string;
   description: string;
+  notes: string;
   placeholder: boolean;
   hidden: boolean;
+  /** Commodity the account is denominated in — an ISO code for currency accounts, a ticker for STOCK/MUTUAL */
+  commodity: string;
+  /** 'CURRENCY' for money, otherwise the exchange namespace (NASDAQ, FUND, …) */
+  commoditySpace: string;
+  /** Smallest commodity unit (100 for cents, 10000 for 4-decimal shares) */
+  commodityScu: number;
+}
+
+export interface Commodity {
+  space: string;
+  id: string;
+  name: string;
+  xcode: string;
+  fraction: number;
 }
 
 export type AccountType =
@@ -45,15 +64,119 @@ export type AccountType =
   | 'RECEIVABLE'
   | 'PAYABLE';
 
+/** A quote from the GnuCash price database: 1 `commodity` = `value` `currency` */
+export interface Price {
+  id: string;
+  commodity: string;
+  commoditySpace: string;
+  currency: string;
+  date: string;
+  source: string;
+  type: string;
+  value: number;
+}
+
+export type RecurrencePeriod =
+  | 'once'
+  | 'day'
+  | 'week'
+  | 'month'
+  | 'end of month'
+  | 'nth weekday'
+  | 'last weekday'
+  | 'year';
+
+/** One GnuCash recurrence: every `mult` periods, anchored on `start` */
+export interface Recurrence {
+  mult: number;
+  periodType: RecurrencePeriod;
+  start: string;
+  weekendAdjust: 'none' | 'back' | 'forward';
+}
+
+/** A template split: positive amounts are debits, negative amounts credits */
+export interface TemplateSplit {
+  id: string;
+  accountId: string;
+  amount: number;
+  memo: string;
+  /** Formulas as GnuCash stores them; kept verbatim unless the amount is edited */
+  debitFormula?: string;
+  creditFormula?: string;
+}
+
+export interface TemplateTransaction {
+  id: string;
+  description: string;
+  currency: string;
+  num: string;
+  notes: string;
+  splits: TemplateSplit[];
+}
+
+export interface ScheduledTransaction {
+  id: string;
+  name: string;
+  enabled: boolean;
+  autoCreate: boolean;
+  autoCreateNotify: boolean;
+  advanceCreateDays: number;
+  advanceRemindDays: number;
+  /** Number of transactions created so far */
+  instanceCount: number;
+  startDate: string;
+  lastDate: string | null;
+  endDate: string | null;
+  /** Total occurrences (0 = unlimited) and how many are left */
+  numOccur: number;
+  remOccur: number;
+  templateAccountId: string;
+  recurrences: Recurrence[];
+  templates: TemplateTransaction[];
+  nextDate: string | null;
+}
+
+/** A due occurrence returned by the Since Last Run preview */
+export interface ScheduledInstance {
+  scheduledId: string;
+  name: string;
+  date: string;
+  /** Set when the occurrence can't be created here (e.g. needs an exchange rate) */
+  error: string | null;
+  transaction: Transaction;
+}
+
+/** A GnuCash budget: an amount per account for each of `numPeriods` periods */
+export interface Budget {
+  id: string;
+  name: string;
+  description: string;
+  numPeriods: number;
+  /** Lays out the periods: period 0 starts on `recurrence.start` */
+  recurrence: Recurrence;
+  /** Per account, one entry per period; null where the period has no amount */
+  amounts: Record<string, (number | null)[]>;
+  /** Envelope budgeting: what is left of (or over) a month's budget carries into the next month */
+  rollover: boolean;
+}
+
 export interface GnuCashData {
   accounts: Account[];
   transactions: Transaction[];
+  commodities: Commodity[];
+  prices: Price[];
+  scheduled: ScheduledTransaction[];
+  budgets: Budget[];
+  /** Book home currency — the commodity of the root account */
+  defaultCurrency: string;
 }
 
 export interface AccountNode extends Account {
   children: AccountNode[];
   balance: number;
   totalBalance: number;
+  /** Last statement reconciliation, if the account has ever been reconciled */
+  reconciled: { lastDate: string | null; balance: number } | null;
 }
 
 export type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'bimonthly' | 'quarterly';
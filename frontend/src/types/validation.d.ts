@@ -0,0 +1,27 @@
+import type { Account, Transaction } from './index';
+
+type TransactionInput = Pick<Transaction, 'description' | 'datePosted' | 'currency' | 'splits'> &
+  Partial<Pick<Transaction, 'num' | 'notes'>>;
+
+/** Decimal places of an ISO currency's smallest unit (2 for USD, 0 for JPY) */
+export function currencyDecimals(code: string): number;
+
+/** Sum of the split values in the currency's smallest unit; 0 when balanced */
+export function transactionImbalance(txn: Pick<Transaction, 'currency' | 'splits'>): number;
+
+/** Problems that would stop the server saving `txn`; empty when it is valid */
+export function transactionErrors(
+  txn: TransactionInput,
+  accounts: Account[],
+  options?: { allowImbalance?: boolean },
+): string[];
+
+/** Whether an account of `childType` may sit directly under one of `parentType` */
+export function accountTypesCompatible(parentType: string, childType: string): boolean;
+
+/** Problems that would stop the server saving `account`; empty when it is valid */
+export function accountErrors(
+  account: Pick<Account, 'id' | 'name' | 'type' | 'parentId'> &
+    Partial<Pick<Account, 'code' | 'description' | 'notes' | 'placeholder' | 'hidden'>>,
+  accounts: Account[],
+): string[];
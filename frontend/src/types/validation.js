@@ -0,0 +1,167 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Transaction and account validation
+//
+// Plain JavaScript so the backend (Node, no build step) can import it too:
+// the rules the browser checks before saving are the ones the API enforces.
+// The shapes are the Transaction / Split / Account interfaces in ./index.ts;
+// see validation.d.ts for the typed signatures.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const RECONCILED_STATES = ['n', 'c', 'y'];
+
+/** Smallest unit of an ISO currency, as a number of decimals (2 for USD, 0 for JPY) */
+export function currencyDecimals(code) {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: code })
+      .resolvedOptions().maximumFractionDigits;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Sum of the split values, rounded to the transaction currency's smallest
+ * unit. A balanced transaction has an imbalance of 0.
+ */
+export function transactionImbalance(txn) {
+  const factor = 10 ** currencyDecimals(txn.currency);
+  const units = txn.splits.reduce((sum, s) => sum + Math.round(Number(s.value) * factor), 0);
+  return units / factor;
+}
+
+function isFiniteNumber(n) {
+  return typeof n === 'number' && Number.isFinite(n);
+}
+
+/**
+ * Everything wrong with a transaction, as messages fit to show the user;
+ * empty when it can be saved. `accounts` is the book's account list.
+ * The transaction must balance unless `allowImbalance` is set (the caller
+ * is about to balance it).
+ */
+export function transactionErrors(txn, accounts, { allowImbalance = false } = {}) {
+  if (!txn || typeof txn !== 'object') return ['The transaction must be an object'];
+  const errors = [];
+
+  if (typeof txn.description !== 'string') errors.push('description must be a string');
+  if (!DATE_RE.test(txn.datePosted ?? '')) errors.push('datePosted must be YYYY-MM-DD');
+  if (!/^[A-Z]{3}$/.test(txn.currency ?? '')) errors.push('currency must be a three-letter ISO code');
+  for (const key of ['num', 'notes']) {
+    if (txn[key] != null && typeof txn[key] !== 'string') errors.push(`${key} must be a string`);
+  }
+  if (!Array.isArray(txn.splits) || txn.splits.length === 0) {
+    errors.push('A transaction needs at least one split');
+    return errors;
+  }
+
+  const accountsById = new Map(accounts.map((a) => [a.id, a]));
+  const seen = new Set();
+  txn.splits.forEach((s, i) => {
+    const where = `Split ${i + 1}`;
+    if (!s || typeof s !== 'object') { errors.push(`${where} must be an object`); return; }
+    if (typeof s.id !== 'string' || !s.id) errors.push(`${where} has no id`);
+    else if (seen.has(s.id)) errors.push(`${where} repeats split id ${s.id}`);
+    seen.add(s.id);
+
+    const account = accountsById.get(s.accountId);
+    if (!account) errors.push(`${where} refers to unknown account ${s.accountId ?? '(none)'}`);
+    else if (account.type === 'ROOT') errors.push(`${where} is posted to the root account`);
+    else if (account.placeholder) errors.push(`${where} is posted to "${account.name}", a placeholder account`);
+
+    if (!isFiniteNumber(s.value)) errors.push(`${where} value must be a number`);
+    if (!isFiniteNumber(s.quantity)) errors.push(`${where} quantity must be a number`);
+    else if (account && isFiniteNumber(s.value) && account.commoditySpace === 'CURRENCY'
+      && account.commodity === txn.currency && Math.abs(s.value - s.quantity) > 1e-9) {
+      errors.push(`${where} is in ${txn.currency}, so its quantity must equal its value`);
+    }
+    if (s.reconciledState != null && !RECONCILED_STATES.includes(s.reconciledState)) {
+      errors.push(`${where} reconciledState must be 'n', 'c' or 'y'`);
+    }
+    if (s.reconcileDate != null && !DATE_RE.test(s.reconcileDate)) {
+      errors.push(`${where} reconcileDate must be YYYY-MM-DD`);
+    }
+    for (const key of ['memo', 'action']) {
+      if (s[key] != null && typeof s[key] !== 'string') errors.push(`${where} ${key} must be a string`);
+    }
+  });
+
+  if (!allowImbalance && !errors.length) {
+    const imbalance = transactionImbalance(txn);
+    if (imbalance !== 0) {
+      errors.push(`The splits don't balance: they are off by ${imbalance.toFixed(currencyDecimals(txn.currency))} ${txn.currency}`);
+    }
+  }
+  return errors;
+}
+
+// ─── Accounts ─────────────────────────────────────────────────────────────────
+
+// GnuCash only nests accounts of the same family (xaccParentAccountTypesCompatibleWith):
+// balance-sheet accounts among themselves, income with expense, equity and
+// trading each on their own. Any of them can sit at the top level.
+const ACCOUNT_FAMILIES = {
+  BANK: 'balance', CASH: 'balance', ASSET: 'balance', STOCK: 'balance', MUTUAL: 'balance',
+  CURRENCY: 'balance', CREDIT: 'balance', LIABILITY: 'balance', RECEIVABLE: 'balance', PAYABLE: 'balance',
+  INCOME: 'income', EXPENSE: 'income',
+  EQUITY: 'equity',
+  TRADING: 'trading',
+};
+
+function withArticle(type) {
+  return `${/^[AEIOU]/.test(type) ? 'An' : 'A'} ${type}`;
+}
+
+/** Whether an account of `childType` may sit directly under one of `parentType` */
+export function accountTypesCompatible(parentType, childType) {
+  if (!ACCOUNT_FAMILIES[childType]) return false;
+  return parentType === 'ROOT' || ACCOUNT_FAMILIES[parentType] === ACCOUNT_FAMILIES[childType];
+}
+
+/**
+ * Everything wrong with an account as it would be saved, as messages fit to
+ * show the user; empty when it can be saved. `accounts` is the book's account
+ * list, which may still hold the account as it was. Top-level accounts have
+ * the root as their parent.
+ */
+export function accountErrors(account, accounts) {
+  if (!account || typeof account !== 'object') return ['The account must be an object'];
+  const errors = [];
+
+  if (typeof account.name !== 'string' || !account.name.trim()) errors.push('name is required');
+  if (!ACCOUNT_FAMILIES[account.type]) errors.push(`${account.type ?? '(none)'} is not an account type`);
+  for (const key of ['code', 'description', 'notes']) {
+    if (account[key] != null && typeof account[key] !== 'string') errors.push(`${key} must be a string`);
+  }
+  for (const key of ['placeholder', 'hidden']) {
+    if (account[key] != null && typeof account[key] !== 'boolean') errors.push(`${key} must be true or false`);
+  }
+
+  const accountsById = new Map(accounts.map((a) => [a.id, a]));
+  const parent = accountsById.get(account.parentId);
+  if (!parent) {
+    errors.push(`Unknown parent account ${account.parentId ?? '(none)'}`);
+  } else {
+    const seen = new Set();
+    for (let a = parent; a && !seen.has(a.id); a = accountsById.get(a.parentId)) {
+      seen.add(a.id);
+      if (a.id === account.id) {
+        errors.push(a === parent
+          ? `"${account.name}" can't be its own parent`
+          : `"${account.name}" can't move under its own sub-account "${parent.name}"`);
+        break;
+      }
+    }
+    if (ACCOUNT_FAMILIES[account.type] && !accountTypesCompatible(parent.type, account.type)) {
+      errors.push(`${withArticle(account.type)} account can't go under "${parent.name}" (${parent.type})`);
+    }
+  }
+
+  if (ACCOUNT_FAMILIES[account.type]) {
+    const misfits = accounts.filter((a) => a.parentId === account.id && !accountTypesCompatible(account.type, a.type));
+    if (misfits.length) {
+      errors.push(`${withArticle(account.type)} account can't hold its sub-accounts ${misfits.map((a) => `"${a.name}" (${a.type})`).join(', ')}`);
+    }
+  }
+  return errors;
+}